@@ -0,0 +1,76 @@
+/**
+ * Tests for /api/admin/audit
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import type { AuditEntry } from "@/lib/audit";
+
+const TOKEN = "test-admin-token";
+
+let GET: (req: Request) => Promise<Response>;
+let audit: typeof import("@/lib/audit");
+let logger: typeof import("@/lib/logger");
+
+function auditRequest(query: string, token = TOKEN): Request {
+  return new Request(`http://localhost/api/admin/audit${query}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+beforeAll(async () => {
+  vi.stubEnv("ADMIN_BEARER_TOKEN", TOKEN);
+  vi.stubEnv("API_KEYS", "");
+  vi.stubEnv("AUDIT_STORE", "memory");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  // config.ts reads env at import time
+  vi.resetModules();
+  ({ GET } = await import("./route"));
+  audit = await import("@/lib/audit");
+  logger = await import("@/lib/logger");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("GET /api/admin/audit", () => {
+  it("rejects a wrong token", async () => {
+    const res = await GET(auditRequest("?traceId=abc", "nope"));
+    expect(res.status).toBe(401);
+  });
+
+  it("requires traceId", async () => {
+    const res = await GET(auditRequest(""));
+    expect(res.status).toBe(400);
+  });
+
+  it("returns the writes made under one trace ID, oldest first", async () => {
+    for (const traceId of ["trace-wanted-1", "trace-other-1"]) {
+      await logger.runWithLogContext({ traceId, route: "/api/generate-doc", keyName: "automation" }, () =>
+        audit.recordAudit([
+          { action: "drive.copy", system: "drive", recordId: "doc1", sourceId: "tpl1", before: null, after: { name: "Brief" } },
+          { action: "drive.rename", system: "drive", recordId: "doc1", before: { name: "Brief" }, after: { name: "Acme Brief" } },
+        ])
+      );
+    }
+
+    const res = await GET(auditRequest("?traceId=trace-wanted-1"));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ ok: true, traceId: "trace-wanted-1", count: 2 });
+    expect(body.entries.map((e: AuditEntry) => e.action)).toEqual(["drive.copy", "drive.rename"]);
+    expect(body.entries[1]).toMatchObject({
+      traceId: "trace-wanted-1",
+      route: "/api/generate-doc",
+      keyName: "automation",
+      before: { name: "Brief" },
+      after: { name: "Acme Brief" },
+    });
+  });
+});
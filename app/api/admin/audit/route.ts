@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { auditTimeline } from "@/lib/audit";
+import { logger, withRequestContext } from "@/lib/logger";
+
+/**
+ * GET /api/admin/audit?traceId=<trace ID>
+ *
+ * Every Airtable and Drive write made under one trace ID (lib/audit.ts),
+ * oldest first: record creates, updates and deletes with their before and
+ * after values, Drive copies and renames, each with the route, API key name
+ * and job ID. The trace ID is the x-trace-id header of the request's
+ * response, and is written to the records it created.
+ *
+ * Auth: API key with scope "admin" (e.g. Authorization: Bearer <ADMIN_BEARER_TOKEN>)
+ */
+
+async function handleGet(req: Request) {
+  const authCheck = authenticate(req, "admin");
+  if (!authCheck.ok) {
+    return NextResponse.json({ ok: false, error: authCheck.reason }, { status: authCheck.status });
+  }
+
+  const rateLimit = await checkRateLimit("/api/admin/audit", authCheck.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, error: rateLimit.reason },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const traceId = new URL(req.url).searchParams.get("traceId")?.trim();
+  if (!traceId) {
+    return NextResponse.json({ ok: false, error: "traceId query parameter is required" }, { status: 400 });
+  }
+
+  try {
+    const entries = await auditTimeline(traceId);
+    logger.info("AUDIT_QUERY", { queriedTraceId: traceId, entries: entries.length });
+    return NextResponse.json({ ok: true, traceId, count: entries.length, entries });
+  } catch (err: any) {
+    logger.error("AUDIT_QUERY_FAILED", { queriedTraceId: traceId, error: err?.message ?? String(err) });
+    return NextResponse.json({ ok: false, error: err?.message ?? "Audit log read failed" }, { status: 500 });
+  }
+}
+
+export const GET = withRequestContext("/api/admin/audit", handleGet);
@@ -0,0 +1,83 @@
+/**
+ * Tests for /api/admin/config-status
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+const TOKEN = "test-admin-token";
+
+let GET: (req: Request) => Promise<Response>;
+let fingerprint: (value: string) => string;
+
+function statusRequest(token = TOKEN): Request {
+  return new Request("http://localhost/api/admin/config-status", {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+beforeAll(async () => {
+  vi.stubEnv("ADMIN_BEARER_TOKEN", TOKEN);
+  vi.stubEnv("AIRTABLE_API_KEY", "patSECRETVALUE");
+  vi.stubEnv("AIRTABLE_OS_BASE_ID", "appOSTEST");
+  vi.stubEnv("AIRTABLE_OS_TABLE_COMPANIES", "Companies");
+  vi.stubEnv("AIRTABLE_OS_TABLE_OPPORTUNITIES", "Opportunities");
+  vi.stubEnv("AIRTABLE_OS_TABLE_INBOX_ITEMS", "");
+  vi.stubEnv("HIVE_INBOUND_EMAIL_SECRET", "inbox-secret");
+  vi.stubEnv("GAS_WEB_APP_URL", "not-a-url");
+  for (const name of ["API_KEYS", "PM_INTAKE_BEARER_TOKEN", "PM_INTAKE_TOKEN", "HIVE_INBOUND_SECRET", "PM_INTAKE_SHARED_SECRET", "AIRTABLE_PROXY_SECRET"]) {
+    vi.stubEnv(name, "");
+  }
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  // config.ts reads env at import time
+  vi.resetModules();
+  ({ GET } = await import("./route"));
+  // Same module instance as the route, so the same fingerprint key
+  ({ fingerprint } = await import("@/lib/secrets"));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("GET /api/admin/config-status", () => {
+  it("rejects a wrong token", async () => {
+    const res = await GET(statusRequest("nope"));
+    expect(res.status).toBe(401);
+  });
+
+  it("reports disabled features, missing variables and API keys with secrets redacted", async () => {
+    const res = await GET(statusRequest());
+    const text = await res.text();
+    const body = JSON.parse(text);
+
+    expect(res.status).toBe(200);
+    expect(text).not.toContain("patSECRETVALUE");
+    expect(text).not.toContain("inbox-secret");
+    expect(body.disabled).toContain("inboxEmail");
+    expect(body.features.find((f: { feature: string }) => f.feature === "inboxEmail")).toMatchObject({
+      enabled: false,
+      missing: ["AIRTABLE_OS_TABLE_INBOX_ITEMS"],
+    });
+    expect(body.apiKeys).toContainEqual({
+      name: "inbox-email",
+      scopes: ["inbox:email"],
+      source: "HIVE_INBOUND_EMAIL_SECRET",
+      secrets: [{ fingerprint: fingerprint("inbox-secret"), expired: false, uses: 0 }],
+    });
+    expect(body.scopesWithoutKeys).toEqual([
+      "intake:write",
+      "docs:generate",
+      "drive:folders",
+      "inbound:gmail",
+      "inbound:company",
+    ]);
+    expect(body.invalid).toEqual([
+      { name: "GAS_WEB_APP_URL", set: false, secret: false, invalid: "Invalid url" },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { configReport } from "@/lib/config";
+import { authenticate, listApiKeys, scopesWithoutKeys } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { logger, withRequestContext } from "@/lib/logger";
+
+/**
+ * GET /api/admin/config-status
+ *
+ * Reports which features (lib/config.ts FEATURES) are enabled. For each
+ * feature that is disabled, lists the environment variables it is missing.
+ * Every variable the feature reads is listed, and secrets show only whether
+ * they are set. Values that failed validation are listed under `invalid`.
+ * `apiKeys` lists key names and scopes (lib/auth.ts), with each accepted
+ * value's fingerprint, expiry and last use on this instance, and
+ * `scopesWithoutKeys` lists scopes that no key grants.
+ *
+ * Auth: API key with scope "admin" (e.g. Authorization: Bearer <ADMIN_BEARER_TOKEN>)
+ */
+
+async function handleGet(req: Request) {
+  const authCheck = authenticate(req, "admin");
+  if (!authCheck.ok) {
+    return NextResponse.json({ ok: false, error: authCheck.reason }, { status: authCheck.status });
+  }
+
+  const rateLimit = await checkRateLimit("/api/admin/config-status", authCheck.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, error: rateLimit.reason },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const report = configReport();
+
+  logger.info("CONFIG_STATUS", {
+    disabled: report.disabled,
+    invalid: report.invalid.map((v) => v.name),
+    scopesWithoutKeys: scopesWithoutKeys(),
+  });
+
+  return NextResponse.json({
+    ok: true,
+    ...report,
+    apiKeys: listApiKeys(),
+    scopesWithoutKeys: scopesWithoutKeys(),
+  });
+}
+
+export const GET = withRequestContext("/api/admin/config-status", handleGet);
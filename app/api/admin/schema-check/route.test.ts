@@ -0,0 +1,118 @@
+/**
+ * Offline tests for /api/admin/schema-check against the Airtable emulator.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { AirtableEmulator } from "@/lib/airtable-emulator";
+import type { AirtableTableMetadata } from "@/lib/airtable";
+import type { BaseSchema } from "@/lib/airtable-schema";
+
+const BASE = "appOSTEST";
+const TOKEN = "test-admin-token";
+
+const emulator = new AirtableEmulator();
+let server: { url: string; close: () => Promise<void> };
+let GET: (req: Request) => Promise<Response>;
+let osSchema: BaseSchema;
+
+function checkRequest(token = TOKEN): Request {
+  return new Request("http://localhost/api/admin/schema-check", {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+/** Metadata that matches the registry exactly: one table per logical table. */
+function matchingMetadata(): AirtableTableMetadata[] {
+  const ids = Object.fromEntries(Object.keys(osSchema.tables).map((key) => [key, `tbl_${key}`]));
+  return Object.entries(osSchema.tables).map(([key, table]) => ({
+    id: ids[key],
+    name: table.name,
+    primaryFieldId: `fld_${key}_0`,
+    fields: Object.entries(table.fields).map(([fieldKey, field]) => ({
+      id: `fld_${key}_${fieldKey}`,
+      name: field.name,
+      type: field.type ?? "singleLineText",
+      ...(field.linkedTable ? { options: { linkedTableId: ids[field.linkedTable] } } : {}),
+    })),
+  }));
+}
+
+beforeAll(async () => {
+  server = await emulator.listen();
+  vi.stubEnv("AIRTABLE_API_URL", server.url);
+  vi.stubEnv("AIRTABLE_API_KEY", "keyTEST");
+  vi.stubEnv("ADMIN_BEARER_TOKEN", TOKEN);
+  vi.stubEnv("AIRTABLE_OS_BASE_ID", BASE);
+  vi.stubEnv("AIRTABLE_OS_TABLE_COMPANIES", "Companies");
+  vi.stubEnv("AIRTABLE_OS_TABLE_OPPORTUNITIES", "Opportunities");
+  vi.stubEnv("AIRTABLE_OS_TABLE_INBOX_ITEMS", "Inbox Items");
+  // Only the OS base is configured; the others are reported as skipped
+  for (const name of ["AIRTABLE_BASE_ID", "CLIENT_PM_OS_BASE_ID", "HIVE_OS_BASE_ID", "OWNER_DIRECTORY_BASE_ID", "AIRTABLE_INBOUND_BASE_ID"]) {
+    vi.stubEnv(name, "");
+  }
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  // config.ts and schema.ts read env at import time
+  vi.resetModules();
+  ({ GET } = await import("./route"));
+  osSchema = (await import("@/lib/schema")).getSchema().base("os");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await server.close();
+});
+
+beforeEach(() => {
+  emulator.reset();
+});
+
+describe("GET /api/admin/schema-check (emulated Airtable)", () => {
+  it("rejects a wrong token", async () => {
+    const res = await GET(checkRequest("nope"));
+    expect(res.status).toBe(401);
+  });
+
+  it("passes when the base matches the registry", async () => {
+    emulator.defineSchema(BASE, matchingMetadata());
+
+    const body = await (await GET(checkRequest())).json();
+
+    expect(body.ok).toBe(true);
+    const os = body.bases.find((b: { base: string }) => b.base === "os");
+    expect(os).toMatchObject({ status: "ok", issues: [] });
+    expect(os.links).toContainEqual({ path: "inboxItem.opportunity", table: "Opportunities" });
+    expect(body.bases.find((b: { base: string }) => b.base === "inbound")).toMatchObject({ status: "skipped" });
+  });
+
+  it("reports renamed fields, retyped links and wrong link targets", async () => {
+    const metadata = matchingMetadata();
+    const [companies, opportunities, inboxItems] = metadata;
+    companies.fields.find((f) => f.name === "Normalized Domain")!.name = "Domain (normalized)";
+    opportunities.fields.find((f) => f.name === "Company")!.options = { linkedTableId: inboxItems.id };
+    Object.assign(inboxItems.fields.find((f) => f.name === "Opportunity")!, { type: "singleLineText", options: undefined });
+    emulator.defineSchema(BASE, metadata);
+
+    const body = await (await GET(checkRequest())).json();
+    const os = body.bases.find((b: { base: string }) => b.base === "os");
+
+    expect(body.ok).toBe(false);
+    expect(os.status).toBe("issues");
+    expect(os.issues.map((i: { kind: string; path: string }) => `${i.kind} ${i.path}`)).toEqual([
+      "missing_field company.normalizedDomain",
+      "link_mismatch opportunity.company",
+      "type_mismatch inboxItem.opportunity",
+    ]);
+  });
+
+  it("reports a base whose metadata cannot be read", async () => {
+    const body = await (await GET(checkRequest())).json();
+
+    expect(body.ok).toBe(false);
+    expect(body.bases.find((b: { base: string }) => b.base === "os")).toMatchObject({ status: "error" });
+  });
+});
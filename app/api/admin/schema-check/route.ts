@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { runSchemaCheck } from "@/lib/schema-check";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { logger, withRequestContext } from "@/lib/logger";
+
+/**
+ * GET /api/admin/schema-check
+ *
+ * Compares every configured base (Client PM OS, HIVE OS, OS, inbound) against
+ * the fields this service reads and writes (lib/schema.ts), via the Airtable
+ * metadata API. Reports missing tables and fields, type mismatches and where
+ * each linked-record field points. Same check as `npm run schema:check`.
+ *
+ * Auth: API key with scope "admin" (e.g. Authorization: Bearer <ADMIN_BEARER_TOKEN>)
+ * Returns 200 with the report; `ok` is false when any base has issues or
+ * could not be read.
+ */
+
+async function handleGet(req: Request) {
+  const authCheck = authenticate(req, "admin");
+  if (!authCheck.ok) {
+    return NextResponse.json({ ok: false, error: authCheck.reason }, { status: authCheck.status });
+  }
+
+  const rateLimit = await checkRateLimit("/api/admin/schema-check", authCheck.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, error: rateLimit.reason },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const report = await runSchemaCheck();
+
+    logger.info("SCHEMA_CHECK", {
+      ok: report.ok,
+      bases: report.bases.map((b) => ({ base: b.base, status: b.status, issues: b.issues.length })),
+    });
+
+    return NextResponse.json(report);
+  } catch (err: any) {
+    logger.error("SCHEMA_CHECK_ERROR", { error: err?.message ?? String(err) });
+    return NextResponse.json({ ok: false, error: err?.message ?? "Schema check failed" }, { status: 500 });
+  }
+}
+
+export const GET = withRequestContext("/api/admin/schema-check", handleGet);
@@ -8,6 +8,14 @@ import {
   resolveProjectIds,
 } from "@/lib/projectMapping";
 import { config } from "@/lib/config";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { checkAsyncJobs, defineJob, enqueueJob, isAsyncRequest, jobStatusUrl } from "@/lib/jobs";
+import { completedPayload, notifyJobCallbacks, parseCallbacks, queueCallbacks, type CallbackTarget } from "@/lib/callbacks";
+import { getSchema } from "@/lib/schema";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { trackCall } from "@/lib/metrics";
+import { newTraceId } from "@/lib/trace";
 
 /**
  * Proxy endpoint for Google Apps Script Web App.
@@ -18,7 +26,7 @@ import { config } from "@/lib/config";
  * - This server-side proxy follows the redirect and returns the response directly
  *
  * AUTHENTICATION:
- * Requires one of these headers:
+ * API key with scope "drive:folders" (lib/auth.ts), in one of these headers:
  *   - x-api-key: <AIRTABLE_PROXY_SECRET>
  *   - Authorization: Bearer <AIRTABLE_PROXY_SECRET>
  *
@@ -27,6 +35,19 @@ import { config } from "@/lib/config";
  *   AIRTABLE_PROXY_SECRET = your-secure-random-secret
  *   GOOGLE_APPS_SCRIPT_CREATE_PROJECT_FOLDER_URL = https://script.google.com/macros/s/YOUR_DEPLOYMENT_ID/exec
  *
+ * ASYNC:
+ * With ?async=1 (or "async": true) the request is validated, then answered
+ * with 202 { jobId, status_url }; the Apps Script call runs as a job with
+ * retries (lib/jobs.ts). Poll GET /api/jobs/:id for the Apps Script result.
+ * Needs a durable JOB_STORE; 400 otherwise.
+ *
+ * CALLBACKS:
+ * "callbackUrl" and/or "callbackAirtable" (lib/callbacks.ts) are notified
+ * once the folder exists or creation failed, sync or async.
+ * "callbackAirtable": true patches the project record's Folder Status
+ * ("created" / "error"), Folder Error, Drive Folder ID and Drive Folder URL,
+ * the fields scripts/airtable-create-project-folder.js used to write itself.
+ *
  * DEPLOYMENT STEPS:
  * 1. Deploy your Apps Script as a web app (Execute as: Me, Access: Anyone)
  * 2. Copy the deployment URL
@@ -42,14 +63,14 @@ const TEMPLATE_FOLDER_ID = "1l2Ksbkoomy7OmuHgrAFM0_r-d9UJgQq4";
 const DEFAULT_CLIENTS_ROOT_FOLDER_ID = "1BzSDyj4xNT36qJKckPOoxifYZH4mcPQo";
 
 function getAppsScriptUrl(): string {
-  const envUrl = process.env.GOOGLE_APPS_SCRIPT_CREATE_PROJECT_FOLDER_URL;
-  if (!envUrl || envUrl.trim() === "") {
+  const envUrl = config.createProjectFolderScriptUrl;
+  if (!envUrl) {
     throw new Error(
       "GOOGLE_APPS_SCRIPT_CREATE_PROJECT_FOLDER_URL is not set. " +
       "Set it in Vercel to: https://script.google.com/macros/s/<DEPLOYMENT_ID>/exec"
     );
   }
-  return envUrl.trim();
+  return envUrl;
 }
 
 function truncate(str: string, maxLen: number): string {
@@ -69,73 +90,141 @@ function redactUrl(url: string): string {
   return url;
 }
 
+type FolderPayload = {
+  clientPmProjectRecordId: string;
+  recordId: string; // legacy — GAS uses this internally
+  projectName: string;
+  templateFolderId: string;
+  parentFolderId?: string;
+  clientName?: string;
+  clientsRootFolderId?: string;
+  /** The request's trace ID (lib/trace.ts), for the script's own logs */
+  traceId: string;
+};
+
+// Defaults for "callbackAirtable" on the Projects record
+const FOLDER_CALLBACK_FIELDS = {
+  "Folder Status": "status",
+  "Folder Error": "error",
+  "Drive Folder ID": "result.folderId",
+  "Drive Folder URL": "result.folderUrl",
+};
+
+type AppsScriptResult =
+  | { ok: true; status: number; data: unknown }
+  | { ok: false; error: string; debug: Record<string, unknown> };
+
 /**
- * Validate auth header - supports x-api-key or Bearer token
- * Does NOT log the secret value
+ * Forwards the payload to Google Apps Script, following redirects, and
+ * parses the JSON it returns.
  */
-function checkAuth(req: Request): { ok: true; method: string } | { ok: false; error: string; debug: Record<string, unknown> } {
-  const expectedSecret = (process.env.AIRTABLE_PROXY_SECRET || "").trim();
-  const apiKey = req.headers.get("x-api-key");
-  const authHeader = req.headers.get("authorization");
-
-  // TEMPORARY auth-debug logging — remove after diagnosing auth failures
-  console.log("[create-project-folder/auth-debug]", {
-    expectedLen: expectedSecret.length,
-    hasApiKey: !!apiKey,
-    apiKeyLen: apiKey?.length ?? 0,
-    hasAuth: !!authHeader,
-    authStartsBearer: authHeader?.startsWith("Bearer ") ?? false,
-    authLen: authHeader?.length ?? 0,
-    vercelEnv: process.env.VERCEL_ENV,
-    nodeEnv: process.env.NODE_ENV,
-    url: req.url,
-    method: req.method,
+async function callAppsScript(
+  appsScriptUrl: string,
+  payload: FolderPayload,
+  startTime: number
+): Promise<AppsScriptResult> {
+  const downstreamParsed = new URL(appsScriptUrl);
+
+  logger.info("APPS_SCRIPT_REQUEST", { url: redactUrl(appsScriptUrl), payload });
+
+  // Forward request to Google Apps Script, following redirects
+  const response = await trackCall(
+    "apps_script",
+    "create-project-folder",
+    () =>
+      fetch(appsScriptUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        redirect: "follow",
+      }),
+    (res) => !res.ok
+  );
+
+  // Get the response body as text first to handle any content type
+  const responseText = await response.text();
+  const contentType = response.headers.get("content-type") || "application/json";
+  const elapsed = Date.now() - startTime;
+
+  // A snippet always; the full body of a success at debug level
+  logger[response.ok ? "info" : "error"]("APPS_SCRIPT_RESPONSE", {
+    status: response.status,
+    contentType,
+    elapsedMs: elapsed,
+    bodySnippet: truncate(responseText, 500),
   });
+  if (response.ok) logger.debug("APPS_SCRIPT_RESPONSE_BODY", { responseBody: truncate(responseText, 2000) });
+
+  // Build debug info for error responses
+  const downstreamDebug = {
+    downstreamHost: downstreamParsed.host,
+    downstreamPathPrefix: downstreamParsed.pathname.slice(0, 40),
+    downstreamStatus: response.status,
+    downstreamContentType: contentType,
+  };
 
-  if (!expectedSecret) {
-    console.error("[create-project-folder] AIRTABLE_PROXY_SECRET not configured");
-    return { ok: false, error: "Server misconfigured: missing AIRTABLE_PROXY_SECRET", debug: { expectedLen: 0 } };
+  // If downstream returned non-OK, return structured error with debug
+  if (!response.ok) {
+    return { ok: false, error: "Downstream error", debug: downstreamDebug };
   }
 
-  // Method 1: x-api-key header
-  if (apiKey && apiKey === expectedSecret) {
-    return { ok: true, method: "x-api-key" };
+  // Try to parse as JSON if applicable
+  if (contentType.includes("application/json")) {
+    try {
+      return { ok: true, status: response.status, data: JSON.parse(responseText) };
+    } catch {
+      logger.error("APPS_SCRIPT_INVALID_JSON", { bodySnippet: truncate(responseText, 120) });
+      return { ok: false, error: "Downstream returned invalid JSON", debug: downstreamDebug };
+    }
   }
 
-  // Method 2: Authorization Bearer token
-  if (authHeader && authHeader === `Bearer ${expectedSecret}`) {
-    return { ok: true, method: "bearer" };
-  }
+  // Non-JSON response (likely HTML error page)
+  logger.error("APPS_SCRIPT_NON_JSON", { contentType, bodySnippet: truncate(responseText, 120) });
+  return { ok: false, error: "Downstream returned non-JSON response", debug: downstreamDebug };
+}
 
-  // Log auth failure (without revealing the secret)
-  console.warn("[create-project-folder] Auth failed: x-api-key=" + (apiKey ? "provided" : "missing") +
-    ", authorization=" + (authHeader ? "provided" : "missing"));
-
-  return {
-    ok: false,
-    error: "Unauthorized",
-    debug: {
-      expectedLen: expectedSecret.length,
-      apiKeyLen: apiKey?.length ?? 0,
-      hasAuth: !!authHeader,
-      authStartsBearer: authHeader?.startsWith("Bearer ") ?? false,
+/**
+ * Async mode: validation runs in the request, the Apps Script call runs as
+ * a job step with retries. Apps Script answering ok: false fails the attempt.
+ */
+const createFolderJob = defineJob<{ payload: FolderPayload; callbacks: CallbackTarget[] }>({
+  type: "create-project-folder",
+  scope: "drive:folders",
+  steps: [
+    {
+      name: "appsScript",
+      run: async ({ input }) => {
+        const result = await callAppsScript(getAppsScriptUrl(), input.payload, Date.now());
+        if (!result.ok) throw new Error(result.error);
+        const data = result.data as { ok?: boolean; error?: string } | null;
+        if (data?.ok === false) throw new Error(data.error || "Apps Script returned ok:false");
+        return data;
+      },
     },
-  };
-}
+  ],
+  result: ({ state }) => state.appsScript,
+  onSettled: notifyJobCallbacks,
+});
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   const startTime = Date.now();
 
   // Auth check first
-  const auth = checkAuth(req);
+  const auth = authenticate(req, "drive:folders");
   if (!auth.ok) {
-    console.log("[create-project-folder] Auth rejected");
     return NextResponse.json(
-      { ok: false, error: auth.error, debug: auth.debug },
-      { status: 401 }
+      { ok: false, error: auth.reason },
+      { status: auth.status }
+    );
+  }
+
+  const rateLimit = await checkRateLimit("/api/create-project-folder", auth.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, error: rateLimit.reason },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
     );
   }
-  console.log("[create-project-folder] Auth OK via", auth.method);
 
   try {
     let body: any;
@@ -159,19 +248,17 @@ export async function POST(req: Request) {
       const message =
         "hiveOsProjectRecordId cannot be used for Client PM OS automation. " +
         "Provide clientPmProjectRecordId (Client PM OS Projects record ID).";
-      console.log("[create-project-folder] Rejected: " + message);
+      logger.warn("CREATE_FOLDER_REJECTED", { error: message });
       return NextResponse.json({ ok: false, error: message }, { status: 400 });
     }
 
     const projectIdResult = validateClientPmProjectRecordId(rawClientPm);
 
     if (!projectIdResult.ok) {
-      console.log(
-        "[create-project-folder] Validation failed:",
-        projectIdResult.error,
-        "rawClientPm=",
-        rawClientPm ? "(provided)" : "(missing)"
-      );
+      logger.warn("CREATE_FOLDER_INVALID_PROJECT_ID", {
+        error: projectIdResult.error,
+        clientPmProjectRecordId: rawClientPm ? "(provided)" : "(missing)",
+      });
       return NextResponse.json(
         { ok: false, error: projectIdResult.error },
         { status: 400 }
@@ -184,7 +271,7 @@ export async function POST(req: Request) {
     if (!config.clientPmOsBaseId) {
       const message =
         "Client PM OS base not configured (CLIENT_PM_OS_BASE_ID or AIRTABLE_BASE_ID). Cannot verify project record.";
-      console.warn("[create-project-folder] " + message);
+      logger.error("CREATE_FOLDER_CONFIG_ERROR", { error: message });
       return NextResponse.json({ ok: false, error: message }, { status: 500 });
     }
 
@@ -193,7 +280,7 @@ export async function POST(req: Request) {
       const message =
         `Record ${clientPmProjectRecordId} not found in Client PM OS Projects (base ${config.clientPmOsBaseId}). ` +
         "Verify clientPmProjectRecordId is from the Client PM OS base — do not pass HIVE OS record IDs.";
-      console.log("[create-project-folder] " + message);
+      logger.warn("CREATE_FOLDER_PROJECT_NOT_FOUND", { clientPmProjectRecordId, baseId: config.clientPmOsBaseId });
       return NextResponse.json(
         { ok: false, error: message },
         { status: 400 }
@@ -219,19 +306,12 @@ export async function POST(req: Request) {
     }
 
     // Build payload for GAS — always pass clientPmProjectRecordId (never hiveOsProjectRecordId)
-    const payload: {
-      clientPmProjectRecordId: string;
-      recordId: string; // legacy — GAS uses this internally
-      projectName: string;
-      templateFolderId: string;
-      parentFolderId?: string;
-      clientName?: string;
-      clientsRootFolderId?: string;
-    } = {
+    const payload: FolderPayload = {
       clientPmProjectRecordId,
       recordId: clientPmProjectRecordId,
       projectName: projectName.trim(),
       templateFolderId: TEMPLATE_FOLDER_ID,
+      traceId: currentTraceId() ?? newTraceId(),
     };
 
     // Priority: explicit parentFolderId takes precedence over clientName routing
@@ -240,26 +320,27 @@ export async function POST(req: Request) {
     } else if (clientName && typeof clientName === "string" && clientName.trim().replace(/\s+/g, " ") !== "") {
       // Sanitize: trim and collapse multiple spaces
       const sanitizedClientName = clientName.trim().replace(/\s+/g, " ");
-      const clientsRootFolderId = process.env.CLIENTS_ROOT_FOLDER_ID || DEFAULT_CLIENTS_ROOT_FOLDER_ID;
+      const clientsRootFolderId = config.clientsRootFolderId || DEFAULT_CLIENTS_ROOT_FOLDER_ID;
       payload.clientName = sanitizedClientName;
       payload.clientsRootFolderId = clientsRootFolderId;
-      console.log("[create-project-folder] clientName routing: clientName=" + sanitizedClientName +
-        ", clientsRootFolderId=" + clientsRootFolderId);
+      logger.info("CREATE_FOLDER_CLIENT_ROUTING", { clientName: sanitizedClientName, clientsRootFolderId });
+    }
+
+    const callbacks = parseCallbacks(body, {
+      baseId: config.clientPmOsBaseId,
+      table: getSchema().table("clientPmOs", "project"),
+      recordId: clientPmProjectRecordId,
+      fields: FOLDER_CALLBACK_FIELDS,
+      statusLabels: { succeeded: "created", failed: "error" },
+    });
+    if (!callbacks.ok) {
+      return NextResponse.json({ ok: false, error: callbacks.error }, { status: callbacks.status });
     }
 
     // Get the Apps Script URL
     const appsScriptUrl = getAppsScriptUrl();
 
-    // TEMPORARY downstream-debug logging — remove after diagnosing
     const downstreamParsed = new URL(appsScriptUrl);
-    console.log("[create-project-folder/downstream-debug]", {
-      host: downstreamParsed.host,
-      pathPrefix: downstreamParsed.pathname.slice(0, 40),
-      endsWithExec: downstreamParsed.pathname.endsWith("/exec"),
-      isScriptGoogle: downstreamParsed.host === "script.google.com",
-      source: process.env.GOOGLE_APPS_SCRIPT_CREATE_PROJECT_FOLDER_URL ? "env" : "fallback",
-      vercelEnv: process.env.VERCEL_ENV,
-    });
 
     // Validate URL shape — ONLY accept public exec URL format
     // Domain-scoped (/a/macros/<domain>/s/...) returns 401 HTML — reject it
@@ -273,92 +354,51 @@ export async function POST(req: Request) {
         `Got: host=${downstreamParsed.host}, path=${downstreamParsed.pathname.slice(0, 40)}. ` +
         "Required: https://script.google.com/macros/s/<DEPLOYMENT_ID>/exec " +
         "(NOT /a/macros/<domain>/...)";
-      console.error("[create-project-folder] " + msg);
+      logger.error("CREATE_FOLDER_CONFIG_ERROR", { error: msg });
       return NextResponse.json({ ok: false, error: msg }, { status: 500 });
     }
 
-    // Log request details
-    console.log("[create-project-folder] ========================================");
-    console.log("[create-project-folder] Apps Script URL:", redactUrl(appsScriptUrl));
-    console.log("[create-project-folder] Payload:", JSON.stringify(payload));
-    console.log("[create-project-folder] ========================================");
-
-    // Forward request to Google Apps Script, following redirects
-    const response = await fetch(appsScriptUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-      redirect: "follow",
-    });
-
-    // Get the response body as text first to handle any content type
-    const responseText = await response.text();
-    const contentType = response.headers.get("content-type") || "application/json";
-    const elapsed = Date.now() - startTime;
-
-    // TEMPORARY downstream-response-debug — remove after diagnosing
-    console.log("[create-project-folder/downstream-response]", {
-      status: response.status,
-      contentType,
-      bodySnippet: truncate(responseText, 120),
-      isHtml: contentType.includes("text/html"),
-      elapsed,
-    });
-
-    // Log response details
-    console.log("[create-project-folder] Response status:", response.status);
-    console.log("[create-project-folder] Response content-type:", contentType);
-    console.log("[create-project-folder] Elapsed time:", elapsed, "ms");
-
-    // Log full body on success, short snippet on error
-    if (response.ok) {
-      console.log("[create-project-folder] Response body:", truncate(responseText, 2000));
-    } else {
-      // Log short error snippet (first 500 chars) for debugging
-      console.error("[create-project-folder] Error response:", truncate(responseText, 500));
+    // ---------------------------------------------------------------------------
+    // ASYNC: forward from a job instead (lib/jobs.ts)
+    // ---------------------------------------------------------------------------
+    if (isAsyncRequest(req, body)) {
+      const jobs = checkAsyncJobs();
+      if (!jobs.ok) {
+        return NextResponse.json({ ok: false, error: jobs.error }, { status: jobs.status });
+      }
+      const job = await enqueueJob(createFolderJob, { payload, callbacks: callbacks.targets }, auth.key.name);
+      return NextResponse.json(
+        { ok: true, jobId: job.id, status_url: jobStatusUrl(req, job.id) },
+        { status: 202 }
+      );
     }
-    console.log("[create-project-folder] ========================================");
-
-    // Build debug info for error responses
-    const downstreamDebug = {
-      downstreamHost: downstreamParsed.host,
-      downstreamPathPrefix: downstreamParsed.pathname.slice(0, 40),
-      downstreamStatus: response.status,
-      downstreamContentType: contentType,
-    };
 
-    // If downstream returned non-OK, return structured error with debug
-    if (!response.ok) {
-      console.error("[create-project-folder] Downstream error body:", truncate(responseText, 120));
+    const result = await callAppsScript(appsScriptUrl, payload, startTime);
+    const data = result.ok ? (result.data as { ok?: boolean; error?: string } | null) : null;
+    await queueCallbacks(
+      callbacks.targets,
+      completedPayload(
+        "create-project-folder",
+        !result.ok
+          ? { ok: false, error: result.error }
+          : data?.ok === false
+            ? { ok: false, error: data.error || "Apps Script returned ok:false" }
+            : { ok: true, result: data }
+      ),
+      auth.key.name
+    );
+
+    if (!result.ok) {
       return NextResponse.json(
-        { ok: false, error: "Downstream error", debug: downstreamDebug },
+        { ok: false, error: result.error, debug: result.debug },
         { status: 502 }
       );
     }
 
-    // Try to parse as JSON if applicable
-    if (contentType.includes("application/json")) {
-      try {
-        const jsonData = JSON.parse(responseText);
-        // Return the FULL JSON response from Apps Script (including _debug)
-        return NextResponse.json(jsonData, { status: response.status });
-      } catch {
-        console.error("[create-project-folder] JSON parse failed, body:", truncate(responseText, 120));
-        return NextResponse.json(
-          { ok: false, error: "Downstream returned invalid JSON", debug: downstreamDebug },
-          { status: 502 }
-        );
-      }
-    }
-
-    // Non-JSON response (likely HTML error page)
-    console.error("[create-project-folder] Non-JSON downstream response:", truncate(responseText, 120));
-    return NextResponse.json(
-      { ok: false, error: "Downstream returned non-JSON response", debug: downstreamDebug },
-      { status: 502 }
-    );
+    // Return the FULL JSON response from Apps Script (including _debug)
+    return NextResponse.json(result.data, { status: result.status });
   } catch (error: any) {
-    console.error("[create-project-folder] Proxy error:", error);
+    logger.error("CREATE_FOLDER_ERROR", { error: error?.message ?? String(error) });
     return NextResponse.json(
       { ok: false, error: error?.message ?? "Unknown proxy error" },
       { status: 500 }
@@ -366,6 +406,8 @@ export async function POST(req: Request) {
   }
 }
 
+export const POST = withRequestContext("/api/create-project-folder", handlePost);
+
 // Reject non-POST requests
 export async function GET() {
   return NextResponse.json(
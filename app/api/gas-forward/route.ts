@@ -1,4 +1,9 @@
 import { NextResponse } from "next/server";
+import { config } from "@/lib/config";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { currentTraceId, withRequestContext } from "@/lib/logger";
+import { trackCall } from "@/lib/metrics";
 
 /**
  * GAS Forward - Minimal proxy that forwards POST requests to Google Apps Script
@@ -9,14 +14,20 @@ import { NextResponse } from "next/server";
 
 const ALLOWED_HOSTS = ["script.google.com", "script.googleusercontent.com"];
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   try {
-    // 1. Check secret
-    const secret = process.env.AIRTABLE_PROXY_SECRET;
-    const provided = req.headers.get("x-proxy-secret");
+    // 1. Check secret (x-proxy-secret or any key with scope "drive:folders")
+    const auth = authenticate(req, "drive:folders");
+    if (!auth.ok) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: auth.status });
+    }
 
-    if (!secret || !provided || secret !== provided) {
-      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+    const rateLimit = await checkRateLimit("/api/gas-forward", auth.key.name);
+    if (!rateLimit.ok) {
+      return NextResponse.json(
+        { ok: false, error: rateLimit.reason },
+        { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+      );
     }
 
     // 2. Parse body
@@ -28,7 +39,7 @@ export async function POST(req: Request) {
     }
 
     // 3. Get gasUrl
-    const gasUrl = (body.gasUrl as string) || process.env.GAS_WEB_APP_URL || "";
+    const gasUrl = (body.gasUrl as string) || config.gasWebAppUrl;
     if (!gasUrl) {
       return NextResponse.json(
         { ok: false, error: "Missing gasUrl (and GAS_WEB_APP_URL not set)" },
@@ -48,17 +59,24 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "Invalid gasUrl host" }, { status: 400 });
     }
 
-    // 5. Forward to GAS (exclude gasUrl from payload)
-    const { gasUrl: _, ...payload } = body;
+    // 5. Forward to GAS (exclude gasUrl from payload, add the trace ID)
+    const { gasUrl: _, ...rest } = body;
+    const payload = { ...rest, traceId: currentTraceId() };
 
     let gasRes: Response;
     try {
-      gasRes = await fetch(gasUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-        redirect: "follow",
-      });
+      gasRes = await trackCall(
+        "apps_script",
+        "gas-forward",
+        () =>
+          fetch(gasUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+            redirect: "follow",
+          }),
+        (res) => !res.ok
+      );
     } catch (e) {
       return NextResponse.json(
         { ok: false, error: `Fetch failed: ${e instanceof Error ? e.message : "unknown"}` },
@@ -99,6 +117,8 @@ export async function POST(req: Request) {
   }
 }
 
+export const POST = withRequestContext("/api/gas-forward", handlePost);
+
 export async function GET() {
   return NextResponse.json({ ok: false, error: "Use POST" }, { status: 405 });
 }
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
+import { withRequestContext } from "@/lib/logger";
 
-export async function GET() {
+async function handleGet() {
   return NextResponse.json({ ok: true });
 }
+
+export const GET = withRequestContext("/api/gas-forward2/health", handleGet);
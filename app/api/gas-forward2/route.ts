@@ -8,6 +8,10 @@ import {
   resolveProjectIds,
 } from "@/lib/projectMapping";
 import { config } from "@/lib/config";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { trackCall } from "@/lib/metrics";
 
 const ALLOWED = new Set(["script.google.com", "script.googleusercontent.com"]);
 
@@ -47,13 +51,19 @@ export async function GET() {
   });
 }
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   try {
-    const secret = process.env.AIRTABLE_PROXY_SECRET || "";
-    const provided = req.headers.get("x-proxy-secret") || "";
+    const auth = authenticate(req, "drive:folders");
+    if (!auth.ok) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: auth.status });
+    }
 
-    if (!secret || !provided || secret !== provided) {
-      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+    const rateLimit = await checkRateLimit("/api/gas-forward2", auth.key.name);
+    if (!rateLimit.ok) {
+      return NextResponse.json(
+        { ok: false, error: rateLimit.reason },
+        { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+      );
     }
 
     let body: GasForwardPayload;
@@ -81,19 +91,17 @@ export async function POST(req: Request) {
       const message =
         "hiveOsProjectRecordId cannot be used for Client PM OS automation. " +
         "Provide clientPmProjectRecordId (Client PM OS Projects record ID).";
-      console.log("[gas-forward2] Rejected: " + message);
+      logger.warn("GAS_FORWARD_REJECTED", { error: message });
       return NextResponse.json({ ok: false, error: message }, { status: 400 });
     }
 
     const projectIdResult = validateClientPmProjectRecordId(rawClientPm);
 
     if (!projectIdResult.ok) {
-      console.log(
-        "[gas-forward2] Validation failed:",
-        projectIdResult.error,
-        "rawClientPm=",
-        rawClientPm ? "(provided)" : "(missing)"
-      );
+      logger.warn("GAS_FORWARD_INVALID_PROJECT_ID", {
+        error: projectIdResult.error,
+        clientPmProjectRecordId: rawClientPm ? "(provided)" : "(missing)",
+      });
       return NextResponse.json(
         { ok: false, error: projectIdResult.error },
         { status: 400 }
@@ -106,7 +114,7 @@ export async function POST(req: Request) {
     if (!config.clientPmOsBaseId) {
       const message =
         "Client PM OS base not configured (CLIENT_PM_OS_BASE_ID or AIRTABLE_BASE_ID). Cannot verify project record.";
-      console.warn("[gas-forward2] " + message);
+      logger.error("GAS_FORWARD_CONFIG_ERROR", { error: message });
       return NextResponse.json({ ok: false, error: message }, { status: 500 });
     }
 
@@ -115,7 +123,7 @@ export async function POST(req: Request) {
       const message =
         `Record ${clientPmProjectRecordId} not found in Client PM OS Projects (base ${config.clientPmOsBaseId}). ` +
         "Verify clientPmProjectRecordId is from the Client PM OS base — do not pass HIVE OS record IDs.";
-      console.log("[gas-forward2] " + message);
+      logger.warn("GAS_FORWARD_PROJECT_NOT_FOUND", { clientPmProjectRecordId, baseId: config.clientPmOsBaseId });
       return NextResponse.json(
         { ok: false, error: message },
         { status: 400 }
@@ -152,12 +160,13 @@ export async function POST(req: Request) {
       clientPmProjectRecordId,
       recordId: clientPmProjectRecordId,
       ...(body.parentFolderId ? { parentFolderId: body.parentFolderId } : {}),
+      traceId: currentTraceId(),
     };
 
     // Remove hiveOsProjectRecordId from forwarded payload
     delete forwardPayload.hiveOsProjectRecordId;
 
-    console.log("[gas-forward2] Forwarding to GAS:", {
+    logger.info("GAS_FORWARD", {
       gasUrl: gasUrl.slice(0, 60) + "...",
       clientPmProjectRecordId,
       projectName: forwardPayload.projectName || "(missing)",
@@ -166,12 +175,18 @@ export async function POST(req: Request) {
       payloadKeys: Object.keys(forwardPayload),
     });
 
-    const upstream = await fetch(gasUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(forwardPayload),
-      redirect: "follow",
-    });
+    const upstream = await trackCall(
+      "apps_script",
+      "gas-forward2",
+      () =>
+        fetch(gasUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(forwardPayload),
+          redirect: "follow",
+        }),
+      (res) => !res.ok
+    );
 
     const text = await upstream.text();
     const lower = text.trim().toLowerCase();
@@ -221,3 +236,5 @@ export async function POST(req: Request) {
     );
   }
 }
+
+export const POST = withRequestContext("/api/gas-forward2", handlePost);
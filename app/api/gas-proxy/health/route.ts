@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
+import { withRequestContext } from "@/lib/logger";
 
 /**
  * Health check endpoint for gas-proxy
  */
-export async function GET() {
+async function handleGet() {
   return NextResponse.json({ ok: true });
 }
+
+export const GET = withRequestContext("/api/gas-proxy/health", handleGet);
@@ -1,4 +1,9 @@
 import { NextResponse } from "next/server";
+import { config } from "@/lib/config";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { trackCall } from "@/lib/metrics";
 
 /**
  * GAS Proxy - Redirect-safe proxy for Google Apps Script Web Apps
@@ -9,7 +14,8 @@ import { NextResponse } from "next/server";
  * - This server-side proxy follows redirects and returns JSON directly
  *
  * SECURITY:
- * - Requires x-proxy-secret header matching AIRTABLE_PROXY_SECRET env var
+ * - Requires an API key with scope "drive:folders" (lib/auth.ts), e.g. an
+ *   x-proxy-secret header matching AIRTABLE_PROXY_SECRET
  * - Only allows requests to script.google.com and script.googleusercontent.com
  */
 
@@ -26,35 +32,22 @@ export async function GET() {
 /**
  * Proxy POST requests to Google Apps Script
  */
-export async function POST(req: Request) {
-  const requestId = crypto.randomUUID().slice(0, 8);
-
+async function handlePost(req: Request) {
   try {
-    // 1. Validate proxy secret
-    const proxySecret = process.env.AIRTABLE_PROXY_SECRET;
-    const providedSecret = req.headers.get("x-proxy-secret");
-
-    if (!proxySecret || proxySecret.trim() === "") {
-      console.error(`[gas-proxy][${requestId}] AIRTABLE_PROXY_SECRET env var not configured (value: ${proxySecret === undefined ? "undefined" : proxySecret === "" ? "empty string" : "whitespace only"})`);
-      return NextResponse.json(
-        { ok: false, error: "Missing AIRTABLE_PROXY_SECRET env var" },
-        { status: 500 }
-      );
-    }
-
-    if (!providedSecret) {
-      console.warn(`[gas-proxy][${requestId}] Unauthorized: missing x-proxy-secret header`);
+    // 1. Validate proxy secret (x-proxy-secret or any key with scope "drive:folders")
+    const auth = authenticate(req, "drive:folders");
+    if (!auth.ok) {
       return NextResponse.json(
-        { ok: false, error: "Unauthorized: missing x-proxy-secret header" },
-        { status: 401 }
+        { ok: false, error: auth.status === 500 ? auth.reason : `Unauthorized: ${auth.reason}` },
+        { status: auth.status }
       );
     }
 
-    if (providedSecret !== proxySecret) {
-      console.warn(`[gas-proxy][${requestId}] Unauthorized: x-proxy-secret mismatch`);
+    const rateLimit = await checkRateLimit("/api/gas-proxy", auth.key.name);
+    if (!rateLimit.ok) {
       return NextResponse.json(
-        { ok: false, error: "Unauthorized: invalid x-proxy-secret" },
-        { status: 401 }
+        { ok: false, error: rateLimit.reason },
+        { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
       );
     }
 
@@ -70,7 +63,7 @@ export async function POST(req: Request) {
     }
 
     // 3. Determine GAS URL (from body or env fallback)
-    const gasUrl = (body.gasUrl as string) || process.env.GAS_WEB_APP_URL || "";
+    const gasUrl = (body.gasUrl as string) || config.gasWebAppUrl;
 
     if (!gasUrl) {
       return NextResponse.json(
@@ -104,25 +97,33 @@ export async function POST(req: Request) {
       );
     }
 
-    // 5. Build payload (exclude gasUrl from forwarded body)
-    const { gasUrl: _removed, ...forwardPayload } = body;
+    // 5. Build payload (exclude gasUrl from forwarded body, add the trace ID)
+    const { gasUrl: _removed, ...rest } = body;
+    const forwardPayload = { ...rest, traceId: currentTraceId() };
 
-    console.log(
-      `[gas-proxy][${requestId}] Forwarding to GAS: ${parsedUrl.pathname.slice(-20)}... payload keys: ${Object.keys(forwardPayload).join(", ")}`
-    );
+    logger.info("GAS_PROXY_FORWARD", {
+      path: parsedUrl.pathname.slice(-20),
+      payloadKeys: Object.keys(forwardPayload),
+    });
 
     // 6. Forward request to GAS with redirect following
     let gasResponse: Response;
     try {
-      gasResponse = await fetch(gasUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(forwardPayload),
-        redirect: "follow",
-      });
+      gasResponse = await trackCall(
+        "apps_script",
+        "gas-proxy",
+        () =>
+          fetch(gasUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(forwardPayload),
+            redirect: "follow",
+          }),
+        (res) => !res.ok
+      );
     } catch (fetchError: unknown) {
       const errMsg = fetchError instanceof Error ? fetchError.message : "Unknown fetch error";
-      console.error(`[gas-proxy][${requestId}] Fetch error: ${errMsg}`);
+      logger.error("GAS_PROXY_FETCH_ERROR", { error: errMsg });
       return NextResponse.json(
         { ok: false, error: `Failed to reach GAS: ${errMsg}` },
         { status: 502 }
@@ -139,9 +140,7 @@ export async function POST(req: Request) {
       responseText.trimStart().toLowerCase().startsWith("<!doctype");
 
     if (isHtml) {
-      console.error(
-        `[gas-proxy][${requestId}] GAS returned HTML (status ${gasStatus}): ${responseText.slice(0, 100)}...`
-      );
+      logger.error("GAS_PROXY_HTML_RESPONSE", { status: gasStatus, bodySnippet: responseText.slice(0, 100) });
       return NextResponse.json(
         {
           ok: false,
@@ -158,9 +157,7 @@ export async function POST(req: Request) {
     try {
       jsonData = JSON.parse(responseText);
     } catch {
-      console.error(
-        `[gas-proxy][${requestId}] GAS returned non-JSON (status ${gasStatus}): ${responseText.slice(0, 100)}...`
-      );
+      logger.error("GAS_PROXY_NON_JSON", { status: gasStatus, bodySnippet: responseText.slice(0, 100) });
       return NextResponse.json(
         {
           ok: false,
@@ -173,11 +170,11 @@ export async function POST(req: Request) {
     }
 
     // 10. Return the GAS response as-is
-    console.log(`[gas-proxy][${requestId}] GAS responded with status ${gasStatus}`);
+    logger.info("GAS_PROXY_RESPONSE", { status: gasStatus });
     return NextResponse.json(jsonData, { status: gasStatus === 200 ? 200 : gasStatus });
   } catch (error: unknown) {
     const errMsg = error instanceof Error ? error.message : "Unknown error";
-    console.error(`[gas-proxy][${requestId}] Unexpected error: ${errMsg}`);
+    logger.error("GAS_PROXY_ERROR", { error: errMsg });
     return NextResponse.json(
       { ok: false, error: `Proxy error: ${errMsg}` },
       { status: 500 }
@@ -185,6 +182,8 @@ export async function POST(req: Request) {
   }
 }
 
+export const POST = withRequestContext("/api/gas-proxy", handlePost);
+
 // Reject other methods
 export async function PUT() {
   return NextResponse.json(
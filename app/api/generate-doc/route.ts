@@ -1,7 +1,18 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import Airtable from "airtable";
+import { getAirtableClient } from "@/lib/airtable";
 import { google } from "googleapis";
+import { chatJson } from "@/lib/openai";
+import { isDryRun, type PlannedWrite } from "@/lib/dry-run";
+import { config } from "@/lib/config";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders, useQuota } from "@/lib/rate-limit";
+import { checkAsyncJobs, defineJob, enqueueJob, isAsyncRequest, jobStatusUrl, type JobContext } from "@/lib/jobs";
+import { completedPayload, notifyJobCallbacks, parseCallbacks, queueCallbacks, type CallbackTarget } from "@/lib/callbacks";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { trackCall } from "@/lib/metrics";
+import { traceHeaders } from "@/lib/trace";
+import { auditEnabled, recordAudit } from "@/lib/audit";
 
 // Build tag for debugging deployed versions
 const BUILD_TAG = "generate-doc-2026-01-26-doc-name-fix";
@@ -18,10 +29,33 @@ const BUILD_TAG = "generate-doc-2026-01-26-doc-name-fix";
  * All docs are placed in a single Shared Drive folder: "Prepared Documents"
  * controlled by PREPARED_DOCUMENTS_FOLDER_ID env var.
  *
+ * DRY RUN: dryRun: true (or ?dryRun=1) runs validation and placeholder
+ * building, then returns the Apps Script payload, the Docs replaceAllText
+ * requests, the rename and the Airtable write-back it would perform, without
+ * calling OpenAI, Apps Script or Google APIs or writing to Airtable. In GPT
+ * mode the polish is skipped (no "gpt" quota used): the title, subtitle and
+ * content placeholders hold stand-ins and plan.polish has the GPT input.
+ *
+ * ASYNC: ?async=1 (or "async": true) validates and checks quotas, then
+ * answers 202 with { jobId, status_url } and runs GPT polish, the Apps Script
+ * copy, the Docs batchUpdate, the Drive rename and the Airtable write-back
+ * as job steps with per-step retry (lib/jobs.ts). Poll GET /api/jobs/:id.
+ * Needs a durable JOB_STORE; 400 otherwise.
+ *
+ * CALLBACKS: "callbackUrl" and/or "callbackAirtable" (lib/callbacks.ts) get
+ * { status, result: { docId, docUrl, pdfUrl }, error } once the doc exists
+ * or generation failed, sync or async. callbackAirtable defaults to the
+ * docRecordId record in the Docs table; `fields` has no default.
+ *
+ * LIMITS: rate-limited per API key (5 burst, 10/min by default), and each
+ * GPT polish and doc creation counts against the key's daily "gpt" and
+ * "doc-create" quotas (lib/rate-limit.ts). Over either: 429 with Retry-After.
+ *
  * REQUIRED ENV VARS:
  * - OPENAI_API_KEY: OpenAI API key for GPT polish
  * - APPS_SCRIPT_DOC_WEBAPP_URL: Google Apps Script URL for doc creation
  * - PM_INTAKE_SHARED_SECRET: Shared secret for x-hive-secret header auth
+ *   (or an API_KEYS key with scope "docs:generate", see lib/auth.ts)
  * - PREPARED_DOCUMENTS_FOLDER_ID: Shared Drive folder ID for all generated docs
  * - GOOGLE_SERVICE_ACCOUNT_EMAIL: Service account email for Google APIs
  * - GOOGLE_PRIVATE_KEY: Service account private key (PEM format)
@@ -313,10 +347,6 @@ function hasMeaningfulText(val: unknown): val is string {
   return typeof val === "string" && val.trim().length > 0;
 }
 
-function generateRequestId(): string {
-  return `req_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-}
-
 function getPacificTimestamp(): string {
   return new Date().toLocaleString("en-US", {
     timeZone: "America/Los_Angeles",
@@ -329,25 +359,6 @@ function getPacificTimestamp(): string {
   });
 }
 
-function isAuthorized(req: Request): { ok: true } | { ok: false; reason: string } {
-  const envSecret = (process.env.PM_INTAKE_SHARED_SECRET || "").trim();
-  const headerSecret = (req.headers.get("x-hive-secret") || "").trim();
-
-  if (!envSecret) {
-    return { ok: false, reason: "PM_INTAKE_SHARED_SECRET not configured on server" };
-  }
-
-  if (!headerSecret) {
-    return { ok: false, reason: "x-hive-secret header missing" };
-  }
-
-  if (headerSecret !== envSecret) {
-    return { ok: false, reason: "Invalid secret" };
-  }
-
-  return { ok: true };
-}
-
 // =============================================================================
 // STRUCTURED INPUT BUILDER
 // =============================================================================
@@ -518,19 +529,15 @@ function buildReplaceRequests(placeholders: Record<string, string>): Array<{
 /**
  * Logs placeholder information for debugging (safe, no secrets).
  */
-function logPlaceholderInfo(
-  merge: Record<string, string>,
-  requestId: string
-): void {
-  const keys = Object.keys(merge);
-  const contentLength = merge.CONTENT?.length || 0;
-  const inlineTableLength = merge.INLINE_TABLE?.length || 0;
-
-  console.log(`[generate-doc][${requestId}] Placeholder keys being replaced: ${keys.join(", ") || "(none)"}`);
-  console.log(`[generate-doc][${requestId}] CONTENT length: ${contentLength}, INLINE_TABLE length: ${inlineTableLength}`);
+function logPlaceholderInfo(merge: Record<string, string>): void {
+  logger.info("DOC_MERGE_FIELDS", {
+    keys: Object.keys(merge),
+    contentLength: merge.CONTENT?.length || 0,
+    inlineTableLength: merge.INLINE_TABLE?.length || 0,
+  });
 
   if (!merge.CONTENT && !merge.content) {
-    console.warn(`[generate-doc][${requestId}] WARNING: No CONTENT placeholder value found in payload`);
+    logger.warn("DOC_CONTENT_MISSING");
   }
 }
 
@@ -557,61 +564,74 @@ function extractMergeMap(rawBody: Record<string, any>): Record<string, string> {
 // AIRTABLE HELPERS
 // =============================================================================
 
-function getAirtableBase() {
-  const apiKey = process.env.AIRTABLE_API_KEY;
-  const baseId = process.env.AIRTABLE_BASE_ID;
-  if (!apiKey || !baseId) return null;
-  return new Airtable({ apiKey }).base(baseId);
+function getDocsAirtable() {
+  if (!config.airtableApiKey || !config.airtableBaseId) return null;
+  return getAirtableClient(config.airtableBaseId);
 }
 
 type ExistingDocResult =
   | { exists: true; docId: string; docUrl: string; pdfUrl: string }
   | { exists: false };
 
-async function checkExistingDoc(docRecordId: string, requestId: string): Promise<ExistingDocResult> {
-  const base = getAirtableBase();
-  const docsTable = process.env.AIRTABLE_DOCS_TABLE || "Docs";
+async function checkExistingDoc(docRecordId: string): Promise<ExistingDocResult> {
+  const airtable = getDocsAirtable();
+  const docsTable = config.airtableDocsTable;
 
-  if (!base) return { exists: false };
+  if (!airtable) return { exists: false };
 
   try {
-    const record = await base(docsTable).find(docRecordId);
-    const docId = record.get("Doc ID") as string | undefined;
-    const docUrl = record.get("Doc URL") as string | undefined;
+    const record = await airtable.getRecord(docsTable, docRecordId);
+    const docId = record.fields["Doc ID"] as string | undefined;
+    const docUrl = record.fields["Doc URL"] as string | undefined;
 
     if (docId && docUrl) {
-      console.log(`[generate-doc][${requestId}] Found existing doc: ${docId}`);
+      logger.info("DOC_EXISTING_FOUND", { docRecordId, docId });
       return {
         exists: true,
         docId,
         docUrl,
-        pdfUrl: (record.get("PDF URL") as string) || "",
+        pdfUrl: (record.fields["PDF URL"] as string) || "",
       };
     }
 
     return { exists: false };
   } catch (error: any) {
-    console.warn(`[generate-doc][${requestId}] Idempotency check failed:`, error?.message);
+    logger.warn("DOC_IDEMPOTENCY_CHECK_FAILED", { docRecordId, error: error?.message ?? String(error) });
     return { exists: false };
   }
 }
 
 async function writeBackToAirtable(
   docRecordId: string,
-  fields: Record<string, string>,
-  requestId: string
-): Promise<void> {
-  const base = getAirtableBase();
-  const docsTable = process.env.AIRTABLE_DOCS_TABLE || "Docs";
+  fields: Record<string, string>
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const airtable = getDocsAirtable();
+  const docsTable = config.airtableDocsTable;
 
-  if (!base) return;
+  if (!airtable) return { ok: true };
 
   try {
-    await base(docsTable).update(docRecordId, fields);
-    console.log(`[generate-doc][${requestId}] Airtable write-back: ${Object.keys(fields).join(", ")}`);
+    await airtable.updateRecord(docsTable, docRecordId, fields);
+    logger.info("DOC_WRITE_BACK", { docRecordId, fields: Object.keys(fields) });
+    return { ok: true };
   } catch (error: any) {
-    console.error(`[generate-doc][${requestId}] Airtable write-back failed:`, error?.message);
+    logger.error("DOC_WRITE_BACK_FAILED", { docRecordId, error: error?.message ?? String(error) });
+    return { ok: false, error: `Airtable write-back failed: ${error?.message}` };
+  }
+}
+
+/**
+ * Doc ID / Doc URL / PDF URL fields written back to the Docs record.
+ */
+function writeBackFields(doc: CreatedDoc): Record<string, string> {
+  const fields: Record<string, string> = {
+    "Doc ID": doc.docId,
+    "Doc URL": doc.docUrl,
+  };
+  if (doc.pdfUrl) {
+    fields["PDF URL"] = doc.pdfUrl;
   }
+  return fields;
 }
 
 // =============================================================================
@@ -627,22 +647,18 @@ async function writeBackToAirtable(
  * - Content-adaptive: may skip or reuse sections as appropriate
  * - Do not force optional modules
  */
+interface GptPolishInput {
+  docType: string;
+  clientName: string;
+  projectName: string;
+  generatedAt: string;
+  sourceNotes: string;
+  polishNotes?: string | null;
+}
+
 async function gptPolish(
-  input: {
-    docType: string;
-    clientName: string;
-    projectName: string;
-    generatedAt: string;
-    sourceNotes: string;
-    polishNotes?: string | null;
-  },
-  requestId: string
+  input: GptPolishInput
 ): Promise<{ ok: true; data: PolishOutput } | { ok: false; error: string; raw?: string }> {
-  const apiKey = (process.env.OPENAI_API_KEY || "").trim();
-  if (!apiKey) {
-    return { ok: false, error: "OPENAI_API_KEY not configured" };
-  }
-
   const systemPrompt = `You are a professional document editor. Your job is to polish raw notes into clean, professional document content.
 
 OUTPUT FORMAT (strict JSON, no code fences):
@@ -672,69 +688,47 @@ ${input.polishNotes ? `\nADDITIONAL INSTRUCTIONS:\n${input.polishNotes}` : ""}
 
 Return ONLY the JSON object with title, subtitle, and content. No code fences or explanation.`;
 
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[generate-doc][${requestId}] OpenAI error: ${response.status}`);
-      return { ok: false, error: `OpenAI API error: ${response.status}`, raw: errorText.slice(0, 500) };
-    }
-
-    const data = await response.json();
-    const rawContent = data.choices?.[0]?.message?.content;
-
-    if (!rawContent) {
-      return { ok: false, error: "OpenAI returned empty content" };
-    }
+  const result = await chatJson({
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    schema: PolishOutputSchema,
+    temperature: 0.7,
+  });
 
-    // Clean potential code fences
-    let cleanedContent = rawContent.trim();
-    if (cleanedContent.startsWith("```json")) {
-      cleanedContent = cleanedContent.slice(7);
-    } else if (cleanedContent.startsWith("```")) {
-      cleanedContent = cleanedContent.slice(3);
-    }
-    if (cleanedContent.endsWith("```")) {
-      cleanedContent = cleanedContent.slice(0, -3);
-    }
-    cleanedContent = cleanedContent.trim();
+  if (result.ok) {
+    logger.info("DOC_POLISHED", { title: result.data.title.slice(0, 50) });
+  }
+  return result;
+}
 
-    // Parse JSON
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(cleanedContent);
-    } catch (parseErr) {
-      console.error(`[generate-doc][${requestId}] JSON parse failed:`, cleanedContent.slice(0, 200));
-      return { ok: false, error: "GPT output is not valid JSON", raw: cleanedContent.slice(0, 500) };
-    }
+/**
+ * What GPT mode needs to turn polish output into the doc's title, subtitle
+ * and content. Saved in the job input when the polish runs as a job step.
+ */
+interface PolishPlan {
+  input: GptPolishInput;
+  docTitleOverride: string | null;
+  docSubtitle: string | null;
+  fallbackTitle: string;
+}
 
-    // Validate schema
-    const validated = PolishOutputSchema.safeParse(parsed);
-    if (!validated.success) {
-      const errors = validated.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
-      return { ok: false, error: `GPT output schema invalid: ${errors}`, raw: cleanedContent.slice(0, 500) };
-    }
+function applyPolish(plan: PolishPlan, polished: PolishOutput): { title: string; subtitle: string; content: string } {
+  return {
+    // Title priority: docTitleOverride > GPT title > fallback
+    title: plan.docTitleOverride || polished.title.trim() || plan.fallbackTitle,
+    // Subtitle priority: docSubtitle > GPT subtitle
+    subtitle: plan.docSubtitle || polished.subtitle || "",
+    content: polished.content,
+  };
+}
 
-    console.log(`[generate-doc][${requestId}] GPT polish success: title="${validated.data.title.slice(0, 50)}..."`);
-    return { ok: true, data: validated.data };
-  } catch (error: any) {
-    return { ok: false, error: `GPT polish exception: ${error?.message}` };
-  }
+/**
+ * Doc file name (for Drive) - uses the title, which includes job# prefix if PROJECT has it
+ */
+function docNameFor(title: string): string {
+  return `${title} — ${new Date().toLocaleDateString("en-US", { timeZone: "America/Los_Angeles" })}`;
 }
 
 // =============================================================================
@@ -746,8 +740,8 @@ Return ONLY the JSON object with title, subtitle, and content. No code fences or
  * Uses service account credentials from environment variables.
  */
 function getGoogleClients() {
-  const email = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
-  const privateKey = process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+  const email = config.googleServiceAccountEmail;
+  const privateKey = config.googlePrivateKey;
 
   if (!email || !privateKey) {
     return null;
@@ -774,17 +768,15 @@ function getGoogleClients() {
  *
  * @param documentId - The Google Doc ID
  * @param placeholders - Map of placeholder key ("{{KEY}}") to replacement value
- * @param requestId - For logging
  */
 async function replaceDocPlaceholders(
   documentId: string,
-  placeholders: Record<string, string>,
-  requestId: string
+  placeholders: Record<string, string>
 ): Promise<{ ok: true; replacedCount: number } | { ok: false; error: string }> {
   const clients = getGoogleClients();
 
   if (!clients) {
-    console.warn(`[generate-doc][${requestId}] Google API credentials not configured - skipping direct replacement`);
+    logger.warn("DOC_REPLACE_SKIPPED", { reason: "Google API credentials not configured" });
     return { ok: true, replacedCount: 0 }; // Not a fatal error - Apps Script may have done it
   }
 
@@ -792,48 +784,67 @@ async function replaceDocPlaceholders(
   const requests = buildReplaceRequests(placeholders);
 
   if (requests.length === 0) {
-    console.log(`[generate-doc][${requestId}] No placeholders to replace`);
+    logger.info("DOC_REPLACE_SKIPPED", { reason: "No placeholders to replace" });
     return { ok: true, replacedCount: 0 };
   }
 
-  // Log which placeholders are being replaced (keys only, not values for security)
-  const placeholderKeys = Object.keys(placeholders);
-  console.log(`[generate-doc][${requestId}] Replacing ${requests.length} placeholders via Docs API: ${placeholderKeys.join(", ")}`);
-
-  // Log content/table lengths for debugging
-  const contentLength = placeholders["{{CONTENT}}"]?.length || 0;
-  const inlineTableLength = placeholders["{{INLINE_TABLE}}"]?.length || 0;
-  if (contentLength > 0 || inlineTableLength > 0) {
-    console.log(`[generate-doc][${requestId}] Content lengths - CONTENT: ${contentLength} chars, INLINE_TABLE: ${inlineTableLength} chars`);
-  }
+  // Keys and lengths only, not values
+  logger.info("DOC_REPLACE", {
+    documentId,
+    requests: requests.length,
+    keys: Object.keys(placeholders),
+    contentLength: placeholders["{{CONTENT}}"]?.length || 0,
+    inlineTableLength: placeholders["{{INLINE_TABLE}}"]?.length || 0,
+  });
 
   try {
-    const response = await clients.docs.documents.batchUpdate({
-      documentId,
-      requestBody: { requests },
-    });
+    const response = await trackCall("google", "docs.batchUpdate", () =>
+      clients.docs.documents.batchUpdate(
+        { documentId, requestBody: { requests } },
+        { headers: traceHeaders(currentTraceId()) }
+      )
+    );
 
     const repliesCount = response.data.replies?.length || 0;
-    console.log(`[generate-doc][${requestId}] Docs API batchUpdate complete: ${repliesCount} replacements processed`);
+    logger.info("DOC_REPLACED", { documentId, replies: repliesCount });
 
     return { ok: true, replacedCount: repliesCount };
   } catch (error: any) {
-    console.error(`[generate-doc][${requestId}] Docs API batchUpdate failed:`, error?.message);
+    logger.error("DOC_REPLACE_FAILED", { documentId, error: error?.message ?? String(error) });
     return { ok: false, error: `Docs API replacement failed: ${error?.message}` };
   }
 }
 
+/**
+ * The doc's name before a rename, for the audit log; undefined if it can't be read.
+ */
+async function currentDocName(
+  clients: NonNullable<ReturnType<typeof getGoogleClients>>,
+  documentId: string
+): Promise<string | undefined> {
+  try {
+    const { data } = await trackCall("google", "drive.files.get", () =>
+      clients.drive.files.get(
+        { fileId: documentId, fields: "name", supportsAllDrives: true },
+        { headers: traceHeaders(currentTraceId()) }
+      )
+    );
+    return data.name ?? undefined;
+  } catch (error: any) {
+    logger.warn("AUDIT_READ_FAILED", { documentId, error: error?.message ?? String(error) });
+    return undefined;
+  }
+}
+
 /**
  * Renames a Google Doc using the Drive API.
  *
  * @param documentId - The Google Doc ID
  * @param newName - The new document name
- * @param requestId - For logging
  */
 async function renameDocument(
   documentId: string,
-  newName: string,
-  requestId: string
+  newName: string
 ): Promise<{ ok: true } | { ok: false; error: string }> {
   const clients = getGoogleClients();
 
@@ -842,16 +853,28 @@ async function renameDocument(
   }
 
   try {
-    await clients.drive.files.update({
-      fileId: documentId,
-      requestBody: { name: newName },
-      supportsAllDrives: true,
-    });
+    const previousName = auditEnabled() ? await currentDocName(clients, documentId) : undefined;
+
+    await trackCall("google", "drive.files.update", () =>
+      clients.drive.files.update(
+        { fileId: documentId, requestBody: { name: newName }, supportsAllDrives: true },
+        { headers: traceHeaders(currentTraceId()) }
+      )
+    );
 
-    console.log(`[generate-doc][${requestId}] Document renamed to: ${newName}`);
+    logger.info("DOC_RENAMED", { documentId, name: newName });
+    await recordAudit([
+      {
+        action: "drive.rename",
+        system: "drive",
+        recordId: documentId,
+        before: previousName === undefined ? undefined : { name: previousName },
+        after: { name: newName },
+      },
+    ]);
     return { ok: true };
   } catch (error: any) {
-    console.error(`[generate-doc][${requestId}] Drive API rename failed:`, error?.message);
+    logger.error("DOC_RENAME_FAILED", { documentId, error: error?.message ?? String(error) });
     return { ok: false, error: `Drive API rename failed: ${error?.message}` };
   }
 }
@@ -860,46 +883,36 @@ async function renameDocument(
 // APPS SCRIPT DOC CREATION
 // =============================================================================
 
+interface DocTemplateParams {
+  templateDocId: string;
+  destinationFolderId: string;
+  projectFolderId?: string; // For backward compat
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  content: string;
+  docName: string; // Name for the new doc file
+  // New placeholder params
+  project?: string | null;
+  client?: string | null;
+  header?: string | null;
+  shortOverview?: string | null;
+  inlineTable?: string | null;
+  // Additional placeholder params
+  projectNumber?: string | null;
+  startDate?: string | null;
+  dueDate?: string | null;
+  docNameField?: string | null; // For {{DOC_NAME}} placeholder
+  // Pass-through: raw incoming placeholders from Airtable (to support extra keys)
+  rawIncomingPlaceholders?: Record<string, string> | null;
+}
+
 /**
- * Calls Apps Script to:
- * 1. Copy the template doc to the destination folder
- * 2. Replace placeholders:
+ * Builds the "{{KEY}}" -> value map sent to Apps Script and the Docs API:
  *    {{PROJECT}}, {{CLIENT}}, {{HEADER}}, {{SHORT_OVERVIEW}}, {{CONTENT}}, {{INLINE_TABLE}}, {{GENERATED_AT}}, {{DOC_NAME}}
  *    Legacy: {{TITLE}}, {{SUBTITLE}}
- * 3. Return docId, docUrl, pdfUrl
  */
-async function createDocFromTemplate(
-  params: {
-    templateDocId: string;
-    destinationFolderId: string;
-    projectFolderId?: string; // For backward compat
-    title: string;
-    subtitle: string;
-    generatedAt: string;
-    content: string;
-    docName: string; // Name for the new doc file
-    // New placeholder params
-    project?: string | null;
-    client?: string | null;
-    header?: string | null;
-    shortOverview?: string | null;
-    inlineTable?: string | null;
-    // Additional placeholder params
-    projectNumber?: string | null;
-    startDate?: string | null;
-    dueDate?: string | null;
-    docNameField?: string | null; // For {{DOC_NAME}} placeholder
-    // Pass-through: raw incoming placeholders from Airtable (to support extra keys)
-    rawIncomingPlaceholders?: Record<string, string> | null;
-  },
-  requestId: string
-): Promise<{ ok: true; docId: string; docUrl: string; pdfUrl: string } | { ok: false; error: string }> {
-  const appsScriptUrl = process.env.APPS_SCRIPT_DOC_WEBAPP_URL;
-
-  if (!appsScriptUrl) {
-    return { ok: false, error: "APPS_SCRIPT_DOC_WEBAPP_URL not configured" };
-  }
-
+function buildDocPlaceholders(params: DocTemplateParams): Record<string, string> {
   // Build placeholders with defensive defaults
   const contentValue = params.content || " "; // Single space if empty to avoid replacement issues
   const inlineTableValue = params.inlineTable || ""; // Empty string if not provided
@@ -926,23 +939,25 @@ async function createDocFromTemplate(
     "{{SUBTITLE}}": params.subtitle || "",
   };
 
-  // Debug log: show which placeholder keys have non-empty values
-  const populatedKeys = Object.entries(placeholders)
-    .filter(([_, v]) => v && v.trim() !== "")
-    .map(([k, _]) => k);
-  console.log(`[generate-doc][${requestId}] Placeholders present: ${populatedKeys.join(", ")}`);
-
-  // Specifically log DOC_NAME for debugging
-  const docNameValue = placeholders["{{DOC_NAME}}"];
-  console.log(`[generate-doc][${requestId}] DOC_NAME forwarded: ${docNameValue ? `"${docNameValue.slice(0, 80)}${docNameValue.length > 80 ? "..." : ""}"` : "(empty)"}`);
-  if (params.rawIncomingPlaceholders) {
-    const extraKeys = Object.keys(params.rawIncomingPlaceholders).filter(k => !placeholders[k] || placeholders[k] === params.rawIncomingPlaceholders![k]);
-    if (extraKeys.length > 0) {
-      console.log(`[generate-doc][${requestId}] Pass-through placeholders from payload: ${extraKeys.join(", ")}`);
-    }
-  }
+  const extraKeys = params.rawIncomingPlaceholders
+    ? Object.keys(params.rawIncomingPlaceholders).filter(k => !placeholders[k] || placeholders[k] === params.rawIncomingPlaceholders![k])
+    : [];
+  logger.debug("DOC_PLACEHOLDERS", {
+    populated: Object.entries(placeholders)
+      .filter(([_, v]) => v && v.trim() !== "")
+      .map(([k, _]) => k),
+    docName: placeholders["{{DOC_NAME}}"]?.slice(0, 80) || null,
+    passThrough: extraKeys,
+  });
+
+  return placeholders;
+}
 
-  const payload = {
+/**
+ * Builds the createFromTemplate request body for the Apps Script web app.
+ */
+function buildAppsScriptPayload(params: DocTemplateParams, placeholders: Record<string, string>) {
+  return {
     action: "createFromTemplate",
     templateDocId: params.templateDocId,
     destinationFolderId: params.destinationFolderId,
@@ -954,24 +969,66 @@ async function createDocFromTemplate(
     placeholders,
     supportsAllDrives: true,
     includeItemsFromAllDrives: true,
+    // The request's (or job's) trace ID, for the script's own logs
+    traceId: currentTraceId(),
   };
+}
+
+/**
+ * Name the doc is renamed to after creation, or null when PROJECT is empty.
+ */
+function plannedDocName(params: DocTemplateParams, placeholders: Record<string, string>): string | null {
+  const projectName = placeholders["{{PROJECT}}"];
+  if (!projectName || !projectName.trim()) return null;
+  return params.docName || projectName;
+}
+
+interface CreatedDoc {
+  docId: string;
+  docUrl: string;
+  pdfUrl: string;
+}
 
-  console.log(
-    `[generate-doc][${requestId}] Calling Apps Script: template=${params.templateDocId}, folder=${params.destinationFolderId}, contentLength=${params.content?.length || 0}`
-  );
+/**
+ * Calls Apps Script to copy the template doc to the destination folder and
+ * replace placeholders there. Returns docId, docUrl, pdfUrl.
+ */
+async function callAppsScriptCreate(
+  params: DocTemplateParams,
+  placeholders: Record<string, string>
+): Promise<({ ok: true } & CreatedDoc) | { ok: false; error: string }> {
+  const appsScriptUrl = config.appsScriptDocWebappUrl;
+
+  if (!appsScriptUrl) {
+    return { ok: false, error: "APPS_SCRIPT_DOC_WEBAPP_URL not configured" };
+  }
+
+  const payload = buildAppsScriptPayload(params, placeholders);
+
+  logger.info("DOC_APPS_SCRIPT_CREATE", {
+    templateDocId: params.templateDocId,
+    destinationFolderId: params.destinationFolderId,
+    contentLength: params.content?.length || 0,
+  });
 
   try {
-    const response = await fetch(appsScriptUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-      redirect: "follow",
-    });
+    const response = await trackCall(
+      "apps_script",
+      "generate-doc",
+      () =>
+        fetch(appsScriptUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+          redirect: "follow",
+        }),
+      (res) => !res.ok
+    );
 
     const responseText = await response.text();
 
     if (!response.ok) {
-      console.error(`[generate-doc][${requestId}] Apps Script HTTP error: ${response.status}`);
+      logger.error("DOC_APPS_SCRIPT_HTTP_ERROR", { status: response.status });
       return { ok: false, error: `Apps Script returned ${response.status}` };
     }
 
@@ -990,25 +1047,17 @@ async function createDocFromTemplate(
       return { ok: false, error: "Apps Script response missing docId or docUrl" };
     }
 
-    console.log(`[generate-doc][${requestId}] Doc created: ${result.docId}`);
-
-    // ---------------------------------------------------------------------------
-    // REPLACE PLACEHOLDERS VIA GOOGLE DOCS API (after Apps Script creates doc)
-    // ---------------------------------------------------------------------------
-    const replaceResult = await replaceDocPlaceholders(result.docId, placeholders, requestId);
-    if (!replaceResult.ok) {
-      // Log but don't fail - the doc was created, just placeholders may remain
-      console.warn(`[generate-doc][${requestId}] Placeholder replacement warning: ${replaceResult.error}`);
-    }
-
-    // Rename document if PROJECT is set
-    const projectName = placeholders["{{PROJECT}}"];
-    if (projectName && projectName.trim()) {
-      const renameResult = await renameDocument(result.docId, params.docName || projectName, requestId);
-      if (!renameResult.ok) {
-        console.warn(`[generate-doc][${requestId}] Rename warning: ${renameResult.error}`);
-      }
-    }
+    logger.info("DOC_CREATED", { docId: result.docId });
+    await recordAudit([
+      {
+        action: "drive.copy",
+        system: "drive",
+        recordId: result.docId,
+        sourceId: params.templateDocId,
+        before: null,
+        after: { name: params.docName, folderId: params.destinationFolderId, docUrl: result.docUrl },
+      },
+    ]);
 
     return {
       ok: true,
@@ -1021,22 +1070,158 @@ async function createDocFromTemplate(
   }
 }
 
+/**
+ * Creates the doc via Apps Script, then replaces placeholders through the
+ * Docs API and renames it. Replacement and rename failures are logged but
+ * don't fail the request: the doc exists by then.
+ */
+async function createDocFromTemplate(
+  params: DocTemplateParams
+): Promise<({ ok: true } & CreatedDoc) | { ok: false; error: string }> {
+  const placeholders = buildDocPlaceholders(params);
+  const result = await callAppsScriptCreate(params, placeholders);
+  if (!result.ok) return result;
+
+  // ---------------------------------------------------------------------------
+  // REPLACE PLACEHOLDERS VIA GOOGLE DOCS API (after Apps Script creates doc)
+  // ---------------------------------------------------------------------------
+  const replaceResult = await replaceDocPlaceholders(result.docId, placeholders);
+  if (!replaceResult.ok) {
+    // Log but don't fail - the doc was created, just placeholders may remain
+    logger.warn("DOC_REPLACE_WARNING", { docId: result.docId, error: replaceResult.error });
+  }
+
+  // Rename document if PROJECT is set
+  const newName = plannedDocName(params, placeholders);
+  if (newName) {
+    const renameResult = await renameDocument(result.docId, newName);
+    if (!renameResult.ok) {
+      logger.warn("DOC_RENAME_WARNING", { docId: result.docId, error: renameResult.error });
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// ASYNC JOB
+// =============================================================================
+
+interface GenerateDocJobInput {
+  /** Title, subtitle, content and docName are placeholders until polish runs */
+  docParams: DocTemplateParams;
+  polish: PolishPlan | null;
+  docRecordId: string | null;
+  callbacks: CallbackTarget[];
+}
+
+/**
+ * docParams with the polish step's output applied, if there was one.
+ */
+function jobDocParams({ input, state }: JobContext<GenerateDocJobInput>): DocTemplateParams {
+  const polished = state.polish as ReturnType<typeof applyPolish> | null | undefined;
+  if (!polished) return input.docParams;
+  return { ...input.docParams, ...polished, docName: docNameFor(polished.title) };
+}
+
+/**
+ * The same steps as a synchronous request, each saved and retried on its
+ * own. Replacement, rename and write-back stay non-fatal: once the doc
+ * exists their failures become job warnings.
+ */
+const generateDocJob = defineJob<GenerateDocJobInput>({
+  type: "generate-doc",
+  scope: "docs:generate",
+  steps: [
+    {
+      name: "polish",
+      skip: ({ input }) => !input.polish,
+      run: async ({ input }) => {
+        const result = await gptPolish(input.polish!.input);
+        if (!result.ok) throw new Error(result.error);
+        return applyPolish(input.polish!, result.data);
+      },
+    },
+    {
+      name: "create",
+      // Apps Script may have created a doc before an attempt failed or its
+      // instance died, and a retry would leave a second one: never retried
+      attempts: 1,
+      run: async (ctx) => {
+        const params = jobDocParams(ctx);
+        const result = await callAppsScriptCreate(params, buildDocPlaceholders(params));
+        if (!result.ok) throw new Error(result.error);
+        return { docId: result.docId, docUrl: result.docUrl, pdfUrl: result.pdfUrl };
+      },
+    },
+    {
+      name: "replace",
+      optional: true,
+      run: async (ctx) => {
+        const doc = ctx.state.create as CreatedDoc;
+        const params = jobDocParams(ctx);
+        const result = await replaceDocPlaceholders(doc.docId, buildDocPlaceholders(params));
+        if (!result.ok) throw new Error(result.error);
+        return { replacedCount: result.replacedCount };
+      },
+    },
+    {
+      name: "rename",
+      optional: true,
+      skip: (ctx) => {
+        const params = jobDocParams(ctx);
+        return !plannedDocName(params, buildDocPlaceholders(params));
+      },
+      run: async (ctx) => {
+        const doc = ctx.state.create as CreatedDoc;
+        const params = jobDocParams(ctx);
+        const name = plannedDocName(params, buildDocPlaceholders(params))!;
+        const result = await renameDocument(doc.docId, name);
+        if (!result.ok) throw new Error(result.error);
+        return { name };
+      },
+    },
+    {
+      name: "writeBack",
+      optional: true,
+      skip: ({ input }) => !input.docRecordId,
+      run: async ({ input, state }) => {
+        const result = await writeBackToAirtable(input.docRecordId!, writeBackFields(state.create as CreatedDoc));
+        if (!result.ok) throw new Error(result.error);
+        return null;
+      },
+    },
+  ],
+  result: ({ state }) => {
+    const doc = state.create as CreatedDoc;
+    return { docId: doc.docId, docUrl: doc.docUrl, pdfUrl: doc.pdfUrl };
+  },
+  onSettled: notifyJobCallbacks,
+});
+
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
 
-export async function POST(req: Request) {
-  const requestId = generateRequestId();
+async function handlePost(req: Request) {
   const generatedAt = getPacificTimestamp();
 
   // ---------------------------------------------------------------------------
   // AUTH
   // ---------------------------------------------------------------------------
-  const authCheck = isAuthorized(req);
+  const authCheck = authenticate(req, "docs:generate");
   if (!authCheck.ok) {
     return NextResponse.json(
       { ok: false, status: 401, error: authCheck.reason, build: BUILD_TAG, debug: { stage: "AUTH" } },
-      { status: 401 }
+      { status: authCheck.status }
+    );
+  }
+
+  const rateLimit = await checkRateLimit("/api/generate-doc", authCheck.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, status: 429, error: rateLimit.reason, build: BUILD_TAG, debug: { stage: "RATE_LIMIT" } },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
     );
   }
 
@@ -1062,7 +1247,7 @@ export async function POST(req: Request) {
   const merge = extractMergeMap(normalizedBody as Record<string, any>); // Legacy for backwards compat
 
   // Log placeholder info for debugging
-  logPlaceholderInfo(mergeNormalized, requestId);
+  logPlaceholderInfo(mergeNormalized);
 
   const body = coerceRequestBody(normalizedBody);
   const parseResult = InputSchema.safeParse(body);
@@ -1077,10 +1262,37 @@ export async function POST(req: Request) {
 
   const input = parseResult.data;
   const docRecordId = input.docRecordId;
+  const dryRun = isDryRun(req, rawBody);
+  // A dry run is always answered inline
+  const runAsync = !dryRun && isAsyncRequest(req, rawBody);
+  if (runAsync) {
+    const jobs = checkAsyncJobs();
+    if (!jobs.ok) {
+      return NextResponse.json(
+        { ok: false, status: jobs.status, error: jobs.error, build: BUILD_TAG, debug: { stage: "ASYNC" } },
+        { status: jobs.status }
+      );
+    }
+  }
 
-  console.log(
-    `[generate-doc][${requestId}] Request: docType="${input.docType}", client="${input.clientName}", project="${input.projectName}"`
-  );
+  const callbacks = parseCallbacks(rawBody, {
+    baseId: config.airtableBaseId,
+    table: config.airtableDocsTable,
+    recordId: docRecordId || undefined,
+  });
+  if (!callbacks.ok) {
+    return NextResponse.json(
+      { ok: false, status: callbacks.status, error: callbacks.error, build: BUILD_TAG, debug: { stage: "CALLBACK" } },
+      { status: callbacks.status }
+    );
+  }
+  // Sync outcomes; async ones are sent when the job settles. Dry runs send none.
+  const notify = async (outcome: Parameters<typeof completedPayload>[1]) => {
+    if (dryRun) return;
+    await queueCallbacks(callbacks.targets, completedPayload("generate-doc", outcome), authCheck.key.name);
+  };
+
+  logger.info("DOC_REQUEST", { docType: input.docType, clientName: input.clientName, projectName: input.projectName });
 
   // ---------------------------------------------------------------------------
   // MODE DETECTION: Direct placeholders vs GPT polish
@@ -1100,21 +1312,26 @@ export async function POST(req: Request) {
     hasMeaningfulText(input.project) ||
     hasMeaningfulText(mergeNormalized.PROJECT);         // From placeholders or mergeFields
 
-  console.log(`[generate-doc][${requestId}] Mode: ${isDirectMode ? "DIRECT" : "GPT"}`);
-  console.log(`[generate-doc][${requestId}] Input fields: content=${!!input.content}, sourceNotes=${!!input.sourceNotes}, project=${!!input.project}, inlineTable=${!!input.inlineTable}`);
-  console.log(`[generate-doc][${requestId}] Merge fields (normalized): CONTENT=${!!mergeNormalized.CONTENT}, PROJECT=${!!mergeNormalized.PROJECT}, INLINE_TABLE=${!!mergeNormalized.INLINE_TABLE}`);
+  logger.info("DOC_MODE", {
+    mode: isDirectMode ? "direct" : "gpt",
+    dryRun,
+    hasContent: !!input.content || !!mergeNormalized.CONTENT,
+    hasSourceNotes: !!input.sourceNotes,
+    hasProject: !!input.project || !!mergeNormalized.PROJECT,
+    hasInlineTable: !!input.inlineTable || !!mergeNormalized.INLINE_TABLE,
+  });
 
   // ---------------------------------------------------------------------------
   // FOLDER RESOLUTION: input.destinationFolderId > PREPARED_DOCUMENTS_FOLDER_ID > projectFolderId
   // ---------------------------------------------------------------------------
   const destinationFolderId =
     input.destinationFolderId?.trim() ||
-    process.env.PREPARED_DOCUMENTS_FOLDER_ID?.trim() ||
+    config.preparedDocumentsFolderId ||
     input.projectFolderId?.trim() ||
     null;
 
   if (!destinationFolderId) {
-    console.error(`[generate-doc][${requestId}] No destination folder available`);
+    logger.error("DOC_NO_DESTINATION_FOLDER");
     return NextResponse.json(
       {
         ok: false,
@@ -1129,10 +1346,10 @@ export async function POST(req: Request) {
 
   const folderSource = input.destinationFolderId?.trim()
     ? "payload"
-    : process.env.PREPARED_DOCUMENTS_FOLDER_ID?.trim()
+    : config.preparedDocumentsFolderId
       ? "env"
       : "projectFolderId";
-  console.log(`[generate-doc][${requestId}] Destination folder: ${destinationFolderId} (source: ${folderSource})`);
+  logger.info("DOC_DESTINATION_FOLDER", { destinationFolderId, source: folderSource });
 
   // Backwards-compat shim: set projectFolderId so legacy helpers pass validation
   (body as Record<string, unknown>).projectFolderId = destinationFolderId;
@@ -1142,21 +1359,22 @@ export async function POST(req: Request) {
   // ---------------------------------------------------------------------------
   const templateDocId = input.templateId?.trim() || input.templateDocId?.trim() || selectTemplateId(input.docType || "");
   const templateSource = input.templateId ? "templateId" : input.templateDocId ? "templateDocId" : "docType";
-  console.log(`[generate-doc][${requestId}] Template: ${templateDocId} (source: ${templateSource})`);
+  logger.info("DOC_TEMPLATE", { templateDocId, source: templateSource });
 
   // ---------------------------------------------------------------------------
   // IDEMPOTENCY CHECK
   // ---------------------------------------------------------------------------
   if (docRecordId) {
-    const existing = await checkExistingDoc(docRecordId, requestId);
+    const existing = await checkExistingDoc(docRecordId);
     if (existing.exists) {
-      console.log(`[generate-doc][${requestId}] Returning existing doc (idempotent)`);
+      await notify({ ok: true, result: { docId: existing.docId, docUrl: existing.docUrl, pdfUrl: existing.pdfUrl } });
       return NextResponse.json({
         ok: true,
         status: 200,
         docId: existing.docId,
         docUrl: existing.docUrl,
         pdfUrl: existing.pdfUrl,
+        ...(dryRun ? { dryRun: true } : {}),
         debug: { reused: true },
       });
     }
@@ -1175,6 +1393,10 @@ export async function POST(req: Request) {
   let finalInlineTable: string | null = null;
   let sourceType: string;
   let inputsUsed: string[] = [];
+  // Set when GPT polish is left to the job
+  let deferredPolish: PolishPlan | null = null;
+  // GPT polish a dry run would have made
+  let skippedPolish: PolishPlan | null = null;
 
   // Use input.generatedAt if provided, otherwise use generated timestamp
   const finalGeneratedAt = input.generatedAt?.trim() || generatedAt;
@@ -1266,19 +1488,13 @@ export async function POST(req: Request) {
 
     sourceType = "direct";
 
-    // Enhanced logging for direct mode
-    console.log(
-      `[generate-doc][${requestId}] Direct mode values:`
-    );
-    console.log(
-      `[generate-doc][${requestId}]   PROJECT="${finalProject?.slice(0, 80)}${(finalProject?.length || 0) > 80 ? "..." : ""}"`
-    );
-    console.log(
-      `[generate-doc][${requestId}]   CLIENT="${finalClient}", HEADER="${finalHeader?.slice(0, 50)}..."`
-    );
-    console.log(
-      `[generate-doc][${requestId}]   CONTENT length=${finalContent?.length || 0}, INLINE_TABLE length=${finalInlineTable?.length || 0}`
-    );
+    logger.info("DOC_DIRECT_VALUES", {
+      project: finalProject?.slice(0, 80),
+      client: finalClient,
+      header: finalHeader?.slice(0, 50),
+      contentLength: finalContent?.length || 0,
+      inlineTableLength: finalInlineTable?.length || 0,
+    });
   } else {
     // ---------------------------------------------------------------------------
     // GPT MODE: Process source text through GPT polish
@@ -1291,7 +1507,7 @@ export async function POST(req: Request) {
     const finalSourceText = builtSourceText || input.sourceNotes || null;
 
     if (!finalSourceText) {
-      console.error(`[generate-doc][${requestId}] No source content provided`);
+      logger.warn("DOC_NO_SOURCE_CONTENT");
       return NextResponse.json(
         {
           ok: false,
@@ -1305,15 +1521,23 @@ export async function POST(req: Request) {
     }
 
     sourceType = builtSourceText ? "structured" : "sourceNotes";
-    console.log(
-      `[generate-doc][${requestId}] Source: type=${sourceType}${inputsUsed.length ? `, fields=[${inputsUsed.join(", ")}]` : ""}`
-    );
+    logger.info("DOC_SOURCE", { sourceType, fields: inputsUsed });
 
     // ---------------------------------------------------------------------------
     // GPT POLISH
     // ---------------------------------------------------------------------------
-    const polishResult = await gptPolish(
-      {
+    if (!dryRun) {
+      const gptQuota = await useQuota("gpt", authCheck.key.name);
+      if (!gptQuota.ok) {
+        return NextResponse.json(
+          { ok: false, status: 429, error: gptQuota.reason, build: BUILD_TAG, debug: { stage: "QUOTA" } },
+          { status: gptQuota.status, headers: rateLimitHeaders(gptQuota) }
+        );
+      }
+    }
+
+    const polishPlan: PolishPlan = {
+      input: {
         docType: input.docType || "Document",
         clientName: input.clientName || "Client",
         projectName: input.projectName || "Project",
@@ -1321,42 +1545,45 @@ export async function POST(req: Request) {
         sourceNotes: finalSourceText,
         polishNotes: input.polishNotes,
       },
-      requestId
-    );
-
-    if (!polishResult.ok) {
-      console.error(`[generate-doc][${requestId}] GPT polish failed: ${polishResult.error}`);
-      return NextResponse.json(
-        {
-          ok: false,
-          status: 500,
-          error: polishResult.error,
-          build: BUILD_TAG,
-          debug: { stage: "GPT_POLISH", raw: polishResult.raw?.slice(0, 300) },
-        },
-        { status: 500 }
-      );
-    }
-
-    const polished = polishResult.data;
-
-    // Title priority: docTitleOverride > GPT title > fallback
-    const fallbackTitle = `${input.clientName || "Client"} — ${input.docType || "Document"} (${input.projectName || "Project"})`;
-    finalTitle = input.docTitleOverride?.trim() || polished.title.trim() || fallbackTitle;
+      docTitleOverride: input.docTitleOverride?.trim() || null,
+      docSubtitle: input.docSubtitle?.trim() || null,
+      fallbackTitle: `${input.clientName || "Client"} — ${input.docType || "Document"} (${input.projectName || "Project"})`,
+    };
 
-    // Subtitle priority: docSubtitle > GPT subtitle
-    finalSubtitle = input.docSubtitle?.trim() || polished.subtitle || "";
+    if (runAsync || dryRun) {
+      // Placeholders until the job's polish step runs; a dry run never calls OpenAI
+      if (runAsync) deferredPolish = polishPlan;
+      else skippedPolish = polishPlan;
+      finalTitle = polishPlan.docTitleOverride || polishPlan.fallbackTitle;
+      finalSubtitle = polishPlan.docSubtitle || "";
+      finalContent = "";
+    } else {
+      const polishResult = await gptPolish(polishPlan.input);
+
+      if (!polishResult.ok) {
+        logger.error("DOC_POLISH_FAILED", { error: polishResult.error });
+        await notify({ ok: false, error: polishResult.error });
+        return NextResponse.json(
+          {
+            ok: false,
+            status: 500,
+            error: polishResult.error,
+            build: BUILD_TAG,
+            debug: { stage: "GPT_POLISH", raw: polishResult.raw?.slice(0, 300) },
+          },
+          { status: 500 }
+        );
+      }
 
-    // Content from GPT
-    finalContent = polished.content;
+      ({ title: finalTitle, subtitle: finalSubtitle, content: finalContent } = applyPolish(polishPlan, polishResult.data));
+    }
 
     // For backward compat, also set project/client placeholders from legacy fields
     finalProject = input.projectName || null;
     finalClient = input.clientName || null;
   }
 
-  // Doc file name (for Drive) - uses finalTitle which includes job# prefix if PROJECT has it
-  const docName = `${finalTitle} — ${new Date().toLocaleDateString("en-US", { timeZone: "America/Los_Angeles" })}`;
+  const docName = docNameFor(finalTitle);
 
   // Extract DOC_NAME from normalized merge or top-level fields
   const finalDocNameField =
@@ -1371,42 +1598,129 @@ export async function POST(req: Request) {
     (rawBody as Record<string, any>).Placeholders ||
     null;
 
-  // Log DOC_NAME extraction for debugging
-  console.log(`[generate-doc][${requestId}] DOC_NAME extraction: mergeNormalized.DOC_NAME=${!!mergeNormalized.DOC_NAME}, rawBody.docNameField=${!!(rawBody as any).docNameField}, final=${!!finalDocNameField}`);
+  logger.debug("DOC_NAME_FIELD", {
+    fromMergeFields: !!mergeNormalized.DOC_NAME,
+    fromDocNameField: !!(rawBody as Record<string, unknown>).docNameField,
+    forwarded: !!finalDocNameField,
+  });
+
+  const docParams: DocTemplateParams = {
+    templateDocId,
+    destinationFolderId,
+    projectFolderId: input.projectFolderId || destinationFolderId,
+    title: finalTitle,
+    subtitle: finalSubtitle,
+    generatedAt: finalGeneratedAt,
+    content: finalContent,
+    docName,
+    // Primary placeholders
+    project: finalProject,
+    client: finalClient,
+    header: finalHeader,
+    shortOverview: finalShortOverview,
+    inlineTable: finalInlineTable,
+    // Additional placeholders - use mergeNormalized (uppercase keys) with fallback to legacy
+    projectNumber: mergeNormalized.PROJECT_NUMBER || input.projectNumber || merge.project_number || null,
+    startDate: mergeNormalized.START_DATE || input.startDate || merge.start_date || null,
+    dueDate: mergeNormalized.DUE_DATE || input.dueDate || merge.due_date || null,
+    // DOC_NAME placeholder
+    docNameField: finalDocNameField,
+    // Pass-through: raw incoming placeholders from Airtable (supports extra keys not in whitelist)
+    rawIncomingPlaceholders: rawIncomingPlaceholders as Record<string, string> | null,
+  };
+
+  // ---------------------------------------------------------------------------
+  // DRY RUN: return what would be sent, without Apps Script / Google / Airtable writes
+  // ---------------------------------------------------------------------------
+  if (dryRun) {
+    const placeholders = buildDocPlaceholders(docParams);
+    const warnings: string[] = [];
+    if (!config.appsScriptDocWebappUrl) {
+      warnings.push("APPS_SCRIPT_DOC_WEBAPP_URL not configured - a real run would fail");
+    }
+    if (!getGoogleClients()) {
+      warnings.push("Google API credentials not configured - Docs API replacement and rename would be skipped");
+    }
+    if (skippedPolish) {
+      warnings.push("GPT polish skipped - title, subtitle and content are placeholders for its output");
+    }
+
+    const airtableWriteBack: PlannedWrite | null =
+      docRecordId && getDocsAirtable()
+        ? {
+            action: "update",
+            table: config.airtableDocsTable,
+            recordId: docRecordId,
+            fields: {
+              "Doc ID": "<created doc id>",
+              "Doc URL": "<created doc url>",
+              "PDF URL": "<created pdf url, if any>",
+            },
+          }
+        : null;
+
+    logger.info("DOC_DRY_RUN", { placeholders: Object.keys(placeholders).length });
+
+    return NextResponse.json({
+      ok: true,
+      status: 200,
+      dryRun: true,
+      plan: {
+        appsScript: buildAppsScriptPayload(docParams, placeholders),
+        replaceAllTextRequests: buildReplaceRequests(placeholders),
+        rename: plannedDocName(docParams, placeholders),
+        airtableWriteBack,
+        polish: skippedPolish ? { input: skippedPolish.input } : null,
+      },
+      warnings,
+      debug: {
+        templateDocId,
+        destinationFolderId,
+        title: finalTitle.slice(0, 100),
+        sourceType,
+        inputsUsed: inputsUsed.length > 0 ? inputsUsed : undefined,
+      },
+    });
+  }
 
   // ---------------------------------------------------------------------------
   // CREATE DOC FROM TEMPLATE
   // ---------------------------------------------------------------------------
-  const docResult = await createDocFromTemplate(
-    {
-      templateDocId,
-      destinationFolderId,
-      projectFolderId: input.projectFolderId || destinationFolderId,
-      title: finalTitle,
-      subtitle: finalSubtitle,
-      generatedAt: finalGeneratedAt,
-      content: finalContent,
-      docName,
-      // Primary placeholders
-      project: finalProject,
-      client: finalClient,
-      header: finalHeader,
-      shortOverview: finalShortOverview,
-      inlineTable: finalInlineTable,
-      // Additional placeholders - use mergeNormalized (uppercase keys) with fallback to legacy
-      projectNumber: mergeNormalized.PROJECT_NUMBER || input.projectNumber || merge.project_number || null,
-      startDate: mergeNormalized.START_DATE || input.startDate || merge.start_date || null,
-      dueDate: mergeNormalized.DUE_DATE || input.dueDate || merge.due_date || null,
-      // DOC_NAME placeholder
-      docNameField: finalDocNameField,
-      // Pass-through: raw incoming placeholders from Airtable (supports extra keys not in whitelist)
-      rawIncomingPlaceholders: rawIncomingPlaceholders as Record<string, string> | null,
-    },
-    requestId
-  );
+  const docQuota = await useQuota("doc-create", authCheck.key.name);
+  if (!docQuota.ok) {
+    return NextResponse.json(
+      { ok: false, status: 429, error: docQuota.reason, build: BUILD_TAG, debug: { stage: "QUOTA" } },
+      { status: docQuota.status, headers: rateLimitHeaders(docQuota) }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // ASYNC: hand the remaining steps to a job (lib/jobs.ts)
+  // ---------------------------------------------------------------------------
+  if (runAsync) {
+    const job = await enqueueJob(
+      generateDocJob,
+      { docParams, polish: deferredPolish, docRecordId: docRecordId || null, callbacks: callbacks.targets },
+      authCheck.key.name
+    );
+
+    return NextResponse.json(
+      {
+        ok: true,
+        status: 202,
+        jobId: job.id,
+        status_url: jobStatusUrl(req, job.id),
+        build: BUILD_TAG,
+      },
+      { status: 202 }
+    );
+  }
+
+  const docResult = await createDocFromTemplate(docParams);
 
   if (!docResult.ok) {
-    console.error(`[generate-doc][${requestId}] Doc creation failed: ${docResult.error}`);
+    logger.error("DOC_CREATE_FAILED", { error: docResult.error });
+    await notify({ ok: false, error: docResult.error });
     return NextResponse.json(
       {
         ok: false,
@@ -1423,22 +1737,14 @@ export async function POST(req: Request) {
   // AIRTABLE WRITE-BACK
   // ---------------------------------------------------------------------------
   if (docRecordId) {
-    const writeBackFields: Record<string, string> = {
-      "Doc ID": docResult.docId,
-      "Doc URL": docResult.docUrl,
-    };
-    if (docResult.pdfUrl) {
-      writeBackFields["PDF URL"] = docResult.pdfUrl;
-    }
-    await writeBackToAirtable(docRecordId, writeBackFields, requestId);
+    await writeBackToAirtable(docRecordId, writeBackFields(docResult));
   }
 
   // ---------------------------------------------------------------------------
   // SUCCESS RESPONSE
   // ---------------------------------------------------------------------------
-  console.log(
-    `[generate-doc][${requestId}] SUCCESS: docId=${docResult.docId}, docUrl=${docResult.docUrl}`
-  );
+  logger.info("DOC_GENERATED", { docId: docResult.docId, docUrl: docResult.docUrl });
+  await notify({ ok: true, result: { docId: docResult.docId, docUrl: docResult.docUrl, pdfUrl: docResult.pdfUrl } });
 
   return NextResponse.json({
     ok: true,
@@ -1459,6 +1765,8 @@ export async function POST(req: Request) {
   });
 }
 
+export const POST = withRequestContext("/api/generate-doc", handlePost);
+
 // =============================================================================
 // REJECT NON-POST
 // =============================================================================
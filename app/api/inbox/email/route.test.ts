@@ -0,0 +1,280 @@
+/**
+ * Offline integration tests for /api/inbox/email against the Airtable emulator.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { AirtableEmulator } from "@/lib/airtable-emulator";
+import { signRequest } from "@/lib/request-signing";
+
+const BASE = "appOSTEST";
+const COMPANIES = "Companies";
+const OPPORTUNITIES = "Opportunities";
+const INBOX_ITEMS = "Inbox Items";
+const SECRET = "test-inbox-secret";
+
+const emulator = new AirtableEmulator();
+let server: { url: string; close: () => Promise<void> };
+let POST: (req: Request) => Promise<Response>;
+let jobs: typeof import("@/lib/jobs");
+let jobDir: string;
+
+function emailRequest(body: Record<string, unknown>, query = ""): Request {
+  return new Request(`http://localhost/api/inbox/email${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-inbox-secret": SECRET },
+    body: JSON.stringify(body),
+  });
+}
+
+const EMAIL = {
+  gmailMessageId: "msg-1",
+  gmailThreadId: "thread-1",
+  from: { email: "Jane <jane@acme.com>", name: "Acme Corp" },
+  subject: "Website redesign RFP",
+};
+
+beforeAll(async () => {
+  server = await emulator.listen();
+  // Callbacks need a durable job store
+  jobDir = await mkdtemp(path.join(tmpdir(), "inbox-jobs-"));
+  vi.stubEnv("JOB_STORE", "file");
+  vi.stubEnv("JOB_STORE_DIR", jobDir);
+  vi.stubEnv("JOB_STORE_SINGLE_SERVER", "true");
+  vi.stubEnv("AIRTABLE_API_URL", server.url);
+  vi.stubEnv("AIRTABLE_API_KEY", "keyTEST");
+  vi.stubEnv("AIRTABLE_OS_BASE_ID", BASE);
+  vi.stubEnv("AIRTABLE_OS_TABLE_COMPANIES", COMPANIES);
+  vi.stubEnv("AIRTABLE_OS_TABLE_OPPORTUNITIES", OPPORTUNITIES);
+  vi.stubEnv("AIRTABLE_OS_TABLE_INBOX_ITEMS", INBOX_ITEMS);
+  vi.stubEnv("HIVE_INBOUND_EMAIL_SECRET", SECRET);
+  vi.stubEnv("CALLBACK_SIGNING_SECRET", "test-callback-secret");
+  vi.stubEnv("CALLBACK_ALLOWED_HOSTS", "hooks.example.com");
+  vi.stubEnv("AIRTABLE_TRACE_ID_FIELDS", "true");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  // Route modules read env at import time
+  vi.resetModules();
+  ({ POST } = await import("./route"));
+  jobs = await import("@/lib/jobs");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await server.close();
+  await rm(jobDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  emulator.reset();
+});
+
+describe("POST /api/inbox/email (emulated Airtable)", () => {
+  it("creates Company, Opportunity and Inbox Item for a new sender", async () => {
+    const res = await POST(emailRequest(EMAIL));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ ok: true, status: "opportunity_created", company: { created: true } });
+
+    const [company] = emulator.records(BASE, COMPANIES);
+    expect(company.fields).toMatchObject({ "Company Name": "Acme Corp", "Normalized Domain": "acme.com" });
+
+    const [opportunity] = emulator.records(BASE, OPPORTUNITIES);
+    expect(opportunity.fields).toMatchObject({
+      "Opportunity Name": "Website redesign RFP",
+      "Gmail Thread ID": "thread-1",
+      Company: [company.id],
+    });
+
+    const [item] = emulator.records(BASE, INBOX_ITEMS);
+    expect(item.fields).toMatchObject({
+      "Gmail Message ID": "msg-1",
+      Disposition: "Opportunity Created",
+      Opportunity: [opportunity.id],
+    });
+  });
+
+  it("writes the caller's traceparent trace ID to every record and the response", async () => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const req = emailRequest(EMAIL);
+    req.headers.set("traceparent", `00-${traceId}-00f067aa0ba902b7-01`);
+
+    const res = await POST(req);
+
+    expect(res.headers.get("x-trace-id")).toBe(traceId);
+    expect((await res.json()).traceId).toBe(traceId);
+    for (const table of [COMPANIES, OPPORTUNITIES, INBOX_ITEMS]) {
+      expect(emulator.records(BASE, table)[0].fields["Trace ID"]).toBe(traceId);
+    }
+  });
+
+  it("reports a redelivered message as duplicate without new records", async () => {
+    await POST(emailRequest(EMAIL));
+    const res = await POST(emailRequest(EMAIL));
+    const body = await res.json();
+
+    expect(body.status).toBe("duplicate");
+    expect(emulator.records(BASE, COMPANIES)).toHaveLength(1);
+    expect(emulator.records(BASE, OPPORTUNITIES)).toHaveLength(1);
+
+    const items = emulator.records(BASE, INBOX_ITEMS);
+    expect(items).toHaveLength(1);
+    expect(items[0].fields["Activity Log"]).toMatch(/Duplicate ingestion attempt/);
+  });
+
+  it("matches a Company on Domain when none has the Normalized Domain", async () => {
+    const [existing] = emulator.seed(BASE, COMPANIES, [{ "Company Name": "Acme Inc", Domain: "acme.com" }]);
+
+    const body = await (await POST(emailRequest(EMAIL))).json();
+
+    expect(body.company).toMatchObject({ id: existing.id, name: "Acme Inc", created: false });
+    expect(emulator.records(BASE, COMPANIES)).toHaveLength(1);
+  });
+
+  it("completes records a failed delivery left with only their key", async () => {
+    const [company] = emulator.seed(BASE, COMPANIES, [{ "Normalized Domain": "acme.com" }]);
+    const [item] = emulator.seed(BASE, INBOX_ITEMS, [{ "Gmail Message ID": "msg-1" }]);
+
+    const body = await (await POST(emailRequest(EMAIL))).json();
+
+    expect(body).toMatchObject({ status: "opportunity_created", company: { id: company.id, name: "Acme Corp" } });
+    expect(emulator.records(BASE, COMPANIES)).toEqual([
+      expect.objectContaining({ id: company.id, fields: expect.objectContaining({ "Company Name": "Acme Corp" }) }),
+    ]);
+    expect(emulator.records(BASE, INBOX_ITEMS)).toEqual([
+      expect.objectContaining({ id: item.id, fields: expect.objectContaining({ Disposition: "Opportunity Created" }) }),
+    ]);
+  });
+
+  it("attaches a reply to the thread's existing opportunity", async () => {
+    await POST(emailRequest(EMAIL));
+    const res = await POST(emailRequest({ ...EMAIL, gmailMessageId: "msg-2", subject: "Re: Website redesign RFP" }));
+    const body = await res.json();
+
+    expect(body).toMatchObject({ status: "attached", opportunity: { attached: true } });
+    expect(emulator.records(BASE, OPPORTUNITIES)).toHaveLength(1);
+    expect(emulator.records(BASE, INBOX_ITEMS)).toHaveLength(2);
+  });
+
+  it("shares one Company between concurrent emails from a new domain", async () => {
+    const responses = await Promise.all([
+      POST(emailRequest({ ...EMAIL, mode: "company_only" })),
+      POST(emailRequest({ ...EMAIL, gmailMessageId: "msg-2", gmailThreadId: "thread-2", mode: "company_only" })),
+    ]);
+    const bodies = await Promise.all(responses.map((res) => res.json()));
+
+    // Only the request whose upsert created the Company completes it
+    expect(bodies.map((body) => body.company.created).sort()).toEqual([false, true]);
+    expect(emulator.records(BASE, COMPANIES)).toHaveLength(1);
+    expect(emulator.records(BASE, INBOX_ITEMS)).toHaveLength(2);
+  });
+
+  it("keeps an existing Company's name", async () => {
+    emulator.seed(BASE, COMPANIES, [{ "Company Name": "ACME Corporation", "Normalized Domain": "acme.com" }]);
+
+    const body = await (await POST(emailRequest({ ...EMAIL, mode: "company_only" }))).json();
+
+    expect(body.company).toMatchObject({ name: "ACME Corporation", created: false });
+    expect(emulator.records(BASE, COMPANIES)[0].fields["Company Name"]).toBe("ACME Corporation");
+  });
+
+  it("accepts an HMAC-signed delivery once and rejects its replay", async () => {
+    const body = JSON.stringify(EMAIL);
+    const signed = () =>
+      new Request("http://localhost/api/inbox/email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body,
+      });
+    const headers = signRequest(SECRET, "POST", "http://localhost/api/inbox/email", body);
+
+    expect((await POST(signed())).status).toBe(200);
+
+    const replay = await POST(signed());
+    expect(replay.status).toBe(401);
+    expect(await replay.json()).toMatchObject({ error: "Unauthorized" });
+    expect(emulator.records(BASE, INBOX_ITEMS)).toHaveLength(1);
+  });
+
+  it("POSTs the result to callbackUrl once ingested", async () => {
+    const realFetch = globalThis.fetch;
+    const delivered: Request[] = [];
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const req = new Request(input as string, init);
+      if (!req.url.startsWith("https://hooks.example.com/")) return realFetch(input, init);
+      delivered.push(req);
+      return new Response("ok");
+    });
+
+    try {
+      const res = await POST(emailRequest({ ...EMAIL, callbackUrl: "https://hooks.example.com/inbox" }));
+      expect(res.status).toBe(200);
+
+      await vi.waitFor(() => expect(delivered).toHaveLength(1));
+      expect(delivered[0].headers.get("x-signature")).toMatch(/^sha256=[0-9a-f]{64}$/);
+      const payload = await delivered[0].json();
+      expect(payload).toMatchObject({
+        operation: "inbox-email",
+        status: "succeeded",
+        result: { ok: true, status: "opportunity_created" },
+        error: null,
+      });
+      expect(payload.result._debug).toBeUndefined();
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("answers with the result when its callback can't be queued", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const failing = new jobs.FileJobStore(jobDir, true);
+    failing.create = async () => {
+      throw new Error("disk full");
+    };
+    jobs.setJobStore(failing);
+
+    try {
+      const res = await POST(emailRequest({ ...EMAIL, callbackUrl: "https://hooks.example.com/inbox" }));
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ ok: true, status: "opportunity_created" });
+      expect(error.mock.calls.map(([line]) => JSON.parse(line as string).event)).toContain("CALLBACK_QUEUE_FAILED");
+    } finally {
+      jobs.setJobStore(new jobs.FileJobStore(jobDir, true));
+      error.mockRestore();
+    }
+  });
+
+  it("rejects a plain-http callbackUrl before writing anything", async () => {
+    const res = await POST(emailRequest({ ...EMAIL, callbackUrl: "http://hooks.example.com/inbox" }));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "callbackUrl must use https" });
+    expect(emulator.records(BASE, COMPANIES)).toHaveLength(0);
+  });
+
+  it("retries through a 429 from Airtable", async () => {
+    emulator.failNext(1, 429);
+
+    const res = await POST(emailRequest(EMAIL));
+
+    expect(res.status).toBe(200);
+    expect(emulator.requests[0].status).toBe(429);
+    expect(emulator.records(BASE, INBOX_ITEMS)).toHaveLength(1);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const body = await (await POST(emailRequest(EMAIL, "?dryRun=1"))).json();
+
+    expect(body).toMatchObject({ ok: true, dryRun: true, status: "opportunity_created" });
+    expect(body.plannedWrites.map((w: { table: string }) => w.table)).toEqual([COMPANIES, OPPORTUNITIES, INBOX_ITEMS]);
+    expect(emulator.records(BASE, COMPANIES)).toHaveLength(0);
+    expect(emulator.requests.every((r) => r.method === "GET")).toBe(true);
+  });
+});
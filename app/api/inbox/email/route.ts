@@ -1,21 +1,22 @@
 import { NextResponse } from "next/server";
-import {
-  AirtableOSClient,
-  escapeFormulaValue,
-  extractDomainFromEmail,
-  normalizeDomain,
-  generateTraceId,
-} from "@/lib/airtable-os";
+import { AirtableClient, type AirtableRecord } from "@/lib/airtable";
+import { and, eq, type Formula } from "@/lib/airtable-formula";
+import { extractDomainFromEmail, normalizeDomain } from "@/lib/airtable-os";
 import type {
   InboxEmailPayload,
   InboxEmailResponse,
   InboxMode,
-  CompanyFields,
-  OpportunityFields,
-  InboxItemFields,
   CompanyResult,
   OpportunityResult,
 } from "@/lib/inbox-types";
+import { dryRunRecordId, isDryRun, type PlannedWrite } from "@/lib/dry-run";
+import { getSchema, loadSchema, recordTraceId, type SchemaFieldPath } from "@/lib/schema";
+import { config, featureStatus } from "@/lib/config";
+import { authenticateSigned } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { completedPayload, parseCallbacks, queueCallbacks, type CallbackTarget } from "@/lib/callbacks";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { newTraceId } from "@/lib/trace";
 
 /**
  * Gmail Inbox Ingestion Pipeline
@@ -24,59 +25,57 @@ import type {
  * - Explicit Company get-or-create (no linked-field auto-create)
  * - Full observability (trace id, logging, raw payload storage)
  * - 3 modes: opportunity, company_only, log_only
- * - Dedupe by gmailMessageId, thread attach by gmailThreadId
+ * - Atomic upserts (performUpsert) keyed on Normalized Domain (Company),
+ *   Gmail Thread ID (Opportunity) and Gmail Message ID (Inbox Item), so
+ *   concurrent or repeated deliveries never create duplicates
+ * - Dry run (body dryRun: true or ?dryRun=1): lookups run, writes are
+ *   returned as plannedWrites instead of being sent
+ * - Tables and fields resolved through the schema registry (base "os" in
+ *   lib/schema.ts) rather than hard-coded names
+ * - Completion callbacks: "callbackUrl" and/or "callbackAirtable" (a record
+ *   in the OS base, with explicit `fields`) get the response once the email
+ *   is ingested or ingestion failed (lib/callbacks.ts)
  */
 
-// ============================================================================
-// Environment Configuration (OS-only)
-// ============================================================================
-
-const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
-const AIRTABLE_OS_BASE_ID = process.env.AIRTABLE_OS_BASE_ID;
-const AIRTABLE_OS_TABLE_COMPANIES = process.env.AIRTABLE_OS_TABLE_COMPANIES;
-const AIRTABLE_OS_TABLE_OPPORTUNITIES = process.env.AIRTABLE_OS_TABLE_OPPORTUNITIES;
-const AIRTABLE_OS_TABLE_INBOX_ITEMS = process.env.AIRTABLE_OS_TABLE_INBOX_ITEMS;
-const HIVE_INBOUND_EMAIL_SECRET = process.env.HIVE_INBOUND_EMAIL_SECRET;
-
-// Validate required env vars at startup
-const missingEnvVars: string[] = [];
-if (!AIRTABLE_API_KEY) missingEnvVars.push("AIRTABLE_API_KEY");
-if (!AIRTABLE_OS_BASE_ID) missingEnvVars.push("AIRTABLE_OS_BASE_ID");
-if (!AIRTABLE_OS_TABLE_COMPANIES) missingEnvVars.push("AIRTABLE_OS_TABLE_COMPANIES");
-if (!AIRTABLE_OS_TABLE_OPPORTUNITIES) missingEnvVars.push("AIRTABLE_OS_TABLE_OPPORTUNITIES");
-if (!AIRTABLE_OS_TABLE_INBOX_ITEMS) missingEnvVars.push("AIRTABLE_OS_TABLE_INBOX_ITEMS");
-if (!HIVE_INBOUND_EMAIL_SECRET) missingEnvVars.push("HIVE_INBOUND_EMAIL_SECRET");
-
-if (missingEnvVars.length > 0) {
-  console.error("INBOX_EMAIL_CONFIG_ERROR", { missing: missingEnvVars });
-}
-
-const IS_PRODUCTION = process.env.NODE_ENV === "production";
-
 // ============================================================================
 // Helpers
 // ============================================================================
 
 function getDebugPayload(): InboxEmailResponse["_debug"] {
-  if (IS_PRODUCTION) return undefined;
+  if (config.isProduction) return undefined;
   return {
-    baseId: AIRTABLE_OS_BASE_ID || "",
+    baseId: config.osBaseId,
     tables: {
-      companies: AIRTABLE_OS_TABLE_COMPANIES || "",
-      opportunities: AIRTABLE_OS_TABLE_OPPORTUNITIES || "",
-      inboxItems: AIRTABLE_OS_TABLE_INBOX_ITEMS || "",
+      companies: config.osCompaniesTable,
+      opportunities: config.osOpportunitiesTable,
+      inboxItems: config.osInboxItemsTable,
     },
   };
 }
 
-function jsonResponse(data: InboxEmailResponse, status = 200): NextResponse {
-  return NextResponse.json(data, { status });
+/** Airtable name of an OS base field, e.g. osField("company.normalizedDomain"). */
+function osField(path: SchemaFieldPath<"os">): string {
+  return getSchema().field("os", path);
+}
+
+function osTable(table: "company" | "opportunity" | "inboxItem"): string {
+  return getSchema().table("os", table);
+}
+
+function textField(record: AirtableRecord, path: SchemaFieldPath<"os">): string | undefined {
+  const value = record.fields[osField(path)];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function jsonResponse(data: InboxEmailResponse, status = 200, headers?: Record<string, string>): NextResponse {
+  return NextResponse.json(data, { status, headers });
 }
 
 function errorResponse(
   traceId: string,
   error: string,
-  status = 500
+  status = 500,
+  headers?: Record<string, string>
 ): NextResponse {
   return jsonResponse(
     {
@@ -86,7 +85,8 @@ function errorResponse(
       error,
       _debug: getDebugPayload(),
     },
-    status
+    status,
+    headers
   );
 }
 
@@ -132,289 +132,378 @@ function asLinkedRecordArray(id: string, fieldName: string): string[] {
 // ============================================================================
 
 /**
- * Get or create a Company by normalized domain.
- * Searches by "Normalized Domain" field first, then "Domain" field.
- * Creates if not found.
+ * Get or create a record on its natural key.
+ *
+ * A record matching `keyFields` (or, failing that, `fallbackFormula`) whose
+ * `completeField` is set is returned unchanged; one with `completeField`
+ * empty (left bare by some other writer) gets `initialFields` in a single
+ * PATCH. With no match, `keyFields` and `initialFields` go out in one upsert
+ * (performUpsert), so a record is never created without its content. A
+ * concurrent request upserting the same key between the lookup and the
+ * upsert has its fields overwritten with this request's, which describe the
+ * same key.
  */
-async function getOrCreateCompany(
-  client: AirtableOSClient,
+async function upsertOnKey(
+  client: AirtableClient,
   traceId: string,
-  domain: string,
-  fromName?: string
-): Promise<CompanyResult> {
-  const normalizedDomain = normalizeDomain(domain);
+  table: string,
+  keyFields: Record<string, unknown>,
+  initialFields: Record<string, unknown>,
+  completeField: string,
+  fallbackFormula?: Formula
+): Promise<{ record: AirtableRecord; created: boolean }> {
+  const existing = await findOnKey(client, table, keyFields, fallbackFormula);
+  if (existing?.fields[completeField]) {
+    return { record: existing, created: false };
+  }
 
-  if (!normalizedDomain) {
-    throw new Error("Cannot determine company domain");
+  if (existing) {
+    logger.warn("UPSERT_COMPLETING_INCOMPLETE", { traceId, table, recordId: existing.id, completeField });
+    const completed = await client.updateRecord(table, existing.id, initialFields);
+    return { record: completed, created: true };
   }
 
-  console.log("COMPANY_LOOKUP", { traceId, domain, normalizedDomain });
+  return client.upsertRecord(table, { ...keyFields, ...initialFields }, Object.keys(keyFields));
+}
 
-  // Search by Normalized Domain first
-  const escapedDomain = escapeFormulaValue(normalizedDomain);
-  let existing = await client.findOneByFormula<CompanyFields>(
-    AIRTABLE_OS_TABLE_COMPANIES!,
-    `{Normalized Domain}="${escapedDomain}"`,
-    traceId
-  );
+/**
+ * The record matching every key field, else the first matching `fallbackFormula`.
+ */
+async function findOnKey(
+  client: AirtableClient,
+  table: string,
+  keyFields: Record<string, unknown>,
+  fallbackFormula?: Formula
+): Promise<AirtableRecord | null> {
+  const formula = and(...Object.entries(keyFields).map(([field, value]) => eq(field, String(value))));
+  const existing = await client.findOne(table, formula);
+  if (existing || !fallbackFormula) return existing;
+  return client.findOne(table, fallbackFormula);
+}
+
+/**
+ * Dry-run counterpart of upsertOnKey: looks the key up and, if no complete
+ * record exists, records the update or upsert it would send.
+ */
+async function planUpsertOnKey(
+  client: AirtableClient,
+  plan: PlannedWrite[],
+  table: string,
+  keyFields: Record<string, unknown>,
+  initialFields: Record<string, unknown>,
+  completeField: string,
+  fallbackFormula?: Formula
+): Promise<AirtableRecord | null> {
+  const existing = await findOnKey(client, table, keyFields, fallbackFormula);
+
+  if (existing?.fields[completeField]) {
+    return existing;
+  }
 
   if (existing) {
-    console.log("COMPANY_FOUND_BY_NORMALIZED_DOMAIN", {
-      traceId,
-      companyId: existing.id,
-      normalizedDomain,
-    });
-    return {
-      id: existing.id,
-      name: existing.fields["Company Name"] || normalizedDomain,
-      domain: normalizedDomain,
-      created: false,
-    };
+    plan.push({ action: "update", table, recordId: existing.id, fields: initialFields });
+    return null;
   }
 
-  // Fallback: search by Domain field
-  existing = await client.findOneByFormula<CompanyFields>(
-    AIRTABLE_OS_TABLE_COMPANIES!,
-    `{Domain}="${escapedDomain}"`,
-    traceId
-  );
+  plan.push({
+    action: "upsert",
+    table,
+    fieldsToMergeOn: Object.keys(keyFields),
+    fields: { ...keyFields, ...initialFields },
+  });
+  return null;
+}
 
-  if (existing) {
-    console.log("COMPANY_FOUND_BY_DOMAIN", {
-      traceId,
-      companyId: existing.id,
-      domain: normalizedDomain,
-    });
-    return {
-      id: existing.id,
-      name: existing.fields["Company Name"] || normalizedDomain,
-      domain: normalizedDomain,
-      created: false,
-    };
+/**
+ * Get or create a Company, keyed on company.normalizedDomain. As before the
+ * upsert, a Company with only company.domain filled (created before Normalized
+ * Domain existed) is matched on that instead of getting a duplicate.
+ * Company Name, Domain, Source System and Trace ID are only set on creation.
+ */
+async function upsertCompany(
+  client: AirtableClient,
+  traceId: string,
+  domain: string,
+  fromName: string | undefined,
+  plan: PlannedWrite[] | null
+): Promise<CompanyResult> {
+  const normalizedDomain = normalizeDomain(domain);
+
+  if (!normalizedDomain) {
+    throw new Error("Cannot determine company domain");
   }
 
-  // Not found - create new Company
+  logger.info("COMPANY_LOOKUP", { traceId, domain, normalizedDomain });
+
+  const schema = getSchema();
   const companyName = fromName || normalizedDomain;
-  const fields: CompanyFields = {
-    "Company Name": companyName,
-    Domain: normalizedDomain,
-    "Normalized Domain": normalizedDomain,
-    "Source System": "OS – Gmail Inbox",
-  };
+  const keyFields = schema.fields("os", "company", { normalizedDomain });
+  const initialFields = schema.fields("os", "company", {
+    name: companyName,
+    domain: normalizedDomain,
+    sourceSystem: "OS – Gmail Inbox",
+    traceId: recordTraceId(traceId),
+  });
+  const byDomain = eq(osField("company.domain"), normalizedDomain);
 
-  console.log("COMPANY_CREATING", { traceId, fields });
+  if (plan) {
+    const existing = await planUpsertOnKey(
+      client,
+      plan,
+      osTable("company"),
+      keyFields,
+      initialFields,
+      osField("company.name"),
+      byDomain
+    );
+    if (existing) {
+      return {
+        id: existing.id,
+        name: textField(existing, "company.name") || normalizedDomain,
+        domain: normalizedDomain,
+        created: false,
+      };
+    }
+    logger.info("COMPANY_UPSERT_PLANNED", { traceId });
+    return { id: dryRunRecordId("Company"), name: companyName, domain: normalizedDomain, created: true };
+  }
 
-  const created = await client.createRecord<CompanyFields>(
-    AIRTABLE_OS_TABLE_COMPANIES!,
-    fields,
-    traceId
+  const { record, created } = await upsertOnKey(
+    client,
+    traceId,
+    osTable("company"),
+    keyFields,
+    initialFields,
+    osField("company.name"),
+    byDomain
   );
 
-  console.log("COMPANY_CREATED", { traceId, companyId: created.id });
+  logger.info("COMPANY_UPSERTED", { traceId, companyId: record.id, created, normalizedDomain });
 
   return {
-    id: created.id,
-    name: companyName,
+    id: record.id,
+    name: textField(record, "company.name") || normalizedDomain,
     domain: normalizedDomain,
-    created: true,
+    created,
   };
 }
 
 /**
- * Check for duplicate by gmailMessageId.
- * Returns the existing Inbox Item if found.
+ * Get or create the Opportunity for a Gmail thread, keyed on opportunity.gmailThreadId.
+ * An existing Opportunity is attached to, never modified.
  */
-async function findDuplicateInboxItem(
-  client: AirtableOSClient,
+async function upsertOpportunity(
+  client: AirtableClient,
   traceId: string,
-  gmailMessageId: string
-): Promise<{ id: string; activityLog?: string } | null> {
-  const escaped = escapeFormulaValue(gmailMessageId);
-  const existing = await client.findOneByFormula<InboxItemFields>(
-    AIRTABLE_OS_TABLE_INBOX_ITEMS!,
-    `{Gmail Message ID}="${escaped}"`,
-    traceId
-  );
+  subject: string,
+  companyId: string,
+  companyName: string,
+  gmailThreadId: string,
+  plan: PlannedWrite[] | null
+): Promise<OpportunityResult> {
+  const opportunityName = subject || `${companyName} — New Opportunity`;
 
-  if (existing) {
-    console.log("INBOX_ITEM_DUPLICATE_FOUND", {
-      traceId,
-      existingId: existing.id,
-      gmailMessageId,
-    });
-    return {
-      id: existing.id,
-      activityLog: existing.fields["Activity Log"] as string | undefined,
-    };
-  }
+  const schema = getSchema();
+  const keyFields = schema.fields("os", "opportunity", { gmailThreadId });
+  const initialFields = schema.fields("os", "opportunity", {
+    name: opportunityName,
+    company: asLinkedRecordArray(companyId, "Company (Opportunity)"),
+    stage: "Qualification",
+    sourceSystem: "OS – Gmail Inbox",
+    traceId: recordTraceId(traceId),
+  });
 
-  return null;
-}
+  if (plan) {
+    const existing = await planUpsertOnKey(
+      client,
+      plan,
+      osTable("opportunity"),
+      keyFields,
+      initialFields,
+      osField("opportunity.name")
+    );
+    if (existing) {
+      return { id: existing.id, name: textField(existing, "opportunity.name") || "Unnamed", attached: true };
+    }
+    logger.info("OPPORTUNITY_UPSERT_PLANNED", { traceId });
+    return { id: dryRunRecordId("Opportunity"), name: opportunityName, attached: false };
+  }
 
-/**
- * Find existing Opportunity by Gmail Thread ID.
- */
-async function findOpportunityByThreadId(
-  client: AirtableOSClient,
-  traceId: string,
-  gmailThreadId: string
-): Promise<{ id: string; name: string } | null> {
-  const escaped = escapeFormulaValue(gmailThreadId);
-  const existing = await client.findOneByFormula<OpportunityFields>(
-    AIRTABLE_OS_TABLE_OPPORTUNITIES!,
-    `{Gmail Thread ID}="${escaped}"`,
-    traceId
+  const { record, created } = await upsertOnKey(
+    client,
+    traceId,
+    osTable("opportunity"),
+    keyFields,
+    initialFields,
+    osField("opportunity.name")
   );
 
-  if (existing) {
-    console.log("OPPORTUNITY_THREAD_MATCH", {
-      traceId,
-      opportunityId: existing.id,
-      gmailThreadId,
-    });
-    return {
-      id: existing.id,
-      name: existing.fields["Opportunity Name"] || "Unnamed",
-    };
-  }
+  logger.info(created ? "OPPORTUNITY_CREATED" : "OPPORTUNITY_THREAD_MATCH", {
+    traceId,
+    opportunityId: record.id,
+    gmailThreadId,
+  });
 
-  return null;
+  return {
+    id: record.id,
+    name: textField(record, "opportunity.name") || "Unnamed",
+    attached: !created,
+  };
 }
 
 /**
- * Create an Inbox Item record.
+ * Get or create the Inbox Item for a Gmail message, keyed on inboxItem.gmailMessageId.
+ * When the message was already ingested, returns the existing item as a duplicate.
  */
-async function createInboxItem(
-  client: AirtableOSClient,
+async function upsertInboxItem(
+  client: AirtableClient,
   traceId: string,
   payload: InboxEmailPayload,
   domain: string,
   companyId: string,
   disposition: string,
-  opportunityId?: string
-): Promise<string> {
-  const fields: Record<string, unknown> = {
-    "Trace ID": traceId,
-    "Gmail Message ID": payload.gmailMessageId,
-    "Gmail Thread ID": payload.gmailThreadId,
-    Subject: payload.subject || "(no subject)",
-    "From Email": payload.from.email,
-    Domain: domain,
-    Disposition: disposition,
-    Company: asLinkedRecordArray(companyId, "Company (Inbox Item)"),
-  };
-
-  if (payload.gmailUrl) fields["Gmail URL"] = payload.gmailUrl;
-  if (payload.snippet) fields["Snippet"] = payload.snippet;
-  if (payload.bodyText) fields["Body Text"] = payload.bodyText.slice(0, 10000); // Limit size
-  if (payload.from.name) fields["From Name"] = payload.from.name;
-  if (payload.receivedAt) fields["Received At"] = payload.receivedAt;
-  if (opportunityId) fields["Opportunity"] = asLinkedRecordArray(opportunityId, "Opportunity (Inbox Item)");
-
-  // Store raw payload for debugging
-  fields["Raw Payload"] = JSON.stringify(payload).slice(0, 50000);
+  opportunityId: string | undefined,
+  plan: PlannedWrite[] | null
+): Promise<{ id: string; duplicate: boolean; activityLog?: string }> {
+  const schema = getSchema();
+  const keyFields = schema.fields("os", "inboxItem", { gmailMessageId: payload.gmailMessageId });
+  const fields = schema.fields("os", "inboxItem", {
+    traceId,
+    gmailThreadId: payload.gmailThreadId,
+    subject: payload.subject || "(no subject)",
+    fromEmail: payload.from.email,
+    domain,
+    disposition,
+    company: asLinkedRecordArray(companyId, "Company (Inbox Item)"),
+    gmailUrl: payload.gmailUrl || undefined,
+    snippet: payload.snippet || undefined,
+    bodyText: payload.bodyText ? payload.bodyText.slice(0, 10000) : undefined, // Limit size
+    fromName: payload.from.name || undefined,
+    receivedAt: payload.receivedAt || undefined,
+    opportunity: opportunityId ? asLinkedRecordArray(opportunityId, "Opportunity (Inbox Item)") : undefined,
+    // Store raw payload for debugging
+    rawPayload: JSON.stringify(payload).slice(0, 50000),
+    // Initialize activity log
+    activityLog: `[${new Date().toISOString()}] Created via inbox ingestion (${traceId})`,
+  });
 
-  // Initialize activity log
-  fields["Activity Log"] = `[${new Date().toISOString()}] Created via inbox ingestion (${traceId})`;
+  if (plan) {
+    const existing = await planUpsertOnKey(
+      client,
+      plan,
+      osTable("inboxItem"),
+      keyFields,
+      fields,
+      osField("inboxItem.disposition")
+    );
+    if (existing) {
+      return { id: existing.id, duplicate: true, activityLog: textField(existing, "inboxItem.activityLog") };
+    }
+    logger.info("INBOX_ITEM_UPSERT_PLANNED", { traceId });
+    return { id: dryRunRecordId("InboxItem"), duplicate: false };
+  }
 
-  console.log("INBOX_ITEM_CREATING", { traceId, disposition, companyId, opportunityId });
+  logger.info("INBOX_ITEM_UPSERTING", { traceId, disposition, companyId, opportunityId });
 
-  const created = await client.createRecord<InboxItemFields>(
-    AIRTABLE_OS_TABLE_INBOX_ITEMS!,
+  const { record, created } = await upsertOnKey(
+    client,
+    traceId,
+    osTable("inboxItem"),
+    keyFields,
     fields,
-    traceId
+    osField("inboxItem.disposition")
   );
 
-  console.log("INBOX_ITEM_CREATED", { traceId, inboxItemId: created.id });
+  if (!created) {
+    logger.info("INBOX_ITEM_DUPLICATE_FOUND", {
+      traceId,
+      existingId: record.id,
+      gmailMessageId: payload.gmailMessageId,
+    });
+    return { id: record.id, duplicate: true, activityLog: textField(record, "inboxItem.activityLog") };
+  }
+
+  logger.info("INBOX_ITEM_CREATED", { traceId, inboxItemId: record.id });
 
-  return created.id;
+  return { id: record.id, duplicate: false };
 }
 
 /**
  * Append to activity log on duplicate.
  */
 async function appendActivityLog(
-  client: AirtableOSClient,
+  client: AirtableClient,
   traceId: string,
   inboxItemId: string,
-  existingLog: string | undefined
+  existingLog: string | undefined,
+  plan: PlannedWrite[] | null
 ): Promise<void> {
   const timestamp = new Date().toISOString();
   const newEntry = `[${timestamp}] Duplicate ingestion attempt (${traceId})`;
   const updatedLog = existingLog ? `${existingLog}\n${newEntry}` : newEntry;
 
+  if (plan) {
+    plan.push({
+      action: "update",
+      table: osTable("inboxItem"),
+      recordId: inboxItemId,
+      fields: { [osField("inboxItem.activityLog")]: updatedLog },
+    });
+    return;
+  }
+
   await client.updateRecord(
-    AIRTABLE_OS_TABLE_INBOX_ITEMS!,
+    osTable("inboxItem"),
     inboxItemId,
-    { "Activity Log": updatedLog },
-    traceId
-  );
-
-  console.log("INBOX_ITEM_ACTIVITY_APPENDED", { traceId, inboxItemId });
-}
-
-/**
- * Create a new Opportunity.
- */
-async function createOpportunity(
-  client: AirtableOSClient,
-  traceId: string,
-  subject: string,
-  companyId: string,
-  companyName: string,
-  gmailThreadId: string
-): Promise<OpportunityResult> {
-  const opportunityName = subject || `${companyName} — New Opportunity`;
-
-  const fields: OpportunityFields = {
-    "Opportunity Name": opportunityName,
-    Company: asLinkedRecordArray(companyId, "Company (Opportunity)"),
-    Stage: "Qualification",
-    "Source System": "OS – Gmail Inbox",
-    "Gmail Thread ID": gmailThreadId,
-  };
-
-  console.log("OPPORTUNITY_CREATING", { traceId, fields });
-
-  const created = await client.createRecord<OpportunityFields>(
-    AIRTABLE_OS_TABLE_OPPORTUNITIES!,
-    fields,
-    traceId
+    { [osField("inboxItem.activityLog")]: updatedLog }
   );
 
-  console.log("OPPORTUNITY_CREATED", { traceId, opportunityId: created.id });
-
-  return {
-    id: created.id,
-    name: opportunityName,
-    attached: false,
-  };
+  logger.info("INBOX_ITEM_ACTIVITY_APPENDED", { traceId, inboxItemId });
 }
 
 // ============================================================================
 // Main Handler
 // ============================================================================
 
-export async function POST(req: Request): Promise<NextResponse> {
-  const traceId = generateTraceId("inb");
+async function handlePost(req: Request): Promise<NextResponse> {
+  const traceId = currentTraceId() ?? newTraceId();
+
+  logger.info("INBOX_EMAIL_START", { traceId });
 
-  console.log("INBOX_EMAIL_START", { traceId });
+  // Set once the request is validated, so failures after that are reported too
+  let callbacks: CallbackTarget[] = [];
+  let keyName = "";
+  const notify = (outcome: Parameters<typeof completedPayload>[1]) =>
+    queueCallbacks(callbacks, completedPayload("inbox-email", outcome), keyName);
+  const respondAndNotify = async (data: InboxEmailResponse): Promise<NextResponse> => {
+    const { _debug, ...result } = data;
+    await notify({ ok: true, result });
+    return jsonResponse(data);
+  };
 
   try {
-    // Check env vars
-    if (missingEnvVars.length > 0) {
+    // Check env vars (lib/config.ts, feature "inboxEmail")
+    const feature = featureStatus("inboxEmail");
+    if (!feature.enabled) {
+      logger.error("INBOX_EMAIL_CONFIG_ERROR", { traceId, missing: feature.missing });
       return errorResponse(
         traceId,
-        `Missing env vars: ${missingEnvVars.join(", ")}`,
+        `Missing env vars: ${feature.missing.join(", ")}`,
         500
       );
     }
 
-    // Auth check
-    const providedSecret = req.headers.get("x-inbox-secret");
-    if (!providedSecret || providedSecret !== HIVE_INBOUND_EMAIL_SECRET) {
-      console.warn("INBOX_EMAIL_UNAUTHORIZED", { traceId });
-      return errorResponse(traceId, "Unauthorized", 401);
+    // Auth check: x-inbox-secret, any key with scope "inbox:email", or an
+    // HMAC signature made with one of them (lib/request-signing.ts)
+    const auth = await authenticateSigned(req, "inbox:email");
+    if (!auth.ok) {
+      logger.warn("INBOX_EMAIL_UNAUTHORIZED", { traceId, reason: auth.reason });
+      return errorResponse(traceId, auth.status === 500 ? auth.reason : "Unauthorized", auth.status);
+    }
+
+    const rateLimit = await checkRateLimit("/api/inbox/email", auth.key.name);
+    if (!rateLimit.ok) {
+      return errorResponse(traceId, rateLimit.reason, rateLimit.status, rateLimitHeaders(rateLimit));
     }
 
     // Parse body
@@ -447,10 +536,23 @@ export async function POST(req: Request): Promise<NextResponse> {
     const normalizedDomain = normalizeDomain(domain);
 
     const mode: InboxMode = payload.mode || "opportunity";
+    const dryRun = isDryRun(req, payload);
+    const plan: PlannedWrite[] | null = dryRun ? [] : null;
 
-    console.log("INBOX_EMAIL_PARSED", {
+    const callbackTargets = parseCallbacks(payload, { baseId: config.osBaseId });
+    if (!callbackTargets.ok) {
+      return errorResponse(traceId, callbackTargets.error, callbackTargets.status);
+    }
+    if (!dryRun) {
+      callbacks = callbackTargets.targets;
+      keyName = auth.key.name;
+    }
+
+    logger.info("INBOX_EMAIL_PARSED", {
       traceId,
+      apiKey: auth.key.name,
       mode,
+      dryRun,
       gmailMessageId: payload.gmailMessageId,
       gmailThreadId: payload.gmailThreadId,
       fromEmail: payload.from.email,
@@ -459,45 +561,23 @@ export async function POST(req: Request): Promise<NextResponse> {
     });
 
     // Initialize Airtable client
-    const client = new AirtableOSClient(AIRTABLE_API_KEY!, AIRTABLE_OS_BASE_ID!);
-
-    // Step 1: Get or create Company
-    const company = await getOrCreateCompany(
-      client,
+    const client = new AirtableClient({
+      apiKey: config.airtableApiKey,
+      baseId: config.osBaseId,
       traceId,
-      normalizedDomain,
-      payload.from.name
-    );
+    });
+    await loadSchema("os", client);
 
-    // Step 2: Check for duplicate by gmailMessageId
-    const duplicate = await findDuplicateInboxItem(
+    // Step 1: Upsert Company (keyed on Normalized Domain)
+    const company = await upsertCompany(
       client,
       traceId,
-      payload.gmailMessageId
+      normalizedDomain,
+      payload.from.name,
+      plan
     );
 
-    if (duplicate) {
-      // Append activity log to existing item
-      await appendActivityLog(client, traceId, duplicate.id, duplicate.activityLog);
-
-      console.log("INBOX_EMAIL_DUPLICATE", { traceId, existingId: duplicate.id });
-
-      return jsonResponse({
-        ok: true,
-        status: "duplicate",
-        traceId,
-        company: {
-          id: company.id,
-          name: company.name,
-          domain: company.domain,
-          created: company.created,
-        },
-        inboxItem: { id: duplicate.id },
-        _debug: getDebugPayload(),
-      });
-    }
-
-    // Step 3: Handle based on mode
+    // Step 2: Handle based on mode
     let opportunityResult: OpportunityResult | undefined;
     let disposition: string;
     let finalStatus: InboxEmailResponse["status"];
@@ -511,50 +591,61 @@ export async function POST(req: Request): Promise<NextResponse> {
       disposition = company.created ? "Company Created" : "Company Exists";
       finalStatus = "company_only";
     } else {
-      // Opportunity mode (default): find or create opportunity
-      const existingOpp = await findOpportunityByThreadId(
+      // Opportunity mode (default): attach to the thread's opportunity or create it
+      opportunityResult = await upsertOpportunity(
         client,
         traceId,
-        payload.gmailThreadId
+        payload.subject,
+        company.id,
+        company.name,
+        payload.gmailThreadId,
+        plan
       );
-
-      if (existingOpp) {
-        // Attach to existing opportunity
-        opportunityResult = {
-          id: existingOpp.id,
-          name: existingOpp.name,
-          attached: true,
-        };
-        disposition = "Attached";
-        finalStatus = "attached";
-      } else {
-        // Create new opportunity
-        opportunityResult = await createOpportunity(
-          client,
-          traceId,
-          payload.subject,
-          company.id,
-          company.name,
-          payload.gmailThreadId
-        );
-        disposition = "Opportunity Created";
-        finalStatus = "opportunity_created";
-      }
+      disposition = opportunityResult.attached ? "Attached" : "Opportunity Created";
+      finalStatus = opportunityResult.attached ? "attached" : "opportunity_created";
     }
 
-    // Step 4: Create Inbox Item
-    const inboxItemId = await createInboxItem(
+    // Step 3: Upsert Inbox Item (keyed on Gmail Message ID). A message that was
+    // already ingested is a duplicate: Company and Opportunity matched their
+    // existing records above, so nothing new was written.
+    const inboxItem = await upsertInboxItem(
       client,
       traceId,
       payload,
       normalizedDomain,
       company.id,
       disposition,
-      opportunityResult?.id
+      opportunityResult?.id,
+      plan
     );
 
-    console.log("INBOX_EMAIL_COMPLETE", {
+    if (inboxItem.duplicate) {
+      // Append activity log to existing item
+      await appendActivityLog(client, traceId, inboxItem.id, inboxItem.activityLog, plan);
+
+      logger.info("INBOX_EMAIL_DUPLICATE", { traceId, existingId: inboxItem.id });
+
+      return respondAndNotify({
+        ok: true,
+        status: "duplicate",
+        traceId,
+        company: {
+          id: company.id,
+          name: company.name,
+          domain: company.domain,
+          created: company.created,
+        },
+        inboxItem: { id: inboxItem.id },
+        ...(plan ? { dryRun: true, plannedWrites: plan } : {}),
+        _debug: getDebugPayload(),
+      });
+    }
+
+    const inboxItemId = inboxItem.id;
+
+    logger.info("INBOX_EMAIL_COMPLETE", {
       traceId,
+      dryRun,
       status: finalStatus,
       companyId: company.id,
       companyCreated: company.created,
@@ -562,7 +653,7 @@ export async function POST(req: Request): Promise<NextResponse> {
       inboxItemId,
     });
 
-    return jsonResponse({
+    return respondAndNotify({
       ok: true,
       status: finalStatus,
       traceId,
@@ -580,16 +671,20 @@ export async function POST(req: Request): Promise<NextResponse> {
           }
         : undefined,
       inboxItem: { id: inboxItemId },
+      ...(plan ? { dryRun: true, plannedWrites: plan } : {}),
       _debug: getDebugPayload(),
     });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
-    console.error("INBOX_EMAIL_ERROR", { traceId, error: message });
+    logger.error("INBOX_EMAIL_ERROR", { traceId, error: message });
 
+    await notify({ ok: false, error: message });
     return errorResponse(traceId, message, 500);
   }
 }
 
+export const POST = withRequestContext("/api/inbox/email", handlePost);
+
 export async function GET(): Promise<NextResponse> {
   return NextResponse.json({
     ok: true,
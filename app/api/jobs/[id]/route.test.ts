@@ -0,0 +1,79 @@
+/**
+ * Tests for /api/jobs/:id
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import type { Job } from "@/lib/jobs";
+
+const ADMIN_TOKEN = "test-admin-token";
+const DOCS_SECRET = "test-docs-secret";
+
+let GET: (req: Request, ctx: { params: { id: string } }) => Promise<Response>;
+
+function statusRequest(id: string, token: string): Promise<Response> {
+  const req = new Request(`http://localhost/api/jobs/${id}`, { headers: { Authorization: `Bearer ${token}` } });
+  return GET(req, { params: { id } });
+}
+
+const JOB: Job = {
+  id: "job_abc",
+  type: "generate-doc",
+  status: "succeeded",
+  scope: "docs:generate",
+  keyName: "generate-doc",
+  input: { docParams: { content: "Confidential notes" } },
+  state: { create: { docId: "doc-1" } },
+  steps: [{ name: "create", status: "succeeded", attempts: 2 }],
+  result: { docId: "doc-1", docUrl: "https://docs.google.com/document/d/doc-1" },
+  warnings: [],
+  createdAt: "2026-10-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:05.000Z",
+};
+
+beforeAll(async () => {
+  vi.stubEnv("ADMIN_BEARER_TOKEN", ADMIN_TOKEN);
+  vi.stubEnv("PM_INTAKE_SHARED_SECRET", DOCS_SECRET);
+  vi.stubEnv("API_KEYS", "");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  // config.ts reads env at import time; the route must share this jobs module
+  vi.resetModules();
+  const jobs = await import("@/lib/jobs");
+  const store = new jobs.MemoryJobStore();
+  await store.create(JOB);
+  jobs.setJobStore(store);
+  ({ GET } = await import("./route"));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("GET /api/jobs/:id", () => {
+  it("reports steps and result without the job input", async () => {
+    const res = await statusRequest("job_abc", DOCS_SECRET);
+    const text = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(JSON.parse(text)).toMatchObject({
+      ok: true,
+      jobId: "job_abc",
+      status: "succeeded",
+      steps: [{ name: "create", attempts: 2 }],
+      result: { docId: "doc-1" },
+    });
+    expect(text).not.toContain("Confidential notes");
+  });
+
+  it("requires the job's scope and answers 404 for unknown jobs", async () => {
+    expect((await statusRequest("job_abc", "wrong")).status).toBe(401);
+    expect((await statusRequest("job_abc", ADMIN_TOKEN)).status).toBe(403);
+    expect((await statusRequest("job_missing", ADMIN_TOKEN)).status).toBe(404);
+    expect((await statusRequest("job_missing", DOCS_SECRET)).status).toBe(404);
+    expect((await statusRequest("job_missing", "wrong")).status).toBe(401);
+  });
+});
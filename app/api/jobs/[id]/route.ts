@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { authenticate, authenticateAnyKey } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { getJob, jobView, startWorker } from "@/lib/jobs";
+import { withRequestContext } from "@/lib/logger";
+
+/**
+ * GET /api/jobs/:id
+ *
+ * Progress of a job queued by ?async=1 on /api/generate-doc or
+ * /api/create-project-folder (lib/jobs.ts): `status` (queued, running,
+ * succeeded, failed), each step's status, attempts and last error, and the
+ * `result` once it has succeeded. Failed optional steps are listed under
+ * `warnings`.
+ *
+ * Polling an unfinished job also starts the worker in this instance, so a
+ * job stranded by a crashed instance resumes once its lease expires.
+ *
+ * Auth: API key with the scope of the route that queued the job
+ * ("docs:generate" or "drive:folders"). Any valid key gets 404 for an
+ * unknown ID: job IDs are random, so that reveals nothing.
+ */
+
+async function handleGet(req: Request, { params }: { params: { id: string } }) {
+  const job = await getJob(params.id).catch(() => null);
+
+  const authCheck = job ? authenticate(req, job.scope) : authenticateAnyKey(req);
+  if (!authCheck.ok) {
+    return NextResponse.json({ ok: false, error: authCheck.reason }, { status: authCheck.status });
+  }
+
+  const rateLimit = await checkRateLimit("/api/jobs", authCheck.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, error: rateLimit.reason },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  if (!job) {
+    return NextResponse.json({ ok: false, error: `Job ${params.id} not found` }, { status: 404 });
+  }
+
+  if (job.status === "queued" || job.status === "running") {
+    startWorker();
+  }
+
+  return NextResponse.json({ ok: true, ...jobView(job) });
+}
+
+export const GET = withRequestContext("/api/jobs", handleGet);
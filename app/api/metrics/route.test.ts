@@ -0,0 +1,64 @@
+/**
+ * Tests for /api/metrics
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import type { MetricSnapshot } from "@/lib/metrics";
+
+const TOKEN = "test-admin-token";
+
+let GET: (req: Request) => Promise<Response>;
+let metrics: typeof import("@/lib/metrics");
+
+function metricsRequest(query = "", headers: Record<string, string> = {}, token = TOKEN): Request {
+  return new Request(`http://localhost/api/metrics${query}`, {
+    headers: { Authorization: `Bearer ${token}`, ...headers },
+  });
+}
+
+beforeAll(async () => {
+  vi.stubEnv("ADMIN_BEARER_TOKEN", TOKEN);
+  vi.stubEnv("API_KEYS", "");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  // config.ts reads env at import time
+  vi.resetModules();
+  ({ GET } = await import("./route"));
+  metrics = await import("@/lib/metrics");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("GET /api/metrics", () => {
+  it("rejects a wrong token", async () => {
+    const res = await GET(metricsRequest("", {}, "nope"));
+    expect(res.status).toBe(401);
+  });
+
+  it("serves Prometheus text by default", async () => {
+    await metrics.trackCall("apps_script", "generate-doc", async () => new Response("{}"), (r) => !r.ok);
+
+    const res = await GET(metricsRequest());
+    const text = await res.text();
+
+    expect(res.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+    expect(text).toContain('downstream_calls_total{service="apps_script",operation="generate-doc",outcome="ok"} 1');
+    // The rejected request above was counted too
+    expect(text).toContain('http_requests_total{route="/api/metrics",method="GET",status="401"} 1');
+  });
+
+  it("serves JSON with ?format=json or Accept: application/json", async () => {
+    for (const res of [await GET(metricsRequest("?format=json")), await GET(metricsRequest("", { Accept: "application/json" }))]) {
+      const body = await res.json();
+      expect(body.ok).toBe(true);
+      const calls = body.metrics.find((m: MetricSnapshot) => m.name === "downstream_call_duration_seconds");
+      expect(calls?.series[0]).toMatchObject({ labels: { service: "apps_script", operation: "generate-doc" }, count: 1 });
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { metricsSnapshot, renderPrometheus } from "@/lib/metrics";
+import { withRequestContext } from "@/lib/logger";
+
+/**
+ * GET /api/metrics
+ *
+ * This instance's metrics (lib/metrics.ts): request counts and latency by
+ * route and status, Airtable / OpenAI / Apps Script / Google API call counts,
+ * errors and latency, and GPT token usage.
+ *
+ * Prometheus text format by default; JSON with ?format=json or
+ * Accept: application/json.
+ *
+ * Auth: API key with scope "admin" (e.g. Authorization: Bearer <ADMIN_BEARER_TOKEN>)
+ */
+
+function wantsJson(req: Request): boolean {
+  const format = new URL(req.url).searchParams.get("format");
+  if (format) return format === "json";
+  return (req.headers.get("accept") ?? "").includes("application/json");
+}
+
+async function handleGet(req: Request) {
+  const authCheck = authenticate(req, "admin");
+  if (!authCheck.ok) {
+    return NextResponse.json({ ok: false, error: authCheck.reason }, { status: authCheck.status });
+  }
+
+  const rateLimit = await checkRateLimit("/api/metrics", authCheck.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, error: rateLimit.reason },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const metrics = metricsSnapshot();
+
+  if (wantsJson(req)) {
+    return NextResponse.json({ ok: true, generatedAt: new Date().toISOString(), metrics });
+  }
+
+  return new NextResponse(renderPrometheus(metrics), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
+
+export const GET = withRequestContext("/api/metrics", handleGet);
@@ -1,4 +1,13 @@
 import { NextResponse } from "next/server";
+import { AirtableClient } from "@/lib/airtable";
+import { extractDomainFromEmail, normalizeDomain } from "@/lib/airtable-os";
+import { eq } from "@/lib/airtable-formula";
+import { getSchema, loadSchema } from "@/lib/schema";
+import { config, featureStatus } from "@/lib/config";
+import { authenticateSigned } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { newTraceId } from "@/lib/trace";
 
 /**
  * Gmail Inbound API - Company Only
@@ -9,152 +18,44 @@ import { NextResponse } from "next/server";
  * IMPORTANT: This route writes ONLY to Client PM OS, never to the Hive Database.
  * Requires AIRTABLE_INBOUND_* env vars - no fallback to DB vars.
  *
- * Authentication (supports BOTH):
+ * Authentication: API key with scope "inbound:company" (lib/auth.ts), e.g.
  * - X-Hive-Secret: <HIVE_INBOUND_SECRET>  (Gmail Add-on / Apps Script direct calls)
  * - Authorization: Bearer <PM_INTAKE_TOKEN>  (Proxy calls)
+ * - x-signature / x-signature-timestamp  (HMAC-signed with one of the above)
  *
  * Company lookup uses domain-based matching - does NOT rely on linked-field auto-create.
  */
 
-// Client PM OS env vars - NO DB FALLBACKS
-const INBOUND_BASE_ID = process.env.AIRTABLE_INBOUND_BASE_ID;
-const INBOUND_COMPANY_TABLE = process.env.AIRTABLE_INBOUND_TABLE_COMPANIES;
+// Client PM OS env vars (lib/config.ts) - NO DB FALLBACKS
 
 // Check at runtime, not module load
 function checkEnvVars(): string | null {
-  if (!INBOUND_BASE_ID || !INBOUND_COMPANY_TABLE) {
-    return "Gmail inbound misconfigured: AIRTABLE_INBOUND_* env vars missing";
+  const feature = featureStatus("gmailInboundCompany");
+  if (!feature.enabled) {
+    return `Gmail inbound misconfigured: missing ${feature.missing.join(", ")}`;
   }
   return null;
 }
 
-const AIRTABLE_API = "https://api.airtable.com/v0";
-
 function getDebugPayload() {
   return {
-    base: INBOUND_BASE_ID,
-    companyTable: INBOUND_COMPANY_TABLE,
+    base: config.inboundBaseId,
+    companyTable: config.inboundCompaniesTable,
   };
 }
 
-// Extract baseId from Airtable URL for logging
-function extractBaseId(url: string): string {
-  const match = url.match(/airtable\.com\/v0\/([^/]+)/);
-  return match ? match[1] : "unknown";
-}
-
-// Traced fetch wrapper - logs all Airtable requests
-async function tracedFetch(
-  marker: string,
-  url: string,
-  options: RequestInit = {}
-): Promise<Response> {
-  const method = options.method || "GET";
-  const baseId = extractBaseId(url);
-
-  console.log("AIRTABLE_REQUEST", {
-    marker,
-    method,
-    url,
-    baseId,
-    expectedBaseId: INBOUND_BASE_ID,
-    match: baseId === INBOUND_BASE_ID,
-  });
-
-  const response = await fetch(url, options);
-
-  console.log("AIRTABLE_RESPONSE", {
-    marker,
-    method,
-    baseId,
-    status: response.status,
-    ok: response.ok,
-  });
-
-  return response;
-}
-
-/**
- * Dual auth check - supports both X-Hive-Secret and Bearer token
- * Returns { ok: true, method: "secret" | "bearer" } or { ok: false, error: string }
- */
-function checkAuth(req: Request): { ok: true; method: "secret" | "bearer" } | { ok: false; error: string } {
-  // Method 1: X-Hive-Secret header (Gmail Add-on / Apps Script)
-  const hiveSecret = req.headers.get("x-hive-secret");
-  const expectedSecret = process.env.HIVE_INBOUND_SECRET;
-
-  if (hiveSecret && expectedSecret && hiveSecret === expectedSecret) {
-    return { ok: true, method: "secret" };
-  }
-
-  // Method 2: Authorization Bearer token (Proxy calls)
-  const authHeader = req.headers.get("authorization");
-  const expectedToken = process.env.PM_INTAKE_TOKEN || process.env.PM_INTAKE_BEARER_TOKEN;
-
-  if (authHeader && expectedToken && authHeader === `Bearer ${expectedToken}`) {
-    return { ok: true, method: "bearer" };
-  }
-
-  // Neither auth method succeeded
-  return { ok: false, error: "Unauthorized: provide X-Hive-Secret or Bearer token" };
-}
-
-/**
- * Normalize domain: lowercase, trim, remove protocol/paths, keep only hostname
- * Examples:
- *   "https://Example.COM/path" -> "example.com"
- *   "WWW.Example.com" -> "example.com"
- *   "example.com" -> "example.com"
- */
-function normalizeDomain(input: string): string {
-  if (!input) return "";
-
-  let domain = input.trim().toLowerCase();
-
-  // Remove protocol if present
-  domain = domain.replace(/^https?:\/\//, "");
-
-  // Remove path and query string
-  domain = domain.split("/")[0].split("?")[0];
-
-  // Remove www. prefix
-  domain = domain.replace(/^www\./, "");
-
-  return domain;
-}
-
-/**
- * Extract domain from email address
- * Examples:
- *   "user@example.com" -> "example.com"
- *   "User Name <user@example.com>" -> "example.com"
- */
-function extractDomainFromEmail(email: string): string | null {
-  if (!email) return null;
-
-  // Handle "Name <email>" format
-  const angleMatch = email.match(/<([^>]+)>/);
-  const emailAddr = angleMatch ? angleMatch[1] : email;
-
-  // Extract domain from email
-  const atIndex = emailAddr.lastIndexOf("@");
-  if (atIndex === -1) return null;
-
-  const domain = emailAddr.slice(atIndex + 1).trim();
-  return normalizeDomain(domain);
-}
-
 /**
  * Get or create a Company by domain.
  * Search priority:
- *   1. normalizedDomain_text == normalized domain
- *   2. domain field == domain
- * If not found, creates a new Company with Name, domain, and normalizedDomain_text.
+ *   1. company.normalizedDomain ("normalizedDomain_text") == normalized domain
+ *   2. company.domain ("domain") == domain
+ * If not found, creates a new Company with name, domain and normalizedDomain.
+ * Field names come from the "inbound" base in lib/schema.ts.
  * Returns the Company record ID.
  */
 async function getOrCreateCompany(
-  marker: string,
-  headers: Record<string, string>,
+  client: AirtableClient,
+  traceId: string,
   opts: {
     domain: string;
     companyName?: string;
@@ -169,104 +70,92 @@ async function getOrCreateCompany(
     throw new Error("Cannot create company: no valid domain provided");
   }
 
-  console.log("COMPANY_LOOKUP", { marker, domain: opts.domain, normalizedDomain });
+  logger.info("COMPANY_LOOKUP", { domain: opts.domain, normalizedDomain });
 
-  // Search by normalizedDomain_text first
-  const searchByNormalizedUrl = `${AIRTABLE_API}/${INBOUND_BASE_ID}/${INBOUND_COMPANY_TABLE}?filterByFormula=${encodeURIComponent(
-    `{normalizedDomain_text}="${normalizedDomain.replace(/"/g, '\\"')}"`
-  )}&maxRecords=1`;
+  const schema = getSchema();
+  const companyTable = schema.table("inbound", "company");
 
-  const searchRes1 = await tracedFetch(marker, searchByNormalizedUrl, { headers });
-  const searchData1 = await searchRes1.json();
+  // Search by normalized domain first
+  const byNormalized = await client.findOne(
+    companyTable,
+    eq(schema.field("inbound", "company.normalizedDomain"), normalizedDomain)
+  );
 
-  if (searchData1.records?.length > 0) {
-    const recordId = searchData1.records[0].id;
-    console.log("COMPANY_FOUND_BY_NORMALIZED_DOMAIN", { marker, recordId, normalizedDomain });
+  if (byNormalized) {
+    const recordId = byNormalized.id;
+    logger.info("COMPANY_FOUND_BY_NORMALIZED_DOMAIN", { recordId, normalizedDomain });
     return { recordId, created: false, matchedBy: "normalizedDomain_text" };
   }
 
   // Search by domain field
-  const searchByDomainUrl = `${AIRTABLE_API}/${INBOUND_BASE_ID}/${INBOUND_COMPANY_TABLE}?filterByFormula=${encodeURIComponent(
-    `{domain}="${normalizedDomain.replace(/"/g, '\\"')}"`
-  )}&maxRecords=1`;
+  const byDomain = await client.findOne(companyTable, eq(schema.field("inbound", "company.domain"), normalizedDomain));
 
-  const searchRes2 = await tracedFetch(marker, searchByDomainUrl, { headers });
-  const searchData2 = await searchRes2.json();
-
-  if (searchData2.records?.length > 0) {
-    const recordId = searchData2.records[0].id;
-    console.log("COMPANY_FOUND_BY_DOMAIN", { marker, recordId, normalizedDomain });
+  if (byDomain) {
+    const recordId = byDomain.id;
+    logger.info("COMPANY_FOUND_BY_DOMAIN", { recordId, normalizedDomain });
     return { recordId, created: false, matchedBy: "domain" };
   }
 
   // Not found - create new Company
-  const companyFields: Record<string, any> = {
-    Name: opts.companyName || normalizedDomain,
+  const companyFields = schema.fields("inbound", "company", {
+    name: opts.companyName || normalizedDomain,
     domain: normalizedDomain,
-    normalizedDomain_text: normalizedDomain,
-  };
-
-  // Add optional fields
-  if (opts.website) companyFields["Website"] = opts.website;
-  if (opts.industry) companyFields["Industry"] = opts.industry;
-  if (opts.notes) companyFields["Notes"] = opts.notes;
-
-  console.log("COMPANY_CREATING", { marker, fields: companyFields });
-
-  const createUrl = `${AIRTABLE_API}/${INBOUND_BASE_ID}/${INBOUND_COMPANY_TABLE}`;
-  const createRes = await tracedFetch(marker, createUrl, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ fields: companyFields }),
+    normalizedDomain,
+    // Optional fields
+    website: opts.website || undefined,
+    industry: opts.industry || undefined,
+    notes: opts.notes || undefined,
   });
 
-  const createData = await createRes.json();
+  logger.info("COMPANY_CREATING", { fields: companyFields });
 
-  if (createData.error) {
-    console.error("COMPANY_CREATE_ERROR", { marker, error: createData.error });
-    throw new Error(`Failed to create company: ${createData.error.message || JSON.stringify(createData.error)}`);
+  let recordId: string;
+  try {
+    recordId = (await client.createRecord(companyTable, companyFields)).id;
+  } catch (err: any) {
+    logger.error("COMPANY_CREATE_ERROR", { status: err?.status, type: err?.type, error: err?.message });
+    throw new Error(`Failed to create company: ${err?.message ?? String(err)}`);
   }
 
-  const recordId = createData.id;
-  console.log("COMPANY_CREATED", { marker, recordId, normalizedDomain });
+  logger.info("COMPANY_CREATED", { recordId, normalizedDomain });
 
   return { recordId, created: true };
 }
 
-export async function POST(req: Request) {
-  // Unique marker for this request (for tracing through logs)
-  const marker = `gmail_co_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+async function handlePost(req: Request) {
+  // Returned to callers as "marker", as before
+  const traceId = currentTraceId() ?? newTraceId();
 
   // Check env vars at runtime
   const envError = checkEnvVars();
   if (envError) {
     return NextResponse.json(
-      { ok: false, status: "error", error: envError, marker, _debug: getDebugPayload() },
+      { ok: false, status: "error", error: envError, marker: traceId, _debug: getDebugPayload() },
       { status: 500 }
     );
   }
 
-  console.log("GMAIL_INBOUND_MARKER", marker);
-
   try {
-    // Dual auth check - supports both X-Hive-Secret and Bearer token
-    const authResult = checkAuth(req);
+    // X-Hive-Secret or Bearer token, checked by lib/auth.ts
+    const authResult = await authenticateSigned(req, "inbound:company");
     if (!authResult.ok) {
-      console.log("GMAIL_INBOUND_AUTH_FAILED", { marker, error: authResult.error });
       return NextResponse.json(
-        { ok: false, status: "error", error: authResult.error, marker },
-        { status: 401 }
+        { ok: false, status: "error", error: authResult.reason, marker: traceId },
+        { status: authResult.status }
       );
     }
 
-    // Log which auth method was used
-    console.log("GMAIL_INBOUND_AUTH_OK", { marker, authMethod: authResult.method });
+    const rateLimit = await checkRateLimit("/api/os/inbound/gmail/company", authResult.key.name);
+    if (!rateLimit.ok) {
+      return NextResponse.json(
+        { ok: false, status: "error", error: rateLimit.reason, marker: traceId },
+        { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
 
-    console.log("GMAIL INBOUND COMPANY → OS (APP ROUTER)", {
-      marker,
-      authMethod: authResult.method,
-      base: INBOUND_BASE_ID,
-      companyTable: INBOUND_COMPANY_TABLE,
+    logger.info("GMAIL_INBOUND_COMPANY_START", {
+      base: config.inboundBaseId,
+      companyTable: config.inboundCompaniesTable,
     });
 
     // Parse body
@@ -275,7 +164,7 @@ export async function POST(req: Request) {
       body = await req.json();
     } catch {
       return NextResponse.json(
-        { ok: false, status: "error", error: "Invalid JSON", marker },
+        { ok: false, status: "error", error: "Invalid JSON", marker: traceId },
         { status: 400 }
       );
     }
@@ -299,43 +188,32 @@ export async function POST(req: Request) {
           status: "error",
           error: "Missing or invalid email/domain. Cannot determine company domain.",
           hint: "Provide email (sender email) or domain field",
-          marker,
+          marker: traceId,
         },
         { status: 400 }
       );
     }
 
-    console.log("GMAIL_INBOUND_COMPANY_PARSED", {
-      marker,
+    logger.info("GMAIL_INBOUND_COMPANY_PARSED", {
       companyName,
       email,
       extractedDomain,
     });
 
-    const apiKey = process.env.AIRTABLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { ok: false, status: "error", error: "Missing AIRTABLE_API_KEY", marker },
-        { status: 500 }
-      );
-    }
-
-    // Log env vars being used (prefixes only for security)
-    console.log("GMAIL_INBOUND_AIRTABLE_CONFIG", {
-      marker,
-      baseId: INBOUND_BASE_ID || "(not set)",
-      baseIdPrefix: (INBOUND_BASE_ID || "").slice(0, 6) + "...",
-      companyTable: INBOUND_COMPANY_TABLE || "(not set)",
-      apiKeyPrefix: apiKey.slice(0, 6) + "...",
+    logger.debug("GMAIL_INBOUND_AIRTABLE_CONFIG", {
+      baseId: config.inboundBaseId,
+      companyTable: config.inboundCompaniesTable,
     });
 
-    const headers = {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    };
+    const client = new AirtableClient({
+      apiKey: config.airtableApiKey,
+      baseId: config.inboundBaseId,
+      traceId,
+    });
+    await loadSchema("inbound", client);
 
     // Get or create Company by domain
-    const companyResult = await getOrCreateCompany(marker, headers, {
+    const companyResult = await getOrCreateCompany(client, traceId, {
       domain: extractedDomain,
       companyName: companyName || undefined,
       website: website || undefined,
@@ -343,8 +221,7 @@ export async function POST(req: Request) {
       notes: notes || undefined,
     });
 
-    console.log("GMAIL_INBOUND_COMPANY_COMPLETE", {
-      marker,
+    logger.info("GMAIL_INBOUND_COMPANY_COMPLETE", {
       companyRecordId: companyResult.recordId,
       created: companyResult.created,
       matchedBy: companyResult.matchedBy,
@@ -353,7 +230,7 @@ export async function POST(req: Request) {
     return NextResponse.json({
       ok: true,
       status: companyResult.created ? "created" : "existing",
-      marker,
+      marker: traceId,
       company: {
         id: companyResult.recordId,
         name: companyName || extractedDomain,
@@ -363,16 +240,16 @@ export async function POST(req: Request) {
       },
     });
   } catch (e: any) {
-    console.error("[os/inbound/gmail/company] Error:", { marker, error: e?.message || e });
+    logger.error("GMAIL_INBOUND_COMPANY_ERROR", { error: e?.message ?? String(e) });
     return NextResponse.json(
       {
         ok: false,
         status: "error",
         error: e?.message || "Internal error",
-        marker,
+        marker: traceId,
         _config: {
-          baseId: INBOUND_BASE_ID ? `${INBOUND_BASE_ID.slice(0, 6)}...` : "(not set)",
-          companyTable: INBOUND_COMPANY_TABLE || "(not set)",
+          baseId: config.inboundBaseId ? `${config.inboundBaseId.slice(0, 6)}...` : "(not set)",
+          companyTable: config.inboundCompaniesTable || "(not set)",
         },
       },
       { status: 500 }
@@ -380,16 +257,21 @@ export async function POST(req: Request) {
   }
 }
 
+export const POST = withRequestContext("/api/os/inbound/gmail/company", handlePost);
+
 export async function GET() {
   return NextResponse.json({
     ok: true,
     route: "/api/os/inbound/gmail/company",
     description: "Gmail inbound - Company only",
     auth: {
-      supports: ["x-hive-secret", "bearer"],
+      supports: ["x-hive-secret", "bearer", "x-api-key", "x-signature"],
+      scope: "inbound:company",
       headers: {
         "x-hive-secret": "HIVE_INBOUND_SECRET env var",
         "authorization": "Bearer <PM_INTAKE_TOKEN or PM_INTAKE_BEARER_TOKEN>",
+        "x-api-key": "API_KEYS key with scope inbound:company",
+        "x-signature": "sha256=<hex HMAC-SHA256(key, timestamp + \".\" + raw body)> with x-signature-timestamp",
       },
     },
   });
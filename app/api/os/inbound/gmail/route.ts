@@ -1,134 +1,57 @@
 import { NextResponse } from "next/server";
+import { AirtableApiError, AirtableClient } from "@/lib/airtable";
+import { extractDomainFromEmail, normalizeDomain } from "@/lib/airtable-os";
+import { eq } from "@/lib/airtable-formula";
+import { getSchema, loadSchema, recordTraceId } from "@/lib/schema";
+import { config, featureStatus } from "@/lib/config";
+import { authenticateSigned } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { newTraceId } from "@/lib/trace";
 
 /**
  * Gmail Inbound API - Creates Opportunities and Companies in Client PM OS Airtable
  *
  * IMPORTANT: This route writes ONLY to Client PM OS, never to the Hive Database.
  * Requires AIRTABLE_INBOUND_* env vars - no fallback to DB vars.
+ * Auth: API key with scope "inbound:gmail" (lib/auth.ts), e.g. Bearer <PM_INTAKE_TOKEN>,
+ * or a request HMAC-signed with one (x-signature, lib/request-signing.ts).
  *
  * Company linking uses explicit record IDs - does NOT rely on linked-field auto-create.
  */
 
-// Client PM OS env vars - NO DB FALLBACKS
-const INBOUND_BASE_ID = process.env.AIRTABLE_INBOUND_BASE_ID;
-const INBOUND_OPP_TABLE = process.env.AIRTABLE_INBOUND_TABLE_OPPORTUNITIES;
-const INBOUND_COMPANY_TABLE = process.env.AIRTABLE_INBOUND_TABLE_COMPANIES;
+// Client PM OS env vars (lib/config.ts) - NO DB FALLBACKS
 
 // Check at runtime, not module load
 function checkEnvVars(): string | null {
-  if (!INBOUND_BASE_ID || !INBOUND_OPP_TABLE || !INBOUND_COMPANY_TABLE) {
-    return "Gmail inbound misconfigured: AIRTABLE_INBOUND_* env vars missing";
+  const feature = featureStatus("gmailInbound");
+  if (!feature.enabled) {
+    return `Gmail inbound misconfigured: missing ${feature.missing.join(", ")}`;
   }
   return null;
 }
 
-const AIRTABLE_API = "https://api.airtable.com/v0";
-
-// Field name for inbound marker (for tracing)
-const INBOUND_MARKER_FIELD = "Inbound Marker";
-
 function getDebugPayload() {
   return {
-    base: INBOUND_BASE_ID,
-    oppTable: INBOUND_OPP_TABLE,
-    companyTable: INBOUND_COMPANY_TABLE,
-    viewUrl: process.env.AIRTABLE_INBOUND_OPP_VIEW_URL || "",
+    base: config.inboundBaseId,
+    oppTable: config.inboundOpportunitiesTable,
+    companyTable: config.inboundCompaniesTable,
+    viewUrl: config.inboundOppViewUrl,
   };
 }
 
-// Extract baseId from Airtable URL for logging
-function extractBaseId(url: string): string {
-  const match = url.match(/airtable\.com\/v0\/([^/]+)/);
-  return match ? match[1] : "unknown";
-}
-
-// Traced fetch wrapper - logs all Airtable requests
-async function tracedFetch(
-  marker: string,
-  url: string,
-  options: RequestInit = {}
-): Promise<Response> {
-  const method = options.method || "GET";
-  const baseId = extractBaseId(url);
-
-  console.log("AIRTABLE_REQUEST", {
-    marker,
-    method,
-    url,
-    baseId,
-    expectedBaseId: INBOUND_BASE_ID,
-    match: baseId === INBOUND_BASE_ID,
-  });
-
-  const response = await fetch(url, options);
-
-  console.log("AIRTABLE_RESPONSE", {
-    marker,
-    method,
-    baseId,
-    status: response.status,
-    ok: response.ok,
-  });
-
-  return response;
-}
-
-/**
- * Normalize domain: lowercase, trim, remove protocol/paths, keep only hostname
- * Examples:
- *   "https://Example.COM/path" -> "example.com"
- *   "WWW.Example.com" -> "example.com"
- *   "example.com" -> "example.com"
- */
-function normalizeDomain(input: string): string {
-  if (!input) return "";
-
-  let domain = input.trim().toLowerCase();
-
-  // Remove protocol if present
-  domain = domain.replace(/^https?:\/\//, "");
-
-  // Remove path and query string
-  domain = domain.split("/")[0].split("?")[0];
-
-  // Remove www. prefix
-  domain = domain.replace(/^www\./, "");
-
-  return domain;
-}
-
-/**
- * Extract domain from email address
- * Examples:
- *   "user@example.com" -> "example.com"
- *   "User Name <user@example.com>" -> "example.com"
- */
-function extractDomainFromEmail(email: string): string | null {
-  if (!email) return null;
-
-  // Handle "Name <email>" format
-  const angleMatch = email.match(/<([^>]+)>/);
-  const emailAddr = angleMatch ? angleMatch[1] : email;
-
-  // Extract domain from email
-  const atIndex = emailAddr.lastIndexOf("@");
-  if (atIndex === -1) return null;
-
-  const domain = emailAddr.slice(atIndex + 1).trim();
-  return normalizeDomain(domain);
-}
-
 /**
  * Get or create a Company by domain.
  * Search priority:
- *   1. normalizedDomain_text == normalized domain
- *   2. domain field == domain
- * If not found, creates a new Company with Name, domain, and normalizedDomain_text.
+ *   1. company.normalizedDomain ("normalizedDomain_text") == normalized domain
+ *   2. company.domain ("domain") == domain
+ * If not found, creates a new Company with name, domain and normalizedDomain.
+ * Field names come from the "inbound" base in lib/schema.ts.
  * Returns the Company record ID.
  */
 async function getOrCreateCompany(
-  marker: string,
-  headers: Record<string, string>,
+  client: AirtableClient,
+  traceId: string,
   opts: {
     domain: string;
     companyName?: string;
@@ -140,68 +63,58 @@ async function getOrCreateCompany(
     throw new Error("Cannot create company: no valid domain provided");
   }
 
-  console.log("COMPANY_LOOKUP", { marker, domain: opts.domain, normalizedDomain });
+  logger.info("COMPANY_LOOKUP", { domain: opts.domain, normalizedDomain });
 
-  // Search by normalizedDomain_text first
-  const searchByNormalizedUrl = `${AIRTABLE_API}/${INBOUND_BASE_ID}/${INBOUND_COMPANY_TABLE}?filterByFormula=${encodeURIComponent(
-    `{normalizedDomain_text}="${normalizedDomain.replace(/"/g, '\\"')}"`
-  )}&maxRecords=1`;
+  const schema = getSchema();
+  const companyTable = schema.table("inbound", "company");
 
-  const searchRes1 = await tracedFetch(marker, searchByNormalizedUrl, { headers });
-  const searchData1 = await searchRes1.json();
+  // Search by normalized domain first
+  const byNormalized = await client.findOne(
+    companyTable,
+    eq(schema.field("inbound", "company.normalizedDomain"), normalizedDomain)
+  );
 
-  if (searchData1.records?.length > 0) {
-    const recordId = searchData1.records[0].id;
-    console.log("COMPANY_FOUND_BY_NORMALIZED_DOMAIN", { marker, recordId, normalizedDomain });
+  if (byNormalized) {
+    const recordId = byNormalized.id;
+    logger.info("COMPANY_FOUND_BY_NORMALIZED_DOMAIN", { recordId, normalizedDomain });
     return { recordId, created: false, matchedBy: "normalizedDomain_text" };
   }
 
   // Search by domain field
-  const searchByDomainUrl = `${AIRTABLE_API}/${INBOUND_BASE_ID}/${INBOUND_COMPANY_TABLE}?filterByFormula=${encodeURIComponent(
-    `{domain}="${normalizedDomain.replace(/"/g, '\\"')}"`
-  )}&maxRecords=1`;
-
-  const searchRes2 = await tracedFetch(marker, searchByDomainUrl, { headers });
-  const searchData2 = await searchRes2.json();
+  const byDomain = await client.findOne(companyTable, eq(schema.field("inbound", "company.domain"), normalizedDomain));
 
-  if (searchData2.records?.length > 0) {
-    const recordId = searchData2.records[0].id;
-    console.log("COMPANY_FOUND_BY_DOMAIN", { marker, recordId, normalizedDomain });
+  if (byDomain) {
+    const recordId = byDomain.id;
+    logger.info("COMPANY_FOUND_BY_DOMAIN", { recordId, normalizedDomain });
     return { recordId, created: false, matchedBy: "domain" };
   }
 
   // Not found - create new Company
-  const companyFields: Record<string, any> = {
-    Name: opts.companyName || normalizedDomain,
+  const companyFields = schema.fields("inbound", "company", {
+    name: opts.companyName || normalizedDomain,
     domain: normalizedDomain,
-    normalizedDomain_text: normalizedDomain,
-  };
-
-  console.log("COMPANY_CREATING", { marker, fields: companyFields });
-
-  const createUrl = `${AIRTABLE_API}/${INBOUND_BASE_ID}/${INBOUND_COMPANY_TABLE}`;
-  const createRes = await tracedFetch(marker, createUrl, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ fields: companyFields }),
+    normalizedDomain,
+    traceId: recordTraceId(traceId),
   });
 
-  const createData = await createRes.json();
+  logger.info("COMPANY_CREATING", { fields: companyFields });
 
-  if (createData.error) {
-    console.error("COMPANY_CREATE_ERROR", { marker, error: createData.error });
-    throw new Error(`Failed to create company: ${createData.error.message || JSON.stringify(createData.error)}`);
+  let recordId: string;
+  try {
+    recordId = (await client.createRecord(companyTable, companyFields)).id;
+  } catch (err: any) {
+    logger.error("COMPANY_CREATE_ERROR", { status: err?.status, type: err?.type, error: err?.message });
+    throw new Error(`Failed to create company: ${err?.message ?? String(err)}`);
   }
 
-  const recordId = createData.id;
-  console.log("COMPANY_CREATED", { marker, recordId, normalizedDomain });
+  logger.info("COMPANY_CREATED", { recordId, normalizedDomain });
 
   return { recordId, created: true };
 }
 
-export async function POST(req: Request) {
-  // Unique marker for this request (for tracing through logs)
-  const marker = `gmail_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+async function handlePost(req: Request) {
+  // Returned to callers as "marker", as before
+  const traceId = currentTraceId() ?? newTraceId();
 
   // Check env vars at runtime
   const envError = checkEnvVars();
@@ -212,23 +125,27 @@ export async function POST(req: Request) {
     );
   }
 
-  console.log("GMAIL_INBOUND_MARKER", marker);
-  console.log("GMAIL INBOUND → OS (APP ROUTER)", {
-    marker,
-    base: INBOUND_BASE_ID,
-    oppTable: INBOUND_OPP_TABLE,
-    companyTable: INBOUND_COMPANY_TABLE,
+  logger.info("GMAIL_INBOUND_START", {
+    base: config.inboundBaseId,
+    oppTable: config.inboundOpportunitiesTable,
+    companyTable: config.inboundCompaniesTable,
   });
 
   try {
     // Auth
-    const authHeader = req.headers.get("authorization");
-    const expectedToken = process.env.PM_INTAKE_TOKEN || process.env.PM_INTAKE_BEARER_TOKEN;
+    const auth = await authenticateSigned(req, "inbound:gmail");
+    if (!auth.ok) {
+      return NextResponse.json(
+        { ok: false, error: auth.status === 500 ? auth.reason : "Unauthorized", _debug: getDebugPayload() },
+        { status: auth.status }
+      );
+    }
 
-    if (!expectedToken || !authHeader || authHeader !== `Bearer ${expectedToken}`) {
+    const rateLimit = await checkRateLimit("/api/os/inbound/gmail", auth.key.name);
+    if (!rateLimit.ok) {
       return NextResponse.json(
-        { ok: false, error: "Unauthorized", _debug: getDebugPayload() },
-        { status: 401 }
+        { ok: false, error: rateLimit.reason, _debug: getDebugPayload() },
+        { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
       );
     }
 
@@ -269,29 +186,22 @@ export async function POST(req: Request) {
       );
     }
 
-    console.log("GMAIL_INBOUND_PARSED", {
-      marker,
+    logger.info("GMAIL_INBOUND_PARSED", {
       companyName,
       contactEmail,
       extractedDomain,
       opportunityName,
     });
 
-    const apiKey = process.env.AIRTABLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { ok: false, error: "Missing AIRTABLE_API_KEY", _debug: getDebugPayload() },
-        { status: 500 }
-      );
-    }
-
-    const headers = {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    };
+    const client = new AirtableClient({
+      apiKey: config.airtableApiKey,
+      baseId: config.inboundBaseId,
+      traceId,
+    });
+    const schema = await loadSchema("inbound", client);
 
     // 1. Get or create Company by domain (explicit record ID, no auto-create)
-    const companyResult = await getOrCreateCompany(marker, headers, {
+    const companyResult = await getOrCreateCompany(client, traceId, {
       domain: extractedDomain,
       companyName: companyName || undefined,
     });
@@ -303,81 +213,79 @@ export async function POST(req: Request) {
     let opportunityUrl: string | undefined;
 
     if (opportunityName) {
-      const opportunityFields: Record<string, any> = {
-        Name: opportunityName,
-      };
-
-      if (opportunityStage) opportunityFields["Stage"] = opportunityStage;
+      const opportunityFields = schema.fields("inbound", "opportunity", {
+        name: opportunityName,
+        stage: opportunityStage || undefined,
+        contactEmail: contactEmail || undefined,
+        contactName: contactName || undefined,
+        source: source || undefined,
+        notes: notes || undefined,
+        // Trace ID, also in the older Inbound Marker field
+        inboundMarker: traceId,
+        traceId: recordTraceId(traceId),
+      });
+      const companyField = schema.field("inbound", "opportunity.company");
 
       // Link Company using record ID array (NOT name string)
-      // Note: Company field must be linked to the same table as INBOUND_COMPANY_TABLE
+      // Note: Company field must be linked to the same table as AIRTABLE_INBOUND_TABLE_COMPANIES
       if (companyRecordId) {
-        opportunityFields["Company"] = [companyRecordId];
-        console.log("OPPORTUNITY_COMPANY_LINK", {
-          marker,
+        opportunityFields[companyField] = [companyRecordId];
+        logger.info("OPPORTUNITY_COMPANY_LINK", {
           companyRecordId,
-          companyTable: INBOUND_COMPANY_TABLE,
+          companyTable: config.inboundCompaniesTable,
           linkValue: [companyRecordId],
         });
       }
 
-      if (contactEmail) opportunityFields["Contact Email"] = contactEmail;
-      if (contactName) opportunityFields["Contact Name"] = contactName;
-      if (source) opportunityFields["Source"] = source;
-      if (notes) opportunityFields["Notes"] = notes;
-
-      // Add inbound marker for tracing
-      opportunityFields[INBOUND_MARKER_FIELD] = marker;
-
-      const createOppUrl = `${AIRTABLE_API}/${INBOUND_BASE_ID}/${INBOUND_OPP_TABLE}`;
-
-      console.log("OPPORTUNITY_CREATE_PAYLOAD", { marker, fields: opportunityFields });
+      logger.info("OPPORTUNITY_CREATE_PAYLOAD", { fields: opportunityFields });
 
-      let createOppRes = await tracedFetch(marker, createOppUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ fields: opportunityFields }),
-      });
-      let createOppData = await createOppRes.json();
+      const createOpportunity = async () => {
+        try {
+          return await client.createRecord(schema.table("inbound", "opportunity"), opportunityFields);
+        } catch (err: any) {
+          logger.error("OPPORTUNITY_CREATE_ERROR", { status: err?.status, type: err?.type, error: err?.message });
+          throw err;
+        }
+      };
 
-      // If Company link failed, retry without it
-      if (createOppData.error && createOppData.error.message?.includes("Company")) {
-        console.warn("OPPORTUNITY_COMPANY_LINK_FAILED", {
-          marker,
-          error: createOppData.error,
+      let created;
+      try {
+        created = await createOpportunity();
+      } catch (err: any) {
+        // If Company link failed, retry without it
+        if (!(err instanceof AirtableApiError && err.message.includes(companyField))) {
+          throw new Error(`Failed to create opportunity: ${err?.message ?? String(err)}`);
+        }
+
+        logger.warn("OPPORTUNITY_COMPANY_LINK_FAILED", {
+          error: { type: err.type, message: err.message },
           companyRecordId,
           hint: "Check that Opportunities.Company is linked to the correct Companies table",
         });
 
         // Remove Company and retry
-        delete opportunityFields["Company"];
-        createOppRes = await tracedFetch(marker, createOppUrl, {
-          method: "POST",
-          headers,
-          body: JSON.stringify({ fields: opportunityFields }),
-        });
-        createOppData = await createOppRes.json();
+        delete opportunityFields[companyField];
+        try {
+          created = await createOpportunity();
+        } catch (retryErr: any) {
+          throw new Error(`Failed to create opportunity: ${retryErr?.message ?? String(retryErr)}`);
+        }
       }
 
-      if (createOppData.error) {
-        console.error("OPPORTUNITY_CREATE_ERROR", { marker, error: createOppData.error });
-        throw new Error(`Failed to create opportunity: ${createOppData.error.message || JSON.stringify(createOppData.error)}`);
-      }
-
-      opportunityRecordId = createOppData.id;
-      console.log("OPPORTUNITY_CREATED", { marker, opportunityRecordId, companyRecordId });
+      opportunityRecordId = created.id;
+      logger.info("OPPORTUNITY_CREATED", { opportunityRecordId, companyRecordId });
 
-      const viewUrl = process.env.AIRTABLE_INBOUND_OPP_VIEW_URL;
+      const viewUrl = config.inboundOppViewUrl;
       if (viewUrl && opportunityRecordId) {
         opportunityUrl = `${viewUrl}/${opportunityRecordId}`;
       }
     }
 
-    console.log("GMAIL_INBOUND_COMPLETE", { marker, opportunityRecordId, companyRecordId });
+    logger.info("GMAIL_INBOUND_COMPLETE", { opportunityRecordId, companyRecordId });
 
     return NextResponse.json({
       status: "success",
-      marker,
+      marker: traceId,
       opportunity: opportunityRecordId
         ? {
             id: opportunityRecordId,
@@ -396,7 +304,7 @@ export async function POST(req: Request) {
       _debug: getDebugPayload(),
     });
   } catch (e: any) {
-    console.error("[os/inbound/gmail] Error:", e);
+    logger.error("GMAIL_INBOUND_ERROR", { error: e?.message ?? String(e) });
     return NextResponse.json(
       { ok: false, error: e?.message || "Internal error", _debug: getDebugPayload() },
       { status: 500 }
@@ -404,6 +312,8 @@ export async function POST(req: Request) {
   }
 }
 
+export const POST = withRequestContext("/api/os/inbound/gmail", handlePost);
+
 export async function GET() {
   return NextResponse.json({
     ok: true,
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
+import { withRequestContext } from "@/lib/logger";
 
-export async function GET() {
+async function handleGet() {
   return NextResponse.json({ ok: true, ts: new Date().toISOString() });
 }
+
+export const GET = withRequestContext("/api/ping", handleGet);
@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import { PmIntakeNotesRequestSchema, dateContextFor, type FieldError } from "@/lib/pm-intake-schema";
+import { ingestInboxItems } from "@/lib/pm-intake-ingest";
+import { isDryRun } from "@/lib/dry-run";
+import { extractWithLlm, parseMeetingNotes, toInboxItems } from "@/lib/notes-parser";
+import { isOpenAIConfigured } from "@/lib/openai";
+import { authenticate } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders, useQuota } from "@/lib/rate-limit";
+import { logger, withRequestContext } from "@/lib/logger";
+
+/**
+ * POST /api/pm-intake/notes
+ *
+ * Accepts raw meeting notes (text or markdown), extracts tasks, decisions,
+ * risks, issues and questions (lib/notes-parser.ts), then writes them to Inbox
+ * through the same path as /api/pm-intake (validation, resolution, dedupe).
+ * With "llm": true an OpenAI pass adds items the rules missed; it counts
+ * against the key's daily "gpt" quota and is skipped with a warning once
+ * that is used up (lib/rate-limit.ts).
+ */
+
+async function handlePost(req: Request) {
+  try {
+    const authCheck = authenticate(req, "intake:write");
+    if (!authCheck.ok) {
+      return NextResponse.json(
+        { success: false, createdCount: 0, errors: [{ index: -1, message: authCheck.reason }] },
+        { status: authCheck.status }
+      );
+    }
+
+    const rateLimit = await checkRateLimit("/api/pm-intake/notes", authCheck.key.name);
+    if (!rateLimit.ok) {
+      return NextResponse.json(
+        { success: false, createdCount: 0, errors: [{ index: -1, message: rateLimit.reason }] },
+        { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, createdCount: 0, errors: [{ index: -1, message: "Invalid JSON body" }] },
+        { status: 400 }
+      );
+    }
+
+    const request = PmIntakeNotesRequestSchema.safeParse(body);
+    if (!request.success) {
+      const errors: FieldError[] = request.error.issues.map((issue) => ({
+        index: -1,
+        field: issue.path.join(".") || undefined,
+        message: issue.message,
+      }));
+      return NextResponse.json({ success: false, createdCount: 0, errors }, { status: 400 });
+    }
+
+    const { notes, strict, resolve, llm = false } = request.data;
+    const dates = dateContextFor(request.data);
+    const warnings: string[] = [];
+
+    let extracted = parseMeetingNotes(notes, dates);
+
+    if (llm) {
+      if (!isOpenAIConfigured()) {
+        warnings.push("LLM pass skipped: OPENAI_API_KEY not configured");
+      } else {
+        const gptQuota = await useQuota("gpt", authCheck.key.name);
+        if (!gptQuota.ok) {
+          warnings.push(`LLM pass skipped: ${gptQuota.reason}`);
+        } else {
+          const llmResult = await extractWithLlm(notes, extracted);
+          extracted = llmResult.items;
+          if (llmResult.error) {
+            logger.warn("NOTES_LLM_FAILED", { error: llmResult.error });
+            warnings.push(`LLM pass failed: ${llmResult.error}`);
+          }
+        }
+      }
+    }
+
+    logger.info("NOTES_EXTRACTED", {
+      count: extracted.length,
+      llm: extracted.filter((item) => item.method === "llm").length,
+    });
+
+    if (extracted.length === 0) {
+      return NextResponse.json(
+        {
+          success: true,
+          extractedCount: 0,
+          createdCount: 0,
+          skippedCount: 0,
+          extracted,
+          results: [],
+          errors: [],
+          warnings,
+        },
+        { status: 200 }
+      );
+    }
+
+    const inboxItems = toInboxItems(extracted, {
+      project: request.data.project,
+      client: request.data.client,
+      program: request.data.program,
+      workstream: request.data.workstream,
+      source: request.data.source,
+    });
+
+    const dryRun = isDryRun(req, body);
+    const outcome = await ingestInboxItems(inboxItems, { strict, resolve, dates, dryRun });
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          extractedCount: extracted.length,
+          createdCount: 0,
+          skippedCount: 0,
+          extracted,
+          errors: outcome.errors,
+          warnings,
+        },
+        { status: outcome.status }
+      );
+    }
+
+    const { createdCount, skippedCount, results, errors } = outcome;
+    return NextResponse.json(
+      {
+        success: true,
+        ...(dryRun ? { dryRun } : {}),
+        extractedCount: extracted.length,
+        createdCount,
+        skippedCount,
+        extracted,
+        results,
+        errors,
+        warnings,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    logger.error("NOTES_ERROR", { error: error?.message ?? String(error) });
+    return NextResponse.json(
+      { success: false, createdCount: 0, errors: [{ index: -1, message: error?.message ?? "Unknown error" }] },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRequestContext("/api/pm-intake/notes", handlePost);
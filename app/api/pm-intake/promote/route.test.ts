@@ -0,0 +1,104 @@
+/**
+ * Offline integration tests for /api/pm-intake/promote against the Airtable emulator.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { AirtableEmulator } from "@/lib/airtable-emulator";
+import { signRequest } from "@/lib/request-signing";
+
+const BASE = "appPMTEST";
+const TOKEN = "test-intake-token";
+
+const emulator = new AirtableEmulator();
+let server: { url: string; close: () => Promise<void> };
+let POST: (req: Request) => Promise<Response>;
+
+function promoteRequest(body: Record<string, unknown>): Request {
+  return new Request("http://localhost/api/pm-intake/promote", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${TOKEN}` },
+    body: JSON.stringify(body),
+  });
+}
+
+function tasks(count: number): Record<string, unknown>[] {
+  return Array.from({ length: count }, (_, i) => ({ Title: `Task ${i + 1}`, Status: "To Do" }));
+}
+
+beforeAll(async () => {
+  server = await emulator.listen();
+  vi.stubEnv("AIRTABLE_API_URL", server.url);
+  vi.stubEnv("AIRTABLE_API_KEY", "keyTEST");
+  vi.stubEnv("AIRTABLE_BASE_ID", BASE);
+  vi.stubEnv("CLIENT_PM_OS_BASE_ID", BASE);
+  vi.stubEnv("PM_INTAKE_BEARER_TOKEN", TOKEN);
+  vi.stubEnv("AIRTABLE_TRACE_ID_FIELDS", "true");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  // config.ts reads env at import time
+  vi.resetModules();
+  ({ POST } = await import("./route"));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await server.close();
+});
+
+beforeEach(() => {
+  emulator.reset();
+});
+
+describe("POST /api/pm-intake/promote (emulated Airtable)", () => {
+  it("accepts a signed request and writes its trace ID to every Task and Decision", async () => {
+    const [inbox] = emulator.seed(BASE, "Inbox", [{ Title: "Kickoff notes" }]);
+    const body = JSON.stringify({ inboxRecordId: inbox.id, tasks: tasks(12), decisions: [{ Title: "Go" }] });
+    const url = "http://localhost/api/pm-intake/promote";
+    const req = new Request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...signRequest(TOKEN, "POST", url, body) },
+      body,
+    });
+
+    const res = await POST(req);
+    const result = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(result).toMatchObject({ ok: true, inboxDeleted: true });
+    expect(result.createdTasks).toHaveLength(12);
+
+    const traceId = res.headers.get("x-trace-id");
+    for (const record of [...emulator.records(BASE, "Tasks"), ...emulator.records(BASE, "Decisions")]) {
+      expect(record.fields["Trace ID"]).toBe(traceId);
+    }
+    expect(emulator.records(BASE, "Inbox")).toHaveLength(0);
+  });
+
+  it("rolls back every Task when the Decisions write fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const [inbox] = emulator.seed(BASE, "Inbox", [{ Title: "Kickoff notes" }]);
+    const realFetch = globalThis.fetch;
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const req = new Request(input, init);
+      if (req.method === "POST" && req.url.includes("/Decisions")) {
+        return new Response(JSON.stringify({ error: { type: "INVALID_VALUE_FOR_COLUMN" } }), { status: 422 });
+      }
+      return realFetch(input, init);
+    });
+
+    try {
+      const res = await POST(promoteRequest({ inboxRecordId: inbox.id, tasks: tasks(12), decisions: [{ Title: "Go" }] }));
+
+      expect(res.status).toBe(500);
+      expect(await res.json()).toMatchObject({ ok: false, rolledBack: true, inboxDeleted: false });
+      expect(emulator.records(BASE, "Tasks")).toHaveLength(0);
+      expect(emulator.records(BASE, "Inbox")).toHaveLength(1);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
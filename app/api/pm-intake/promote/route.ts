@@ -0,0 +1,257 @@
+import { NextResponse } from "next/server";
+import { AirtableApiError, getAirtableClient, type AirtableClient } from "@/lib/airtable";
+import { tables } from "@/lib/config";
+import { authenticateSigned } from "@/lib/auth";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { currentTraceId, logger, withRequestContext } from "@/lib/logger";
+import { loadSchema, recordTraceId } from "@/lib/schema";
+
+/**
+ * POST /api/pm-intake/promote
+ *
+ * Promotes an Inbox record into Tasks and/or Decisions.
+ * Native port of promoteInboxItem() in apps-script/promote-inbox.gs.
+ *
+ * SYSTEM CONTRACT:
+ * 1. Inbox is transient - records exist only until promoted
+ * 2. Every created record ID is checked against the requested count
+ * 3. If any write fails, the Tasks/Decisions created so far are deleted (rollback)
+ * 4. The Inbox record is deleted ONLY as the final step, after all writes succeed
+ *
+ * Auth: API key with scope "intake:write", or a request signed with one
+ * (lib/request-signing.ts). With AIRTABLE_TRACE_ID_FIELDS=true each Task and
+ * Decision gets the request's Trace ID.
+ *
+ * Request body:
+ * {
+ *   "inboxRecordId": "recXXXXXXXXXXXXXX",
+ *   "tasks": [{ "Title": "...", "Status": "To Do" }],
+ *   "decisions": [{ "Title": "...", "Status": "Open" }]
+ * }
+ *
+ * Response matches the Apps Script contract:
+ * { ok, inboxRecordId, createdTasks, createdDecisions, inboxDeleted, error }
+ */
+
+interface PromoteResult {
+  ok: boolean;
+  inboxRecordId: string;
+  createdTasks: string[];
+  createdDecisions: string[];
+  inboxDeleted: boolean;
+  rolledBack: boolean;
+  error: string | null;
+  rollbackFailed?: string[];
+}
+
+function isFieldsArray(value: unknown): value is Record<string, unknown>[] {
+  return (
+    Array.isArray(value) &&
+    value.every((v) => v !== null && typeof v === "object" && !Array.isArray(v))
+  );
+}
+
+/**
+ * Creates records (the client batches them), pushing each created ID into
+ * `createdIds` as soon as its batch succeeds so the caller can roll back
+ * partial progress. Throws if a batch fails or Airtable returns fewer IDs
+ * than requested.
+ */
+async function createAllOrThrow(
+  airtable: AirtableClient,
+  table: string,
+  records: Record<string, unknown>[],
+  createdIds: string[]
+): Promise<void> {
+  await airtable.createRecords(table, records, {
+    typecast: true,
+    onBatch: (batch) => {
+      createdIds.push(...batch.map((r) => r.id).filter((id) => typeof id === "string" && id.startsWith("rec")));
+    },
+  });
+
+  if (createdIds.length !== records.length) {
+    throw new Error(`${table} creation mismatch: expected ${records.length}, got ${createdIds.length}`);
+  }
+}
+
+/**
+ * Deletes every record created during a failed promote, in batches.
+ * Returns the IDs that could not be deleted (should be empty).
+ */
+async function rollback(
+  airtable: AirtableClient,
+  created: { table: string; ids: string[] }[]
+): Promise<string[]> {
+  const failed: string[] = [];
+
+  for (const { table, ids } of created) {
+    if (ids.length === 0) continue;
+    try {
+      const deleted = await airtable.deleteRecords(table, ids);
+      const deletedIds = new Set(deleted.filter((r) => r.deleted).map((r) => r.id));
+      const missed = ids.filter((id) => !deletedIds.has(id));
+      logger.info("PROMOTE_ROLLED_BACK", { table, recordIds: [...deletedIds] });
+      if (missed.length > 0) {
+        logger.error("PROMOTE_ROLLBACK_FAILED", { table, recordIds: missed, error: "Not deleted" });
+        failed.push(...missed);
+      }
+    } catch (err: any) {
+      // deleteRecords stops at the failed batch; report the whole table as not rolled back
+      logger.error("PROMOTE_ROLLBACK_FAILED", { table, recordIds: ids, error: err?.message ?? String(err) });
+      failed.push(...ids);
+    }
+  }
+
+  return failed;
+}
+
+async function handlePost(req: Request) {
+  const authCheck = await authenticateSigned(req, "intake:write");
+  if (!authCheck.ok) {
+    return NextResponse.json({ ok: false, error: authCheck.reason }, { status: authCheck.status });
+  }
+
+  const rateLimit = await checkRateLimit("/api/pm-intake/promote", authCheck.key.name);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { ok: false, error: rateLimit.reason },
+      { status: rateLimit.status, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inboxRecordId = typeof body?.inboxRecordId === "string" ? body.inboxRecordId.trim() : "";
+  if (!inboxRecordId.startsWith("rec")) {
+    return NextResponse.json(
+      { ok: false, error: "inboxRecordId is required and must be an Airtable record ID" },
+      { status: 400 }
+    );
+  }
+
+  const tasksToCreate = body.tasks ?? [];
+  const decisionsToCreate = body.decisions ?? [];
+  if (!isFieldsArray(tasksToCreate) || !isFieldsArray(decisionsToCreate)) {
+    return NextResponse.json(
+      { ok: false, error: "tasks and decisions must be arrays of field objects" },
+      { status: 400 }
+    );
+  }
+
+  const result: PromoteResult = {
+    ok: false,
+    inboxRecordId,
+    createdTasks: [],
+    createdDecisions: [],
+    inboxDeleted: false,
+    rolledBack: false,
+    error: null,
+  };
+
+  if (tasksToCreate.length + decisionsToCreate.length === 0) {
+    result.error = "No tasks or decisions to create - nothing to promote";
+    return NextResponse.json(result, { status: 400 });
+  }
+
+  let airtable: AirtableClient;
+  try {
+    airtable = getAirtableClient();
+  } catch (err: any) {
+    result.error = err?.message ?? String(err);
+    return NextResponse.json(result, { status: 500 });
+  }
+
+  // ---------------------------------------------------------------------------
+  // STEP 1: Validate Inbox record exists
+  // ---------------------------------------------------------------------------
+  try {
+    await airtable.getRecord(tables.inbox, inboxRecordId);
+  } catch (err: any) {
+    const message: string = err?.message ?? String(err);
+    if (err instanceof AirtableApiError && err.isNotFound) {
+      result.error = `Inbox record not found: ${inboxRecordId}`;
+      return NextResponse.json(result, { status: 404 });
+    }
+    result.error = `Failed to fetch Inbox record: ${message}`;
+    return NextResponse.json(result, { status: 500 });
+  }
+
+  logger.info("PROMOTE_START", { inboxRecordId });
+
+  const schema = await loadSchema("clientPmOs", airtable);
+  const traceId = recordTraceId(currentTraceId());
+  const taskTrace = schema.fields("clientPmOs", "task", { traceId });
+  const decisionTrace = schema.fields("clientPmOs", "decision", { traceId });
+
+  // ---------------------------------------------------------------------------
+  // STEP 2 + 3: Create Tasks, then Decisions (roll back everything on failure)
+  // ---------------------------------------------------------------------------
+  const createdTasks: string[] = [];
+  const createdDecisions: string[] = [];
+
+  try {
+    await createAllOrThrow(
+      airtable,
+      tables.tasks,
+      tasksToCreate.map((fields) => ({ ...fields, ...taskTrace })),
+      createdTasks
+    );
+    await createAllOrThrow(
+      airtable,
+      tables.decisions,
+      decisionsToCreate.map((fields) => ({ ...fields, ...decisionTrace })),
+      createdDecisions
+    );
+  } catch (err: any) {
+    const message: string = err?.message ?? String(err);
+    logger.error("PROMOTE_CREATE_FAILED", { inboxRecordId, error: message });
+
+    const rollbackFailed = await rollback(airtable, [
+      { table: tables.tasks, ids: createdTasks },
+      { table: tables.decisions, ids: createdDecisions },
+    ]);
+
+    result.error = `Promotion failed: ${message}`;
+    result.rolledBack = rollbackFailed.length === 0;
+    if (rollbackFailed.length > 0) {
+      result.rollbackFailed = rollbackFailed;
+    }
+    return NextResponse.json(result, { status: 500 });
+  }
+
+  result.createdTasks = createdTasks;
+  result.createdDecisions = createdDecisions;
+  logger.info("PROMOTE_CREATED", { inboxRecordId, tasks: createdTasks.length, decisions: createdDecisions.length });
+
+  // ---------------------------------------------------------------------------
+  // STEP 4: DELETE Inbox record (FINAL STEP - only after all writes succeed)
+  // ---------------------------------------------------------------------------
+  try {
+    await airtable.deleteRecord(tables.inbox, inboxRecordId);
+    result.inboxDeleted = true;
+  } catch (err: any) {
+    // Records exist but the Inbox item survived - report loudly, but the promote itself succeeded
+    const message: string = err?.message ?? String(err);
+    logger.error("PROMOTE_INBOX_DELETE_FAILED", { inboxRecordId, error: message });
+    result.ok = true;
+    result.error = `Records created but inbox deletion failed: ${message}`;
+    return NextResponse.json(result, { status: 200 });
+  }
+
+  result.ok = true;
+  logger.info("PROMOTE_SUCCESS", { inboxRecordId });
+
+  return NextResponse.json(result, { status: 200 });
+}
+
+export const POST = withRequestContext("/api/pm-intake/promote", handlePost);
+
+export async function GET() {
+  return NextResponse.json({ ok: false, error: "Method not allowed. Use POST." }, { status: 405 });
+}
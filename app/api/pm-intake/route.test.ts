@@ -0,0 +1,126 @@
+/**
+ * Offline integration tests for /api/pm-intake against the Airtable emulator.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { AirtableEmulator } from "@/lib/airtable-emulator";
+
+const BASE = "appPMTEST";
+const TOKEN = "test-intake-token";
+
+// Small pages so the Inbox, Projects and People reads exercise pagination
+const emulator = new AirtableEmulator({ pageSize: 2 });
+let server: { url: string; close: () => Promise<void> };
+let POST: (req: Request) => Promise<Response>;
+
+function intakeRequest(body: Record<string, unknown>): Request {
+  return new Request("http://localhost/api/pm-intake", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${TOKEN}` },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  server = await emulator.listen();
+  vi.stubEnv("AIRTABLE_API_URL", server.url);
+  vi.stubEnv("AIRTABLE_API_KEY", "keyTEST");
+  vi.stubEnv("AIRTABLE_BASE_ID", BASE);
+  vi.stubEnv("CLIENT_PM_OS_BASE_ID", BASE);
+  vi.stubEnv("OWNER_DIRECTORY_BASE_ID", BASE);
+  vi.stubEnv("PM_INTAKE_BEARER_TOKEN", TOKEN);
+  vi.stubEnv("API_KEYS", JSON.stringify([{ name: "looping-automation", key: "looping-key", scopes: ["intake:write"] }]));
+  vi.stubEnv("RATE_LIMITS", JSON.stringify([{ key: "looping-automation", burst: 1, perMinute: 1 }]));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  // config.ts reads env at import time
+  vi.resetModules();
+  ({ POST } = await import("./route"));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await server.close();
+});
+
+beforeEach(() => {
+  emulator.reset();
+});
+
+describe("POST /api/pm-intake (emulated Airtable)", () => {
+  it("answers 429 with Retry-After once a key exceeds its rate limit", async () => {
+    const looping = () =>
+      new Request("http://localhost/api/pm-intake", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-api-key": "looping-key" },
+        body: JSON.stringify({ inbox_items: [] }),
+      });
+
+    expect((await POST(looping())).status).not.toBe(429);
+
+    const limited = await POST(looping());
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect((await POST(intakeRequest({ inbox_items: [] }))).status).not.toBe(429);
+  });
+
+  it("creates items and skips them when resubmitted", async () => {
+    const items = Array.from({ length: 5 }, (_, i) => ({ item_type: "task", title: `Task ${i}`, project: "Website" }));
+
+    const first = await (await POST(intakeRequest({ inbox_items: items }))).json();
+    expect(first).toMatchObject({ success: true, createdCount: 5 });
+    expect(emulator.records(BASE, "Inbox")).toHaveLength(5);
+    // AIRTABLE_TRACE_ID_FIELDS is off: the Inbox may have no such field
+    expect(emulator.records(BASE, "Inbox")[0].fields).not.toHaveProperty("Trace ID");
+
+    const second = await (await POST(intakeRequest({ inbox_items: items }))).json();
+    expect(second).toMatchObject({ success: true, createdCount: 0, skippedCount: 5 });
+    expect(emulator.records(BASE, "Inbox")).toHaveLength(5);
+  });
+
+  it("links projects and owners when resolve is set", async () => {
+    const [, website] = emulator.seed(BASE, "Projects", [
+      { "Project Name (Job #)": "2411 Brand Refresh", "Client Name": "Acme" },
+      { "Project Name (Job #)": "2412 Website Redesign", "Client Name": "Acme" },
+      { "Project Name (Job #)": "2501 Launch", "Client Name": "Globex" },
+    ]);
+    emulator.seed(BASE, "People", [
+      { Name: "Jane Smith", Email: "jane@acme.com" },
+      { Name: "Sam Lee", Email: "sam@acme.com" },
+      { Name: "Pat Kim", Email: "pat@acme.com" },
+    ]);
+
+    const body = await (
+      await POST(
+        intakeRequest({
+          resolve: true,
+          inbox_items: [
+            { item_type: "task", title: "Send wireframes", project: "2412", client: "Acme", owner: "jane@acme.com" },
+            { item_type: "task", title: "Book venue", project: "Website Redesign", owner: "Someone Else" },
+          ],
+        })
+      )
+    ).json();
+
+    expect(body.results[0].resolution.project).toMatchObject({ status: "matched", recordId: website.id });
+    expect(body.results[1]).toMatchObject({ needsReview: true });
+
+    const [sent, booked] = emulator.records(BASE, "Inbox");
+    expect(sent.fields).toMatchObject({ "Linked Project": [website.id], Owner: "Jane Smith" });
+    expect(booked.fields["Owner"]).toBeUndefined();
+    expect(booked.fields["Needs Review"]).toBe(true);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const body = await (
+      await POST(intakeRequest({ dryRun: true, inbox_items: [{ item_type: "task", title: "Preview me" }] }))
+    ).json();
+
+    expect(body.results[0]).toMatchObject({ status: "planned" });
+    expect(emulator.records(BASE, "Inbox")).toHaveLength(0);
+  });
+});
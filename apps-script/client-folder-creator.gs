@@ -98,8 +98,10 @@ function doPost(e) {
     var parentFolderId = input.parentFolderId || input.bucketRootFolderId || input.rootFolderId || "";
     var clientNameInput = input.clientName || "";
     var clientsRootFolderId = input.clientsRootFolderId || "";
+    var traceId = input.traceId || "";
 
-    Logger.log("Extracted fields: clientPmProjectRecordId=" + clientPmProjectRecordId +
+    Logger.log("Extracted fields: traceId=" + traceId +
+               ", clientPmProjectRecordId=" + clientPmProjectRecordId +
                ", projectName=" + projectName + ", clientType=" + clientType +
                ", parentFolderId=" + parentFolderId +
                ", clientName=" + clientNameInput +
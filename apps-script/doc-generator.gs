@@ -25,6 +25,9 @@ function doPost(e) {
     var body = e && e.postData && e.postData.contents ? e.postData.contents : "{}";
     var data = JSON.parse(body);
 
+    // Trace ID of the API request that called us (lib/trace.ts), for matching logs
+    if (data.traceId) Logger.log("traceId=" + data.traceId);
+
     // -----------------------------
     // Folder ID normalization
     // -----------------------------
@@ -9,6 +9,9 @@
  * 5. Errors are explicit and loud
  *
  * Deploy as: Web App (Execute as me, Anyone can access)
+ *
+ * NOTE: Superseded by POST /api/pm-intake/promote, which applies the same
+ * contract and additionally rolls back created records on failure.
  */
 
 // =============================================================================
@@ -0,0 +1,88 @@
+/**
+ * Request Signing - Google Apps Script helper
+ *
+ * Signs calls from Apps Script clients (Gmail add-on, Sheets/Docs scripts) to
+ * the PM Intake API, so the shared secret is never sent over the wire:
+ *
+ *   x-signature-timestamp: <unix seconds>
+ *   x-signature: sha256=<hex HMAC-SHA256(secret, timestamp + ".POST." + path + "." + body)>
+ *
+ * `path` is the URL's path and query string, e.g. /api/inbox/email, so a
+ * signed call can't be replayed against another route.
+ *
+ * Accepted by /api/inbox/email, /api/os/inbound/gmail,
+ * /api/os/inbound/gmail/company, /api/pm-intake and /api/pm-intake/promote
+ * (see lib/request-signing.ts).
+ * The secret is the same key the script used to send in a header, e.g.
+ * HIVE_INBOUND_EMAIL_SECRET. Store it as a script property, not in code.
+ *
+ * Each call is signed just before sending: the API rejects timestamps
+ * outside its window (default 5 minutes) and any signature it has already
+ * seen, so a retry must call signedPost_ again rather than resend the same
+ * headers.
+ *
+ * Usage:
+ *   var res = signedPost_(
+ *     "https://<deployment>/api/inbox/email",
+ *     { gmailMessageId: msg.getId(), ... },
+ *     PropertiesService.getScriptProperties().getProperty("HIVE_INBOUND_EMAIL_SECRET")
+ *   );
+ */
+
+/**
+ * POSTs `payload` as JSON with signature headers. Returns the HTTPResponse.
+ */
+function signedPost_(url, payload, secret) {
+  var body = JSON.stringify(payload);
+  var headers = signatureHeaders_(secret, "POST", url, body);
+
+  return UrlFetchApp.fetch(url, {
+    method: "post",
+    contentType: "application/json",
+    headers: headers,
+    payload: body,
+    muteHttpExceptions: true,
+  });
+}
+
+/**
+ * Signature headers for a `method` request to `url` with `body`, which must
+ * be the exact string sent.
+ */
+function signatureHeaders_(secret, method, url, body) {
+  if (!secret) {
+    throw new Error("signatureHeaders_: secret is required");
+  }
+
+  var timestamp = String(Math.floor(Date.now() / 1000));
+  var bytes = Utilities.computeHmacSha256Signature(
+    timestamp + "." + method.toUpperCase() + "." + signedPath_(url) + "." + body,
+    secret,
+    Utilities.Charset.UTF_8
+  );
+
+  return {
+    "x-signature-timestamp": timestamp,
+    "x-signature": "sha256=" + toHex_(bytes),
+  };
+}
+
+/**
+ * Path and query string of `url` (Apps Script has no URL class).
+ */
+function signedPath_(url) {
+  var match = String(url).match(/^[a-z][a-z0-9+.-]*:\/\/[^\/?#]*([^#]*)/i);
+  var path = match ? match[1] : String(url);
+  return path.charAt(0) === "/" ? path : "/" + path;
+}
+
+/**
+ * Apps Script returns signed bytes (-128..127); convert to lowercase hex.
+ */
+function toHex_(bytes) {
+  return bytes
+    .map(function (b) {
+      return ("0" + (b & 0xff).toString(16)).slice(-2);
+    })
+    .join("");
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for airtable-emulator.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { AirtableEmulator, evaluateFormula } from "./airtable-emulator";
+import { AirtableClient } from "./airtable";
+import { eq, not } from "./airtable-formula";
+
+const record = { id: "rec1", fields: { Name: "Acme", Domain: "acme.com", Tags: ["a", "b"], Count: 3 } };
+
+describe("evaluateFormula", () => {
+  it("compares fields with strings and numbers", () => {
+    expect(evaluateFormula('{Name}="Acme"', record)).toBe(true);
+    expect(evaluateFormula("{Name}='Globex'", record)).toBe(false);
+    expect(evaluateFormula("{Count}>=3", record)).toBe(true);
+    expect(evaluateFormula('{Name}!="Acme"', record)).toBe(false);
+  });
+
+  it("supports AND / OR / NOT and blanks", () => {
+    expect(evaluateFormula('AND({Name}="Acme", {Domain}="acme.com")', record)).toBe(true);
+    expect(evaluateFormula('OR({Name}="Globex", {Domain}="acme.com")', record)).toBe(true);
+    expect(evaluateFormula('NOT({Name}="Acme")', record)).toBe(false);
+    expect(evaluateFormula('{Missing}=""', record)).toBe(true);
+    expect(evaluateFormula("{Missing}=BLANK()", record)).toBe(true);
+  });
+
+  it("handles escapes, functions and flattened arrays", () => {
+    const quoted = { id: "rec2", fields: { Title: 'Say "hi"' } };
+    expect(evaluateFormula('{Title}="Say \\"hi\\""', quoted)).toBe(true);
+    expect(evaluateFormula('LOWER({Name})="acme"', record)).toBe(true);
+    expect(evaluateFormula('{Tags}="a, b"', record)).toBe(true);
+    expect(evaluateFormula('RECORD_ID()="rec1"', record)).toBe(true);
+    expect(evaluateFormula('FIND("cm", {Name})', record)).toBe(2);
+    expect(evaluateFormula('{Title}="a\\nb"', { id: "rec3", fields: { Title: "a\nb" } })).toBe(true);
+  });
+
+  it("compares dates with IS_BEFORE / IS_AFTER", () => {
+    const dated = { id: "rec4", fields: { Due: "2024-03-01" } };
+    expect(evaluateFormula('IS_BEFORE({Due}, "2024-04-01")', dated)).toBe(true);
+    expect(evaluateFormula('IS_AFTER({Due}, "2024-04-01")', dated)).toBe(false);
+    expect(evaluateFormula('IS_BEFORE({Missing}, "2024-04-01")', dated)).toBe(false);
+  });
+
+  it("rejects unsupported functions", () => {
+    expect(() => evaluateFormula("REGEX_MATCH({Name}, 'A')", record)).toThrow("Unsupported function");
+  });
+});
+
+describe("AirtableEmulator", () => {
+  function clientFor(emulator: AirtableEmulator) {
+    return new AirtableClient({
+      apiKey: "key",
+      baseId: "appTEST",
+      apiUrl: "http://emulator/v0",
+      fetch: (input, init) => emulator.handle(new Request(input as string, init)),
+      sleep: async () => {},
+    });
+  }
+
+  it("pages list results and filters by formula", async () => {
+    const emulator = new AirtableEmulator({ pageSize: 2 });
+    emulator.seed("appTEST", "T", [{ N: 1 }, { N: 2 }, { N: 3 }, { N: 4 }, { N: 5 }]);
+
+    const records = await clientFor(emulator).listRecords("T", { filterByFormula: not(eq("N", 1)) });
+
+    expect(records.map((r) => r.fields.N)).toEqual([2, 3, 4, 5]);
+    expect(emulator.requests).toHaveLength(2);
+  });
+
+  it("returns MODEL_ID_NOT_FOUND for unknown records", async () => {
+    const emulator = new AirtableEmulator();
+    await expect(clientFor(emulator).getRecord("T", "recNOPE")).rejects.toMatchObject({
+      status: 404,
+      type: "MODEL_ID_NOT_FOUND",
+    });
+  });
+
+  it("rejects batches over 10 records and upserts matching the merge fields", async () => {
+    const emulator = new AirtableEmulator();
+    const client = clientFor(emulator);
+
+    await expect(
+      emulator
+        .handle(
+          new Request("http://emulator/v0/appTEST/T", {
+            method: "POST",
+            headers: { Authorization: "Bearer key" },
+            body: JSON.stringify({ records: Array.from({ length: 11 }, () => ({ fields: {} })) }),
+          })
+        )
+        .then((r) => r.status)
+    ).resolves.toBe(422);
+
+    const first = await client.upsertRecord("T", { Key: "a", V: 1 }, ["Key"]);
+    const second = await client.upsertRecord("T", { Key: "a", V: 2 }, ["Key"]);
+
+    expect(first.created).toBe(true);
+    expect(second).toMatchObject({ created: false, record: { id: first.record.id, fields: { V: 2 } } });
+  });
+
+  it("simulates 429 responses", async () => {
+    const emulator = new AirtableEmulator();
+    emulator.failNext(2, 429);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await clientFor(emulator).listRecords("T");
+
+    expect(emulator.requests.map((r) => r.status)).toEqual([429, 429, 200]);
+  });
+});
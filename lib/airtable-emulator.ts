@@ -0,0 +1,597 @@
+/**
+ * In-memory stand-in for the Airtable REST API, for offline integration tests.
+ *
+ * Serves /v0/{baseId}/{table} over a local HTTP server (or directly through
+ * `handle()`), so routes run unchanged with AIRTABLE_API_URL pointed at it:
+ *
+ *   const emulator = new AirtableEmulator();
+ *   const { url, close } = await emulator.listen();
+ *   process.env.AIRTABLE_API_URL = url;
+ *
+ * Supported:
+ * - list with filterByFormula, fields[], maxRecords, pageSize/offset pagination, sort
+ * - get, create (single and batch), patch (single, batch and performUpsert), delete
+ * - GET /meta/bases/{baseId}/tables for bases given a schema via defineSchema()
+ * - formulas: {Field}, "strings", numbers, = != < > <= >=, &, AND, OR, NOT,
+ *   BLANK, TRUE, FALSE, LOWER, UPPER, TRIM, LEN, FIND, IS_BEFORE, IS_AFTER,
+ *   RECORD_ID
+ * - 429 / 5xx simulation via failNext()
+ *
+ * Tables are created on first use; views and typecast are accepted and ignored.
+ */
+
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { AirtableRecord, AirtableTableMetadata } from "./airtable";
+
+const MAX_PAGE_SIZE = 100;
+const MAX_BATCH_SIZE = 10;
+
+type Fields = Record<string, unknown>;
+
+export interface EmulatorRequest {
+  method: string;
+  baseId: string;
+  /** Table name, or "meta" for metadata requests */
+  table: string;
+  recordId?: string;
+  status: number;
+}
+
+class EmulatorError extends Error {
+  constructor(readonly status: number, readonly type: string, message: string) {
+    super(message);
+  }
+}
+
+// =============================================================================
+// FORMULAS
+// =============================================================================
+
+type Token =
+  | { kind: "field"; value: string }
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "ident"; value: string }
+  | { kind: "op"; value: string };
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const ch = formula[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "{") {
+      const end = formula.indexOf("}", i);
+      if (end === -1) throw new Error("Unclosed field reference");
+      tokens.push({ kind: "field", value: formula.slice(i + 1, end) });
+      i = end + 1;
+    } else if (ch === '"' || ch === "'") {
+      let value = "";
+      i++;
+      while (i < formula.length && formula[i] !== ch) {
+        if (formula[i] === "\\" && i + 1 < formula.length) {
+          i++;
+          value += formula[i] === "n" ? "\n" : formula[i];
+          i++;
+        } else {
+          value += formula[i++];
+        }
+      }
+      if (i >= formula.length) throw new Error("Unclosed string literal");
+      tokens.push({ kind: "string", value });
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = formula.slice(i).match(/^\d*\.?\d+/);
+      if (!match) throw new Error(`Unexpected "${ch}"`);
+      tokens.push({ kind: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ kind: "ident", value: match[0].toUpperCase() });
+      i += match[0].length;
+    } else {
+      const two = formula.slice(i, i + 2);
+      if (["!=", "<=", ">="].includes(two)) {
+        tokens.push({ kind: "op", value: two });
+        i += 2;
+      } else if ("=<>&(),".includes(ch)) {
+        tokens.push({ kind: "op", value: ch });
+        i++;
+      } else {
+        throw new Error(`Unexpected "${ch}"`);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+type Value = string | number | boolean | null;
+
+/** Airtable flattens arrays (links, lookups, multi-selects) to "a, b" in formulas. */
+function toValue(raw: unknown): Value {
+  if (raw === undefined || raw === null) return null;
+  if (Array.isArray(raw)) return raw.map((v) => (typeof v === "object" ? JSON.stringify(v) : String(v))).join(", ");
+  if (typeof raw === "string" || typeof raw === "number" || typeof raw === "boolean") return raw;
+  return JSON.stringify(raw);
+}
+
+function asString(value: Value): string {
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "1" : "0";
+  return String(value);
+}
+
+function isTruthy(value: Value): boolean {
+  if (typeof value === "string") return value.length > 0;
+  if (typeof value === "number") return value !== 0;
+  return value === true;
+}
+
+function compare(op: string, left: Value, right: Value): boolean {
+  const numeric = typeof left === "number" && typeof right === "number";
+  const a = numeric ? (left as number) : asString(left);
+  const b = numeric ? (right as number) : asString(right);
+
+  switch (op) {
+    case "=":
+      return a === b;
+    case "!=":
+      return a !== b;
+    case "<":
+      return a < b;
+    case ">":
+      return a > b;
+    case "<=":
+      return a <= b;
+    default:
+      return a >= b;
+  }
+}
+
+/** Blank or unparseable dates compare as NaN, so IS_BEFORE/IS_AFTER are false. */
+function compareDates(left: Value, right: Value): number {
+  if (left === null || right === null) return NaN;
+  return Date.parse(asString(left)) - Date.parse(asString(right));
+}
+
+/**
+ * Evaluates an Airtable formula against a record. Throws on syntax errors or
+ * unsupported functions (reported as INVALID_FILTER_BY_FORMULA).
+ */
+export function evaluateFormula(formula: string, record: { id: string; fields: Fields }): Value {
+  const tokens = tokenize(formula);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.kind === "op" && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    pos++;
+  };
+
+  function parseComparison(): Value {
+    let left = parseConcat();
+    while (peek()?.kind === "op" && ["=", "!=", "<", ">", "<=", ">="].includes(String(peek()!.value))) {
+      const op = String(tokens[pos++].value);
+      left = compare(op, left, parseConcat());
+    }
+    return left;
+  }
+
+  function parseConcat(): Value {
+    let left = parsePrimary();
+    while (isOp("&")) {
+      pos++;
+      left = asString(left) + asString(parsePrimary());
+    }
+    return left;
+  }
+
+  function parseArgs(): Value[] {
+    expectOp("(");
+    const args: Value[] = [];
+    if (!isOp(")")) {
+      args.push(parseComparison());
+      while (isOp(",")) {
+        pos++;
+        args.push(parseComparison());
+      }
+    }
+    expectOp(")");
+    return args;
+  }
+
+  function parsePrimary(): Value {
+    const token = tokens[pos++];
+    if (!token) throw new Error("Unexpected end of formula");
+
+    switch (token.kind) {
+      case "field":
+        return toValue(record.fields[token.value]);
+      case "string":
+      case "number":
+        return token.value;
+      case "op":
+        if (token.value === "(") {
+          const value = parseComparison();
+          expectOp(")");
+          return value;
+        }
+        throw new Error(`Unexpected "${token.value}"`);
+      case "ident": {
+        const args = parseArgs();
+        switch (token.value) {
+          case "AND":
+            return args.every(isTruthy);
+          case "OR":
+            return args.some(isTruthy);
+          case "NOT":
+            return !isTruthy(args[0] ?? null);
+          case "BLANK":
+            return null;
+          case "TRUE":
+            return true;
+          case "FALSE":
+            return false;
+          case "LOWER":
+            return asString(args[0] ?? null).toLowerCase();
+          case "UPPER":
+            return asString(args[0] ?? null).toUpperCase();
+          case "TRIM":
+            return asString(args[0] ?? null).trim();
+          case "LEN":
+            return asString(args[0] ?? null).length;
+          case "FIND":
+            return asString(args[1] ?? null).indexOf(asString(args[0] ?? null)) + 1;
+          case "IS_BEFORE":
+            return compareDates(args[0] ?? null, args[1] ?? null) < 0;
+          case "IS_AFTER":
+            return compareDates(args[0] ?? null, args[1] ?? null) > 0;
+          case "RECORD_ID":
+            return record.id;
+          default:
+            throw new Error(`Unsupported function ${token.value}()`);
+        }
+      }
+    }
+  }
+
+  const result = parseComparison();
+  if (pos < tokens.length) throw new Error("Unexpected trailing input");
+  return result;
+}
+
+// =============================================================================
+// EMULATOR
+// =============================================================================
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/** Airtable omits empty fields from responses. */
+function withoutEmpty(fields: Fields): Fields {
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => !isEmpty(v)));
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export class AirtableEmulator {
+  /** Every request handled, in order */
+  readonly requests: EmulatorRequest[] = [];
+
+  private tables = new Map<string, AirtableRecord[]>();
+  private schemas = new Map<string, AirtableTableMetadata[]>();
+  private failures: number[] = [];
+  private nextId = 1;
+  private pageSize: number;
+
+  constructor(options: { pageSize?: number } = {}) {
+    this.pageSize = Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  }
+
+  private table(baseId: string, table: string): AirtableRecord[] {
+    const key = `${baseId}/${table}`;
+    let records = this.tables.get(key);
+    if (!records) {
+      records = [];
+      this.tables.set(key, records);
+    }
+    return records;
+  }
+
+  private newRecord(fields: Fields): AirtableRecord {
+    const id = `rec${String(this.nextId++).padStart(14, "0")}`;
+    return { id, createdTime: new Date().toISOString(), fields: withoutEmpty(fields) };
+  }
+
+  private find(baseId: string, table: string, recordId: string): AirtableRecord {
+    const record = this.table(baseId, table).find((r) => r.id === recordId);
+    if (!record) {
+      throw new EmulatorError(404, "MODEL_ID_NOT_FOUND", `Could not find a record with ID "${recordId}".`);
+    }
+    return record;
+  }
+
+  /**
+   * Adds records directly (no request logged). Returns them with their IDs.
+   */
+  seed(baseId: string, table: string, rows: Fields[]): AirtableRecord[] {
+    const created = rows.map((fields) => this.newRecord(fields));
+    this.table(baseId, table).push(...created);
+    return created;
+  }
+
+  /**
+   * Current records of a table (copies, with empty fields omitted).
+   */
+  records(baseId: string, table: string): AirtableRecord[] {
+    return this.table(baseId, table).map((r) => ({ ...r, fields: { ...r.fields } }));
+  }
+
+  /**
+   * Sets the tables and fields the metadata API reports for `baseId`.
+   * Bases without a schema return 404 from the metadata endpoint.
+   */
+  defineSchema(baseId: string, tables: AirtableTableMetadata[]): void {
+    this.schemas.set(baseId, structuredClone(tables));
+  }
+
+  /**
+   * Makes the next `count` requests fail with `status` (default 429).
+   */
+  failNext(count = 1, status = 429): void {
+    for (let i = 0; i < count; i++) this.failures.push(status);
+  }
+
+  reset(): void {
+    this.tables.clear();
+    this.schemas.clear();
+    this.failures = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * Handles one Airtable API request. Usable as a `fetch` replacement.
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const meta = url.pathname.match(/^\/v0\/meta\/bases\/([^/]+)\/tables$/);
+    const [, version, baseId, rawTable, recordId] = meta
+      ? ["", "v0", meta[1], "meta", undefined]
+      : url.pathname.split("/");
+    const table = rawTable ? decodeURIComponent(rawTable) : "";
+    const entry: EmulatorRequest = { method: request.method, baseId, table, recordId, status: 200 };
+    this.requests.push(entry);
+
+    const respond = (status: number, body: unknown) => {
+      entry.status = status;
+      return jsonResponse(status, body);
+    };
+
+    if (version !== "v0" || !baseId || !table) {
+      return respond(404, { error: "NOT_FOUND" });
+    }
+    if (!/^Bearer \S+/.test(request.headers.get("authorization") ?? "")) {
+      return respond(401, { error: { type: "AUTHENTICATION_REQUIRED", message: "Authentication required" } });
+    }
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return respond(failure, {
+        error: {
+          type: failure === 429 ? "RATE_LIMIT_REACHED" : "SERVER_ERROR",
+          message: failure === 429 ? "Rate limit exceeded. Please try again later" : "Server error",
+        },
+      });
+    }
+
+    if (meta) {
+      const tables = this.schemas.get(baseId);
+      return tables ? respond(200, { tables }) : respond(404, { error: "NOT_FOUND" });
+    }
+
+    try {
+      const body = request.method === "GET" || request.method === "DELETE" ? {} : await request.json();
+      return respond(200, this.route(request.method, baseId, table, recordId, url.searchParams, body));
+    } catch (err: any) {
+      if (err instanceof EmulatorError) {
+        return respond(err.status, { error: { type: err.type, message: err.message } });
+      }
+      return respond(422, { error: { type: "INVALID_REQUEST_UNKNOWN", message: err?.message ?? String(err) } });
+    }
+  }
+
+  private route(
+    method: string,
+    baseId: string,
+    table: string,
+    recordId: string | undefined,
+    params: URLSearchParams,
+    body: any
+  ): unknown {
+    const records = this.table(baseId, table);
+
+    if (method === "GET") {
+      return recordId ? this.find(baseId, table, recordId) : this.list(records, params);
+    }
+
+    if (method === "POST" && !recordId) {
+      if (Array.isArray(body?.records)) {
+        this.checkBatch(body.records);
+        const created = body.records.map((r: { fields?: Fields }) => this.newRecord(r.fields ?? {}));
+        records.push(...created);
+        return { records: created };
+      }
+      const created = this.newRecord(body?.fields ?? {});
+      records.push(created);
+      return created;
+    }
+
+    if (method === "PATCH" && recordId) {
+      return this.patch(this.find(baseId, table, recordId), body?.fields ?? {});
+    }
+
+    if (method === "PATCH") {
+      if (!Array.isArray(body?.records)) {
+        throw new EmulatorError(422, "INVALID_REQUEST_MISSING_FIELDS", "Could not find field \"records\" in the request body");
+      }
+      this.checkBatch(body.records);
+      if (body.performUpsert) {
+        return this.upsert(records, body.records, body.performUpsert.fieldsToMergeOn ?? []);
+      }
+      return {
+        records: body.records.map((r: { id: string; fields?: Fields }) =>
+          this.patch(this.find(baseId, table, r.id), r.fields ?? {})
+        ),
+      };
+    }
+
+    if (method === "DELETE") {
+      const ids = recordId ? [recordId] : params.getAll("records[]");
+      this.checkBatch(ids);
+      ids.forEach((id) => this.find(baseId, table, id));
+      for (const id of ids) {
+        records.splice(records.findIndex((r) => r.id === id), 1);
+      }
+      const deleted = ids.map((id) => ({ id, deleted: true }));
+      return recordId ? deleted[0] : { records: deleted };
+    }
+
+    throw new EmulatorError(404, "NOT_FOUND", `${method} not supported`);
+  }
+
+  private checkBatch(items: unknown[]): void {
+    if (items.length > MAX_BATCH_SIZE) {
+      throw new EmulatorError(
+        422,
+        "INVALID_RECORDS",
+        `You may only operate on up to ${MAX_BATCH_SIZE} records per request`
+      );
+    }
+  }
+
+  private list(records: AirtableRecord[], params: URLSearchParams) {
+    const formula = params.get("filterByFormula");
+    let matches = records;
+
+    if (formula) {
+      try {
+        matches = records.filter((r) => isTruthy(evaluateFormula(formula, r)));
+      } catch (err: any) {
+        throw new EmulatorError(422, "INVALID_FILTER_BY_FORMULA", `The formula for filtering records is invalid: ${err.message}`);
+      }
+    }
+
+    const sortField = params.get("sort[0][field]");
+    if (sortField) {
+      const direction = params.get("sort[0][direction]") === "desc" ? -1 : 1;
+      matches = [...matches].sort(
+        (a, b) => direction * asString(toValue(a.fields[sortField])).localeCompare(asString(toValue(b.fields[sortField])))
+      );
+    }
+
+    const maxRecords = params.has("maxRecords") ? Number(params.get("maxRecords")) : Infinity;
+    matches = matches.slice(0, maxRecords);
+
+    const pageSize = Math.min(Number(params.get("pageSize")) || this.pageSize, this.pageSize);
+    const start = Number(params.get("offset")?.replace(/^itr/, "") || 0);
+    const page = matches.slice(start, start + pageSize);
+    const fields = params.getAll("fields[]");
+
+    return {
+      records: page.map((r) => ({
+        ...r,
+        fields: fields.length > 0 ? Object.fromEntries(fields.filter((f) => f in r.fields).map((f) => [f, r.fields[f]])) : r.fields,
+      })),
+      ...(start + pageSize < matches.length ? { offset: `itr${start + pageSize}` } : {}),
+    };
+  }
+
+  private patch(record: AirtableRecord, fields: Fields): AirtableRecord {
+    record.fields = withoutEmpty({ ...record.fields, ...fields });
+    return record;
+  }
+
+  private upsert(records: AirtableRecord[], rows: { fields?: Fields }[], fieldsToMergeOn: string[]) {
+    if (fieldsToMergeOn.length === 0) {
+      throw new EmulatorError(422, "INVALID_REQUEST_UNKNOWN", "performUpsert.fieldsToMergeOn is required");
+    }
+
+    const result = { records: [] as AirtableRecord[], createdRecords: [] as string[], updatedRecords: [] as string[] };
+
+    for (const row of rows) {
+      const fields = row.fields ?? {};
+      const matches = records.filter((r) =>
+        fieldsToMergeOn.every((f) => asString(toValue(r.fields[f])) === asString(toValue(fields[f])))
+      );
+
+      if (matches.length > 1) {
+        throw new EmulatorError(
+          422,
+          "INVALID_RECORDS",
+          `Upsert matched ${matches.length} records on ${fieldsToMergeOn.join(", ")}`
+        );
+      }
+
+      if (matches.length === 1) {
+        result.records.push(this.patch(matches[0], fields));
+        result.updatedRecords.push(matches[0].id);
+      } else {
+        const created = this.newRecord(fields);
+        records.push(created);
+        result.records.push(created);
+        result.createdRecords.push(created.id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Serves the emulator on 127.0.0.1 (random port). `url` is the API root to
+   * use as AIRTABLE_API_URL.
+   */
+  async listen(port = 0): Promise<{ url: string; close: () => Promise<void> }> {
+    const server: Server = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const body = Buffer.concat(chunks);
+
+      const response = await this.handle(
+        new Request(`http://127.0.0.1${req.url}`, {
+          method: req.method,
+          headers: req.headers as Record<string, string>,
+          body: body.length > 0 ? body : undefined,
+        })
+      );
+
+      res.writeHead(response.status, { "Content-Type": "application/json" });
+      res.end(await response.text());
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+    const { port: actualPort } = server.address() as AddressInfo;
+
+    return {
+      url: `http://127.0.0.1:${actualPort}/v0`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+    };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for airtable-formula.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { and, dateRange, eq, escapeFormulaString, field, find, isBlank, lower, not, or, recordId } from "./airtable-formula";
+import { evaluateFormula } from "./airtable-emulator";
+
+const matches = (formula: unknown, fields: Record<string, unknown>) =>
+  evaluateFormula(String(formula), { id: "rec1", fields });
+
+describe("escapeFormulaString", () => {
+  it("escapes backslashes before quotes, and newlines", () => {
+    expect(escapeFormulaString('a\\"b')).toBe('a\\\\\\"b');
+    expect(escapeFormulaString("line 1\r\nline 2")).toBe("line 1\\nline 2");
+  });
+});
+
+describe("builders", () => {
+  it("renders eq for strings, numbers, booleans and blanks", () => {
+    expect(String(eq("Domain", "acme.com"))).toBe('{Domain}="acme.com"');
+    expect(String(eq("Count", 3))).toBe("{Count}=3");
+    expect(String(eq("Done", true))).toBe("{Done}=TRUE()");
+    expect(String(isBlank("Owner"))).toBe("{Owner}=BLANK()");
+    expect(String(eq(lower("Email"), "jane@acme.com"))).toBe('LOWER({Email})="jane@acme.com"');
+  });
+
+  it("combines clauses and unwraps a single clause", () => {
+    expect(String(and(eq("A", 1), or(eq("B", 2), not(eq("C", 3)))))).toBe("AND({A}=1,OR({B}=2,NOT({C}=3)))");
+    expect(String(or(eq("A", 1)))).toBe("{A}=1");
+    expect(() => and()).toThrow("at least one clause");
+  });
+
+  it("renders find and dateRange", () => {
+    expect(String(find("rfp", lower("Subject")))).toBe('FIND("rfp",LOWER({Subject}))');
+    expect(String(dateRange("Due", { from: "2024-01-01", to: new Date("2024-02-01T00:00:00Z") }))).toBe(
+      'AND(NOT(IS_BEFORE({Due},"2024-01-01")),IS_BEFORE({Due},"2024-02-01T00:00:00.000Z"))'
+    );
+    expect(() => dateRange("Due", {})).toThrow("from and/or to");
+  });
+
+  it("matches records by ID", () => {
+    expect(String(or(eq(recordId(), "rec1"), eq(recordId(), "rec2")))).toBe('OR(RECORD_ID()="rec1",RECORD_ID()="rec2")');
+    expect(matches(eq(recordId(), "rec1"), {})).toBe(true);
+    expect(matches(eq(recordId(), "rec2"), {})).toBe(false);
+  });
+
+  it("rejects field names with braces", () => {
+    expect(() => field("Bad}Name")).toThrow("Invalid Airtable field name");
+    expect(() => eq("", "x")).toThrow("Invalid Airtable field name");
+  });
+});
+
+describe("round-trips through the formula evaluator", () => {
+  const awkward = ['Re: "Q3" budget', "C:\\shares\\", 'ends with \\"', "two\nlines", "it's"];
+
+  it.each(awkward)("matches %j exactly", (subject) => {
+    expect(matches(eq("Subject", subject), { Subject: subject })).toBe(true);
+    expect(matches(eq("Subject", subject), { Subject: subject + "x" })).toBe(false);
+  });
+
+  it("evaluates find, isBlank and dateRange", () => {
+    expect(matches(find('"q3"', lower("Subject")), { Subject: 'Re: "Q3" budget' })).toBeTruthy();
+    expect(matches(isBlank("Owner"), {})).toBe(true);
+
+    const march = dateRange("Due", { from: "2024-03-01", to: "2024-04-01" });
+    expect(matches(march, { Due: "2024-03-01" })).toBe(true);
+    expect(matches(march, { Due: "2024-04-01" })).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Typed builder for Airtable filterByFormula expressions.
+ *
+ * Every lookup goes through these helpers instead of hand-written template
+ * strings, so values are quoted and escaped in exactly one place:
+ *
+ *   and(eq("Normalized Domain", domain), isBlank("Archived"))
+ *   // AND({Normalized Domain}="acme.com",{Archived}=BLANK())
+ *
+ * Escaping rule: values are emitted as double-quoted strings with `\` -> `\\`,
+ * `"` -> `\"` and newlines -> `\n`. Field names are wrapped in {} and may not
+ * contain braces.
+ *
+ * AirtableClient only accepts Formula for filterByFormula, so a raw string
+ * can't reach the API by accident.
+ */
+
+/**
+ * A built formula. Construct via the helpers below; `String(formula)` gives
+ * the text sent to Airtable.
+ */
+export class Formula {
+  constructor(private readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/** A literal value or a nested formula. */
+export type Operand = Formula | string | number | boolean | Date | null;
+
+/** A field name, or an expression such as lower("Email"). */
+export type FieldRef = string | Formula;
+
+// =============================================================================
+// ESCAPING
+// =============================================================================
+
+/**
+ * Escapes a string for use inside a double-quoted formula literal.
+ */
+export function escapeFormulaString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n");
+}
+
+function literal(value: Operand): string {
+  if (value instanceof Formula) return value.toString();
+  if (value === null) return "BLANK()";
+  if (typeof value === "boolean") return value ? "TRUE()" : "FALSE()";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Cannot use ${value} in an Airtable formula`);
+    return String(value);
+  }
+  if (value instanceof Date) return `"${value.toISOString()}"`;
+  return `"${escapeFormulaString(value)}"`;
+}
+
+function ref(target: FieldRef): string {
+  return typeof target === "string" ? field(target).toString() : target.toString();
+}
+
+// =============================================================================
+// BUILDERS
+// =============================================================================
+
+/**
+ * Field reference: field("Title") -> {Title}
+ */
+export function field(name: string): Formula {
+  if (!name || /[{}]/.test(name)) {
+    throw new Error(`Invalid Airtable field name: ${JSON.stringify(name)}`);
+  }
+  return new Formula(`{${name}}`);
+}
+
+/**
+ * Equality: eq("Domain", "acme.com") -> {Domain}="acme.com"
+ */
+export function eq(target: FieldRef, value: Operand): Formula {
+  return new Formula(`${ref(target)}=${literal(value)}`);
+}
+
+/**
+ * AND of the given clauses. A single clause is returned unwrapped.
+ */
+export function and(...clauses: Formula[]): Formula {
+  return combine("AND", clauses);
+}
+
+/**
+ * OR of the given clauses. A single clause is returned unwrapped.
+ */
+export function or(...clauses: Formula[]): Formula {
+  return combine("OR", clauses);
+}
+
+export function not(clause: Formula): Formula {
+  return new Formula(`NOT(${clause})`);
+}
+
+/**
+ * Substring match: find("rfp", lower("Subject")) -> FIND("rfp",LOWER({Subject}))
+ * FIND returns the 1-based position, so any match is truthy.
+ */
+export function find(needle: string, haystack: FieldRef): Formula {
+  return new Formula(`FIND(${literal(needle)},${ref(haystack)})`);
+}
+
+export function lower(target: FieldRef): Formula {
+  return new Formula(`LOWER(${ref(target)})`);
+}
+
+/**
+ * The record's ID, for matching records by ID: eq(recordId(), "rec123")
+ */
+export function recordId(): Formula {
+  return new Formula("RECORD_ID()");
+}
+
+export function isBlank(target: FieldRef): Formula {
+  return eq(target, null);
+}
+
+/**
+ * Date window on a date field: `from` is inclusive, `to` is exclusive.
+ * At least one bound is required.
+ */
+export function dateRange(target: FieldRef, range: { from?: Date | string; to?: Date | string }): Formula {
+  const clauses: Formula[] = [];
+  if (range.from !== undefined) {
+    clauses.push(not(new Formula(`IS_BEFORE(${ref(target)},${literal(range.from)})`)));
+  }
+  if (range.to !== undefined) {
+    clauses.push(new Formula(`IS_BEFORE(${ref(target)},${literal(range.to)})`));
+  }
+  if (clauses.length === 0) {
+    throw new Error("dateRange requires from and/or to");
+  }
+  return and(...clauses);
+}
+
+function combine(fn: "AND" | "OR", clauses: Formula[]): Formula {
+  if (clauses.length === 0) throw new Error(`${fn}() requires at least one clause`);
+  if (clauses.length === 1) return clauses[0];
+  return new Formula(`${fn}(${clauses.join(",")})`);
+}
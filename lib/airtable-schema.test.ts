@@ -0,0 +1,124 @@
+/**
+ * Tests for airtable-schema.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AirtableClient } from "./airtable";
+import {
+  SchemaError,
+  SchemaRegistry,
+  loadSchemaFile,
+  parseSchemaOverrides,
+  type SchemaDefinition,
+} from "./airtable-schema";
+
+const definition = {
+  crm: {
+    baseId: "appCRM",
+    tables: {
+      company: {
+        name: "Companies",
+        fields: {
+          name: { name: "Company Name" },
+          domain: { name: "Normalized Domain" },
+        },
+      },
+      opportunity: {
+        name: "Opportunities",
+        fields: {
+          company: { name: "Company", type: "multipleRecordLinks", linkedTable: "company" },
+        },
+      },
+    },
+  },
+};
+
+const metadata = [
+  {
+    id: "tblCO",
+    name: "Companies",
+    primaryFieldId: "fldNAME",
+    fields: [
+      { id: "fldNAME", name: "Company Name", type: "singleLineText" },
+      { id: "fldDOM", name: "Domain (normalized)", type: "singleLineText" },
+    ],
+  },
+];
+
+describe("SchemaRegistry", () => {
+  it("resolves tables and fields by logical name", () => {
+    const schema = new SchemaRegistry(definition);
+
+    expect(schema.baseId("crm")).toBe("appCRM");
+    expect(schema.table("crm", "company")).toBe("Companies");
+    expect(schema.field("crm", "company.domain")).toBe("Normalized Domain");
+    expect(schema.fields("crm", "company", { name: "Acme", domain: "acme.com" })).toEqual({
+      "Company Name": "Acme",
+      "Normalized Domain": "acme.com",
+    });
+    expect(schema.fields("crm", "company", { name: "Acme", domain: undefined })).toEqual({ "Company Name": "Acme" });
+
+    // Typed against any definition, as when names come from a schema file
+    const untyped = new SchemaRegistry<SchemaDefinition>(definition);
+    expect(() => untyped.field("crm", "company.website")).toThrow(SchemaError);
+  });
+
+  it("applies file overrides without touching the original", () => {
+    const base = new SchemaRegistry(definition);
+    const overridden = base.withOverrides(
+      parseSchemaOverrides({
+        crm: { tables: { company: { id: "tblCO", fields: { domain: { name: "normalizedDomain_text", id: "fldDOM" } } } } },
+      })
+    );
+
+    expect(overridden.table("crm", "company")).toBe("tblCO");
+    expect(overridden.field("crm", "company.domain")).toBe("normalizedDomain_text");
+    expect(overridden.field("crm", "company.name")).toBe("Company Name");
+    expect(base.field("crm", "company.domain")).toBe("Normalized Domain");
+
+    expect(() => base.withOverrides({ crm: { tables: { company: { fields: { website: { id: "fldW" } } } } } })).toThrow(
+      'Field "crm.company.website" needs a name'
+    );
+  });
+
+  it("rejects malformed schema files", () => {
+    expect(() => parseSchemaOverrides({ crm: { tables: { company: { colour: "red" } } } })).toThrow(
+      "Invalid schema file"
+    );
+
+    const dir = mkdtempSync(join(tmpdir(), "schema-"));
+    writeFileSync(join(dir, "schema.json"), JSON.stringify({ crm: { baseId: "appOTHER" } }));
+    expect(loadSchemaFile(join(dir, "schema.json"))).toEqual({ crm: { baseId: "appOTHER" } });
+    expect(() => loadSchemaFile(join(dir, "missing.json"))).toThrow(SchemaError);
+  });
+
+  it("adopts renamed fields by ID and reports what it cannot find", () => {
+    const schema = new SchemaRegistry(definition).withOverrides({
+      crm: { tables: { company: { fields: { domain: { id: "fldDOM" } } } } },
+    });
+
+    const unresolved = schema.applyMetadata("crm", metadata);
+
+    expect(schema.field("crm", "company.domain")).toBe("Domain (normalized)");
+    expect(schema.table("crm", "company")).toBe("tblCO");
+    expect(schema.base("crm").tables.company.fields.name.id).toBe("fldNAME");
+    expect(unresolved).toEqual(["opportunity"]);
+  });
+
+  it("refreshes from the metadata API", async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ tables: metadata })));
+    const client = new AirtableClient({ apiKey: "key", baseId: "appCRM", fetch });
+    const schema = new SchemaRegistry(definition);
+
+    const unresolved = await schema.refresh("crm", client);
+
+    const [url] = fetch.mock.calls[0] as unknown as [string];
+    expect(new URL(url).pathname).toBe("/v0/meta/bases/appCRM/tables");
+    expect(unresolved).toEqual(["company.domain", "opportunity"]);
+  });
+});
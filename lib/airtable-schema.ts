@@ -0,0 +1,284 @@
+/**
+ * Schema registry: maps logical table/field names to Airtable tables and
+ * fields, per base.
+ *
+ * Code refers to `company.normalizedDomain`; the registry knows that this is
+ * "Normalized Domain" in one base and "normalizedDomain_text" in another.
+ * Definitions carry names and, when known, Airtable IDs:
+ * - defaults live in ./schema.ts
+ * - a JSON file (same shape, every key optional) can override names or add IDs
+ * - applyMetadata() / refresh() reconcile against the metadata API: a table
+ *   or field with an ID picks up its current name, so renaming a column in
+ *   Airtable doesn't break lookups; one without an ID is matched by name and
+ *   records the ID it finds.
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+import type { AirtableClient, AirtableTableMetadata } from "./airtable";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FieldSchema {
+  name: string;
+  id?: string;
+  /** Expected Airtable field type (e.g. "multipleRecordLinks"), when it matters */
+  type?: string;
+  /** Logical table a linked-record field points at, in the same base */
+  linkedTable?: string;
+}
+
+export interface TableSchema {
+  name: string;
+  id?: string;
+  fields: Record<string, FieldSchema>;
+}
+
+export interface BaseSchema {
+  baseId: string;
+  tables: Record<string, TableSchema>;
+}
+
+export type SchemaDefinition = Record<string, BaseSchema>;
+
+type TablesOf<D extends SchemaDefinition, B extends keyof D> = D[B]["tables"];
+
+export type TableKey<D extends SchemaDefinition, B extends keyof D> = keyof TablesOf<D, B> & string;
+
+export type FieldKey<
+  D extends SchemaDefinition,
+  B extends keyof D,
+  T extends TableKey<D, B>,
+> = keyof TablesOf<D, B>[T]["fields"] & string;
+
+/** "table.field" for every field defined in base B, e.g. "company.domain". */
+export type FieldPath<D extends SchemaDefinition, B extends keyof D> = {
+  [T in TableKey<D, B>]: `${T}.${FieldKey<D, B, T>}`;
+}[TableKey<D, B>];
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaError";
+  }
+}
+
+// =============================================================================
+// SCHEMA FILES
+// =============================================================================
+
+const fieldOverrideSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    id: z.string().min(1).optional(),
+    type: z.string().min(1).optional(),
+    linkedTable: z.string().min(1).optional(),
+  })
+  .strict();
+
+const tableOverrideSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    id: z.string().min(1).optional(),
+    fields: z.record(fieldOverrideSchema).optional(),
+  })
+  .strict();
+
+const schemaOverridesSchema = z.record(
+  z
+    .object({
+      baseId: z.string().optional(),
+      tables: z.record(tableOverrideSchema).optional(),
+    })
+    .strict()
+);
+
+export type SchemaOverrides = z.infer<typeof schemaOverridesSchema>;
+
+/**
+ * Validates a parsed schema file. Throws SchemaError listing every problem.
+ */
+export function parseSchemaOverrides(json: unknown): SchemaOverrides {
+  const result = schemaOverridesSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new SchemaError(`Invalid schema file: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+export function loadSchemaFile(path: string): SchemaOverrides {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new SchemaError(`Cannot read schema file ${path}: ${err?.message ?? String(err)}`);
+  }
+  return parseSchemaOverrides(json);
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+export class SchemaRegistry<D extends SchemaDefinition = SchemaDefinition> {
+  private bases: SchemaDefinition;
+
+  constructor(definition: D) {
+    // Copy so refresh() never mutates the caller's defaults
+    this.bases = structuredClone(definition);
+  }
+
+  baseKeys(): (keyof D & string)[] {
+    return Object.keys(this.bases) as (keyof D & string)[];
+  }
+
+  base(base: keyof D & string): BaseSchema {
+    const schema = this.bases[base];
+    if (!schema) throw new SchemaError(`Unknown base "${base}"`);
+    return schema;
+  }
+
+  baseId(base: keyof D & string): string {
+    return this.base(base).baseId;
+  }
+
+  /**
+   * Table identifier for API URLs: the table ID when known, else its name.
+   */
+  table<B extends keyof D & string>(base: B, table: TableKey<D, B>): string {
+    const schema = this.tableSchema(base, table);
+    return schema.id ?? schema.name;
+  }
+
+  /**
+   * Current Airtable name of a field, e.g. field("os", "company.domain").
+   */
+  field<B extends keyof D & string>(base: B, path: FieldPath<D, B>): string {
+    const [table, field] = splitPath(path);
+    const schema = this.tableSchema(base, table).fields[field];
+    if (!schema) throw new SchemaError(`Unknown field "${path}" in base "${base}"`);
+    return schema.name;
+  }
+
+  /**
+   * Maps { logicalField: value } to { "Airtable Field": value } for writes.
+   * Undefined values are dropped.
+   */
+  fields<B extends keyof D & string, T extends TableKey<D, B>>(
+    base: B,
+    table: T,
+    values: Partial<Record<FieldKey<D, B, T>, unknown>>
+  ): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) continue;
+      out[this.field(base, `${table}.${key}` as FieldPath<D, B>)] = value;
+    }
+    return out;
+  }
+
+  /**
+   * Copy of the current definition (including any IDs learned from metadata).
+   */
+  toJSON(): D {
+    return structuredClone(this.bases) as D;
+  }
+
+  /**
+   * Returns a new registry with a schema file's overrides applied. New tables
+   * and fields must have a name.
+   */
+  withOverrides(overrides: SchemaOverrides): SchemaRegistry<D> {
+    const merged = structuredClone(this.bases);
+
+    for (const [baseKey, base] of Object.entries(overrides)) {
+      const target = (merged[baseKey] ??= { baseId: "", tables: {} });
+      if (base.baseId) target.baseId = base.baseId;
+
+      for (const [tableKey, table] of Object.entries(base.tables ?? {})) {
+        const existing = target.tables[tableKey];
+        const name = table.name ?? existing?.name;
+        if (!name) throw new SchemaError(`Table "${baseKey}.${tableKey}" needs a name`);
+
+        const next: TableSchema = { ...existing, ...withoutFields(table), name, fields: { ...existing?.fields } };
+        for (const [fieldKey, field] of Object.entries(table.fields ?? {})) {
+          const fieldName = field.name ?? next.fields[fieldKey]?.name;
+          if (!fieldName) throw new SchemaError(`Field "${baseKey}.${tableKey}.${fieldKey}" needs a name`);
+          next.fields[fieldKey] = { ...next.fields[fieldKey], ...field, name: fieldName };
+        }
+        target.tables[tableKey] = next;
+      }
+    }
+
+    return new SchemaRegistry(merged as D);
+  }
+
+  /**
+   * Reconciles a base against the metadata API's tables: matches each table
+   * and field by ID (adopting its current name) or, without an ID, by name
+   * (recording its ID). Returns the logical paths that matched nothing.
+   */
+  applyMetadata(base: keyof D & string, metadata: AirtableTableMetadata[]): string[] {
+    const unresolved: string[] = [];
+
+    for (const [tableKey, table] of Object.entries(this.base(base).tables)) {
+      const meta = findByIdOrName(metadata, table);
+      if (!meta) {
+        unresolved.push(tableKey);
+        continue;
+      }
+      table.id = meta.id;
+      table.name = meta.name;
+
+      for (const [fieldKey, field] of Object.entries(table.fields)) {
+        const fieldMeta = findByIdOrName(meta.fields, field);
+        if (!fieldMeta) {
+          unresolved.push(`${tableKey}.${fieldKey}`);
+          continue;
+        }
+        field.id = fieldMeta.id;
+        field.name = fieldMeta.name;
+      }
+    }
+
+    return unresolved;
+  }
+
+  /**
+   * Fetches the base's metadata with `client` and applies it.
+   */
+  async refresh(base: keyof D & string, client: AirtableClient): Promise<string[]> {
+    return this.applyMetadata(base, await client.getBaseSchema());
+  }
+
+  private tableSchema(base: keyof D & string, table: string): TableSchema {
+    const schema = this.base(base).tables[table];
+    if (!schema) throw new SchemaError(`Unknown table "${table}" in base "${base}"`);
+    return schema;
+  }
+}
+
+function splitPath(path: string): [string, string] {
+  const dot = path.indexOf(".");
+  if (dot === -1) throw new SchemaError(`Field path "${path}" must be "table.field"`);
+  return [path.slice(0, dot), path.slice(dot + 1)];
+}
+
+function withoutFields<T extends { fields?: unknown }>(table: T): Omit<T, "fields"> {
+  const { fields: _fields, ...rest } = table;
+  return rest;
+}
+
+/**
+ * Finds a metadata table or field by ID when `wanted` has one, else by name.
+ */
+export function findByIdOrName<M extends { id: string; name: string }>(
+  candidates: M[],
+  wanted: { id?: string; name: string }
+): M | undefined {
+  if (wanted.id) return candidates.find((c) => c.id === wanted.id);
+  return candidates.find((c) => c.name === wanted.name);
+}
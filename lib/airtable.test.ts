@@ -0,0 +1,220 @@
+/**
+ * Tests for airtable.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { AirtableApiError, AirtableClient, retryDelay } from "./airtable";
+import { eq } from "./airtable-formula";
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+function makeClient(responses: Response[]) {
+  const fetch = vi.fn(async () => responses.shift() ?? jsonResponse(500, {}));
+  const sleep = vi.fn(async () => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  // Auditing reads records before updates and deletes (see audit.test.ts); these tests script the writes alone
+  const client = new AirtableClient({ apiKey: "key", baseId: "appTEST", fetch, sleep, audit: false });
+  return { client, fetch, sleep };
+}
+
+function requestAt(fetch: ReturnType<typeof vi.fn>, i: number): { url: URL; init: RequestInit } {
+  const [url, init] = fetch.mock.calls[i] as [string, RequestInit];
+  return { url: new URL(url), init };
+}
+
+const record = (id: string, fields: Record<string, unknown> = {}) => ({ id, fields, createdTime: "" });
+
+describe("AirtableClient.listRecords", () => {
+  it("follows offset until the last page", async () => {
+    const { client, fetch } = makeClient([
+      jsonResponse(200, { records: [record("rec1")], offset: "itr1" }),
+      jsonResponse(200, { records: [record("rec2")] }),
+    ]);
+
+    const records = await client.listRecords("My Table", { filterByFormula: eq("A", 1), fields: ["A", "B"] });
+
+    expect(records.map((r) => r.id)).toEqual(["rec1", "rec2"]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    const first = requestAt(fetch, 0).url;
+    expect(first.pathname).toBe("/v0/appTEST/My%20Table");
+    expect(first.searchParams.get("filterByFormula")).toBe("{A}=1");
+    expect(first.searchParams.getAll("fields[]")).toEqual(["A", "B"]);
+    expect(first.searchParams.has("offset")).toBe(false);
+    expect(requestAt(fetch, 1).url.searchParams.get("offset")).toBe("itr1");
+  });
+
+  it("stops paging once maxRecords is reached", async () => {
+    const { client, fetch } = makeClient([
+      jsonResponse(200, { records: [record("rec1"), record("rec2")], offset: "itr1" }),
+    ]);
+
+    const records = await client.listRecords("T", { maxRecords: 2 });
+
+    expect(records).toHaveLength(2);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("findOne returns null when nothing matches", async () => {
+    const { client } = makeClient([jsonResponse(200, { records: [] })]);
+    expect(await client.findOne("T", eq("A", 1))).toBeNull();
+  });
+});
+
+describe("AirtableClient batch writes", () => {
+  it("creates records in chunks of 10 with typecast", async () => {
+    const fields = Array.from({ length: 23 }, (_, i) => ({ Name: `Item ${i}` }));
+    const { client, fetch } = makeClient(
+      [10, 10, 3].map((n, c) =>
+        jsonResponse(200, { records: Array.from({ length: n }, (_, i) => record(`rec${c * 10 + i}`)) })
+      )
+    );
+
+    const created = await client.createRecords("T", fields, { typecast: true });
+
+    expect(created).toHaveLength(23);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    const body = JSON.parse(requestAt(fetch, 2).init.body as string);
+    expect(body.typecast).toBe(true);
+    expect(body.records).toHaveLength(3);
+    expect(body.records[0]).toEqual({ fields: { Name: "Item 20" } });
+  });
+
+  it("updates records in chunks of 10", async () => {
+    const updates = Array.from({ length: 12 }, (_, i) => ({ id: `rec${i}`, fields: { Done: true } }));
+    const { client, fetch } = makeClient([
+      jsonResponse(200, { records: updates.slice(0, 10).map((u) => record(u.id)) }),
+      jsonResponse(200, { records: updates.slice(10).map((u) => record(u.id)) }),
+    ]);
+
+    const updated = await client.updateRecords("T", updates);
+
+    expect(updated).toHaveLength(12);
+    expect(requestAt(fetch, 0).init.method).toBe("PATCH");
+  });
+
+  it("deletes records in chunks of 10 via records[] params", async () => {
+    const ids = Array.from({ length: 11 }, (_, i) => `rec${i}`);
+    const { client, fetch } = makeClient([
+      jsonResponse(200, { records: ids.slice(0, 10).map((id) => ({ id, deleted: true })) }),
+      jsonResponse(200, { records: [{ id: "rec10", deleted: true }] }),
+    ]);
+
+    const deleted = await client.deleteRecords("T", ids);
+
+    expect(deleted).toHaveLength(11);
+    expect(requestAt(fetch, 0).url.searchParams.getAll("records[]")).toHaveLength(10);
+    expect(requestAt(fetch, 1).url.searchParams.getAll("records[]")).toEqual(["rec10"]);
+  });
+});
+
+describe("AirtableClient upserts", () => {
+  it("sends performUpsert with fieldsToMergeOn and reports created vs updated", async () => {
+    const { client, fetch } = makeClient([
+      jsonResponse(200, {
+        records: [record("recNEW", { Key: "a" }), record("recOLD", { Key: "b" })],
+        createdRecords: ["recNEW"],
+        updatedRecords: ["recOLD"],
+      }),
+    ]);
+
+    const result = await client.upsertRecords("T", [{ Key: "a" }, { Key: "b" }], ["Key"], { typecast: true });
+
+    expect(result.createdRecordIds).toEqual(["recNEW"]);
+    expect(result.updatedRecordIds).toEqual(["recOLD"]);
+    const { init } = requestAt(fetch, 0);
+    expect(init.method).toBe("PATCH");
+    expect(JSON.parse(init.body as string)).toEqual({
+      performUpsert: { fieldsToMergeOn: ["Key"] },
+      records: [{ fields: { Key: "a" } }, { fields: { Key: "b" } }],
+      typecast: true,
+    });
+  });
+
+  it("upsertRecord flags a matched record as not created", async () => {
+    const { client } = makeClient([
+      jsonResponse(200, { records: [record("recOLD", { Key: "b" })], createdRecords: [], updatedRecords: ["recOLD"] }),
+    ]);
+
+    const { record: upserted, created } = await client.upsertRecord("T", { Key: "b" }, ["Key"]);
+
+    expect(upserted.id).toBe("recOLD");
+    expect(created).toBe(false);
+  });
+
+  it("requires at least one merge field", async () => {
+    const { client } = makeClient([]);
+    await expect(client.upsertRecords("T", [{ Key: "a" }], [])).rejects.toThrow("fieldsToMergeOn");
+  });
+});
+
+describe("AirtableClient errors and retries", () => {
+  it("retries 429 and 5xx responses, then succeeds", async () => {
+    const { client, fetch, sleep } = makeClient([
+      jsonResponse(429, { errors: [{ error: "RATE_LIMIT_REACHED" }] }),
+      jsonResponse(503, {}),
+      jsonResponse(200, record("rec1")),
+    ]);
+
+    const result = await client.getRecord("T", "rec1");
+
+    expect(result.id).toBe("rec1");
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries creates on 429 but not on 5xx, which may follow a committed write", async () => {
+    const { client, fetch } = makeClient([
+      jsonResponse(429, { errors: [{ error: "RATE_LIMIT_REACHED" }] }),
+      jsonResponse(503, { error: { type: "SERVICE_UNAVAILABLE", message: "Try again" } }),
+    ]);
+
+    await expect(client.createRecord("T", { Name: "Once" })).rejects.toMatchObject({ status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after maxRetries and throws the last error", async () => {
+    const fetch = vi.fn(async () => jsonResponse(502, { error: { type: "SERVER_ERROR", message: "Bad gateway" } }));
+    const client = new AirtableClient({ apiKey: "key", baseId: "app", fetch, sleep: async () => {}, maxRetries: 2 });
+
+    await expect(client.getRecord("T", "rec1")).rejects.toMatchObject({ status: 502, type: "SERVER_ERROR" });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry 4xx and returns a typed AirtableApiError", async () => {
+    const { client, fetch } = makeClient([
+      jsonResponse(422, { error: { type: "UNKNOWN_FIELD_NAME", message: 'Unknown field name: "Foo"' } }),
+    ]);
+
+    const created = client.createRecord("T", { Foo: 1 });
+
+    await expect(created).rejects.toBeInstanceOf(AirtableApiError);
+    await expect(created).rejects.toMatchObject({
+      status: 422,
+      type: "UNKNOWN_FIELD_NAME",
+      message: expect.stringContaining('Unknown field name: "Foo"'),
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("parses string-form NOT_FOUND errors", async () => {
+    const { client } = makeClient([jsonResponse(404, { error: "NOT_FOUND" })]);
+
+    const read = client.getRecord("T", "recMissing");
+
+    await expect(read).rejects.toBeInstanceOf(AirtableApiError);
+    await expect(read).rejects.toMatchObject({ isNotFound: true, type: "NOT_FOUND" });
+  });
+
+  it("retryDelay stays within the exponential ceiling", () => {
+    expect(retryDelay(0, () => 0.999)).toBeLessThan(500);
+    expect(retryDelay(3, () => 0.999)).toBeLessThan(4000);
+    expect(retryDelay(10, () => 0.999)).toBeLessThan(8000);
+    expect(retryDelay(2, () => 0)).toBe(0);
+  });
+});
@@ -1,7 +1,30 @@
+/**
+ * Airtable REST client shared by every route.
+ *
+ * One instance per base (the base is a constructor parameter, not an import-time
+ * constant). Handles:
+ * - full `offset` pagination on list calls
+ * - batch create/update/delete in chunks of 10 (Airtable's per-request limit)
+ * - `typecast` on writes
+ * - upserts via `performUpsert` / `fieldsToMergeOn`
+ * - retry with exponential backoff + jitter on 429, and on 5xx except for creates
+ * - typed AirtableApiError (status, type, message) on any non-2xx response
+ * - base metadata (tables and fields) for the schema registry
+ * - an audit entry (./audit) for every record created, updated or deleted
+ * - call counts and latency per attempt (./metrics)
+ */
+
+import { auditEnabled, pickFields, recordAudit, type AuditInput } from "./audit";
 import { config } from "./config";
+import { eq, or, recordId, type Formula } from "./airtable-formula";
+import { logger } from "./logger";
+import { trackCall } from "./metrics";
 
-const BASE_URL = `https://api.airtable.com/v0/${config.airtableBaseId}`;
-const MAX_RETRIES = 3;
+// Airtable accepts at most 10 records per batch write
+const BATCH_SIZE = 10;
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
 
 export interface AirtableRecord<T = Record<string, unknown>> {
   id: string;
@@ -14,137 +37,546 @@ interface AirtableListResponse<T> {
   offset?: string;
 }
 
-async function sleep(ms: number): Promise<void> {
+export interface ListOptions {
+  filterByFormula?: Formula;
+  fields?: string[];
+  maxRecords?: number;
+  pageSize?: number;
+  view?: string;
+  sort?: { field: string; direction?: "asc" | "desc" }[];
+}
+
+/** Table entry from the metadata API (GET /meta/bases/{baseId}/tables). */
+export interface AirtableTableMetadata {
+  id: string;
+  name: string;
+  primaryFieldId: string;
+  fields: AirtableFieldMetadata[];
+}
+
+export interface AirtableFieldMetadata {
+  id: string;
+  name: string;
+  type: string;
+  /** For multipleRecordLinks, options.linkedTableId is the target table */
+  options?: { linkedTableId?: string; [key: string]: unknown };
+}
+
+export interface WriteOptions {
+  typecast?: boolean;
+}
+
+export interface CreateOptions<T> extends WriteOptions {
+  /** Called with each batch once it is created, so a caller can undo partial progress if a later batch fails */
+  onBatch?: (records: AirtableRecord<T>[]) => void;
+}
+
+export interface UpsertResult<T> {
+  records: AirtableRecord<T>[];
+  createdRecordIds: string[];
+  updatedRecordIds: string[];
+}
+
+export interface AirtableClientOptions {
+  apiKey: string;
+  baseId: string;
+  /** API root, default AIRTABLE_API_URL or https://api.airtable.com/v0 */
+  apiUrl?: string;
+  /** Included in every log line for this client */
+  traceId?: string;
+  /** Retries after the first attempt on 429 / 5xx (429 only for creates) */
+  maxRetries?: number;
+  /** Record writes in the audit log (default true); off for the audit sink's own client */
+  audit?: boolean;
+  /** Injected in tests */
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Non-2xx response from the Airtable API.
+ * `type` is Airtable's error type (NOT_FOUND, INVALID_REQUEST_UNKNOWN, ...).
+ */
+export class AirtableApiError extends Error {
+  readonly status: number;
+  readonly type: string;
+
+  constructor(status: number, type: string, message: string) {
+    super(`Airtable API error ${status} ${type}: ${message}`);
+    this.name = "AirtableApiError";
+    this.status = status;
+    this.type = type;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  attempt = 1
-): Promise<Response> {
-  const response = await fetch(url, options);
+/**
+ * 429 means the request was not processed, so any request may be retried.
+ * A 5xx may arrive after Airtable committed the write, so it is retried only
+ * for requests that are safe to repeat: POST creates records and is not.
+ */
+function isRetryable(method: string, status: number): boolean {
+  return status === 429 || (status >= 500 && method !== "POST");
+}
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, min(cap, base * 2^attempt)).
+ */
+export function retryDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Builds an AirtableApiError from a response body. Airtable returns either
+ * { error: { type, message } } or { error: "NOT_FOUND" }.
+ */
+function toApiError(status: number, statusText: string, text: string): AirtableApiError {
+  let type = statusText || "UNKNOWN_ERROR";
+  let message = text.slice(0, 500);
 
-  if (response.status === 429 && attempt < MAX_RETRIES) {
-    // Exponential backoff: 1s, 2s, 4s
-    const delay = Math.pow(2, attempt - 1) * 1000;
-    await sleep(delay);
-    return fetchWithRetry(url, options, attempt + 1);
+  try {
+    const data = JSON.parse(text);
+    if (typeof data?.error === "string") {
+      type = data.error;
+      message = data.message || data.error;
+    } else if (data?.error) {
+      type = data.error.type || type;
+      message = data.error.message || message;
+    }
+  } catch {
+    // Non-JSON body (proxy error page): keep the raw text
   }
 
-  return response;
+  return new AirtableApiError(status, type, message);
 }
 
-function getHeaders(): HeadersInit {
-  return {
-    Authorization: `Bearer ${config.airtableApiKey}`,
-    "Content-Type": "application/json",
-  };
+function chunk<T>(items: T[], size = BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
 }
 
-export async function listRecords<T = Record<string, unknown>>(
-  table: string,
-  filterByFormula?: string
-): Promise<AirtableRecord<T>[]> {
-  const encodedTable = encodeURIComponent(table);
-  let url = `${BASE_URL}/${encodedTable}`;
+/** Audit entry for a record in this client's base; audited() adds base and table */
+type RecordWrite = Omit<AuditInput, "system" | "baseId" | "table">;
 
-  if (filterByFormula) {
-    url += `?filterByFormula=${encodeURIComponent(filterByFormula)}`;
+function createEntry(record: AirtableRecord<unknown>): RecordWrite {
+  return { action: "create", recordId: record.id, before: null, after: record.fields as Record<string, unknown> };
+}
+
+function deleteEntry(
+  id: string,
+  before: Map<string, Record<string, unknown>>
+): RecordWrite {
+  return { action: "delete", recordId: id, before: before.get(id), after: null };
+}
+
+export class AirtableClient {
+  readonly baseId: string;
+  private apiUrl: string;
+  private apiKey: string;
+  private traceId?: string;
+  private maxRetries: number;
+  private audit: boolean;
+  private fetchImpl?: typeof fetch;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(options: AirtableClientOptions) {
+    if (!options.apiKey) throw new Error("AirtableClient: apiKey is required");
+    if (!options.baseId) throw new Error("AirtableClient: baseId is required");
+    this.apiKey = options.apiKey;
+    this.baseId = options.baseId;
+    this.apiUrl = (options.apiUrl ?? config.airtableApiUrl).replace(/\/+$/, "");
+    this.traceId = options.traceId;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.audit = options.audit ?? true;
+    this.fetchImpl = options.fetch;
+    this.sleep = options.sleep ?? defaultSleep;
   }
 
-  const res = await fetchWithRetry(url, {
-    method: "GET",
-    headers: getHeaders(),
-  });
+  private tableUrl(table: string, recordId?: string): string {
+    const url = `${this.apiUrl}/${this.baseId}/${encodeURIComponent(table)}`;
+    return recordId ? `${url}/${recordId}` : url;
+  }
 
-  const text = await res.text();
+  /**
+   * Sends one request, retrying 429 / 5xx. Returns the parsed JSON body.
+   */
+  private async request<R>(method: string, url: string, body?: unknown): Promise<R> {
+    for (let attempt = 0; ; attempt++) {
+      logger.debug("AIRTABLE_REQUEST", { traceId: this.traceId, method, baseId: this.baseId, url, attempt });
 
-  if (!res.ok) {
-    throw new Error(
-      `Airtable API error ${res.status} ${res.statusText}: ${text}`
-    );
+      const res = await trackCall(
+        "airtable",
+        method,
+        () =>
+          (this.fetchImpl ?? fetch)(url, {
+            method,
+            headers: {
+              Authorization: `Bearer ${this.apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+          }),
+        (response) => !response.ok
+      );
+
+      const text = await res.text();
+
+      if (res.ok) {
+        return (text ? JSON.parse(text) : {}) as R;
+      }
+
+      if (isRetryable(method, res.status) && attempt < this.maxRetries) {
+        const delay = retryDelay(attempt);
+        logger.warn("AIRTABLE_RETRY", { traceId: this.traceId, method, status: res.status, attempt, delay });
+        await this.sleep(delay);
+        continue;
+      }
+
+      const error = toApiError(res.status, res.statusText, text);
+      logger.error("AIRTABLE_ERROR", {
+        traceId: this.traceId,
+        method,
+        baseId: this.baseId,
+        url,
+        status: error.status,
+        type: error.type,
+        message: error.message,
+      });
+      throw error;
+    }
   }
 
-  const data: AirtableListResponse<T> = JSON.parse(text);
-  return data.records;
-}
+  // ===========================================================================
+  // READ
+  // ===========================================================================
 
-export async function createRecord<T = Record<string, unknown>>(
-  table: string,
-  fields: Record<string, unknown>
-): Promise<AirtableRecord<T>> {
-  const encodedTable = encodeURIComponent(table);
-  const url = `${BASE_URL}/${encodedTable}`;
-  const requestBody = JSON.stringify({ fields });
+  /**
+   * Lists records, following `offset` until every page (or maxRecords) is read.
+   */
+  async listRecords<T = Record<string, unknown>>(
+    table: string,
+    options: ListOptions = {}
+  ): Promise<AirtableRecord<T>[]> {
+    const records: AirtableRecord<T>[] = [];
+    let offset: string | undefined;
 
-  console.log("[DEBUG] createRecord URL:", url);
-  console.log("[DEBUG] createRecord table:", table);
-  console.log("[DEBUG] createRecord body:", requestBody);
+    do {
+      const params = new URLSearchParams();
+      if (options.filterByFormula) params.set("filterByFormula", String(options.filterByFormula));
+      for (const field of options.fields ?? []) params.append("fields[]", field);
+      if (options.maxRecords !== undefined) params.set("maxRecords", String(options.maxRecords));
+      if (options.pageSize !== undefined) params.set("pageSize", String(options.pageSize));
+      if (options.view) params.set("view", options.view);
+      (options.sort ?? []).forEach((s, i) => {
+        params.set(`sort[${i}][field]`, s.field);
+        if (s.direction) params.set(`sort[${i}][direction]`, s.direction);
+      });
+      if (offset) params.set("offset", offset);
 
-  const res = await fetchWithRetry(url, {
-    method: "POST",
-    headers: getHeaders(),
-    body: requestBody,
-  });
+      const query = params.toString();
+      const data = await this.request<AirtableListResponse<T>>(
+        "GET",
+        query ? `${this.tableUrl(table)}?${query}` : this.tableUrl(table)
+      );
 
-  const text = await res.text();
+      records.push(...data.records);
+      offset = data.offset;
+    } while (offset && (options.maxRecords === undefined || records.length < options.maxRecords));
 
-  if (!res.ok) {
-    throw new Error(
-      `Airtable API error ${res.status} ${res.statusText}: ${text}`
-    );
+    return options.maxRecords === undefined ? records : records.slice(0, options.maxRecords);
   }
 
-  const parsed: AirtableRecord<T> = JSON.parse(text);
-  console.log("[DEBUG] createRecord response id:", parsed.id);
-  return parsed;
-}
+  /**
+   * Returns the first record matching the formula, or null.
+   */
+  async findOne<T = Record<string, unknown>>(
+    table: string,
+    filterByFormula: Formula,
+    options: Omit<ListOptions, "filterByFormula" | "maxRecords"> = {}
+  ): Promise<AirtableRecord<T> | null> {
+    const records = await this.listRecords<T>(table, { ...options, filterByFormula, maxRecords: 1 });
+    return records[0] ?? null;
+  }
 
-export async function getRecordById<T = Record<string, unknown>>(
-  table: string,
-  recordId: string
-): Promise<AirtableRecord<T>> {
-  const encodedTable = encodeURIComponent(table);
-  const url = `${BASE_URL}/${encodedTable}/${recordId}`;
+  async getRecord<T = Record<string, unknown>>(table: string, recordId: string): Promise<AirtableRecord<T>> {
+    return this.request<AirtableRecord<T>>("GET", this.tableUrl(table, recordId));
+  }
 
-  const res = await fetchWithRetry(url, {
-    method: "GET",
-    headers: getHeaders(),
-  });
+  // ===========================================================================
+  // AUDIT
+  // ===========================================================================
 
-  const text = await res.text();
+  private auditing(): boolean {
+    return this.audit && auditEnabled();
+  }
 
-  if (!res.ok) {
-    throw new Error(
-      `Airtable API error ${res.status} ${res.statusText}: ${text}`
-    );
+  /**
+   * Current values of `fieldNames` (all fields if omitted) of each record,
+   * by ID, before an update or delete. One request per batch of 10. A failed
+   * read leaves the records out rather than blocking the write.
+   */
+  private async readBefore(
+    table: string,
+    recordIds: string[],
+    fieldNames?: string[]
+  ): Promise<Map<string, Record<string, unknown>>> {
+    const before = new Map<string, Record<string, unknown>>();
+    if (!this.auditing() || recordIds.length === 0) return before;
+
+    try {
+      for (const batch of chunk(recordIds)) {
+        const records = await this.listRecords(table, {
+          filterByFormula: or(...batch.map((id) => eq(recordId(), id))),
+          fields: fieldNames,
+        });
+        for (const record of records) before.set(record.id, record.fields);
+      }
+    } catch (err: any) {
+      logger.warn("AUDIT_READ_FAILED", { baseId: this.baseId, table, error: err?.message ?? String(err) });
+    }
+    return before;
   }
 
-  return JSON.parse(text);
-}
+  /**
+   * Update entry for `record`, limited to the fields that were written.
+   */
+  private updateEntry(
+    record: AirtableRecord<unknown>,
+    written: Record<string, unknown>,
+    before: Map<string, Record<string, unknown>>
+  ): RecordWrite {
+    const names = Object.keys(written);
+    const previous = before.get(record.id);
+    return {
+      action: "update",
+      recordId: record.id,
+      before: previous && pickFields(previous, names),
+      after: pickFields(record.fields as Record<string, unknown>, names),
+    };
+  }
+
+  private async audited(inputs: RecordWrite[], table: string): Promise<void> {
+    if (!this.auditing()) return;
+    await recordAudit(inputs.map((input) => ({ system: "airtable", baseId: this.baseId, table, ...input })));
+  }
+
+  // ===========================================================================
+  // WRITE
+  // ===========================================================================
+
+  async createRecord<T = Record<string, unknown>>(
+    table: string,
+    fields: Record<string, unknown>,
+    options: WriteOptions = {}
+  ): Promise<AirtableRecord<T>> {
+    const record = await this.request<AirtableRecord<T>>("POST", this.tableUrl(table), {
+      fields,
+      typecast: options.typecast ?? false,
+    });
+    await this.audited([createEntry(record)], table);
+    return record;
+  }
+
+  /**
+   * Creates records in batches of 10. Returns the created records in input order.
+   * A failed batch throws; records from earlier batches stay created (see
+   * `onBatch`).
+   */
+  async createRecords<T = Record<string, unknown>>(
+    table: string,
+    records: Record<string, unknown>[],
+    options: CreateOptions<T> = {}
+  ): Promise<AirtableRecord<T>[]> {
+    const created: AirtableRecord<T>[] = [];
 
-export async function updateRecord<T = Record<string, unknown>>(
-  table: string,
-  recordId: string,
-  fields: Record<string, unknown>
-): Promise<AirtableRecord<T>> {
-  const encodedTable = encodeURIComponent(table);
-  const url = `${BASE_URL}/${encodedTable}/${recordId}`;
+    for (const batch of chunk(records)) {
+      const data = await this.request<AirtableListResponse<T>>("POST", this.tableUrl(table), {
+        records: batch.map((fields) => ({ fields })),
+        typecast: options.typecast ?? false,
+      });
+      await this.audited(data.records.map(createEntry), table);
+      options.onBatch?.(data.records);
+      created.push(...data.records);
+    }
 
-  const res = await fetchWithRetry(url, {
-    method: "PATCH",
-    headers: getHeaders(),
-    body: JSON.stringify({ fields }),
-  });
+    return created;
+  }
+
+  /**
+   * Partial update (PATCH) of one record.
+   */
+  async updateRecord<T = Record<string, unknown>>(
+    table: string,
+    recordId: string,
+    fields: Record<string, unknown>,
+    options: WriteOptions = {}
+  ): Promise<AirtableRecord<T>> {
+    const before = await this.readBefore(table, [recordId], Object.keys(fields));
+    const record = await this.request<AirtableRecord<T>>("PATCH", this.tableUrl(table, recordId), {
+      fields,
+      typecast: options.typecast ?? false,
+    });
+    await this.audited([this.updateEntry(record, fields, before)], table);
+    return record;
+  }
 
-  const text = await res.text();
+  /**
+   * Partial update (PATCH) of many records, in batches of 10.
+   */
+  async updateRecords<T = Record<string, unknown>>(
+    table: string,
+    records: { id: string; fields: Record<string, unknown> }[],
+    options: WriteOptions = {}
+  ): Promise<AirtableRecord<T>[]> {
+    const updated: AirtableRecord<T>[] = [];
 
-  if (!res.ok) {
-    throw new Error(
-      `Airtable API error ${res.status} ${res.statusText}: ${text}`
+    for (const batch of chunk(records)) {
+      const written = new Map(batch.map((record) => [record.id, record.fields]));
+      const fieldNames = [...new Set(batch.flatMap((record) => Object.keys(record.fields)))];
+      const before = await this.readBefore(table, [...written.keys()], fieldNames);
+
+      const data = await this.request<AirtableListResponse<T>>("PATCH", this.tableUrl(table), {
+        records: batch,
+        typecast: options.typecast ?? false,
+      });
+      await this.audited(
+        data.records.map((record) => this.updateEntry(record, written.get(record.id) ?? {}, before)),
+        table
+      );
+      updated.push(...data.records);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Creates or updates records in one request per batch of 10, matching existing
+   * records on `fieldsToMergeOn` (Airtable `performUpsert`). Airtable does the
+   * match and the write atomically, so concurrent callers cannot create duplicates.
+   * A record matching more than one existing record fails the whole batch.
+   */
+  async upsertRecords<T = Record<string, unknown>>(
+    table: string,
+    records: Record<string, unknown>[],
+    fieldsToMergeOn: string[],
+    options: WriteOptions = {}
+  ): Promise<UpsertResult<T>> {
+    if (fieldsToMergeOn.length === 0) {
+      throw new Error("AirtableClient.upsertRecords: fieldsToMergeOn is required");
+    }
+
+    const result: UpsertResult<T> = { records: [], createdRecordIds: [], updatedRecordIds: [] };
+
+    for (const batch of chunk(records)) {
+      const data = await this.request<{
+        records: AirtableRecord<T>[];
+        createdRecords?: string[];
+        updatedRecords?: string[];
+      }>("PATCH", this.tableUrl(table), {
+        performUpsert: { fieldsToMergeOn },
+        records: batch.map((fields) => ({ fields })),
+        typecast: options.typecast ?? false,
+      });
+      await this.audited(
+        // Records come back in request order. Updated ones weren't read first: no `before`
+        data.records.map((record, i): RecordWrite =>
+          data.createdRecords?.includes(record.id)
+            ? createEntry(record)
+            : {
+                action: "update",
+                recordId: record.id,
+                after: pickFields(record.fields as Record<string, unknown>, Object.keys(batch[i])),
+              }
+        ),
+        table
+      );
+      result.records.push(...data.records);
+      result.createdRecordIds.push(...(data.createdRecords ?? []));
+      result.updatedRecordIds.push(...(data.updatedRecords ?? []));
+    }
+
+    return result;
+  }
+
+  /**
+   * Upserts a single record. `created` is true when no existing record matched.
+   */
+  async upsertRecord<T = Record<string, unknown>>(
+    table: string,
+    fields: Record<string, unknown>,
+    fieldsToMergeOn: string[],
+    options: WriteOptions = {}
+  ): Promise<{ record: AirtableRecord<T>; created: boolean }> {
+    const result = await this.upsertRecords<T>(table, [fields], fieldsToMergeOn, options);
+    const record = result.records[0];
+    return { record, created: result.createdRecordIds.includes(record.id) };
+  }
+
+  async deleteRecord(table: string, recordId: string): Promise<{ id: string; deleted: boolean }> {
+    const before = await this.readBefore(table, [recordId]);
+    const result = await this.request<{ id: string; deleted: boolean }>("DELETE", this.tableUrl(table, recordId));
+    await this.audited([deleteEntry(result.id, before)], table);
+    return result;
+  }
+
+  /**
+   * Deletes many records, in batches of 10.
+   */
+  async deleteRecords(table: string, recordIds: string[]): Promise<{ id: string; deleted: boolean }[]> {
+    const deleted: { id: string; deleted: boolean }[] = [];
+
+    for (const batch of chunk(recordIds)) {
+      const before = await this.readBefore(table, batch);
+      const params = new URLSearchParams();
+      for (const id of batch) params.append("records[]", id);
+      const data = await this.request<{ records: { id: string; deleted: boolean }[] }>(
+        "DELETE",
+        `${this.tableUrl(table)}?${params.toString()}`
+      );
+      await this.audited(
+        data.records.map((record) => deleteEntry(record.id, before)),
+        table
+      );
+      deleted.push(...data.records);
+    }
+
+    return deleted;
+  }
+
+  // ===========================================================================
+  // METADATA
+  // ===========================================================================
+
+  /**
+   * Lists the base's tables and fields (requires the schema.bases:read scope).
+   */
+  async getBaseSchema(): Promise<AirtableTableMetadata[]> {
+    const data = await this.request<{ tables: AirtableTableMetadata[] }>(
+      "GET",
+      `${this.apiUrl}/meta/bases/${this.baseId}/tables`
     );
+    return data.tables;
   }
+}
 
-  return JSON.parse(text);
+/**
+ * Client for `baseId` (defaults to AIRTABLE_BASE_ID) using AIRTABLE_API_KEY.
+ * Throws if either is missing.
+ */
+export function getAirtableClient(
+  baseId: string = config.airtableBaseId,
+  options: Omit<AirtableClientOptions, "apiKey" | "baseId"> = {}
+): AirtableClient {
+  return new AirtableClient({ apiKey: config.airtableApiKey, baseId, ...options });
 }
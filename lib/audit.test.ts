@@ -0,0 +1,198 @@
+/**
+ * Tests for audit.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { AirtableClient } from "./airtable";
+import { AirtableEmulator } from "./airtable-emulator";
+import {
+  AirtableAuditStore,
+  FileAuditStore,
+  MemoryAuditStore,
+  auditTimeline,
+  recordAudit,
+  setAuditStore,
+  type AuditEntry,
+} from "./audit";
+import { runWithLogContext } from "./logger";
+
+function clientFor(emulator: AirtableEmulator, options: { audit?: boolean } = {}) {
+  return new AirtableClient({
+    apiKey: "key",
+    baseId: "appTEST",
+    apiUrl: "http://emulator/v0",
+    fetch: (input, init) => emulator.handle(new Request(input as string, init)),
+    sleep: async () => {},
+    ...options,
+  });
+}
+
+const context = { traceId: "trace-audit-1", route: "/api/test", keyName: "automation" };
+
+beforeEach(() => {
+  setAuditStore(new MemoryAuditStore());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("AirtableClient auditing", () => {
+  it("records creates, updates and deletes with before / after values and the request context", async () => {
+    const emulator = new AirtableEmulator();
+    const client = clientFor(emulator);
+
+    await runWithLogContext(context, async () => {
+      const created = await client.createRecord("Tasks", { Name: "Draft brief", Status: "todo" });
+      await client.updateRecord("Tasks", created.id, { Status: "done", Owner: "Sam" });
+      await client.deleteRecord("Tasks", created.id);
+    });
+
+    const timeline = await auditTimeline(context.traceId);
+    expect(timeline.map((entry) => entry.action)).toEqual(["create", "update", "delete"]);
+    expect(timeline[0]).toMatchObject({
+      system: "airtable",
+      baseId: "appTEST",
+      table: "Tasks",
+      before: null,
+      after: { Name: "Draft brief", Status: "todo" },
+      ...context,
+    });
+    expect(timeline[1]).toMatchObject({
+      before: { Status: "todo", Owner: null },
+      after: { Status: "done", Owner: "Sam" },
+    });
+    expect(timeline[2]).toMatchObject({
+      before: { Name: "Draft brief", Status: "done", Owner: "Sam" },
+      after: null,
+    });
+    expect(new Set(timeline.map((entry) => entry.recordId)).size).toBe(1);
+  });
+
+  it("records batch writes and upserts, without before values for upserted updates", async () => {
+    const emulator = new AirtableEmulator();
+    const [existing] = emulator.seed("appTEST", "Companies", [{ Domain: "acme.com", Name: "Acme" }]);
+    const client = clientFor(emulator);
+
+    await runWithLogContext(context, async () => {
+      await client.upsertRecords("Companies", [{ Domain: "acme.com" }, { Domain: "globex.com" }], ["Domain"]);
+      await client.updateRecords("Companies", [{ id: existing.id, fields: { Name: "Acme Inc" } }]);
+    });
+
+    const [upsertedOld, upsertedNew, updated] = await auditTimeline(context.traceId);
+    expect(upsertedOld).toMatchObject({ action: "update", recordId: existing.id, after: { Domain: "acme.com" } });
+    expect(upsertedOld).not.toHaveProperty("before");
+    expect(upsertedNew).toMatchObject({ action: "create", before: null, after: { Domain: "globex.com" } });
+    expect(updated).toMatchObject({ before: { Name: "Acme" }, after: { Name: "Acme Inc" } });
+  });
+
+  it("skips clients created with audit: false, and everything when the store is off", async () => {
+    const emulator = new AirtableEmulator();
+
+    await runWithLogContext(context, async () => {
+      await clientFor(emulator, { audit: false }).createRecord("Tasks", { Name: "Quiet" });
+      setAuditStore(null);
+      const created = await clientFor(emulator).createRecord("Tasks", { Name: "Off" });
+      await clientFor(emulator).updateRecord("Tasks", created.id, { Name: "Still off" });
+    });
+
+    expect(await auditTimeline(context.traceId)).toEqual([]);
+    // No read before the update while auditing is off
+    expect(emulator.requests.map((r) => r.method)).toEqual(["POST", "POST", "PATCH"]);
+  });
+});
+
+describe("recordAudit", () => {
+  it("redacts message content and secrets and cuts off long values", async () => {
+    await runWithLogContext(context, () =>
+      recordAudit([
+        {
+          action: "create",
+          system: "airtable",
+          table: "Inbox Items",
+          recordId: "rec1",
+          before: null,
+          after: { Subject: "Hello", "Body Text": "Dear Sam, ...", "Raw Payload": "{}", Token: "tok_1", Summary: "x".repeat(600) },
+        },
+      ])
+    );
+
+    const [entry] = await auditTimeline(context.traceId);
+    expect(entry.before).toBeNull();
+    expect(entry.after).toMatchObject({
+      Subject: "Hello",
+      "Body Text": "[redacted: 13 chars]",
+      "Raw Payload": "[redacted: 2 chars]",
+      Token: "[redacted]",
+    });
+    expect(entry.after?.Summary).toMatch(/^x{500}\.\.\.\[\+100 chars\]$/);
+  });
+
+  it("logs a failing sink instead of throwing", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    setAuditStore({
+      append: async () => {
+        throw new Error("disk full");
+      },
+      listByTrace: async () => [],
+    });
+
+    await expect(
+      recordAudit([{ action: "drive.rename", system: "drive", recordId: "doc1", before: { name: "a" }, after: { name: "b" } }])
+    ).resolves.toBeUndefined();
+    expect(JSON.parse(error.mock.calls[0][0] as string)).toMatchObject({
+      event: "AUDIT_WRITE_FAILED",
+      actions: ["drive.rename"],
+      error: "disk full",
+    });
+  });
+});
+
+describe("audit stores", () => {
+  const entry = (id: string, traceId: string, time: string): AuditEntry => ({
+    id,
+    time,
+    action: "update",
+    system: "airtable",
+    baseId: "appTEST",
+    table: "Tasks",
+    recordId: "rec1",
+    before: { Status: "todo" },
+    after: { Status: "done" },
+    traceId,
+    route: "/api/test",
+    keyName: "automation",
+  });
+
+  it("FileAuditStore appends JSON lines and skips a torn last line", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "audit-"));
+    const file = path.join(dir, "nested", "audit.jsonl");
+    const store = new FileAuditStore(file);
+
+    await store.append([entry("b", "t1", "2026-01-01T00:00:02Z"), entry("c", "t2", "2026-01-01T00:00:03Z")]);
+    await store.append([entry("a", "t1", "2026-01-01T00:00:01Z")]);
+    await fs.appendFile(file, '{"id":"torn","traceId":"t1"');
+
+    expect((await store.listByTrace("t1")).map((e) => e.id)).toEqual(["a", "b"]);
+    expect(await new FileAuditStore(path.join(dir, "missing.jsonl")).listByTrace("t1")).toEqual([]);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("AirtableAuditStore writes one row per entry and reads a trace back", async () => {
+    const emulator = new AirtableEmulator();
+    const store = new AirtableAuditStore(clientFor(emulator, { audit: false }), "Audit");
+    const created: AuditEntry = { ...entry("c", "t1", "2026-01-01T00:00:03Z"), action: "create", before: null };
+
+    await store.append([entry("b", "t1", "2026-01-01T00:00:02Z"), entry("x", "t2", "2026-01-01T00:00:01Z"), created]);
+
+    const rows = emulator.records("appTEST", "Audit");
+    expect(rows).toHaveLength(3);
+    expect(rows[0].fields).toMatchObject({ "Trace ID": "t1", "API Key": "automation", Before: '{"Status":"todo"}' });
+    expect(await store.listByTrace("t1")).toEqual([entry("b", "t1", "2026-01-01T00:00:02Z"), created]);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Audit log of every write this API makes to Airtable and Google Drive.
+ *
+ * AirtableClient records each created, updated and deleted record, and
+ * /api/generate-doc records the Drive copy of a doc template and any rename.
+ * Each entry holds the field values before and after the write, plus the
+ * trace ID, route, API key name and job ID from the log context (./logger),
+ * so GET /api/admin/audit?traceId= can replay one request as a timeline.
+ *
+ * `before` is the record as read just before an update or delete, limited to
+ * the fields written for updates; null for creates. Upserts match and write
+ * in one request, so records they update have no `before`. `after` is the
+ * record Airtable returned, again limited to the fields written.
+ *
+ * Values pass through the logger's REDACTION_RULES (redact(), ./logger)
+ * before they are stored: secrets are replaced, message content (Body Text,
+ * Raw Payload, ...) is reduced to its length and other long strings are cut
+ * off. Entries still name people and companies, so the sink needs the same
+ * access control as the bases themselves.
+ *
+ * Sinks (AUDIT_STORE): "off" (default), "file" (JSON lines appended to
+ * AUDIT_FILE), "airtable" (a row per entry in AUDIT_AIRTABLE_TABLE) or
+ * "memory" (per instance, the latest 10,000 entries; for dev and tests).
+ * setAuditStore() plugs in another AuditStore. Off, writers skip the
+ * `before` reads too. A failing sink is logged and never fails the write.
+ */
+
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { AirtableClient } from "./airtable";
+import { eq } from "./airtable-formula";
+import { config } from "./config";
+import { getLogContext, logger, redact } from "./logger";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AuditAction = "create" | "update" | "delete" | "drive.copy" | "drive.rename";
+
+export interface AuditEntry {
+  id: string;
+  time: string;
+  action: AuditAction;
+  system: "airtable" | "drive";
+  /** Airtable only */
+  baseId?: string;
+  table?: string;
+  /** Airtable record ID or Drive file ID */
+  recordId: string;
+  /** drive.copy: the file that was copied (the template) */
+  sourceId?: string;
+  /** null when the record did not exist; absent when it wasn't read (upserts) */
+  before?: Record<string, unknown> | null;
+  /** null once deleted */
+  after: Record<string, unknown> | null;
+  traceId?: string;
+  route?: string;
+  /** Name of the API key the request authenticated with */
+  keyName?: string;
+  jobId?: string;
+}
+
+/** An entry as reported by the writer; id, time and context are added by recordAudit() */
+export type AuditInput = Omit<AuditEntry, "id" | "time" | "traceId" | "route" | "keyName" | "jobId">;
+
+// =============================================================================
+// STORES
+// =============================================================================
+
+export interface AuditStore {
+  append(entries: AuditEntry[]): Promise<void>;
+  /** Entries with this trace ID, oldest first */
+  listByTrace(traceId: string): Promise<AuditEntry[]>;
+}
+
+function byTime(a: AuditEntry, b: AuditEntry): number {
+  return a.time.localeCompare(b.time);
+}
+
+const MEMORY_LIMIT = 10_000;
+
+/**
+ * Entries held in this process only, oldest dropped past `limit`.
+ */
+export class MemoryAuditStore implements AuditStore {
+  private entries: AuditEntry[] = [];
+
+  constructor(private readonly limit = MEMORY_LIMIT) {}
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    this.entries.push(...structuredClone(entries));
+    if (this.entries.length > this.limit) this.entries.splice(0, this.entries.length - this.limit);
+  }
+
+  async listByTrace(traceId: string): Promise<AuditEntry[]> {
+    return structuredClone(this.entries.filter((entry) => entry.traceId === traceId));
+  }
+}
+
+/**
+ * One JSON line per entry, appended to `file`. Queries read the whole file,
+ * so rotate it (or use the Airtable sink) once it grows large.
+ */
+export class FileAuditStore implements AuditStore {
+  constructor(private readonly file: string) {}
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.appendFile(this.file, entries.map((entry) => JSON.stringify(entry) + "\n").join(""));
+  }
+
+  async listByTrace(traceId: string): Promise<AuditEntry[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.file, "utf8");
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return [];
+      throw err;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (entry.traceId === traceId) entries.push(entry);
+      } catch {
+        // A line cut short by a crash mid-append
+      }
+    }
+    return entries.sort(byTime);
+  }
+}
+
+/** Columns of the Airtable audit table: all text (Before / After: long text) */
+export const AUDIT_FIELDS = {
+  entryId: "Entry ID",
+  time: "Time",
+  action: "Action",
+  system: "System",
+  baseId: "Base ID",
+  table: "Table",
+  recordId: "Record ID",
+  sourceId: "Source ID",
+  before: "Before",
+  after: "After",
+  traceId: "Trace ID",
+  route: "Route",
+  keyName: "API Key",
+  jobId: "Job ID",
+} as const;
+
+// Airtable long text holds at most 100,000 characters
+const MAX_CELL = 100_000;
+
+function toCell(value: Record<string, unknown> | null | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const json = JSON.stringify(value);
+  return json.length > MAX_CELL ? JSON.stringify({ truncated: true, chars: json.length }) : json;
+}
+
+function fromCell(value: unknown): Record<string, unknown> | null | undefined {
+  return typeof value === "string" && value ? JSON.parse(value) : undefined;
+}
+
+/**
+ * One row per entry in an Airtable table with the AUDIT_FIELDS columns.
+ * The client must be created with `audit: false`, or each row would be
+ * audited in turn.
+ */
+export class AirtableAuditStore implements AuditStore {
+  constructor(
+    private readonly client: AirtableClient,
+    private readonly table: string
+  ) {}
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    await this.client.createRecords(
+      this.table,
+      entries.map((entry) => ({
+        [AUDIT_FIELDS.entryId]: entry.id,
+        [AUDIT_FIELDS.time]: entry.time,
+        [AUDIT_FIELDS.action]: entry.action,
+        [AUDIT_FIELDS.system]: entry.system,
+        [AUDIT_FIELDS.baseId]: entry.baseId,
+        [AUDIT_FIELDS.table]: entry.table,
+        [AUDIT_FIELDS.recordId]: entry.recordId,
+        [AUDIT_FIELDS.sourceId]: entry.sourceId,
+        [AUDIT_FIELDS.before]: toCell(entry.before),
+        [AUDIT_FIELDS.after]: toCell(entry.after),
+        [AUDIT_FIELDS.traceId]: entry.traceId,
+        [AUDIT_FIELDS.route]: entry.route,
+        [AUDIT_FIELDS.keyName]: entry.keyName,
+        [AUDIT_FIELDS.jobId]: entry.jobId,
+      })),
+      { typecast: true }
+    );
+  }
+
+  async listByTrace(traceId: string): Promise<AuditEntry[]> {
+    const records = await this.client.listRecords(this.table, {
+      filterByFormula: eq(AUDIT_FIELDS.traceId, traceId),
+    });
+
+    return records
+      .map(({ fields }) => {
+        const text = (name: string) => (fields[name] ? String(fields[name]) : undefined);
+        const entry: AuditEntry = {
+          id: text(AUDIT_FIELDS.entryId) ?? "",
+          time: text(AUDIT_FIELDS.time) ?? "",
+          action: text(AUDIT_FIELDS.action) as AuditAction,
+          system: text(AUDIT_FIELDS.system) as AuditEntry["system"],
+          baseId: text(AUDIT_FIELDS.baseId),
+          table: text(AUDIT_FIELDS.table),
+          recordId: text(AUDIT_FIELDS.recordId) ?? "",
+          sourceId: text(AUDIT_FIELDS.sourceId),
+          after: fromCell(fields[AUDIT_FIELDS.after]) ?? null,
+          traceId: text(AUDIT_FIELDS.traceId),
+          route: text(AUDIT_FIELDS.route),
+          keyName: text(AUDIT_FIELDS.keyName),
+          jobId: text(AUDIT_FIELDS.jobId),
+        };
+        const before = fromCell(fields[AUDIT_FIELDS.before]);
+        if (before !== undefined) entry.before = before;
+        return entry;
+      })
+      .sort(byTime);
+  }
+}
+
+function createAuditStore(): AuditStore | null {
+  switch (config.auditStore) {
+    case "memory":
+      return new MemoryAuditStore();
+    case "file":
+      return new FileAuditStore(config.auditFile);
+    case "airtable":
+      return new AirtableAuditStore(
+        new AirtableClient({ apiKey: config.airtableApiKey, baseId: config.auditAirtableBaseId, audit: false }),
+        config.auditAirtableTable
+      );
+    default:
+      return null;
+  }
+}
+
+let store: AuditStore | null | undefined;
+
+function getAuditStore(): AuditStore | null {
+  if (store === undefined) store = createAuditStore();
+  return store;
+}
+
+/**
+ * Replaces the sink; null turns auditing off.
+ */
+export function setAuditStore(next: AuditStore | null): void {
+  store = next;
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Whether writes are being audited. Writers check it before reading the
+ * `before` values, which costs a request.
+ */
+export function auditEnabled(): boolean {
+  return getAuditStore() !== null;
+}
+
+function redactFields<T extends Record<string, unknown> | null | undefined>(fields: T): T {
+  return fields ? (redact(fields) as T) : fields;
+}
+
+/**
+ * Adds `inputs` to the audit log with the current trace ID, route, key and
+ * job, their values redacted. Never throws: the write it describes has
+ * already happened.
+ */
+export async function recordAudit(inputs: AuditInput[]): Promise<void> {
+  const sink = getAuditStore();
+  if (!sink || inputs.length === 0) return;
+
+  const { traceId, route, keyName, jobId } = getLogContext();
+  const time = new Date().toISOString();
+  const entries = inputs.map(({ before, after, ...input }) => {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      time,
+      ...input,
+      after: redactFields(after),
+      traceId,
+      route,
+      keyName,
+      jobId,
+    };
+    if (before !== undefined) entry.before = redactFields(before);
+    return entry;
+  });
+
+  try {
+    await sink.append(entries);
+  } catch (err: any) {
+    logger.error("AUDIT_WRITE_FAILED", {
+      entries: entries.length,
+      actions: [...new Set(entries.map((entry) => entry.action))],
+      error: err?.message ?? String(err),
+    });
+  }
+}
+
+/**
+ * Every audited write made under `traceId`, oldest first.
+ */
+export async function auditTimeline(traceId: string): Promise<AuditEntry[]> {
+  const sink = getAuditStore();
+  return sink ? sink.listByTrace(traceId) : [];
+}
+
+/**
+ * `fields` limited to `names`, with fields Airtable left out (empty) as null.
+ */
+export function pickFields(fields: Record<string, unknown>, names: string[]): Record<string, unknown> {
+  return Object.fromEntries(names.map((name) => [name, fields[name] ?? null]));
+}
@@ -0,0 +1,257 @@
+/**
+ * Tests for auth.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { authenticate, authenticateSigned, listApiKeys, parseApiKeys, scopesWithoutKeys } from "./auth";
+import { NonceCache, signRequest } from "./request-signing";
+import { fingerprint } from "./secrets";
+
+const keys = parseApiKeys(
+  JSON.stringify([
+    { name: "gmail-addon", key: "addon-secret", scopes: ["inbox:email"] },
+    { name: "airtable-automations", key: "automation-secret", scopes: ["docs:generate", "drive:folders"] },
+  ])
+);
+
+function request(headers: Record<string, string>, body?: string): Request {
+  return new Request("http://localhost/api/test", { method: "POST", headers, body });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("parseApiKeys", () => {
+  it("rejects unknown scopes and duplicate names", () => {
+    expect(() => parseApiKeys('[{ "name": "a", "key": "k", "scopes": ["everything"] }]')).toThrow();
+    expect(() =>
+      parseApiKeys('[{ "name": "a", "key": "k1", "scopes": ["admin"] }, { "name": "a", "key": "k2", "scopes": ["admin"] }]')
+    ).toThrow('Duplicate API key name "a"');
+  });
+
+  it("never exposes secrets when listing", () => {
+    expect(JSON.stringify(listApiKeys(keys))).not.toContain("addon-secret");
+    expect(listApiKeys(keys)).toMatchObject([
+      { name: "gmail-addon", scopes: ["inbox:email"], source: "API_KEYS", secrets: [{ fingerprint: fingerprint("addon-secret") }] },
+      { name: "airtable-automations", scopes: ["docs:generate", "drive:folders"], source: "API_KEYS" },
+    ]);
+    expect(scopesWithoutKeys(keys)).toEqual(["intake:write", "inbound:gmail", "inbound:company", "admin"]);
+  });
+});
+
+describe("authenticate", () => {
+  it("accepts a key from any supported header and logs its name", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    expect(authenticate(request({ Authorization: "Bearer addon-secret" }), "inbox:email", keys)).toMatchObject({
+      ok: true,
+      key: { name: "gmail-addon" },
+    });
+    expect(authenticate(request({ "x-hive-secret": " addon-secret " }), "inbox:email", keys).ok).toBe(true);
+    expect(authenticate(request({ "x-proxy-secret": "automation-secret" }), "drive:folders", keys).ok).toBe(true);
+    expect(JSON.parse(log.mock.calls[2][0] as string)).toMatchObject({
+      event: "AUTH_OK",
+      keyName: "airtable-automations",
+      scope: "drive:folders",
+      fingerprint: fingerprint("automation-secret"),
+    });
+  });
+
+  it("picks the key with the scope when several share a value", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const shared = parseApiKeys(
+      JSON.stringify([
+        { name: "pm-intake", key: "shared-secret", scopes: ["intake:write"] },
+        { name: "gmail-proxy", key: "shared-secret", scopes: ["inbound:gmail"] },
+      ])
+    );
+
+    expect(authenticate(request({ "x-api-key": "shared-secret" }), "inbound:gmail", shared)).toMatchObject({
+      ok: true,
+      key: { name: "gmail-proxy" },
+    });
+    expect(authenticate(request({ "x-api-key": "shared-secret" }), "intake:write", shared)).toMatchObject({
+      ok: true,
+      key: { name: "pm-intake" },
+    });
+  });
+
+  it("distinguishes missing, wrong and out-of-scope keys", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(authenticate(request({}), "inbox:email", keys)).toMatchObject({ ok: false, status: 401 });
+    expect(authenticate(request({ "x-api-key": "addon-secre" }), "inbox:email", keys)).toMatchObject({
+      ok: false,
+      status: 401,
+      reason: "Invalid API key",
+    });
+    expect(authenticate(request({ "x-api-key": "addon-secret" }), "docs:generate", keys)).toMatchObject({
+      ok: false,
+      status: 403,
+      reason: 'API key "gmail-addon" lacks scope docs:generate',
+    });
+    expect(authenticate(request({ "x-api-key": "addon-secret" }), "intake:write", keys)).toMatchObject({
+      ok: false,
+      status: 500,
+    });
+  });
+
+  it("accepts every listed value until it expires and reports which one was used", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const rotating = parseApiKeys(
+      JSON.stringify([{ name: "airtable-proxy", key: ["proxy-new", "proxy-old@2026-11-01"], scopes: ["drive:folders"] }])
+    );
+    const before = new Date("2026-10-15T00:00:00Z");
+    const after = new Date("2026-11-02T00:00:00Z");
+
+    expect(authenticate(request({ "x-api-key": "proxy-old" }), "drive:folders", rotating, before)).toMatchObject({
+      ok: true,
+      fingerprint: fingerprint("proxy-old"),
+    });
+    expect(authenticate(request({ "x-api-key": "proxy-new" }), "drive:folders", rotating, after)).toMatchObject({
+      ok: true,
+      fingerprint: fingerprint("proxy-new"),
+    });
+    expect(authenticate(request({ "x-api-key": "proxy-old" }), "drive:folders", rotating, after)).toMatchObject({
+      ok: false,
+      status: 401,
+      reason: `API key "airtable-proxy" value ${fingerprint("proxy-old")} expired at 2026-11-01T00:00:00.000Z`,
+    });
+
+    const [status] = listApiKeys(rotating, after);
+    expect(status.secrets).toEqual([
+      { fingerprint: fingerprint("proxy-new"), expired: false, uses: 1, lastUsedAt: after.toISOString() },
+      {
+        fingerprint: fingerprint("proxy-old"),
+        expiresAt: "2026-11-01T00:00:00.000Z",
+        expired: true,
+        uses: 1,
+        lastUsedAt: before.toISOString(),
+      },
+    ]);
+  });
+
+  it("maps legacy secrets to named keys alongside API_KEYS", async () => {
+    vi.stubEnv("API_KEYS", '[{ "name": "admin", "key": "new-admin", "scopes": ["admin"] }]');
+    vi.stubEnv("ADMIN_BEARER_TOKEN", "old-admin");
+    vi.stubEnv("AIRTABLE_PROXY_SECRET", "list:proxy-new, proxy-old@2026-11-01");
+    vi.stubEnv("PM_INTAKE_BEARER_TOKEN", "");
+    vi.resetModules();
+    const { loadApiKeys } = await import("./auth");
+
+    const loaded = loadApiKeys();
+
+    // The API_KEYS "admin" entry replaces ADMIN_BEARER_TOKEN
+    expect(loaded.map((k) => [k.name, k.source])).toEqual(
+      expect.arrayContaining([
+        ["admin", "API_KEYS"],
+        ["airtable-proxy", "AIRTABLE_PROXY_SECRET"],
+      ])
+    );
+    expect(loaded.find((k) => k.source === "ADMIN_BEARER_TOKEN")).toBeUndefined();
+    expect(loaded.find((k) => k.source === "PM_INTAKE_BEARER_TOKEN")).toBeUndefined();
+    expect(loaded.find((k) => k.name === "airtable-proxy")?.secrets).toEqual([
+      { value: "proxy-new" },
+      { value: "proxy-old", expiresAt: new Date("2026-11-01") },
+    ]);
+  });
+
+  it("keeps each legacy secret to the routes it opened before", async () => {
+    vi.stubEnv("API_KEYS", "");
+    vi.stubEnv("PM_INTAKE_BEARER_TOKEN", "intake-secret");
+    vi.stubEnv("PM_INTAKE_TOKEN", "proxy-secret");
+    vi.stubEnv("HIVE_INBOUND_EMAIL_SECRET", "email-secret");
+    vi.stubEnv("HIVE_INBOUND_SECRET", "addon-secret");
+    vi.resetModules();
+    const { loadApiKeys } = await import("./auth");
+
+    const scopes = Object.fromEntries(loadApiKeys().map((k) => [k.name, k.scopes]));
+
+    expect(scopes).toMatchObject({
+      "pm-intake": ["intake:write"],
+      "gmail-proxy": ["inbound:gmail", "inbound:company"],
+      "inbox-email": ["inbox:email"],
+      "gmail-addon": ["inbound:company"],
+    });
+  });
+
+  it("lets PM_INTAKE_BEARER_TOKEN open the Gmail inbound routes only without PM_INTAKE_TOKEN", async () => {
+    vi.stubEnv("API_KEYS", "");
+    vi.stubEnv("PM_INTAKE_BEARER_TOKEN", "intake-secret");
+    vi.stubEnv("PM_INTAKE_TOKEN", "");
+    vi.resetModules();
+    const { loadApiKeys } = await import("./auth");
+
+    expect(loadApiKeys().find((k) => k.name === "pm-intake")?.scopes).toEqual([
+      "intake:write",
+      "inbound:gmail",
+      "inbound:company",
+    ]);
+  });
+});
+
+describe("authenticateSigned", () => {
+  const body = JSON.stringify({ gmailMessageId: "msg-1" });
+
+  it("accepts a signature made with a key and rejects its replay", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const options = { keys, nonceCache: new NonceCache(), toleranceSeconds: 300 };
+    const headers = signRequest("addon-secret", "POST", "http://localhost/api/test", body);
+
+    expect(await authenticateSigned(request(headers, body), "inbox:email", options)).toMatchObject({
+      ok: true,
+      signed: true,
+      key: { name: "gmail-addon" },
+    });
+    expect(await authenticateSigned(request(headers, body), "inbox:email", options)).toMatchObject({
+      ok: false,
+      status: 401,
+      reason: "Replayed request",
+    });
+  });
+
+  it("rejects tampered bodies, and unsigned requests when signing is required", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const options = { keys, nonceCache: new NonceCache(), toleranceSeconds: 300 };
+    const headers = signRequest("addon-secret", "POST", "http://localhost/api/test", body);
+
+    expect(await authenticateSigned(request(headers, body.replace("1", "2")), "inbox:email", options)).toMatchObject({
+      ok: false,
+      reason: "Invalid signature",
+    });
+    expect(
+      await authenticateSigned(request({ "x-hive-secret": "addon-secret" }, body), "inbox:email", options)
+    ).toMatchObject({ ok: true, key: { name: "gmail-addon" } });
+    expect(
+      await authenticateSigned(request({ "x-hive-secret": "addon-secret" }, body), "inbox:email", {
+        ...options,
+        required: true,
+      })
+    ).toMatchObject({ ok: false, status: 401, reason: "Signed request required (x-signature)" });
+  });
+
+  it("rejects a signature made for another route or method", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const options = { keys, nonceCache: new NonceCache(), toleranceSeconds: 300 };
+
+    for (const [method, url] of [
+      ["POST", "http://localhost/api/other"],
+      ["POST", "http://localhost/api/test?dryRun=1"],
+      ["PUT", "http://localhost/api/test"],
+    ]) {
+      const headers = signRequest("addon-secret", method, url, body);
+      expect(await authenticateSigned(request(headers, body), "inbox:email", options)).toMatchObject({
+        ok: false,
+        status: 401,
+        reason: "Invalid signature",
+      });
+    }
+  });
+});
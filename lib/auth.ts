@@ -0,0 +1,478 @@
+/**
+ * API key authentication shared by every route.
+ *
+ * Keys are named and scoped, so one integration can be rotated or revoked
+ * without touching the others. API_KEYS holds a JSON array of
+ * { name, key, scopes }. The legacy per-route secrets still work: each one
+ * becomes a key with a fixed name and the scopes of the routes it used to
+ * unlock (LEGACY_KEYS).
+ *
+ * A key may arrive as Authorization: Bearer, x-api-key, or one of the legacy
+ * headers (x-inbox-secret, x-hive-secret, x-proxy-secret). Comparison is
+ * constant-time. The scope decides what a key can reach, and the key's name
+ * is logged on every authenticated request.
+ *
+ * Webhook routes use authenticateSigned(), which also accepts requests
+ * HMAC-signed with a key instead of carrying it (./request-signing).
+ *
+ * Every key accepts a list of values, each with an optional expiry
+ * (./secrets), so a secret can be rotated without downtime. The fingerprint
+ * of the value that matched is logged, and listApiKeys() reports when each
+ * value was last used by this instance.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { config, type EnvVarName } from "./config";
+import { logger, setLogContext } from "./logger";
+import { NonceCache, computeSignature, readSignedRequest, signatureMatches, type SignatureCheck } from "./request-signing";
+import { fingerprint, isExpired, parseSecretEntry, parseSecretList, type SecretValue } from "./secrets";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const API_SCOPES = [
+  "intake:write",
+  "docs:generate",
+  "drive:folders",
+  "inbox:email",
+  "inbound:gmail",
+  "inbound:company",
+  "admin",
+] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+/** A configured key, without its secret */
+export interface ApiKey {
+  name: string;
+  scopes: ApiScope[];
+  /** API_KEYS, or the legacy variable it was read from */
+  source: EnvVarName;
+}
+
+interface ApiKeyEntry extends ApiKey {
+  secrets: SecretValue[];
+}
+
+/** One accepted value of a key, without the value */
+export interface SecretStatus {
+  fingerprint: string;
+  expiresAt?: string;
+  expired: boolean;
+  /** Requests this instance accepted with the value since it started */
+  uses: number;
+  lastUsedAt?: string;
+}
+
+export interface ApiKeyStatus extends ApiKey {
+  secrets: SecretStatus[];
+}
+
+export type AuthResult =
+  | { ok: true; key: ApiKey; fingerprint: string; signed?: boolean }
+  | { ok: false; status: 401 | 403 | 500; reason: string };
+
+// =============================================================================
+// KEYS
+// =============================================================================
+
+/** `key` is a secret setting ("value" or "list:new,old@2026-11-01") or an array of list entries */
+const SecretListSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((raw, ctx): SecretValue[] => {
+    try {
+      const secrets = Array.isArray(raw)
+        ? raw.map((entry) => entry.trim()).filter(Boolean).map(parseSecretEntry)
+        : parseSecretList(raw);
+      if (secrets.length === 0) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one key value is required" });
+      return secrets;
+    } catch (err: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: err?.message ?? String(err) });
+      return z.NEVER;
+    }
+  });
+
+const ApiKeyListSchema = z.array(
+  z.object({
+    name: z.string().trim().min(1),
+    key: SecretListSchema,
+    scopes: z.array(z.enum(API_SCOPES)).min(1),
+  })
+);
+
+/**
+ * Legacy secrets: routes that used each one keep accepting it under this
+ * name, and no others (e.g. only HIVE_INBOUND_EMAIL_SECRET opens /api/inbox/email).
+ * PM_INTAKE_BEARER_TOKEN opened the Gmail inbound routes only in place of an
+ * unset PM_INTAKE_TOKEN.
+ */
+const LEGACY_KEYS: { source: EnvVarName; name: string; secret: () => string; scopes: () => ApiScope[] }[] = [
+  {
+    source: "PM_INTAKE_BEARER_TOKEN",
+    name: "pm-intake",
+    secret: () => config.pmIntakeBearerToken,
+    scopes: () => (config.pmIntakeToken ? ["intake:write"] : ["intake:write", "inbound:gmail", "inbound:company"]),
+  },
+  {
+    source: "PM_INTAKE_TOKEN",
+    name: "gmail-proxy",
+    secret: () => config.pmIntakeToken,
+    scopes: () => ["inbound:gmail", "inbound:company"],
+  },
+  {
+    source: "HIVE_INBOUND_EMAIL_SECRET",
+    name: "inbox-email",
+    secret: () => config.hiveInboundEmailSecret,
+    scopes: () => ["inbox:email"],
+  },
+  { source: "HIVE_INBOUND_SECRET", name: "gmail-addon", secret: () => config.hiveInboundSecret, scopes: () => ["inbound:company"] },
+  {
+    source: "PM_INTAKE_SHARED_SECRET",
+    name: "generate-doc",
+    secret: () => config.pmIntakeSharedSecret,
+    scopes: () => ["docs:generate"],
+  },
+  {
+    source: "AIRTABLE_PROXY_SECRET",
+    name: "airtable-proxy",
+    secret: () => config.airtableProxySecret,
+    scopes: () => ["drive:folders"],
+  },
+  { source: "ADMIN_BEARER_TOKEN", name: "admin", secret: () => config.adminToken, scopes: () => ["admin"] },
+];
+
+/**
+ * Parses API_KEYS. Throws with the zod message if the JSON or any entry is
+ * invalid, or if two entries share a name.
+ */
+export function parseApiKeys(raw: string): ApiKeyEntry[] {
+  if (!raw) return [];
+
+  const entries = ApiKeyListSchema.parse(JSON.parse(raw));
+  const names = new Set<string>();
+
+  return entries.map((entry) => {
+    if (names.has(entry.name)) {
+      throw new Error(`Duplicate API key name "${entry.name}"`);
+    }
+    names.add(entry.name);
+    return { name: entry.name, scopes: entry.scopes, source: "API_KEYS", secrets: entry.key };
+  });
+}
+
+/**
+ * API_KEYS entries followed by every legacy secret that is set. A legacy
+ * secret whose name is already used in API_KEYS is skipped.
+ */
+export function loadApiKeys(): ApiKeyEntry[] {
+  let keys: ApiKeyEntry[] = [];
+
+  try {
+    keys = parseApiKeys(config.apiKeys);
+  } catch (err: any) {
+    logger.error("AUTH_CONFIG_ERROR", { source: "API_KEYS", error: err?.message ?? String(err) });
+  }
+
+  const names = new Set(keys.map((k) => k.name));
+  for (const legacy of LEGACY_KEYS) {
+    if (names.has(legacy.name)) continue;
+    // Already validated by config, so this cannot throw
+    const secrets = parseSecretList(legacy.secret());
+    if (secrets.length === 0) continue;
+    keys.push({ name: legacy.name, scopes: legacy.scopes(), source: legacy.source, secrets });
+  }
+
+  return keys;
+}
+
+let cachedKeys: ApiKeyEntry[] | null = null;
+
+function getApiKeys(): ApiKeyEntry[] {
+  if (!cachedKeys) cachedKeys = loadApiKeys();
+  return cachedKeys;
+}
+
+/** Per-fingerprint usage since this instance started */
+const secretUsage = new Map<string, { uses: number; lastUsedAt: Date }>();
+
+function recordUse(value: string, now: Date): string {
+  const id = fingerprint(value);
+  const usage = secretUsage.get(id);
+  secretUsage.set(id, { uses: (usage?.uses ?? 0) + 1, lastUsedAt: now });
+  return id;
+}
+
+/**
+ * Configured keys without their secrets, for the admin status route. Each
+ * value is listed by fingerprint with its expiry and when it was last used,
+ * so an old value can be removed once nothing sends it.
+ */
+export function listApiKeys(keys: ApiKeyEntry[] = getApiKeys(), now: Date = new Date()): ApiKeyStatus[] {
+  return keys.map(({ name, scopes, source, secrets }) => ({
+    name,
+    scopes,
+    source,
+    secrets: secrets.map((secret) => {
+      const id = fingerprint(secret.value);
+      const usage = secretUsage.get(id);
+      const status: SecretStatus = { fingerprint: id, expired: isExpired(secret, now), uses: usage?.uses ?? 0 };
+      if (secret.expiresAt) status.expiresAt = secret.expiresAt.toISOString();
+      if (usage) status.lastUsedAt = usage.lastUsedAt.toISOString();
+      return status;
+    }),
+  }));
+}
+
+/**
+ * Scopes no configured key grants; routes needing them answer 500.
+ */
+export function scopesWithoutKeys(keys: ApiKeyEntry[] = getApiKeys()): ApiScope[] {
+  return API_SCOPES.filter((scope) => !keys.some((k) => k.scopes.includes(scope)));
+}
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+/** Headers other than Authorization that may carry a key */
+const KEY_HEADERS = ["x-api-key", "x-inbox-secret", "x-hive-secret", "x-proxy-secret"];
+
+/**
+ * Every credential the request presents, trimmed.
+ */
+export function credentialsFrom(req: Request): string[] {
+  const credentials: string[] = [];
+
+  const auth = req.headers.get("authorization") || "";
+  if (auth.toLowerCase().startsWith("bearer ")) {
+    credentials.push(auth.slice(7).trim());
+  }
+  for (const header of KEY_HEADERS) {
+    credentials.push((req.headers.get(header) || "").trim());
+  }
+
+  return credentials.filter(Boolean);
+}
+
+/**
+ * Hashing first gives equal-length buffers, so timingSafeEqual never leaks
+ * the secret's length.
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash("sha256").update(a).digest();
+  const hashB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Checks the request's credentials against every configured key and
+ * requires `scope` on the one that matches.
+ *
+ * - 500: no key grants the scope (nothing could ever pass)
+ * - 401: no credential, none matches a key, or the value it matches has expired
+ * - 403: the key is valid but lacks the scope
+ */
+export function authenticate(
+  req: Request,
+  scope: ApiScope,
+  keys: ApiKeyEntry[] = getApiKeys(),
+  now: Date = new Date()
+): AuthResult {
+  return logResult(checkCredentials(req, scope, keys, now), scope);
+}
+
+/**
+ * authenticate() for requests any valid key may make, whatever its scopes
+ * (e.g. GET /api/jobs/:id for an ID that doesn't exist).
+ */
+export function authenticateAnyKey(
+  req: Request,
+  keys: ApiKeyEntry[] = getApiKeys(),
+  now: Date = new Date()
+): AuthResult {
+  return logResult(checkCredentials(req, null, keys, now), null);
+}
+
+function logResult(result: AuthResult, scope: ApiScope | null): AuthResult {
+  if (result.ok) {
+    setLogContext({ keyName: result.key.name });
+    logger.info("AUTH_OK", {
+      keyName: result.key.name,
+      scope,
+      fingerprint: result.fingerprint,
+      ...(result.signed ? { signed: true } : {}),
+    });
+  } else {
+    logger.warn("AUTH_DENIED", { scope, status: result.status, reason: result.reason });
+  }
+  return result;
+}
+
+function publicKey(entry: ApiKeyEntry): ApiKey {
+  return { name: entry.name, scopes: entry.scopes, source: entry.source };
+}
+
+interface SecretMatch {
+  key: ApiKeyEntry;
+  secret: SecretValue;
+}
+
+/**
+ * The best key and value for which `matches` holds, comparing against every
+ * value so timing doesn't reveal which one matched. Several keys may share a
+ * value, so a live value of a key with `scope` wins, then a live value of
+ * any key, then an expired one; a match that can't be used gives the
+ * rejection reason (rejectMatch()).
+ */
+function findSecret(
+  keys: ApiKeyEntry[],
+  scope: ApiScope | null,
+  now: Date,
+  matches: (secret: string) => boolean
+): SecretMatch | undefined {
+  let best: { match: SecretMatch; rank: number } | undefined;
+
+  for (const key of keys) {
+    for (const secret of key.secrets) {
+      if (!matches(secret.value)) continue;
+      const rank = (isExpired(secret, now) ? 2 : 0) + (scope && !key.scopes.includes(scope) ? 1 : 0);
+      if (!best || rank < best.rank) best = { match: { key, secret }, rank };
+    }
+  }
+
+  return best?.match;
+}
+
+/**
+ * Why a matched value may not be used for `scope`, if it may not.
+ */
+function rejectMatch(
+  match: SecretMatch,
+  scope: ApiScope | null,
+  now: Date
+): AuthResult | null {
+  const { key, secret } = match;
+
+  if (isExpired(secret, now)) {
+    return {
+      ok: false,
+      status: 401,
+      reason: `API key "${key.name}" value ${fingerprint(secret.value)} expired at ${secret.expiresAt!.toISOString()}`,
+    };
+  }
+
+  if (scope && !key.scopes.includes(scope)) {
+    return { ok: false, status: 403, reason: `API key "${key.name}" lacks scope ${scope}` };
+  }
+
+  return null;
+}
+
+/** `scope` null: any key will do */
+function checkCredentials(req: Request, scope: ApiScope | null, keys: ApiKeyEntry[], now: Date): AuthResult {
+  if (scope && !keys.some((k) => k.scopes.includes(scope))) {
+    return { ok: false, status: 500, reason: `No API key with scope ${scope} configured on server` };
+  }
+
+  const credentials = credentialsFrom(req);
+  if (credentials.length === 0) {
+    return { ok: false, status: 401, reason: "API key not provided" };
+  }
+
+  const match = findSecret(keys, scope, now, (secret) =>
+    credentials.map((credential) => safeEqual(credential, secret)).some(Boolean)
+  );
+
+  if (!match) {
+    return { ok: false, status: 401, reason: "Invalid API key" };
+  }
+
+  return (
+    rejectMatch(match, scope, now) ?? {
+      ok: true,
+      key: publicKey(match.key),
+      fingerprint: recordUse(match.secret.value, now),
+    }
+  );
+}
+
+// =============================================================================
+// SIGNED REQUESTS
+// =============================================================================
+
+const nonces = new NonceCache();
+
+/**
+ * authenticate() for the webhook routes. A request carrying x-signature is
+ * verified against every key's secret, its timestamp must be within the
+ * window and its signature must not have been seen before. Requests without
+ * x-signature fall back to authenticate(), unless REQUEST_SIGNING_REQUIRED.
+ */
+export async function authenticateSigned(
+  req: Request,
+  scope: ApiScope,
+  options: {
+    keys?: ApiKeyEntry[];
+    required?: boolean;
+    toleranceSeconds?: number;
+    nonceCache?: NonceCache;
+    now?: Date;
+  } = {}
+): Promise<AuthResult> {
+  const keys = options.keys ?? getApiKeys();
+  const required = options.required ?? config.requestSigningRequired;
+  const toleranceSeconds = options.toleranceSeconds ?? config.requestSigningToleranceSeconds;
+  const now = options.now ?? new Date();
+
+  const check = await readSignedRequest(req, toleranceSeconds, now);
+  if (!check) {
+    if (required) {
+      return logResult({ ok: false, status: 401, reason: "Signed request required (x-signature)" }, scope);
+    }
+    return authenticate(req, scope, keys, now);
+  }
+
+  const result = checkSignature(check, scope, keys, {
+    nonceCache: options.nonceCache ?? nonces,
+    toleranceSeconds,
+    now,
+  });
+  return logResult(result, scope);
+}
+
+function checkSignature(
+  check: SignatureCheck,
+  scope: ApiScope,
+  keys: ApiKeyEntry[],
+  replay: { nonceCache: NonceCache; toleranceSeconds: number; now: Date }
+): AuthResult {
+  if (!check.ok) {
+    return { ok: false, status: 401, reason: check.reason };
+  }
+
+  if (!keys.some((k) => k.scopes.includes(scope))) {
+    return { ok: false, status: 500, reason: `No API key with scope ${scope} configured on server` };
+  }
+
+  const { timestamp, signature, method, path, body } = check.request;
+  const match = findSecret(keys, scope, replay.now, (secret) =>
+    signatureMatches(signature, computeSignature(secret, timestamp, method, path, body))
+  );
+
+  if (!match) {
+    return { ok: false, status: 401, reason: "Invalid signature" };
+  }
+
+  const rejected = rejectMatch(match, scope, replay.now);
+  if (rejected) return rejected;
+
+  // Remember the signature for as long as its timestamp would be accepted
+  const expiresAt = (timestamp + replay.toleranceSeconds) * 1000;
+  if (!replay.nonceCache.add(signature, expiresAt, replay.now.getTime())) {
+    return { ok: false, status: 401, reason: "Replayed request" };
+  }
+
+  return { ok: true, key: publicKey(match.key), fingerprint: recordUse(match.secret.value, replay.now), signed: true };
+}
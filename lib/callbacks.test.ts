@@ -0,0 +1,187 @@
+/**
+ * Tests for callbacks.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { AirtableClient } from "./airtable";
+import { AirtableEmulator } from "./airtable-emulator";
+import { computeSignature } from "./request-signing";
+import type { CallbackPayload } from "./callbacks";
+
+type Callbacks = typeof import("./callbacks");
+type Jobs = typeof import("./jobs");
+
+const SECRET = "test-callback-secret";
+const BASE = "appCALLBACK";
+
+let callbacks: Callbacks;
+let jobs: Jobs;
+let jobDir: string;
+
+const succeeded = (): CallbackPayload => ({
+  event: "operation.completed",
+  operation: "create-project-folder",
+  status: "succeeded",
+  jobId: "job_1",
+  traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+  result: { folderId: "fld1", folderUrl: "https://drive.google.com/drive/folders/fld1" },
+  error: null,
+  warnings: [],
+  completedAt: "2026-10-01T00:00:00.000Z",
+});
+
+beforeAll(async () => {
+  jobDir = await mkdtemp(path.join(tmpdir(), "callback-jobs-"));
+  vi.stubEnv("CALLBACK_SIGNING_SECRET", SECRET);
+  vi.stubEnv("CALLBACK_ALLOWED_HOSTS", "hooks.example.com, *.example.org");
+  vi.stubEnv("AIRTABLE_API_KEY", "keyTEST");
+  vi.stubEnv("JOB_STORE", "file");
+  vi.stubEnv("JOB_STORE_DIR", jobDir);
+  vi.stubEnv("JOB_STORE_SINGLE_SERVER", "true");
+
+  // config.ts reads env at import time; PermanentJobError must come from the same jobs module
+  vi.resetModules();
+  callbacks = await import("./callbacks");
+  jobs = await import("./jobs");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(jobDir, { recursive: true, force: true });
+});
+
+describe("parseCallbacks", () => {
+  const defaults = { baseId: BASE, table: "Projects", recordId: "recPROJECT", fields: { "Folder Status": "status" } };
+
+  it("accepts https URLs on allowed hosts and fills Airtable defaults", () => {
+    expect(callbacks.parseCallbacks({}, defaults)).toEqual({ ok: true, targets: [] });
+    expect(
+      callbacks.parseCallbacks({ callbackUrl: "https://api.example.org/done", callbackAirtable: true }, defaults)
+    ).toEqual({
+      ok: true,
+      targets: [
+        { type: "url", url: "https://api.example.org/done" },
+        { type: "airtable", baseId: BASE, table: "Projects", recordId: "recPROJECT", fields: { "Folder Status": "status" } },
+      ],
+    });
+  });
+
+  it("rejects insecure or unlisted URLs and incomplete Airtable targets", () => {
+    expect(callbacks.parseCallbacks({ callbackUrl: "http://hooks.example.com/x" }, defaults)).toMatchObject({
+      ok: false,
+      status: 400,
+      error: "callbackUrl must use https",
+    });
+    expect(callbacks.parseCallbacks({ callbackUrl: "https://evil.test/x" }, defaults)).toMatchObject({ ok: false });
+    expect(callbacks.parseCallbacks({ callbackAirtable: { recordId: "nope" } }, defaults)).toMatchObject({
+      ok: false,
+      error: "callbackAirtable.recordId: must be an Airtable record ID (rec...)",
+    });
+    expect(callbacks.parseCallbacks({ callbackAirtable: {} }, { baseId: BASE, table: "Inbox Items" })).toMatchObject({
+      ok: false,
+      error: "callbackAirtable needs table, recordId and fields on this route",
+    });
+  });
+
+  it("refuses callbackUrl with no allowed hosts, and any target without a durable job store", async () => {
+    vi.stubEnv("CALLBACK_ALLOWED_HOSTS", "");
+    vi.resetModules();
+    const unlisted = await import("./callbacks");
+    vi.stubEnv("CALLBACK_ALLOWED_HOSTS", "hooks.example.com, *.example.org");
+
+    expect(unlisted.parseCallbacks({ callbackUrl: "https://hooks.example.com/x" }, defaults)).toMatchObject({
+      ok: false,
+      status: 500,
+      error: "callbackUrl requires CALLBACK_ALLOWED_HOSTS to be set",
+    });
+
+    jobs.setJobStore(new jobs.MemoryJobStore());
+    try {
+      expect(callbacks.parseCallbacks({ callbackAirtable: true }, defaults)).toMatchObject({ ok: false, status: 400 });
+      expect(callbacks.parseCallbacks({}, defaults)).toEqual({ ok: true, targets: [] });
+    } finally {
+      jobs.setJobStore(new jobs.FileJobStore(jobDir, true));
+    }
+  });
+});
+
+describe("deliverCallback", () => {
+  it("POSTs the payload signed with CALLBACK_SIGNING_SECRET", async () => {
+    const fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+    const payload = succeeded();
+
+    await callbacks.deliverCallback({ type: "url", url: "https://hooks.example.com/done" }, payload, "job_cb", {
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe("https://hooks.example.com/done");
+    expect(headers["x-callback-id"]).toBe("job_cb");
+    expect(headers["x-trace-id"]).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(headers["x-signature"]).toBe(
+      `sha256=${computeSignature(SECRET, headers["x-signature-timestamp"], "POST", "/done", init.body as string)}`
+    );
+    expect(JSON.parse(init.body as string)).toEqual(payload);
+  });
+
+  it("retries 5xx and gives up on other 4xx", async () => {
+    const target = { type: "url" as const, url: "https://hooks.example.com/done" };
+    const respond = (status: number) => (async () => new Response("", { status })) as unknown as typeof fetch;
+
+    const serverError = callbacks.deliverCallback(target, succeeded(), "job_cb", { fetch: respond(503) });
+    await expect(serverError).rejects.toThrow("Callback to hooks.example.com returned 503");
+    await expect(serverError).rejects.not.toBeInstanceOf(jobs.PermanentJobError);
+
+    await expect(
+      callbacks.deliverCallback(target, succeeded(), "job_cb", { fetch: respond(410) })
+    ).rejects.toBeInstanceOf(jobs.PermanentJobError);
+  });
+
+  it("patches the Airtable record with mapped fields and status labels", async () => {
+    const emulator = new AirtableEmulator();
+    const [project] = emulator.seed(BASE, "Projects", [{ "Folder Status": "queued", "Folder Error": "earlier failure" }]);
+    const airtableClient = (baseId: string) =>
+      new AirtableClient({
+        apiKey: "keyTEST",
+        baseId,
+        apiUrl: "https://airtable.test/v0",
+        fetch: (input, init) => emulator.handle(new Request(input as string, init)),
+      });
+    const target = {
+      type: "airtable" as const,
+      baseId: BASE,
+      table: "Projects",
+      recordId: project.id,
+      fields: {
+        "Folder Status": "status",
+        "Folder Error": "error",
+        "Drive Folder URL": "result.folderUrl",
+      },
+      statusLabels: { succeeded: "created", failed: "error" },
+    };
+
+    await callbacks.deliverCallback(target, succeeded(), "job_cb", { airtableClient });
+    expect(emulator.records(BASE, "Projects")[0].fields).toEqual({
+      "Folder Status": "created",
+      "Drive Folder URL": "https://drive.google.com/drive/folders/fld1",
+    });
+
+    await callbacks.deliverCallback(
+      target,
+      { ...succeeded(), status: "failed", result: null, error: "Apps Script timed out" },
+      "job_cb",
+      { airtableClient }
+    );
+    expect(emulator.records(BASE, "Projects")[0].fields).toMatchObject({
+      "Folder Status": "error",
+      "Folder Error": "Apps Script timed out",
+      "Drive Folder URL": "https://drive.google.com/drive/folders/fld1",
+    });
+  });
+});
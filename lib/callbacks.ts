@@ -0,0 +1,388 @@
+/**
+ * Completion callbacks for generate-doc, create-project-folder and
+ * inbox/email, so callers (Airtable automations in particular) don't have
+ * to hold the request open for the result.
+ *
+ * A request may name two kinds of target:
+ *
+ *   "callbackUrl": "https://hooks.example.com/doc-ready"
+ *     POSTs the CallbackPayload as JSON, signed like inbound requests
+ *     (lib/request-signing.ts) with CALLBACK_SIGNING_SECRET. Retries carry
+ *     the same x-callback-id, so receivers can drop duplicates.
+ *
+ *   "callbackAirtable": { "table", "recordId", "fields", "statusLabels" }
+ *     PATCHes an Airtable record in the route's own base. `fields` maps
+ *     Airtable field names to paths in the payload ("status", "error",
+ *     "result.docUrl"); `statusLabels` renames "succeeded" / "failed".
+ *     A route may fill in defaults for any of these.
+ *
+ * Each delivery is a job (lib/jobs.ts): it is retried with exponential
+ * backoff on network errors, 408, 429 and 5xx, and given up on other 4xx.
+ * Jobs in memory die with the instance, so targets are refused (400)
+ * unless the job store is durable. callbackUrl hosts must be listed in
+ * CALLBACK_ALLOWED_HOSTS; with none listed, callbackUrl is refused.
+ */
+
+import { z } from "zod";
+import { AirtableApiError, getAirtableClient, type AirtableClient } from "./airtable";
+import { config } from "./config";
+import { defineJob, enqueueJob, jobStoreDurable, PermanentJobError, type Job } from "./jobs";
+import { currentTraceId, logger } from "./logger";
+import { signRequest } from "./request-signing";
+import { traceHeaders } from "./trace";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CallbackPayload {
+  event: "operation.completed";
+  /** "generate-doc", "create-project-folder" or "inbox-email" */
+  operation: string;
+  status: "succeeded" | "failed";
+  /** Set when the operation ran as a job */
+  jobId: string | null;
+  /** Trace ID of the request that started the operation (lib/trace.ts) */
+  traceId: string | null;
+  /** The route's response (or the job's result) on success, null on failure */
+  result: unknown;
+  error: string | null;
+  warnings: string[];
+  completedAt: string;
+}
+
+export interface StatusLabels {
+  succeeded?: string;
+  failed?: string;
+}
+
+export type CallbackTarget =
+  | { type: "url"; url: string }
+  | {
+      type: "airtable";
+      baseId: string;
+      table: string;
+      recordId: string;
+      /** Airtable field name -> payload path */
+      fields: Record<string, string>;
+      statusLabels?: StatusLabels;
+    };
+
+/** Per-route defaults for callbackAirtable; baseId is always the route's base */
+export interface AirtableCallbackDefaults {
+  baseId: string;
+  table?: string;
+  recordId?: string;
+  fields?: Record<string, string>;
+  statusLabels?: StatusLabels;
+}
+
+export type CallbackParseResult =
+  | { ok: true; targets: CallbackTarget[] }
+  | { ok: false; status: 400 | 500; error: string };
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const AirtableCallbackSchema = z.object({
+  table: z.string().trim().min(1).optional(),
+  recordId: z
+    .string()
+    .trim()
+    .regex(/^rec[A-Za-z0-9]+$/, "must be an Airtable record ID (rec...)")
+    .optional(),
+  fields: z.record(z.string().trim().min(1)).optional(),
+  statusLabels: z.object({ succeeded: z.string().optional(), failed: z.string().optional() }).optional(),
+});
+
+function hostAllowed(host: string): boolean {
+  return config.callbackAllowedHosts.some((entry) =>
+    entry.startsWith("*.") ? host.endsWith(entry.slice(1)) : host === entry
+  );
+}
+
+function parseCallbackUrl(raw: unknown): CallbackParseResult {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return { ok: false, status: 400, error: "callbackUrl must be a non-empty string" };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { ok: false, status: 400, error: "callbackUrl is not a valid URL" };
+  }
+  if (url.protocol !== "https:") {
+    return { ok: false, status: 400, error: "callbackUrl must use https" };
+  }
+  if (config.callbackAllowedHosts.length === 0) {
+    return { ok: false, status: 500, error: "callbackUrl requires CALLBACK_ALLOWED_HOSTS to be set" };
+  }
+  if (!hostAllowed(url.hostname.toLowerCase())) {
+    return { ok: false, status: 400, error: `callbackUrl host ${url.hostname} is not in CALLBACK_ALLOWED_HOSTS` };
+  }
+  if (!config.callbackSigningSecret) {
+    return { ok: false, status: 500, error: "callbackUrl requires CALLBACK_SIGNING_SECRET to be set" };
+  }
+
+  return { ok: true, targets: [{ type: "url", url: url.toString() }] };
+}
+
+function parseAirtableCallback(raw: unknown, defaults: AirtableCallbackDefaults): CallbackParseResult {
+  const parsed = AirtableCallbackSchema.safeParse(raw === true ? {} : raw);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    return { ok: false, status: 400, error: `callbackAirtable.${issue.path.join(".")}: ${issue.message}` };
+  }
+
+  const table = parsed.data.table ?? defaults.table;
+  const recordId = parsed.data.recordId ?? defaults.recordId;
+  const fields = parsed.data.fields ?? defaults.fields;
+  if (!table || !recordId || !fields || Object.keys(fields).length === 0) {
+    return { ok: false, status: 400, error: "callbackAirtable needs table, recordId and fields on this route" };
+  }
+  if (!defaults.baseId || !config.airtableApiKey) {
+    return { ok: false, status: 500, error: "callbackAirtable requires AIRTABLE_API_KEY and the route's base to be set" };
+  }
+
+  return {
+    ok: true,
+    targets: [
+      {
+        type: "airtable",
+        baseId: defaults.baseId,
+        table,
+        recordId,
+        fields,
+        statusLabels: parsed.data.statusLabels ?? defaults.statusLabels,
+      },
+    ],
+  };
+}
+
+/**
+ * Reads `callbackUrl` and `callbackAirtable` from a request body. Neither
+ * present is ok with no targets; either needs a durable job store.
+ */
+export function parseCallbacks(body: unknown, airtableDefaults: AirtableCallbackDefaults): CallbackParseResult {
+  const record = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const targets: CallbackTarget[] = [];
+
+  if (record.callbackUrl !== undefined && record.callbackUrl !== null) {
+    const result = parseCallbackUrl(record.callbackUrl);
+    if (!result.ok) return result;
+    targets.push(...result.targets);
+  }
+
+  if (record.callbackAirtable !== undefined && record.callbackAirtable !== null && record.callbackAirtable !== false) {
+    const result = parseAirtableCallback(record.callbackAirtable, airtableDefaults);
+    if (!result.ok) return result;
+    targets.push(...result.targets);
+  }
+
+  if (targets.length > 0 && !jobStoreDurable()) {
+    return {
+      ok: false,
+      status: 400,
+      error:
+        "Callbacks are not available: JOB_STORE is not durable (set JOB_STORE=file and JOB_STORE_SINGLE_SERVER=true on a single server, or a shared store)",
+    };
+  }
+
+  return { ok: true, targets };
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+export interface DeliveryOptions {
+  /** Injected in tests */
+  fetch?: typeof fetch;
+  airtableClient?: (baseId: string) => AirtableClient;
+  secret?: string;
+}
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+function valueAt(source: unknown, path: string): unknown {
+  let value = source;
+  for (const part of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Airtable fields for `payload`. Paths that resolve to nothing are left
+ * out, so a failure doesn't clear fields only a success sets; `error` is
+ * null on success, which clears the error field.
+ */
+export function airtableCallbackFields(
+  target: Extract<CallbackTarget, { type: "airtable" }>,
+  payload: CallbackPayload
+): Record<string, unknown> {
+  const view = { ...payload, status: target.statusLabels?.[payload.status] ?? payload.status };
+  const fields: Record<string, unknown> = {};
+
+  for (const [field, path] of Object.entries(target.fields)) {
+    const value = valueAt(view, path);
+    if (value === undefined) continue;
+    fields[field] = value !== null && typeof value === "object" ? JSON.stringify(value) : value;
+  }
+  return fields;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+async function postCallback(
+  url: string,
+  payload: CallbackPayload,
+  callbackId: string,
+  options: DeliveryOptions
+): Promise<{ status: number }> {
+  const body = JSON.stringify(payload);
+  const res = await (options.fetch ?? fetch)(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-callback-id": callbackId,
+      ...traceHeaders(payload.traceId ?? undefined),
+      ...signRequest(options.secret ?? config.callbackSigningSecret, "POST", url, body),
+    },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+
+  if (res.ok) return { status: res.status };
+
+  const message = `Callback to ${new URL(url).host} returned ${res.status}`;
+  throw isRetryableStatus(res.status) ? new Error(message) : new PermanentJobError(message);
+}
+
+async function patchAirtableRecord(
+  target: Extract<CallbackTarget, { type: "airtable" }>,
+  payload: CallbackPayload,
+  options: DeliveryOptions
+): Promise<{ recordId: string; fields: string[] }> {
+  const fields = airtableCallbackFields(target, payload);
+  const client = (options.airtableClient ?? getAirtableClient)(target.baseId);
+
+  try {
+    await client.updateRecord(target.table, target.recordId, fields, { typecast: true });
+  } catch (err: any) {
+    // AirtableClient already retried 429 / 5xx
+    if (err instanceof AirtableApiError && !isRetryableStatus(err.status)) {
+      throw new PermanentJobError(`Airtable callback failed: ${err.message}`);
+    }
+    throw err;
+  }
+  return { recordId: target.recordId, fields: Object.keys(fields) };
+}
+
+/**
+ * Delivers `payload` to one target. Throws on failure; PermanentJobError
+ * when retrying would not help.
+ */
+export async function deliverCallback(
+  target: CallbackTarget,
+  payload: CallbackPayload,
+  callbackId: string,
+  options: DeliveryOptions = {}
+): Promise<unknown> {
+  if (target.type === "url") return postCallback(target.url, payload, callbackId, options);
+  return patchAirtableRecord(target, payload, options);
+}
+
+const callbackJob = defineJob<{ target: CallbackTarget; payload: CallbackPayload }>({
+  type: "callback",
+  scope: "admin",
+  steps: [
+    {
+      name: "deliver",
+      attempts: 5,
+      run: ({ job, input }) => deliverCallback(input.target, input.payload, job.id),
+    },
+  ],
+  result: ({ state }) => state.deliver,
+});
+
+// =============================================================================
+// QUEUEING
+// =============================================================================
+
+/**
+ * Queues one delivery job per target. Returns the IDs of the jobs queued.
+ * Never throws: the operation being reported has already happened, so a
+ * target that can't be queued is logged (CALLBACK_QUEUE_FAILED) and skipped.
+ */
+export async function queueCallbacks(
+  targets: CallbackTarget[],
+  payload: CallbackPayload,
+  keyName: string
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (const target of targets) {
+    try {
+      const job = await enqueueJob(callbackJob, { target, payload }, keyName);
+      ids.push(job.id);
+    } catch (err: any) {
+      logger.error("CALLBACK_QUEUE_FAILED", {
+        operation: payload.operation,
+        status: payload.status,
+        target: target.type,
+        error: err?.message ?? String(err),
+      });
+    }
+  }
+  if (ids.length > 0) {
+    logger.info("CALLBACKS_QUEUED", { operation: payload.operation, status: payload.status, jobIds: ids });
+  }
+  return ids;
+}
+
+/**
+ * Payload for an operation that finished inside the request.
+ */
+export function completedPayload(
+  operation: string,
+  outcome: { ok: true; result: unknown; warnings?: string[] } | { ok: false; error: string }
+): CallbackPayload {
+  return {
+    event: "operation.completed",
+    operation,
+    status: outcome.ok ? "succeeded" : "failed",
+    jobId: null,
+    traceId: currentTraceId() ?? null,
+    result: outcome.ok ? outcome.result : null,
+    error: outcome.ok ? null : outcome.error,
+    warnings: outcome.ok ? outcome.warnings ?? [] : [],
+    completedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * onSettled hook for job types whose input carries `callbacks`.
+ */
+export async function notifyJobCallbacks(job: Job): Promise<void> {
+  const targets = (job.input as { callbacks?: CallbackTarget[] }).callbacks ?? [];
+  await queueCallbacks(
+    targets,
+    {
+      event: "operation.completed",
+      operation: job.type,
+      status: job.status === "succeeded" ? "succeeded" : "failed",
+      jobId: job.id,
+      traceId: job.traceId ?? null,
+      result: job.status === "succeeded" ? job.result ?? null : null,
+      error: job.error ?? null,
+      warnings: job.warnings,
+      completedAt: job.updatedAt,
+    },
+    job.keyName
+  );
+}
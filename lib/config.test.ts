@@ -0,0 +1,77 @@
+/**
+ * Tests for config.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { configReport, featureStatus, parseEnv } from "./config";
+
+describe("parseEnv", () => {
+  it("trims values, keeps empty ones and rejects invalid ones", () => {
+    const parsed = parseEnv({
+      AIRTABLE_BASE_ID: "  appBASE ",
+      AIRTABLE_OS_BASE_ID: "",
+      AIRTABLE_API_URL: "not a url",
+      OWNER_FIELD_MODE: "Link",
+      UNRELATED: "ignored",
+    });
+
+    expect(parsed.values).toEqual({ AIRTABLE_BASE_ID: "appBASE", AIRTABLE_OS_BASE_ID: "", OWNER_FIELD_MODE: "link" });
+    expect(Object.keys(parsed.invalid)).toEqual(["AIRTABLE_API_URL"]);
+  });
+});
+
+describe("featureStatus", () => {
+  it("lists missing variables", () => {
+    const parsed = parseEnv({
+      AIRTABLE_API_KEY: "key",
+      AIRTABLE_INBOUND_BASE_ID: "appIN",
+      AIRTABLE_INBOUND_TABLE_COMPANIES: "   ",
+    });
+
+    const status = featureStatus("gmailInbound", parsed);
+
+    expect(status.enabled).toBe(false);
+    expect(status.missing).toEqual(["AIRTABLE_INBOUND_TABLE_COMPANIES", "AIRTABLE_INBOUND_TABLE_OPPORTUNITIES"]);
+  });
+
+  it("is enabled when one alternative is set", () => {
+    const parsed = parseEnv({ AIRTABLE_API_KEY: "k", AIRTABLE_BASE_ID: "appA" });
+
+    expect(featureStatus("pmIntake", parsed)).toMatchObject({ enabled: true, missing: [] });
+    expect(featureStatus("ownerResolution", parseEnv({ AIRTABLE_API_KEY: "k" })).missing).toEqual([
+      "OWNER_DIRECTORY_BASE_ID | AIRTABLE_BASE_ID",
+    ]);
+  });
+
+  it("counts a rejected value as missing", () => {
+    const parsed = parseEnv({ APPS_SCRIPT_DOC_WEBAPP_URL: "script.google.com/exec" });
+    const status = featureStatus("generateDoc", parsed);
+
+    expect(status.missing).toEqual(["APPS_SCRIPT_DOC_WEBAPP_URL"]);
+    expect(status.variables.find((v) => v.name === "APPS_SCRIPT_DOC_WEBAPP_URL")).toMatchObject({
+      set: false,
+      invalid: "Invalid url",
+    });
+  });
+});
+
+describe("configReport", () => {
+  it("redacts secrets and shows other values", () => {
+    const report = configReport(parseEnv({ AIRTABLE_API_KEY: "patSECRET", AIRTABLE_BASE_ID: "appA", GAS_WEB_APP_URL: "nope" }));
+    const variables = report.features.flatMap((f) => f.variables);
+
+    expect(variables.find((v) => v.name === "AIRTABLE_API_KEY")).toEqual({
+      name: "AIRTABLE_API_KEY",
+      set: true,
+      secret: true,
+      value: "[redacted]",
+    });
+    expect(variables.find((v) => v.name === "AIRTABLE_BASE_ID")?.value).toBe("appA");
+    expect(JSON.stringify(report)).not.toContain("patSECRET");
+    expect(report.invalid.map((v) => v.name)).toEqual(["GAS_WEB_APP_URL"]);
+    expect(report.enabled).toContain("ownerResolution");
+    expect(report.disabled).toContain("inboxEmail");
+  });
+});
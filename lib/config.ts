@@ -1,18 +1,320 @@
-// Environment variables
+/**
+ * Every environment variable this service reads, validated with zod.
+ *
+ * Routes and libs read `config` (and the table/field maps below) instead of
+ * process.env. Values are read once at module load. A variable that fails
+ * validation is treated as unset: it is logged as CONFIG_INVALID and
+ * reported by configReport().
+ *
+ * FEATURES groups variables by what they enable. featureStatus() tells a
+ * route whether it can run and which variables are missing. Credentials are
+ * not feature requirements: ./auth checks that some key grants each scope.
+ * GET /api/admin/config-status shows the same report with secrets redacted.
+ */
+
+import { z } from "zod";
+import { isValidSecretList } from "./secrets";
+import { LOG_LEVELS, logger, setLogLevel, type LogLevel } from "./logger";
+
+// =============================================================================
+// ENVIRONMENT VARIABLES
+// =============================================================================
+
+interface EnvVarDefinition {
+  schema: z.ZodType<string, z.ZodTypeDef, string>;
+  /** Never shown in reports or logs */
+  secret?: boolean;
+  description: string;
+}
+
+const text = z.string().trim();
+const url = z.string().trim().url();
+
+function isJsonArray(value: string): boolean {
+  try {
+    return Array.isArray(JSON.parse(value));
+  } catch {
+    return false;
+  }
+}
+
+function secret(description: string): EnvVarDefinition {
+  return { schema: text, secret: true, description };
+}
+
+/** Inbound secret accepting several values, each with an optional expiry (./secrets) */
+function secretList(description: string): EnvVarDefinition {
+  return {
+    schema: text.refine(isValidSecretList, 'Expected one value, or "list:" and comma-separated values, each optionally ending in @<ISO date>'),
+    secret: true,
+    description,
+  };
+}
+
+function plain(description: string, schema: EnvVarDefinition["schema"] = text): EnvVarDefinition {
+  return { schema, description };
+}
+
+export const ENV_VARS = {
+  // API keys (./auth) and the legacy per-route secrets they replace
+  API_KEYS: {
+    schema: text.refine(isJsonArray, "Expected a JSON array of { name, key, scopes }"),
+    secret: true,
+    description: "Named, scoped API keys (JSON array of { name, key, scopes })",
+  },
+  SECRET_FINGERPRINT_KEY: secret(
+    "HMAC key for the secret fingerprints in logs and config-status (lib/secrets.ts); random per instance if unset"
+  ),
+  REQUEST_SIGNING_REQUIRED: plain(
+    "Reject unsigned requests on the webhook routes (lib/request-signing.ts)",
+    z.enum(["true", "false"])
+  ),
+  REQUEST_SIGNING_TOLERANCE_SECONDS: plain(
+    "Max clock skew for x-signature-timestamp, in seconds",
+    text.regex(/^\d+$/, "Expected a whole number of seconds")
+  ),
+  RATE_LIMITS: plain(
+    "Token-bucket overrides (JSON array of { route?, key?, burst, perMinute }, lib/rate-limit.ts)",
+    text.refine(isJsonArray, "Expected a JSON array of { route?, key?, burst, perMinute }")
+  ),
+  DAILY_QUOTAS: plain(
+    "Daily quota overrides (JSON array of { operation, key?, limit }, lib/rate-limit.ts)",
+    text.refine(isJsonArray, "Expected a JSON array of { operation, key?, limit }")
+  ),
+  JOB_STORE: plain("Background job backend: memory (default; refuses ?async=1) or file (lib/jobs.ts)", z.enum(["memory", "file"])),
+  JOB_STORE_DIR: plain("Directory for JOB_STORE=file (default .data/jobs)"),
+  JOB_STORE_SINGLE_SERVER: plain(
+    "Treat JOB_STORE=file as durable: every instance shares JOB_STORE_DIR on a writable disk (not on Vercel)",
+    z.enum(["true", "false"])
+  ),
+  AUDIT_STORE: plain(
+    "Audit log sink: off (default), file, airtable or memory (per instance, dev only) (lib/audit.ts)",
+    z.enum(["memory", "file", "airtable", "off"])
+  ),
+  AUDIT_FILE: plain("JSON lines file for AUDIT_STORE=file (default .data/audit.jsonl)"),
+  AUDIT_AIRTABLE_BASE_ID: plain("Base holding the audit table for AUDIT_STORE=airtable (defaults to AIRTABLE_BASE_ID)"),
+  AUDIT_AIRTABLE_TABLE: plain("Audit table for AUDIT_STORE=airtable (default Audit)"),
+  CALLBACK_SIGNING_SECRET: secret("HMAC key signing callbackUrl deliveries (lib/callbacks.ts)"),
+  CALLBACK_ALLOWED_HOSTS: plain("Comma-separated hosts callbackUrl may point at (*.example.com allowed); empty = none"),
+  PM_INTAKE_BEARER_TOKEN: secretList("Bearer token for /api/pm-intake, /notes and /promote"),
+  PM_INTAKE_TOKEN: secretList("Bearer token for /api/os/inbound/gmail (falls back to PM_INTAKE_BEARER_TOKEN)"),
+  PM_INTAKE_SHARED_SECRET: secretList("x-hive-secret for /api/generate-doc"),
+  HIVE_INBOUND_SECRET: secretList("X-Hive-Secret for /api/os/inbound/gmail/company"),
+  HIVE_INBOUND_EMAIL_SECRET: secretList("x-inbox-secret for /api/inbox/email"),
+  AIRTABLE_PROXY_SECRET: secretList("Secret for /api/gas-proxy, /api/gas-forward* and /api/create-project-folder"),
+  ADMIN_BEARER_TOKEN: secretList("Bearer token for /api/admin/*"),
+
+  // Airtable
+  AIRTABLE_API_KEY: secret("Airtable personal access token"),
+  AIRTABLE_API_URL: plain("Airtable REST API root (e.g. a local emulator)", url),
+  AIRTABLE_BASE_ID: plain("Default base (Client PM OS, Docs table)"),
+  CLIENT_PM_OS_BASE_ID: plain("Client PM OS base (defaults to AIRTABLE_BASE_ID)"),
+  HIVE_OS_BASE_ID: plain("HIVE OS base (defaults to AIRTABLE_OS_BASE_ID)"),
+  AIRTABLE_INBOX_TABLE_NAME: plain("pm-intake Inbox table"),
+  AIRTABLE_PROJECTS_TABLE_NAME: plain("Projects table"),
+  AIRTABLE_TASKS_TABLE_NAME: plain("Tasks table"),
+  AIRTABLE_DECISIONS_TABLE_NAME: plain("Decisions table"),
+  AIRTABLE_DOCS_TABLE: plain("Docs table written back by /api/generate-doc"),
+  AIRTABLE_SCHEMA_FILE: plain("JSON file overriding lib/schema.ts names and IDs"),
+  AIRTABLE_SCHEMA_FROM_METADATA: plain("Reconcile lib/schema.ts against the metadata API", z.enum(["true", "false"])),
+  AIRTABLE_TRACE_ID_FIELDS: plain(
+    "Write the trace ID to Trace ID on created Companies, Opportunities, PM Inbox items, Tasks and Decisions (add the fields first)",
+    z.enum(["true", "false"])
+  ),
+
+  // Owner directory
+  OWNER_DIRECTORY_BASE_ID: plain("Base holding People (defaults to AIRTABLE_BASE_ID)"),
+  OWNER_DIRECTORY_TABLE_NAME: plain("People table"),
+  OWNER_DIRECTORY_NAME_FIELD: plain("People name field"),
+  OWNER_DIRECTORY_EMAIL_FIELD: plain("People email field"),
+  OWNER_DIRECTORY_INITIALS_FIELD: plain("People initials field"),
+  OWNER_FIELD_MODE: plain(
+    "How a resolved owner is written: text | link | collaborator",
+    text.toLowerCase().pipe(z.enum(["text", "link", "collaborator"]))
+  ),
+
+  // OS base (/api/inbox/email)
+  AIRTABLE_OS_BASE_ID: plain("OS base for /api/inbox/email"),
+  AIRTABLE_OS_TABLE_COMPANIES: plain("OS Companies table"),
+  AIRTABLE_OS_TABLE_OPPORTUNITIES: plain("OS Opportunities table"),
+  AIRTABLE_OS_TABLE_INBOX_ITEMS: plain("OS Inbox Items table"),
+
+  // Gmail inbound (/api/os/inbound/gmail)
+  AIRTABLE_INBOUND_BASE_ID: plain("Client PM OS base for Gmail inbound"),
+  AIRTABLE_INBOUND_TABLE_COMPANIES: plain("Gmail inbound Companies table"),
+  AIRTABLE_INBOUND_TABLE_OPPORTUNITIES: plain("Gmail inbound Opportunities table"),
+  AIRTABLE_INBOUND_OPP_VIEW_URL: plain("Opportunity view URL used to build record links", url),
+
+  // Google / Apps Script
+  APPS_SCRIPT_DOC_WEBAPP_URL: plain("Apps Script web app that copies doc templates", url),
+  GOOGLE_SERVICE_ACCOUNT_EMAIL: plain("Service account for Docs/Drive API calls"),
+  GOOGLE_PRIVATE_KEY: secret("Service account private key (\\n-escaped)"),
+  PREPARED_DOCUMENTS_FOLDER_ID: plain("Default Drive folder for generated docs"),
+  GOOGLE_APPS_SCRIPT_CREATE_PROJECT_FOLDER_URL: plain("Apps Script web app that creates project folders", url),
+  CLIENTS_ROOT_FOLDER_ID: plain("Drive folder holding client folders"),
+  GAS_WEB_APP_URL: plain("Default Apps Script URL for the GAS proxies", url),
+
+  // OpenAI
+  OPENAI_API_KEY: secret("OpenAI key for GPT polish and notes extraction"),
+
+  // Runtime
+  LOG_LEVEL: plain("Lowest log level written: debug | info (default) | warn | error (lib/logger.ts)", z.enum(LOG_LEVELS)),
+  NODE_ENV: plain("Node environment"),
+  VERCEL_ENV: plain("Vercel environment (production | preview | development)"),
+} satisfies Record<string, EnvVarDefinition>;
+
+export type EnvVarName = keyof typeof ENV_VARS;
+
+export interface ParsedEnv {
+  /** Trimmed values; a variable set to "" is kept as "" */
+  values: Partial<Record<EnvVarName, string>>;
+  /** Validation message per variable whose value was rejected */
+  invalid: Partial<Record<EnvVarName, string>>;
+}
+
+/**
+ * Validates every known variable in `source`. Empty values skip validation;
+ * rejected values are left out of `values`.
+ */
+export function parseEnv(source: Record<string, string | undefined> = process.env): ParsedEnv {
+  const parsed: ParsedEnv = { values: {}, invalid: {} };
+
+  for (const [name, definition] of Object.entries(ENV_VARS) as [EnvVarName, EnvVarDefinition][]) {
+    const raw = source[name];
+    if (raw === undefined) continue;
+
+    if (raw.trim() === "") {
+      parsed.values[name] = "";
+      continue;
+    }
+
+    const result = definition.schema.safeParse(raw);
+    if (result.success) {
+      parsed.values[name] = result.data;
+    } else {
+      parsed.invalid[name] = result.error.issues[0]?.message ?? "Invalid value";
+    }
+  }
+
+  return parsed;
+}
+
+const parsedEnv = parseEnv();
+const env = parsedEnv.values;
+
+if (Object.keys(parsedEnv.invalid).length > 0) {
+  // As a list: keyed by variable name, the redaction rules would hide e.g. PM_INTAKE_TOKEN's message
+  logger.error("CONFIG_INVALID", {
+    invalid: Object.entries(parsedEnv.invalid).map(([variable, message]) => ({ variable, message })),
+  });
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
 export const config = {
-  pmIntakeToken: process.env.PM_INTAKE_TOKEN ?? "",
-  airtableApiKey: process.env.AIRTABLE_API_KEY ?? "",
-  airtableBaseId: process.env.AIRTABLE_BASE_ID ?? "",
+  /** Raw API_KEYS JSON; parsed and validated by ./auth */
+  apiKeys: env.API_KEYS ?? "",
+  secretFingerprintKey: env.SECRET_FINGERPRINT_KEY ?? "",
+  /** Webhook routes accept only HMAC-signed requests (no bare secrets) */
+  requestSigningRequired: env.REQUEST_SIGNING_REQUIRED === "true",
+  /** Signed requests older or newer than this are rejected */
+  requestSigningToleranceSeconds: Number(env.REQUEST_SIGNING_TOLERANCE_SECONDS || 300),
+  /** Raw RATE_LIMITS / DAILY_QUOTAS JSON; parsed and validated by ./rate-limit */
+  rateLimits: env.RATE_LIMITS ?? "",
+  dailyQuotas: env.DAILY_QUOTAS ?? "",
+  /** Background job backend and its directory (./jobs) */
+  jobStore: env.JOB_STORE || "memory",
+  jobStoreDir: env.JOB_STORE_DIR || ".data/jobs",
+  jobStoreSingleServer: env.JOB_STORE_SINGLE_SERVER === "true",
+  /** Audit log sink and its file / Airtable table (./audit) */
+  auditStore: env.AUDIT_STORE || "off",
+  auditFile: env.AUDIT_FILE || ".data/audit.jsonl",
+  auditAirtableBaseId: env.AUDIT_AIRTABLE_BASE_ID || env.AIRTABLE_BASE_ID || "",
+  auditAirtableTable: env.AUDIT_AIRTABLE_TABLE || "Audit",
+  /** Signs outbound callbackUrl deliveries (./callbacks) */
+  callbackSigningSecret: env.CALLBACK_SIGNING_SECRET ?? "",
+  callbackAllowedHosts: (env.CALLBACK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+  pmIntakeToken: env.PM_INTAKE_TOKEN ?? "",
+  /** Bearer token for /api/pm-intake, /notes and /promote */
+  pmIntakeBearerToken: env.PM_INTAKE_BEARER_TOKEN ?? "",
+  /** x-hive-secret expected by /api/generate-doc */
+  pmIntakeSharedSecret: env.PM_INTAKE_SHARED_SECRET ?? "",
+  /** X-Hive-Secret expected by /api/os/inbound/gmail/company */
+  hiveInboundSecret: env.HIVE_INBOUND_SECRET ?? "",
+  /** x-inbox-secret expected by /api/inbox/email */
+  hiveInboundEmailSecret: env.HIVE_INBOUND_EMAIL_SECRET ?? "",
+  /** Shared secret for the GAS proxies and /api/create-project-folder */
+  airtableProxySecret: env.AIRTABLE_PROXY_SECRET ?? "",
+  /** Bearer token for /api/admin/* routes */
+  adminToken: env.ADMIN_BEARER_TOKEN ?? "",
+  airtableApiKey: env.AIRTABLE_API_KEY ?? "",
+  airtableBaseId: env.AIRTABLE_BASE_ID ?? "",
+  /** Airtable REST API root; point at a local emulator for offline tests */
+  airtableApiUrl: env.AIRTABLE_API_URL || "https://api.airtable.com/v0",
   /** Client PM OS base — Projects table used by Client PM automations */
-  clientPmOsBaseId: process.env.CLIENT_PM_OS_BASE_ID ?? process.env.AIRTABLE_BASE_ID ?? "",
+  clientPmOsBaseId: env.CLIENT_PM_OS_BASE_ID ?? env.AIRTABLE_BASE_ID ?? "",
   /** HIVE OS base — Projects table in Hive agency OS */
-  hiveOsBaseId: process.env.HIVE_OS_BASE_ID ?? process.env.AIRTABLE_OS_BASE_ID ?? "",
+  hiveOsBaseId: env.HIVE_OS_BASE_ID ?? env.AIRTABLE_OS_BASE_ID ?? "",
+  /** Base holding the People directory used for pm-intake owner resolution */
+  ownerDirectoryBaseId: env.OWNER_DIRECTORY_BASE_ID ?? env.AIRTABLE_BASE_ID ?? "",
+  /** How a resolved owner is written to Inbox "Owner": text | link | collaborator */
+  ownerFieldMode: env.OWNER_FIELD_MODE || "text",
+  /** Optional JSON file overriding table/field names and IDs in lib/schema.ts */
+  airtableSchemaFile: env.AIRTABLE_SCHEMA_FILE ?? "",
+  /** Reconcile the schema against the Airtable metadata API once per process */
+  airtableSchemaFromMetadata: env.AIRTABLE_SCHEMA_FROM_METADATA === "true",
+  /** Trace ID fields exist on Companies, Opportunities and the PM Inbox (./schema traceIdField) */
+  airtableTraceIdFields: env.AIRTABLE_TRACE_ID_FIELDS === "true",
+  /** Docs table /api/generate-doc writes Doc ID / URL back to */
+  airtableDocsTable: env.AIRTABLE_DOCS_TABLE || "Docs",
+
+  /** OS base and tables written by /api/inbox/email */
+  osBaseId: env.AIRTABLE_OS_BASE_ID ?? "",
+  osCompaniesTable: env.AIRTABLE_OS_TABLE_COMPANIES ?? "",
+  osOpportunitiesTable: env.AIRTABLE_OS_TABLE_OPPORTUNITIES ?? "",
+  osInboxItemsTable: env.AIRTABLE_OS_TABLE_INBOX_ITEMS ?? "",
+
+  /** Client PM OS base and tables written by /api/os/inbound/gmail — no fallback to AIRTABLE_BASE_ID */
+  inboundBaseId: env.AIRTABLE_INBOUND_BASE_ID ?? "",
+  inboundCompaniesTable: env.AIRTABLE_INBOUND_TABLE_COMPANIES ?? "",
+  inboundOpportunitiesTable: env.AIRTABLE_INBOUND_TABLE_OPPORTUNITIES ?? "",
+  inboundOppViewUrl: env.AIRTABLE_INBOUND_OPP_VIEW_URL ?? "",
+
+  /** Apps Script web app used by /api/generate-doc */
+  appsScriptDocWebappUrl: env.APPS_SCRIPT_DOC_WEBAPP_URL ?? "",
+  googleServiceAccountEmail: env.GOOGLE_SERVICE_ACCOUNT_EMAIL ?? "",
+  /** Private key with literal \n sequences turned into newlines */
+  googlePrivateKey: (env.GOOGLE_PRIVATE_KEY ?? "").replace(/\\n/g, "\n"),
+  preparedDocumentsFolderId: env.PREPARED_DOCUMENTS_FOLDER_ID ?? "",
+  /** Apps Script web app used by /api/create-project-folder */
+  createProjectFolderScriptUrl: env.GOOGLE_APPS_SCRIPT_CREATE_PROJECT_FOLDER_URL ?? "",
+  clientsRootFolderId: env.CLIENTS_ROOT_FOLDER_ID ?? "",
+  /** Fallback Apps Script URL for /api/gas-proxy and /api/gas-forward */
+  gasWebAppUrl: env.GAS_WEB_APP_URL ?? "",
+
+  openaiApiKey: env.OPENAI_API_KEY ?? "",
+
+  nodeEnv: env.NODE_ENV ?? "",
+  vercelEnv: env.VERCEL_ENV ?? "",
+  isProduction: env.NODE_ENV === "production",
+  /** Lowest level lib/logger.ts writes */
+  logLevel: (env.LOG_LEVEL || "info") as LogLevel,
 };
 
+setLogLevel(config.logLevel);
+
 // Table names
 export const tables = {
-  inbox: process.env.AIRTABLE_INBOX_TABLE_NAME ?? "Inbox",
-  projects: process.env.AIRTABLE_PROJECTS_TABLE_NAME ?? "Projects",
+  inbox: env.AIRTABLE_INBOX_TABLE_NAME ?? "Inbox",
+  projects: env.AIRTABLE_PROJECTS_TABLE_NAME ?? "Projects",
+  tasks: env.AIRTABLE_TASKS_TABLE_NAME ?? "Tasks",
+  decisions: env.AIRTABLE_DECISIONS_TABLE_NAME ?? "Decisions",
+  people: env.OWNER_DIRECTORY_TABLE_NAME ?? "People",
 };
 
 // Field names for Inbox
@@ -27,4 +329,240 @@ export const inboxFields = {
   status: "Status",
   source: "Source",
   confidence: "Confidence",
+  /** Linked record field set when pm-intake resolves the project against Projects */
+  linkedProject: "Linked Project",
+  /** Checkbox set when an item needs a human to fix something (e.g. ambiguous owner) */
+  needsReview: "Needs Review",
+  notes: "Notes",
+};
+
+// Field names for Projects (Client PM OS) used by pm-intake resolution
+export const projectFields = {
+  name: "Project Name (Job #)",
+  jobNumber: "Job #",
+  clientName: "Client Name",
+  aliases: "Aliases",
 };
+
+// Field names for the owner directory (People) used by pm-intake resolution
+export const peopleFields = {
+  name: env.OWNER_DIRECTORY_NAME_FIELD ?? "Name",
+  email: env.OWNER_DIRECTORY_EMAIL_FIELD ?? "Email",
+  initials: env.OWNER_DIRECTORY_INITIALS_FIELD ?? "Initials",
+};
+
+// =============================================================================
+// FEATURES
+// =============================================================================
+
+/** A requirement is one variable, or a list where any one of them will do. */
+type Requirement = EnvVarName | readonly EnvVarName[];
+
+interface FeatureDefinition {
+  label: string;
+  requires: readonly Requirement[];
+  optional?: readonly EnvVarName[];
+}
+
+export const FEATURES = {
+  pmIntake: {
+    label: "POST /api/pm-intake, /api/pm-intake/notes, /api/pm-intake/promote",
+    requires: ["AIRTABLE_API_KEY", ["CLIENT_PM_OS_BASE_ID", "AIRTABLE_BASE_ID"]],
+    optional: [
+      "PM_INTAKE_BEARER_TOKEN",
+      "AIRTABLE_INBOX_TABLE_NAME",
+      "AIRTABLE_PROJECTS_TABLE_NAME",
+      "AIRTABLE_TASKS_TABLE_NAME",
+      "AIRTABLE_DECISIONS_TABLE_NAME",
+      "HIVE_OS_BASE_ID",
+    ],
+  },
+  ownerResolution: {
+    label: "pm-intake owner resolution (People directory)",
+    requires: ["AIRTABLE_API_KEY", ["OWNER_DIRECTORY_BASE_ID", "AIRTABLE_BASE_ID"]],
+    optional: [
+      "OWNER_DIRECTORY_TABLE_NAME",
+      "OWNER_DIRECTORY_NAME_FIELD",
+      "OWNER_DIRECTORY_EMAIL_FIELD",
+      "OWNER_DIRECTORY_INITIALS_FIELD",
+      "OWNER_FIELD_MODE",
+    ],
+  },
+  inboxEmail: {
+    label: "POST /api/inbox/email",
+    requires: [
+      "AIRTABLE_API_KEY",
+      "AIRTABLE_OS_BASE_ID",
+      "AIRTABLE_OS_TABLE_COMPANIES",
+      "AIRTABLE_OS_TABLE_OPPORTUNITIES",
+      "AIRTABLE_OS_TABLE_INBOX_ITEMS",
+    ],
+    optional: ["HIVE_INBOUND_EMAIL_SECRET"],
+  },
+  gmailInbound: {
+    label: "POST /api/os/inbound/gmail",
+    requires: [
+      "AIRTABLE_API_KEY",
+      "AIRTABLE_INBOUND_BASE_ID",
+      "AIRTABLE_INBOUND_TABLE_COMPANIES",
+      "AIRTABLE_INBOUND_TABLE_OPPORTUNITIES",
+    ],
+    optional: ["AIRTABLE_INBOUND_OPP_VIEW_URL", "PM_INTAKE_TOKEN", "PM_INTAKE_BEARER_TOKEN"],
+  },
+  gmailInboundCompany: {
+    label: "POST /api/os/inbound/gmail/company",
+    requires: [
+      "AIRTABLE_API_KEY",
+      "AIRTABLE_INBOUND_BASE_ID",
+      "AIRTABLE_INBOUND_TABLE_COMPANIES",
+    ],
+    optional: ["HIVE_INBOUND_SECRET", "PM_INTAKE_TOKEN", "PM_INTAKE_BEARER_TOKEN"],
+  },
+  generateDoc: {
+    label: "POST /api/generate-doc",
+    requires: ["APPS_SCRIPT_DOC_WEBAPP_URL"],
+    optional: [
+      "PM_INTAKE_SHARED_SECRET",
+      "AIRTABLE_API_KEY",
+      "AIRTABLE_BASE_ID",
+      "AIRTABLE_DOCS_TABLE",
+      "GOOGLE_SERVICE_ACCOUNT_EMAIL",
+      "GOOGLE_PRIVATE_KEY",
+      "PREPARED_DOCUMENTS_FOLDER_ID",
+      "OPENAI_API_KEY",
+    ],
+  },
+  googleDocsApi: {
+    label: "Docs API placeholder replacement and rename in /api/generate-doc",
+    requires: ["GOOGLE_SERVICE_ACCOUNT_EMAIL", "GOOGLE_PRIVATE_KEY"],
+  },
+  openai: {
+    label: "GPT polish (generate-doc) and LLM notes extraction",
+    requires: ["OPENAI_API_KEY"],
+  },
+  createProjectFolder: {
+    label: "POST /api/create-project-folder",
+    requires: ["GOOGLE_APPS_SCRIPT_CREATE_PROJECT_FOLDER_URL", "AIRTABLE_API_KEY"],
+    optional: ["AIRTABLE_PROXY_SECRET", "CLIENTS_ROOT_FOLDER_ID", "CLIENT_PM_OS_BASE_ID", "AIRTABLE_BASE_ID"],
+  },
+  gasProxy: {
+    label: "POST /api/gas-proxy, /api/gas-forward, /api/gas-forward2",
+    requires: [],
+    optional: ["AIRTABLE_PROXY_SECRET", "GAS_WEB_APP_URL"],
+  },
+  jobs: {
+    label: "?async=1 on /api/generate-doc and /api/create-project-folder, GET /api/jobs/:id",
+    requires: [],
+    optional: ["JOB_STORE", "JOB_STORE_DIR", "JOB_STORE_SINGLE_SERVER"],
+  },
+  audit: {
+    label: "Audit log of Airtable and Drive writes, GET /api/admin/audit",
+    requires: ["AUDIT_STORE"],
+    optional: ["AUDIT_FILE", "AUDIT_AIRTABLE_BASE_ID", "AUDIT_AIRTABLE_TABLE"],
+  },
+  callbacks: {
+    label: "callbackUrl on /api/generate-doc, /api/create-project-folder, /api/inbox/email",
+    requires: ["CALLBACK_SIGNING_SECRET", "CALLBACK_ALLOWED_HOSTS"],
+  },
+  admin: {
+    label: "GET /api/admin/schema-check, /api/admin/config-status",
+    requires: ["AIRTABLE_API_KEY"],
+    optional: [
+      "ADMIN_BEARER_TOKEN",
+      "AIRTABLE_SCHEMA_FILE",
+      "AIRTABLE_SCHEMA_FROM_METADATA",
+      "AIRTABLE_TRACE_ID_FIELDS",
+      "AIRTABLE_API_URL",
+    ],
+  },
+} satisfies Record<string, FeatureDefinition>;
+
+export type FeatureName = keyof typeof FEATURES;
+
+// =============================================================================
+// REPORT
+// =============================================================================
+
+export interface EnvVarStatus {
+  name: EnvVarName;
+  set: boolean;
+  secret: boolean;
+  /** The value for non-secret variables; "[redacted]" for secrets that are set */
+  value?: string;
+  /** Validation message if the value was rejected */
+  invalid?: string;
+}
+
+export interface FeatureStatus {
+  feature: FeatureName;
+  label: string;
+  enabled: boolean;
+  /** Unmet requirements; alternatives read "A | B" */
+  missing: string[];
+  variables: EnvVarStatus[];
+}
+
+export interface ConfigReport {
+  enabled: FeatureName[];
+  disabled: FeatureName[];
+  features: FeatureStatus[];
+  /** Every variable with a rejected value */
+  invalid: EnvVarStatus[];
+}
+
+function isSet(parsed: ParsedEnv, name: EnvVarName): boolean {
+  return Boolean(parsed.values[name]);
+}
+
+/**
+ * Status of one variable, safe to return from an API or log.
+ */
+export function envVarStatus(name: EnvVarName, parsed: ParsedEnv = parsedEnv): EnvVarStatus {
+  const definition: EnvVarDefinition = ENV_VARS[name];
+  const set = isSet(parsed, name);
+  const status: EnvVarStatus = { name, set, secret: definition.secret === true };
+
+  if (set) status.value = definition.secret ? "[redacted]" : parsed.values[name];
+  if (parsed.invalid[name]) status.invalid = parsed.invalid[name];
+
+  return status;
+}
+
+/**
+ * Whether a feature has everything it requires. Routes call this at request
+ * time and return 500 with `missing` when it is disabled.
+ */
+export function featureStatus(feature: FeatureName, parsed: ParsedEnv = parsedEnv): FeatureStatus {
+  const definition: FeatureDefinition = FEATURES[feature];
+  const missing: string[] = [];
+  const names: EnvVarName[] = [];
+
+  for (const requirement of definition.requires) {
+    const options: readonly EnvVarName[] = typeof requirement === "string" ? [requirement] : requirement;
+    names.push(...options);
+    if (!options.some((name) => isSet(parsed, name))) missing.push(options.join(" | "));
+  }
+  names.push(...(definition.optional ?? []));
+
+  return {
+    feature,
+    label: definition.label,
+    enabled: missing.length === 0,
+    missing,
+    variables: [...new Set(names)].map((name) => envVarStatus(name, parsed)),
+  };
+}
+
+/**
+ * Every feature's status plus any rejected values.
+ */
+export function configReport(parsed: ParsedEnv = parsedEnv): ConfigReport {
+  const features = (Object.keys(FEATURES) as FeatureName[]).map((feature) => featureStatus(feature, parsed));
+
+  return {
+    enabled: features.filter((f) => f.enabled).map((f) => f.feature),
+    disabled: features.filter((f) => !f.enabled).map((f) => f.feature),
+    features,
+    invalid: (Object.keys(parsed.invalid) as EnvVarName[]).map((name) => envVarStatus(name, parsed)),
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for date-normalize.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { normalizeDate } from "./date-normalize";
+
+// Wednesday 2025-01-29, 10:00 in Los Angeles
+const reference = new Date("2025-01-29T18:00:00Z");
+
+function resolve(phrase: string, ctx: Parameters<typeof normalizeDate>[1] = {}): string | null {
+  const result = normalizeDate(phrase, { reference, ...ctx });
+  return result.ok ? result.date : null;
+}
+
+describe("normalizeDate", () => {
+  it("passes ISO dates through without marking them inferred", () => {
+    expect(normalizeDate("2025-02-14", { reference })).toEqual({
+      ok: true,
+      date: "2025-02-14",
+      inferred: false,
+      phrase: "2025-02-14",
+    });
+    expect(normalizeDate("2025-02-30", { reference }).ok).toBe(false);
+  });
+
+  it("resolves relative days", () => {
+    expect(resolve("today")).toBe("2025-01-29");
+    expect(resolve("EOD")).toBe("2025-01-29");
+    expect(resolve("Tomorrow")).toBe("2025-01-30");
+    expect(resolve("in 3 days")).toBe("2025-02-01");
+    expect(resolve("2 weeks from now")).toBe("2025-02-12");
+    expect(resolve("in a month")).toBe("2025-02-28");
+  });
+
+  it("resolves week, month and year ends", () => {
+    expect(resolve("EOW")).toBe("2025-01-31");
+    expect(resolve("by end of week")).toBe("2025-01-31");
+    expect(resolve("next week")).toBe("2025-02-03");
+    expect(resolve("EOM")).toBe("2025-01-31");
+    expect(resolve("end of year")).toBe("2025-12-31");
+  });
+
+  it("resolves weekdays", () => {
+    expect(resolve("Friday")).toBe("2025-01-31");
+    expect(resolve("this fri")).toBe("2025-01-31");
+    expect(resolve("Wednesday")).toBe("2025-01-29");
+    expect(resolve("Monday")).toBe("2025-02-03");
+    expect(resolve("next Friday")).toBe("2025-02-07");
+    expect(resolve("next Monday")).toBe("2025-02-03");
+  });
+
+  it("resolves numeric dates, rolling past dates into next year", () => {
+    expect(resolve("2/14")).toBe("2025-02-14");
+    expect(resolve("1/15")).toBe("2026-01-15");
+    expect(resolve("2/14/25")).toBe("2025-02-14");
+    expect(resolve("3/2", { dayFirst: true })).toBe("2025-02-03");
+    expect(resolve("2/30")).toBe(null);
+  });
+
+  it("resolves month names", () => {
+    expect(resolve("Feb 14")).toBe("2025-02-14");
+    expect(resolve("February 14th, 2026")).toBe("2026-02-14");
+    expect(resolve("14 Feb")).toBe("2025-02-14");
+    expect(resolve("Sept. 3")).toBe("2025-09-03");
+  });
+
+  it("evaluates the reference day in the requested timezone", () => {
+    // 21:00 on the 29th in Los Angeles is already the 30th in UTC
+    const lateEvening = new Date("2025-01-30T05:00:00Z");
+    expect(resolve("today", { reference: lateEvening })).toBe("2025-01-29");
+    expect(resolve("today", { reference: lateEvening, timeZone: "UTC" })).toBe("2025-01-30");
+    expect(resolve("2025-01-30T05:00:00Z")).toBe("2025-01-29");
+  });
+
+  it("reports unrecognized phrases and timezones", () => {
+    expect(normalizeDate("sometime soon", { reference })).toEqual({
+      ok: false,
+      phrase: "sometime soon",
+      error: 'Could not interpret date: "sometime soon"',
+    });
+    expect(normalizeDate("today", { reference, timeZone: "Mars/Olympus" }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Natural-language due date normalization for pm-intake.
+ *
+ * Resolves phrases like "next Friday", "EOW", "2/14" or "Feb 14th" to an ISO
+ * date (YYYY-MM-DD) relative to a reference timestamp, evaluated in a given
+ * timezone (default America/Los_Angeles, same as generate-doc timestamps).
+ *
+ * Supported forms:
+ * - ISO dates and timestamps: "2025-02-14", "2025-02-14T17:00:00Z"
+ * - Relative days: today, tonight, EOD, tomorrow, yesterday, "in 3 days", "2 weeks from now"
+ * - Week/month/year ends: EOW / end of week (Friday), next week (Monday), EOM, EOY
+ * - Weekdays: "Friday" / "this Friday" (next occurrence, today included),
+ *   "next Friday" (the Friday of next week)
+ * - Numeric: "2/14", "2/14/25", "2/14/2025" (month first unless dayFirst)
+ * - Month names: "Feb 14", "February 14th, 2025", "14 Feb"
+ *
+ * Dates without a year resolve to the next occurrence on or after the reference day.
+ */
+
+export const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+export interface DateContext {
+  /** Instant the phrase is relative to (default: now) */
+  reference?: Date;
+  /** IANA timezone the phrase is evaluated in (default: America/Los_Angeles) */
+  timeZone?: string;
+  /** Interpret "2/3" as 2 March instead of February 3 */
+  dayFirst?: boolean;
+}
+
+export type DateNormalization =
+  | { ok: true; date: string; inferred: boolean; phrase: string }
+  | { ok: false; phrase: string; error: string };
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1,
+  feb: 2, february: 2,
+  mar: 3, march: 3,
+  apr: 4, april: 4,
+  may: 5,
+  jun: 6, june: 6,
+  jul: 7, july: 7,
+  aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12,
+};
+
+// =============================================================================
+// CALENDAR HELPERS (dates are UTC-midnight Date objects)
+// =============================================================================
+
+/**
+ * Returns true if the timezone is a valid IANA zone.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar day of an instant in a timezone, as a UTC-midnight Date.
+ */
+function zonedDay(instant: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return new Date(Date.UTC(get("year"), get("month") - 1, get("day")));
+}
+
+function makeDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86_400_000);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+function toIso(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function expandYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+/**
+ * Month/day without a year: this year, or next year if already past.
+ */
+function nextOccurrence(today: Date, month: number, day: number): Date | null {
+  const thisYear = makeDate(today.getUTCFullYear(), month, day);
+  if (thisYear && thisYear.getTime() >= today.getTime()) return thisYear;
+  return makeDate(today.getUTCFullYear() + 1, month, day);
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function parseRelative(text: string, today: Date): Date | null {
+  switch (text) {
+    case "today":
+    case "tonight":
+    case "eod":
+    case "end of day":
+    case "end of today":
+      return today;
+    case "tomorrow":
+    case "tmrw":
+    case "tmr":
+      return addDays(today, 1);
+    case "yesterday":
+      return addDays(today, -1);
+    case "eow":
+    case "end of week":
+    case "end of the week":
+    case "this week":
+      return addDays(today, (5 - today.getUTCDay() + 7) % 7);
+    case "next week": {
+      const daysToMonday = ((1 - today.getUTCDay() + 7) % 7) || 7;
+      return addDays(today, daysToMonday);
+    }
+    case "eom":
+    case "end of month":
+    case "end of the month":
+      return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0));
+    case "eoy":
+    case "end of year":
+    case "end of the year":
+      return new Date(Date.UTC(today.getUTCFullYear(), 11, 31));
+  }
+
+  const inMatch = text.match(/^(?:in )?(\d+|a|an|one) (day|week|month)s?(?: from (?:now|today))?$/);
+  if (inMatch && (text.startsWith("in ") || text.includes(" from "))) {
+    const amount = /^\d+$/.test(inMatch[1]) ? Number(inMatch[1]) : 1;
+    if (inMatch[2] === "day") return addDays(today, amount);
+    if (inMatch[2] === "week") return addDays(today, amount * 7);
+    return addMonths(today, amount);
+  }
+
+  return null;
+}
+
+function parseWeekday(text: string, today: Date): Date | null {
+  const match = text.match(/^(?:(this|next|coming|the coming) )?([a-z]+)$/);
+  if (!match || !(match[2] in WEEKDAYS)) return null;
+
+  const target = WEEKDAYS[match[2]];
+  const dow = today.getUTCDay();
+
+  if (match[1] === "next") {
+    // The target weekday in the following Monday-start week
+    const daysToNextMonday = ((1 - dow + 7) % 7) || 7;
+    return addDays(today, daysToNextMonday + ((target - 1 + 7) % 7));
+  }
+
+  return addDays(today, (target - dow + 7) % 7);
+}
+
+function parseNumeric(text: string, today: Date, dayFirst: boolean): Date | null {
+  const match = text.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?$/);
+  if (!match) return null;
+
+  const first = Number(match[1]);
+  const second = Number(match[2]);
+  const month = dayFirst ? second : first;
+  const day = dayFirst ? first : second;
+
+  if (match[3]) return makeDate(expandYear(Number(match[3])), month, day);
+  return nextOccurrence(today, month, day);
+}
+
+function parseMonthName(text: string, today: Date): Date | null {
+  const cleaned = text.replace(/(\d+)(st|nd|rd|th)\b/g, "$1").replace(/,/g, " ").replace(/\s+/g, " ").trim();
+
+  // "feb 14", "feb 14 2025"
+  let match = cleaned.match(/^([a-z]+)\.? (\d{1,2})(?: (\d{4}))?$/);
+  let monthName: string | undefined;
+  let day: number | undefined;
+  let year: number | undefined;
+
+  if (match) {
+    [, monthName] = match;
+    day = Number(match[2]);
+    year = match[3] ? Number(match[3]) : undefined;
+  } else {
+    // "14 feb", "14 february 2025"
+    match = cleaned.match(/^(\d{1,2}) ([a-z]+)\.?(?: (\d{4}))?$/);
+    if (!match) return null;
+    day = Number(match[1]);
+    monthName = match[2];
+    year = match[3] ? Number(match[3]) : undefined;
+  }
+
+  const month = MONTHS[monthName];
+  if (!month) return null;
+
+  if (year !== undefined) return makeDate(year, month, day);
+  return nextOccurrence(today, month, day);
+}
+
+/**
+ * Normalizes a due date phrase to YYYY-MM-DD.
+ * `inferred` is false only when the input was already an ISO date.
+ */
+export function normalizeDate(input: string, ctx: DateContext = {}): DateNormalization {
+  const phrase = input.trim();
+  const timeZone = ctx.timeZone || DEFAULT_TIMEZONE;
+  const reference = ctx.reference ?? new Date();
+
+  if (!isValidTimeZone(timeZone)) {
+    return { ok: false, phrase, error: `Unknown timezone: ${timeZone}` };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(phrase)) {
+    const [y, m, d] = phrase.split("-").map(Number);
+    return makeDate(y, m, d)
+      ? { ok: true, date: phrase, inferred: false, phrase }
+      : { ok: false, phrase, error: "Not a valid calendar date" };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(phrase)) {
+    const instant = new Date(phrase);
+    if (!Number.isNaN(instant.getTime())) {
+      return { ok: true, date: toIso(zonedDay(instant, timeZone)), inferred: true, phrase };
+    }
+  }
+
+  const today = zonedDay(reference, timeZone);
+  const text = phrase
+    .toLowerCase()
+    .replace(/[.!?]+$/, "")
+    .replace(/^(?:due|by|on|before)\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const resolved =
+    parseRelative(text, today) ??
+    parseWeekday(text, today) ??
+    parseNumeric(text, today, ctx.dayFirst ?? false) ??
+    parseMonthName(text, today);
+
+  if (!resolved) {
+    return { ok: false, phrase, error: `Could not interpret date: "${phrase}"` };
+  }
+
+  return { ok: true, date: toIso(resolved), inferred: true, phrase };
+}
@@ -0,0 +1,31 @@
+/**
+ * Tests for dry-run.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { isDryRun, dryRunRecordId } from "./dry-run";
+
+describe("isDryRun", () => {
+  it("reads the query string", () => {
+    expect(isDryRun(new Request("https://example.com/api/pm-intake?dryRun=1"))).toBe(true);
+    expect(isDryRun(new Request("https://example.com/api/pm-intake?dryRun=true"))).toBe(true);
+    expect(isDryRun(new Request("https://example.com/api/pm-intake?dryRun=0"))).toBe(false);
+  });
+
+  it("reads the body flag, including string values from Airtable automations", () => {
+    const req = new Request("https://example.com/api/generate-doc");
+    expect(isDryRun(req, { dryRun: true })).toBe(true);
+    expect(isDryRun(req, { dryRun: "true" })).toBe(true);
+    expect(isDryRun(req, { dryRun: false })).toBe(false);
+    expect(isDryRun(req, [{ dryRun: true }])).toBe(false);
+    expect(isDryRun(req)).toBe(false);
+  });
+});
+
+describe("dryRunRecordId", () => {
+  it("produces IDs that pass linked-record shape checks", () => {
+    expect(dryRunRecordId("Company")).toBe("recDryRunCompany");
+  });
+});
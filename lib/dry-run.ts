@@ -0,0 +1,53 @@
+/**
+ * Dry-run (preview) support shared by the write routes.
+ *
+ * A request is a dry run when the body has `dryRun: true` or the URL has
+ * `?dryRun=1` / `?dryRun=true`. Dry runs still perform lookups (duplicate
+ * checks, project/company resolution) so the preview matches what a real run
+ * would decide, but every create/update is recorded as a PlannedWrite instead
+ * of being sent, and no Apps Script or Google API calls are made.
+ */
+
+export interface PlannedWrite {
+  action: "create" | "update" | "upsert";
+  table: string;
+  /** Target record for updates */
+  recordId?: string;
+  /** Match fields for upserts */
+  fieldsToMergeOn?: string[];
+  /** Exact field payload that would be sent to Airtable */
+  fields: Record<string, unknown>;
+}
+
+/**
+ * true, 1, or "1" / "true" / "yes" in any case.
+ */
+export function isTruthyFlag(value: unknown): boolean {
+  if (value === true || value === 1) return true;
+  if (typeof value !== "string") return false;
+  return ["1", "true", "yes"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Returns true if the request asks for a dry run via query string or body.
+ */
+export function isDryRun(req: Request, body?: unknown): boolean {
+  try {
+    if (isTruthyFlag(new URL(req.url).searchParams.get("dryRun"))) return true;
+  } catch {
+    // Relative or malformed URL: fall through to the body flag
+  }
+
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    return isTruthyFlag((body as Record<string, unknown>).dryRun);
+  }
+  return false;
+}
+
+/**
+ * Placeholder record ID for a record a dry run would have created.
+ * Starts with "rec" so linked-field payloads keep their real shape.
+ */
+export function dryRunRecordId(label: string): string {
+  return `recDryRun${label}`;
+}
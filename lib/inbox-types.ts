@@ -2,6 +2,8 @@
  * Types for the Gmail inbox ingestion pipeline.
  */
 
+import type { PlannedWrite } from "./dry-run";
+
 // ============================================================================
 // Request/Response types
 // ============================================================================
@@ -28,6 +30,10 @@ export interface InboxEmailPayload {
   // Metadata
   receivedAt?: string; // ISO date string
   mode?: InboxMode; // Default: "opportunity"
+
+  // Completion callbacks (lib/callbacks.ts)
+  callbackUrl?: string;
+  callbackAirtable?: unknown;
 }
 
 export type InboxStatus =
@@ -57,6 +63,9 @@ export interface InboxEmailResponse {
   inboxItem?: {
     id: string;
   };
+  /** Present on dry runs: nothing was written, see plannedWrites */
+  dryRun?: boolean;
+  plannedWrites?: PlannedWrite[];
   error?: string;
   _debug?: {
     baseId: string;
@@ -68,48 +77,6 @@ export interface InboxEmailResponse {
   };
 }
 
-// ============================================================================
-// Airtable field types
-// ============================================================================
-
-export interface CompanyFields {
-  [key: string]: unknown;
-  "Company Name": string;
-  Domain?: string;
-  "Normalized Domain"?: string;
-  "Source System"?: string;
-}
-
-export interface OpportunityFields {
-  [key: string]: unknown;
-  "Opportunity Name": string;
-  Company?: string[]; // Linked record IDs
-  Stage?: string;
-  "Source System"?: string;
-  "Gmail Thread ID"?: string;
-  "Inbox Items"?: string[]; // Linked record IDs
-}
-
-export interface InboxItemFields {
-  [key: string]: unknown;
-  "Trace ID": string;
-  "Gmail Message ID": string;
-  "Gmail Thread ID": string;
-  "Gmail URL"?: string;
-  Subject: string;
-  Snippet?: string;
-  "Body Text"?: string;
-  "From Email": string;
-  "From Name"?: string;
-  Domain?: string;
-  "Received At"?: string;
-  Company?: string[]; // Linked record IDs
-  Opportunity?: string[]; // Linked record IDs
-  Disposition?: string;
-  "Activity Log"?: string;
-  "Raw Payload"?: string;
-}
-
 // ============================================================================
 // Internal types
 // ============================================================================
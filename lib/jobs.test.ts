@@ -0,0 +1,244 @@
+/**
+ * Tests for jobs.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  FileJobStore,
+  MemoryJobStore,
+  PermanentJobError,
+  isAsyncRequest,
+  runJob,
+  type Job,
+  type JobDefinition,
+} from "./jobs";
+
+function queuedJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job_1",
+    type: "test",
+    status: "queued",
+    scope: "docs:generate",
+    keyName: "automation",
+    input: { name: "Brief" },
+    state: {},
+    steps: [
+      { name: "create", status: "pending", attempts: 0 },
+      { name: "rename", status: "pending", attempts: 0 },
+    ],
+    warnings: [],
+    createdAt: "2026-10-01T00:00:00.000Z",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("runJob", () => {
+  it("retries a failing step and saves each step's output", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new MemoryJobStore();
+    const job = queuedJob();
+    await store.create(job);
+
+    let calls = 0;
+    const definition: JobDefinition<{ name: string }> = {
+      type: "test",
+      scope: "docs:generate",
+      steps: [
+        {
+          name: "create",
+          run: async ({ input }) => {
+            if (++calls < 3) throw new Error("Apps Script returned 503");
+            return { docId: `doc-${input.name}` };
+          },
+        },
+        { name: "rename", run: async ({ state }) => ({ renamed: (state.create as { docId: string }).docId }) },
+      ],
+      result: ({ state }) => state.create,
+    };
+
+    const done = await runJob(job, definition, { store, retryDelayMs: 0 });
+
+    expect(done).toMatchObject({ status: "succeeded", result: { docId: "doc-Brief" } });
+    expect(done.steps).toMatchObject([
+      { name: "create", status: "succeeded", attempts: 3 },
+      { name: "rename", status: "succeeded", attempts: 1 },
+    ]);
+    expect(await store.get("job_1")).toMatchObject({ status: "succeeded", state: { rename: { renamed: "doc-Brief" } } });
+  });
+
+  it("turns an optional step's failure into a warning and fails on a required one", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const store = new MemoryJobStore();
+    const failing = async () => {
+      throw new Error("Drive API rename failed");
+    };
+
+    const warned = await runJob(
+      queuedJob(),
+      {
+        type: "test",
+        scope: "docs:generate",
+        steps: [
+          { name: "create", run: async () => "doc" },
+          { name: "rename", optional: true, attempts: 2, run: failing },
+        ],
+        result: () => "done",
+      },
+      { store, retryDelayMs: 0 }
+    );
+    expect(warned).toMatchObject({ status: "succeeded", warnings: ["rename: Drive API rename failed"] });
+
+    const failed = await runJob(
+      queuedJob({ id: "job_2" }),
+      { type: "test", scope: "docs:generate", steps: [{ name: "create", attempts: 1, run: failing }], result: () => null },
+      { store, retryDelayMs: 0 }
+    );
+    expect(failed).toMatchObject({ status: "failed", error: "create: Drive API rename failed" });
+  });
+
+  it("stops retrying on PermanentJobError and calls onSettled once", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const onSettled = vi.fn(async () => {});
+
+    const done = await runJob(
+      queuedJob(),
+      {
+        type: "test",
+        scope: "docs:generate",
+        steps: [
+          {
+            name: "create",
+            run: async () => {
+              throw new PermanentJobError("Callback returned 410");
+            },
+          },
+        ],
+        result: () => null,
+        onSettled,
+      },
+      { store: new MemoryJobStore(), retryDelayMs: 0 }
+    );
+
+    expect(done.steps[0]).toMatchObject({ status: "failed", attempts: 1 });
+    expect(onSettled).toHaveBeenCalledTimes(1);
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ status: "failed" }));
+  });
+
+  it("resumes at the first unfinished step", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const create = vi.fn(async () => "again");
+    const job = queuedJob({
+      status: "running",
+      state: { create: "doc-1" },
+      steps: [
+        { name: "create", status: "succeeded", attempts: 1 },
+        { name: "rename", status: "pending", attempts: 0 },
+      ],
+    });
+
+    const done = await runJob(
+      job,
+      {
+        type: "test",
+        scope: "docs:generate",
+        steps: [
+          { name: "create", run: create },
+          { name: "rename", skip: () => true, run: create },
+        ],
+        result: ({ state }) => state.create,
+      },
+      { store: new MemoryJobStore() }
+    );
+
+    expect(create).not.toHaveBeenCalled();
+    expect(done).toMatchObject({ result: "doc-1", steps: [{ status: "succeeded" }, { status: "skipped" }] });
+  });
+
+  it("counts an attempt its instance died in, failing a step with none left", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const create = vi.fn(async () => "doc-2");
+    const job = queuedJob({
+      status: "running",
+      steps: [{ name: "create", status: "running", attempts: 1 }],
+    });
+
+    const done = await runJob(
+      job,
+      { type: "test", scope: "docs:generate", steps: [{ name: "create", attempts: 1, run: create }], result: () => null },
+      { store: new MemoryJobStore() }
+    );
+
+    expect(create).not.toHaveBeenCalled();
+    expect(done).toMatchObject({ status: "failed", error: "create: Interrupted" });
+  });
+});
+
+describe("FileJobStore", () => {
+  it("persists jobs and claims queued or lease-expired ones oldest first", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "jobs-"));
+    try {
+      const store = new FileJobStore(dir);
+      await store.create(queuedJob({ id: "job_new", createdAt: "2026-10-02T00:00:00.000Z" }));
+      await store.create(queuedJob({ id: "job_stale", status: "running", leaseUntil: 1_000 }));
+      await store.create(queuedJob({ id: "job_busy", status: "running", leaseUntil: 10_000 }));
+
+      expect(await store.claim(["test"], 5_000, 60_000)).toMatchObject({ id: "job_stale", leaseUntil: 60_000 });
+      expect(await store.claim(["test"], 5_000, 60_000)).toMatchObject({ id: "job_new", status: "running" });
+      expect(await store.claim(["test"], 5_000, 60_000)).toBeNull();
+      expect(await store.get("job_new")).toMatchObject({ status: "running" });
+      expect(await store.get("job_missing")).toBeNull();
+      await expect(store.get("../etc/passwd")).rejects.toThrow("Invalid job id");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("counts as durable only with JOB_STORE_SINGLE_SERVER", async () => {
+    vi.stubEnv("JOB_STORE", "file");
+    vi.resetModules();
+    expect((await import("./jobs")).checkAsyncJobs()).toMatchObject({ ok: false, status: 400 });
+
+    vi.stubEnv("JOB_STORE_SINGLE_SERVER", "true");
+    vi.resetModules();
+    expect((await import("./jobs")).checkAsyncJobs()).toEqual({ ok: true });
+  });
+
+  it("lets only one of several processes claim a job", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "jobs-"));
+    try {
+      await new FileJobStore(dir).create(queuedJob());
+      const workers = Array.from({ length: 4 }, () => new FileJobStore(dir));
+
+      const claims = await Promise.all(workers.map((store) => store.claim(["test"], 5_000, 60_000)));
+      expect(claims.filter(Boolean)).toHaveLength(1);
+      expect(await workers[0].claim(["test"], 5_000, 60_000)).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("isAsyncRequest", () => {
+  it("reads ?async=1 or the body flag", () => {
+    expect(isAsyncRequest(new Request("http://localhost/api/generate-doc?async=1"))).toBe(true);
+    expect(isAsyncRequest(new Request("http://localhost/api/generate-doc"), { async: "true" })).toBe(true);
+    expect(isAsyncRequest(new Request("http://localhost/api/generate-doc"), { async: false })).toBe(false);
+  });
+});
@@ -0,0 +1,573 @@
+/**
+ * Background jobs for routes whose work can outlast the caller's timeout.
+ *
+ * A route validates the request, then enqueues a job and answers 202 with
+ * `jobId` and `status_url` (GET /api/jobs/:id). A job is a fixed list of
+ * named steps. Each step's output is saved to the job before the next one
+ * starts, so a job picked up again after a crash resumes at the first
+ * unfinished step. A failing step is retried with exponential backoff; once
+ * its attempts run out (an attempt cut short by a crash counts) or it throws
+ * PermanentJobError, the job fails, unless the step is optional, in which
+ * case the failure becomes a warning.
+ * onSettled runs once the job has succeeded or failed, e.g. to queue
+ * callbacks (lib/callbacks.ts).
+ *
+ * Job types are registered with defineJob() by the module that owns the
+ * steps (the route), and only a process that has loaded that module runs
+ * them. The worker runs in-process: enqueueJob() starts it without waiting,
+ * and it drains every runnable job of the registered types, including jobs
+ * whose lease expired because the instance running them died. On Vercel
+ * the worker is passed to waitUntil(), so the function stays alive after
+ * the response until the worker is done (up to the function's max duration).
+ *
+ * Backends (JOB_STORE): "memory" (default; per instance, for tests and
+ * single-process dev) and "file" (one JSON file per job under
+ * JOB_STORE_DIR). setJobStore() plugs in another JobStore. A job in memory
+ * is lost with its instance, and serverless instances don't share a disk,
+ * so routes refuse ?async=1 unless the store is durable (checkAsyncJobs()):
+ * the file store counts as durable only with JOB_STORE_SINGLE_SERVER=true.
+ */
+
+import { waitUntil } from "@vercel/functions";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { config } from "./config";
+import { isTruthyFlag } from "./dry-run";
+import { getLogContext, logger, runWithLogContext } from "./logger";
+import type { ApiScope } from "./auth";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type JobStepStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+
+export interface JobStep {
+  name: string;
+  status: JobStepStatus;
+  attempts: number;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface Job {
+  id: string;
+  type: string;
+  status: JobStatus;
+  /** Scope needed to read the job (the scope of the route that created it) */
+  scope: ApiScope;
+  /** API key that created the job */
+  keyName: string;
+  /** Trace ID of the request that created the job; its log entries carry it too */
+  traceId?: string;
+  input: unknown;
+  /** Output of each finished step, by step name */
+  state: Record<string, unknown>;
+  steps: JobStep[];
+  result?: unknown;
+  error?: string;
+  warnings: string[];
+  createdAt: string;
+  updatedAt: string;
+  /** While running: another worker may take the job over after this (ms) */
+  leaseUntil?: number;
+}
+
+export interface JobContext<TInput> {
+  job: Job;
+  input: TInput;
+  state: Record<string, unknown>;
+}
+
+export interface JobStepDefinition<TInput> {
+  name: string;
+  /** Attempts before the step fails (default 3) */
+  attempts?: number;
+  /** A failure is recorded as a warning and the job continues */
+  optional?: boolean;
+  /** Marks the step "skipped" without running it */
+  skip?: (ctx: JobContext<TInput>) => boolean;
+  /** Throws to fail the attempt; the return value is saved as state[name] */
+  run: (ctx: JobContext<TInput>) => Promise<unknown>;
+}
+
+/**
+ * Thrown by a step whose failure would not change on retry (e.g. a 4xx
+ * response). The step fails without using its remaining attempts.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export interface JobDefinition<TInput> {
+  type: string;
+  scope: ApiScope;
+  steps: JobStepDefinition<TInput>[];
+  /** Builds the job's result once every step has finished */
+  result: (ctx: JobContext<TInput>) => unknown;
+  /** Called with the finished job, succeeded or failed. Errors are logged, not rethrown */
+  onSettled?: (job: Job) => Promise<void>;
+}
+
+// =============================================================================
+// STORES
+// =============================================================================
+
+export interface JobStore {
+  /** Jobs outlive this process and are visible to every instance that serves the routes */
+  readonly durable: boolean;
+  create(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  save(job: Job): Promise<void>;
+  /**
+   * Marks the oldest job of one of `types` that is queued, or running with
+   * an expired lease, as running until `leaseUntil`, and returns it.
+   */
+  claim(types: string[], now: number, leaseUntil: number): Promise<Job | null>;
+}
+
+function isClaimable(job: Job, types: string[], now: number): boolean {
+  if (!types.includes(job.type)) return false;
+  return job.status === "queued" || (job.status === "running" && (job.leaseUntil ?? 0) <= now);
+}
+
+function claimOldest(jobs: Job[], types: string[], now: number, leaseUntil: number): Job | null {
+  const next = jobs
+    .filter((job) => isClaimable(job, types, now))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+  if (!next) return null;
+
+  next.status = "running";
+  next.leaseUntil = leaseUntil;
+  return next;
+}
+
+/**
+ * Jobs held in this process only. Copies on the way in and out, so callers
+ * can't change stored jobs by accident.
+ */
+export class MemoryJobStore implements JobStore {
+  readonly durable = false;
+  private readonly jobs = new Map<string, Job>();
+
+  async create(job: Job): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async claim(types: string[], now: number, leaseUntil: number): Promise<Job | null> {
+    const job = claimOldest([...this.jobs.values()], types, now, leaseUntil);
+    return job ? structuredClone(job) : null;
+  }
+}
+
+// A claim lock older than this was left by a process that died mid-claim
+const LOCK_STALE_MS = 30_000;
+
+/**
+ * One JSON file per job in `dir`, written via a temp file and rename so a
+ * crash never leaves a half-written job. A claim holds `<id>.lock` (created
+ * exclusively) while it re-reads and saves the job, so processes sharing
+ * the directory never claim the same job. Durable only if every instance
+ * shares `dir` (one server, or a shared volume), which the caller states
+ * with `durable`; serverless instances don't share a disk.
+ */
+export class FileJobStore implements JobStore {
+  constructor(
+    private readonly dir: string,
+    readonly durable = false
+  ) {}
+
+  private file(id: string): string {
+    if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid job id "${id}"`);
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async create(job: Job): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await this.save(job);
+  }
+
+  async get(id: string): Promise<Job | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), "utf8")) as Job;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async save(job: Job): Promise<void> {
+    const target = this.file(job.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job, null, 2));
+    await fs.rename(temp, target);
+  }
+
+  async claim(types: string[], now: number, leaseUntil: number): Promise<Job | null> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+
+    const jobs: Job[] = [];
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      const job = await this.get(name.slice(0, -5));
+      if (job && isClaimable(job, types, now)) jobs.push(job);
+    }
+
+    for (const candidate of jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+      const job = await this.withLock(candidate.id, async () => {
+        // Re-read under the lock: another process may have claimed it since
+        const current = await this.get(candidate.id);
+        const claimed = current && claimOldest([current], types, now, leaseUntil);
+        if (claimed) await this.save(claimed);
+        return claimed;
+      });
+      if (job) return job;
+    }
+    return null;
+  }
+
+  /**
+   * Runs `fn` holding the job's lock. Returns null without running it if
+   * another process holds the lock.
+   */
+  private async withLock(id: string, fn: () => Promise<Job | null>): Promise<Job | null> {
+    const lock = this.file(id).replace(/\.json$/, ".lock");
+    try {
+      await fs.writeFile(lock, String(process.pid), { flag: "wx" });
+    } catch (err: any) {
+      if (err?.code !== "EEXIST") throw err;
+      const stat = await fs.stat(lock).catch(() => null);
+      if (!stat || Date.now() - stat.mtimeMs < LOCK_STALE_MS) return null;
+      logger.warn("JOB_LOCK_STALE", { jobId: id });
+      await fs.rm(lock, { force: true });
+      return this.withLock(id, fn);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lock, { force: true });
+    }
+  }
+}
+
+function createJobStore(): JobStore {
+  if (config.jobStore === "file") return new FileJobStore(config.jobStoreDir, config.jobStoreSingleServer);
+  return new MemoryJobStore();
+}
+
+let store: JobStore | null = null;
+
+function getJobStore(): JobStore {
+  if (!store) store = createJobStore();
+  return store;
+}
+
+/**
+ * Replaces the store, e.g. with a database-backed one shared by instances.
+ */
+export function setJobStore(next: JobStore): void {
+  store = next;
+}
+
+/**
+ * Whether queued jobs survive the instance that queued them (JobStore.durable).
+ */
+export function jobStoreDurable(): boolean {
+  return getJobStore().durable;
+}
+
+/**
+ * Whether the route may answer ?async=1: only with a durable store, since a
+ * job held in memory is lost when the instance that queued it stops.
+ */
+export function checkAsyncJobs(): { ok: true } | { ok: false; status: number; error: string } {
+  if (jobStoreDurable()) return { ok: true };
+  return {
+    ok: false,
+    status: 400,
+    error:
+      "Async jobs are not available: JOB_STORE is not durable (set JOB_STORE=file and JOB_STORE_SINGLE_SERVER=true on a single server, or a shared store)",
+  };
+}
+
+// =============================================================================
+// QUEUE
+// =============================================================================
+
+const definitions = new Map<string, JobDefinition<any>>();
+
+/**
+ * Registers a job type. Call at module load of the module that owns the steps.
+ */
+export function defineJob<TInput>(definition: JobDefinition<TInput>): JobDefinition<TInput> {
+  definitions.set(definition.type, definition);
+  return definition;
+}
+
+/**
+ * Returns true if the request asks to run as a job via `?async=1` or
+ * `"async": true` in the body.
+ */
+export function isAsyncRequest(req: Request, body?: unknown): boolean {
+  try {
+    if (isTruthyFlag(new URL(req.url).searchParams.get("async"))) return true;
+  } catch {
+    // Relative or malformed URL: fall through to the body flag
+  }
+
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    return isTruthyFlag((body as Record<string, unknown>).async);
+  }
+  return false;
+}
+
+/**
+ * Stores a queued job and starts the worker. Returns the job as stored.
+ */
+export async function enqueueJob<TInput>(
+  definition: JobDefinition<TInput>,
+  input: TInput,
+  keyName: string
+): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: `job_${randomUUID().replace(/-/g, "")}`,
+    type: definition.type,
+    status: "queued",
+    scope: definition.scope,
+    keyName,
+    traceId: getLogContext().traceId,
+    input,
+    state: {},
+    steps: definition.steps.map((step) => ({ name: step.name, status: "pending", attempts: 0 })),
+    warnings: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getJobStore().create(job);
+  logger.info("JOB_ENQUEUED", { jobId: job.id, type: job.type });
+
+  startWorker();
+  return job;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  return getJobStore().get(id);
+}
+
+/**
+ * The job as returned by GET /api/jobs/:id. Input and step state are left
+ * out: they can hold the full document content.
+ */
+export function jobView(job: Job) {
+  return {
+    jobId: job.id,
+    type: job.type,
+    status: job.status,
+    traceId: job.traceId ?? null,
+    steps: job.steps,
+    result: job.result,
+    error: job.error,
+    warnings: job.warnings,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Absolute URL of a job's status route, on the host the request came in on.
+ */
+export function jobStatusUrl(req: Request, jobId: string): string {
+  return new URL(`/api/jobs/${jobId}`, req.url).toString();
+}
+
+// =============================================================================
+// WORKER
+// =============================================================================
+
+export interface WorkerOptions {
+  store?: JobStore;
+  /** Base delay before the first retry of a step; doubles per attempt (default 1000) */
+  retryDelayMs?: number;
+  /** How long a running job is reserved for this worker (default 10 minutes) */
+  leaseMs?: number;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+
+let draining: Promise<number> | null = null;
+
+/**
+ * Starts draining in the background unless this process already is. The
+ * drain is handed to waitUntil(), which keeps the calling Vercel function
+ * running after its response until the drain ends; elsewhere it is a no-op.
+ */
+export function startWorker(): void {
+  if (!draining) {
+    // Own context: the jobs drained here aren't part of the request that started the worker
+    draining = runWithLogContext({ route: "jobs/worker" }, () => drainJobs())
+      .catch((err: any) => {
+        logger.error("JOB_WORKER_ERROR", { error: err?.message ?? String(err) });
+        return 0;
+      })
+      .finally(() => {
+        draining = null;
+      });
+  }
+  waitUntil(draining);
+}
+
+/**
+ * Runs runnable jobs of every registered type one at a time until none are
+ * left. Returns how many jobs it ran.
+ */
+export async function drainJobs(options: WorkerOptions = {}): Promise<number> {
+  const jobStore = options.store ?? getJobStore();
+  const leaseMs = options.leaseMs ?? 10 * 60_000;
+  let ran = 0;
+
+  for (;;) {
+    const now = Date.now();
+    const job = await jobStore.claim([...definitions.keys()], now, now + leaseMs);
+    if (!job) return ran;
+
+    await runJob(job, definitions.get(job.type)!, { ...options, store: jobStore });
+    ran++;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs the job's unfinished steps in order, saving after every attempt.
+ * Logs carry the job's trace ID, type and API key.
+ */
+export async function runJob<TInput>(
+  job: Job,
+  definition: JobDefinition<TInput>,
+  options: WorkerOptions = {}
+): Promise<Job> {
+  return runWithLogContext(
+    { traceId: job.traceId ?? job.id, route: `job:${job.type}`, keyName: job.keyName, jobId: job.id },
+    () => runSteps(job, definition, options)
+  );
+}
+
+async function runSteps<TInput>(
+  job: Job,
+  definition: JobDefinition<TInput>,
+  options: WorkerOptions
+): Promise<Job> {
+  const jobStore = options.store ?? getJobStore();
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  const ctx: JobContext<TInput> = { job, input: job.input as TInput, state: job.state };
+
+  const save = async () => {
+    job.updatedAt = new Date().toISOString();
+    await jobStore.save(job);
+  };
+
+  job.status = "running";
+  logger.info("JOB_STARTED", { jobId: job.id, type: job.type });
+
+  for (const definitionStep of definition.steps) {
+    const step = job.steps.find((s) => s.name === definitionStep.name)!;
+    if (step.status === "succeeded" || step.status === "skipped") continue;
+
+    if (definitionStep.skip?.(ctx)) {
+      step.status = "skipped";
+      await save();
+      continue;
+    }
+
+    const attempts = definitionStep.attempts ?? DEFAULT_ATTEMPTS;
+    step.status = "running";
+    step.startedAt ??= new Date().toISOString();
+
+    while (step.status === "running") {
+      // Attempts are saved as they start, so one cut short by a dead instance counts
+      if (step.attempts >= attempts) {
+        step.error ??= "Interrupted";
+        step.status = "failed";
+        break;
+      }
+      step.attempts++;
+      await save();
+      try {
+        job.state[step.name] = (await definitionStep.run(ctx)) ?? null;
+        step.status = "succeeded";
+        delete step.error;
+      } catch (err: any) {
+        step.error = err?.message ?? String(err);
+        logger.warn("JOB_STEP_FAILED", { jobId: job.id, step: step.name, attempt: step.attempts, error: step.error });
+
+        if (step.attempts >= attempts || err instanceof PermanentJobError) {
+          step.status = "failed";
+        } else {
+          await save();
+          await sleep(retryDelayMs * 2 ** (step.attempts - 1));
+        }
+      }
+    }
+
+    step.finishedAt = new Date().toISOString();
+
+    if (step.status === "failed") {
+      if (definitionStep.optional) {
+        job.warnings.push(`${step.name}: ${step.error}`);
+      } else {
+        job.status = "failed";
+        job.error = `${step.name}: ${step.error}`;
+        delete job.leaseUntil;
+        await save();
+        logger.error("JOB_FAILED", { jobId: job.id, type: job.type, step: step.name, error: step.error });
+        await settle(job, definition);
+        return job;
+      }
+    }
+
+    await save();
+  }
+
+  job.result = definition.result(ctx);
+  job.status = "succeeded";
+  delete job.leaseUntil;
+  await save();
+  logger.info("JOB_SUCCEEDED", { jobId: job.id, type: job.type, warnings: job.warnings.length });
+  await settle(job, definition);
+  return job;
+}
+
+async function settle<TInput>(job: Job, definition: JobDefinition<TInput>): Promise<void> {
+  if (!definition.onSettled) return;
+  try {
+    await definition.onSettled(job);
+  } catch (err: any) {
+    logger.error("JOB_SETTLED_HOOK_ERROR", { jobId: job.id, type: job.type, error: err?.message ?? String(err) });
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for logger.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getLogContext, logger, redact, runWithLogContext, setLogContext, setLogLevel, withRequestContext } from "./logger";
+
+afterEach(() => {
+  setLogLevel("info");
+  vi.restoreAllMocks();
+});
+
+function captureLog() {
+  const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+  return () => spy.mock.calls.map(([line]) => JSON.parse(line as string));
+}
+
+describe("redact", () => {
+  it("replaces secrets and reduces message content to its length", () => {
+    expect(
+      redact({
+        apiKey: "pat123",
+        "x-hive-secret": "s3cret",
+        Authorization: "Bearer abc",
+        emptyToken: "",
+        bodyText: "Hello there",
+        "Raw Payload": { from: "a@b.com" },
+        subject: "Kickoff",
+      })
+    ).toEqual({
+      apiKey: "[redacted]",
+      "x-hive-secret": "[redacted]",
+      Authorization: "[redacted]",
+      emptyToken: "",
+      bodyText: "[redacted: 11 chars]",
+      "Raw Payload": "[redacted]",
+      subject: "Kickoff",
+    });
+  });
+
+  it("applies rules at any depth and truncates long strings", () => {
+    const out = redact({ fields: { Notes: "x".repeat(20), Name: "y".repeat(600) }, items: [{ password: "p" }] });
+    expect(out).toEqual({
+      fields: { Notes: "[redacted: 20 chars]", Name: `${"y".repeat(500)}...[+100 chars]` },
+      items: [{ password: "[redacted]" }],
+    });
+  });
+
+  it("reduces errors to name and message", () => {
+    expect(redact({ error: new TypeError("bad") })).toEqual({ error: { name: "TypeError", message: "bad" } });
+  });
+});
+
+describe("logger", () => {
+  it("writes one JSON line with the event and redacted fields", () => {
+    const lines = captureLog();
+    logger.info("TEST_EVENT", { count: 2, token: "abc" });
+
+    expect(lines()).toEqual([
+      expect.objectContaining({ level: "info", event: "TEST_EVENT", count: 2, token: "[redacted]" }),
+    ]);
+  });
+
+  it("drops entries below LOG_LEVEL", () => {
+    const lines = captureLog();
+    logger.debug("HIDDEN");
+    setLogLevel("debug");
+    logger.debug("SHOWN");
+
+    expect(lines().map((entry) => entry.event)).toEqual(["SHOWN"]);
+  });
+
+  it("routes warn and error to the matching console method", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    logger.warn("W");
+    logger.error("E");
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("log context", () => {
+  it("carries the request context through awaited and unawaited work", async () => {
+    const lines = captureLog();
+    const handler = withRequestContext("/api/test", async (_req: Request) => {
+      setLogContext({ keyName: "automation" });
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      logger.info("INSIDE", { traceId: undefined });
+      return Response.json(getLogContext());
+    });
+
+    const res = await handler(new Request("https://example.com"));
+    const context = await res.json();
+    logger.info("OUTSIDE");
+
+    expect(context.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(res.headers.get("x-trace-id")).toBe(context.traceId);
+    const [inside, outside] = lines();
+    expect(inside).toMatchObject({ event: "INSIDE", route: "/api/test", keyName: "automation", traceId: context.traceId });
+    expect(outside.traceId).toBeUndefined();
+  });
+
+  it("uses the caller's trace ID", async () => {
+    const handler = withRequestContext("/api/test", async (_req: Request) => Response.json(getLogContext()));
+    const res = await handler(new Request("https://example.com", { headers: { "x-trace-id": "gmail-addon-1234" } }));
+
+    expect((await res.json()).traceId).toBe("gmail-addon-1234");
+    expect(res.headers.get("x-trace-id")).toBe("gmail-addon-1234");
+  });
+
+  it("keeps concurrent contexts apart", async () => {
+    const seen = await Promise.all(
+      ["a", "b"].map((traceId) =>
+        runWithLogContext({ traceId }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, traceId === "a" ? 5 : 0));
+          return getLogContext().traceId;
+        })
+      )
+    );
+    expect(seen).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Structured logging.
+ *
+ * Every entry is one JSON line: time, level, event (UPPER_SNAKE), the
+ * request context, then the entry's own fields:
+ *
+ *   {"time":"...","level":"info","event":"AUTH_OK","traceId":"4bf92f3577b34da6a3ce929d0e0e4736","route":"/api/inbox/email","keyName":"inbox-email","scope":"inbox:email"}
+ *
+ * The context (traceId, route, keyName, jobId) is held in AsyncLocalStorage,
+ * so helpers deep in lib/ log with the request's trace ID without it being
+ * passed down. Route handlers are wrapped in withRequestContext(), which
+ * takes the trace ID from the request (./trace) and returns it in the
+ * x-trace-id response header; authentication adds the key name, jobs run in
+ * their own context with the trace ID of the request that queued them.
+ *
+ * Fields are redacted before output (REDACTION_RULES): secrets are replaced,
+ * message content (email bodies, Raw Payload, document content) is reduced
+ * to its length, and other long strings are cut off.
+ *
+ * LOG_LEVEL sets the lowest level written: debug, info (default), warn or
+ * error. lib/config.ts applies it with setLogLevel(), since config itself
+ * logs through this module.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { observeRequest } from "./metrics";
+import { resolveTraceId, TRACE_HEADER } from "./trace";
+
+// =============================================================================
+// LEVELS
+// =============================================================================
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+let minLevel: LogLevel = "info";
+
+export function setLogLevel(level: LogLevel): void {
+  minLevel = level;
+}
+
+function levelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+export interface LogContext {
+  traceId?: string;
+  route?: string;
+  /** Name of the authenticated API key (never the key itself) */
+  keyName?: string;
+  jobId?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs `fn` with `context` as the log context of everything it calls,
+ * including work it starts without awaiting.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...context }, fn);
+}
+
+/**
+ * Adds to the current context, e.g. the API key once authenticated. No-op
+ * outside a context.
+ */
+export function setLogContext(fields: Partial<LogContext>): void {
+  const current = storage.getStore();
+  if (current) Object.assign(current, fields);
+}
+
+export function getLogContext(): LogContext {
+  return storage.getStore() ?? {};
+}
+
+/**
+ * Trace ID of the current request or job; undefined outside a context.
+ */
+export function currentTraceId(): string | undefined {
+  return storage.getStore()?.traceId;
+}
+
+/**
+ * Wraps a route handler so each request runs in its own log context, under
+ * the caller's trace ID or a new one, and answers with it in x-trace-id.
+ * Also counts and times the request for ./metrics (a throw counts as 500).
+ */
+export function withRequestContext<A extends unknown[], R extends Response>(
+  route: string,
+  handler: (req: Request, ...rest: A) => Promise<R>
+): (req: Request, ...rest: A) => Promise<R> {
+  return (req, ...rest) => {
+    const traceId = resolveTraceId(req);
+    const start = performance.now();
+    return runWithLogContext({ traceId, route }, async () => {
+      let status = 500;
+      try {
+        const response = await handler(req, ...rest);
+        status = response.status;
+        response.headers.set(TRACE_HEADER, traceId);
+        return response;
+      } finally {
+        observeRequest(route, req.method, status, (performance.now() - start) / 1000);
+      }
+    });
+  };
+}
+
+// =============================================================================
+// REDACTION
+// =============================================================================
+
+export interface RedactionRule {
+  /** Matched against field names with spaces, "_" and "-" removed, lowercased */
+  pattern: RegExp;
+  /** "secret": replaced outright; "content": replaced by its length */
+  mode: "secret" | "content";
+}
+
+export const REDACTION_RULES: RedactionRule[] = [
+  { pattern: /secret|token|password|authorization|apikey|privatekey|signature|cookie/, mode: "secret" },
+  {
+    pattern: /^(body|bodytext|emailbody|rawpayload|snippet|content|html|notes|sourcenotes|sourcetext|polishnotes)$/,
+    mode: "content",
+  },
+];
+
+const MAX_STRING = 500;
+const MAX_DEPTH = 6;
+
+function ruleFor(key: string): RedactionRule | undefined {
+  const normalized = key.replace(/[\s_-]/g, "").toLowerCase();
+  return REDACTION_RULES.find((rule) => rule.pattern.test(normalized));
+}
+
+function contentSize(value: unknown): string {
+  if (typeof value === "string") return `[redacted: ${value.length} chars]`;
+  if (value === null || value === undefined) return String(value);
+  return "[redacted]";
+}
+
+/**
+ * Copy of `value` with REDACTION_RULES applied to every nested field and
+ * long strings truncated. Errors become { name, message }.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}...[+${value.length - MAX_STRING} chars]` : value;
+  }
+  if (value instanceof Error) return { name: value.name, message: redact(value.message, depth + 1) };
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[nested]";
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  if (value instanceof Date) return value.toISOString();
+
+  const out: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const rule = ruleFor(key);
+    if (rule?.mode === "secret") out[key] = field ? "[redacted]" : field;
+    else if (rule?.mode === "content") out[key] = contentSize(field);
+    else out[key] = redact(field, depth + 1);
+  }
+  return out;
+}
+
+// =============================================================================
+// LOGGER
+// =============================================================================
+
+function write(level: LogLevel, event: string, fields?: LogFields): void {
+  if (!levelEnabled(level)) return;
+
+  const entry: LogFields = { time: new Date().toISOString(), level, event, ...storage.getStore() };
+  // An undefined field (e.g. an unset traceId option) doesn't hide the context's value
+  for (const [key, value] of Object.entries(fields ? (redact(fields) as LogFields) : {})) {
+    if (value !== undefined) entry[key] = value;
+  }
+  const line = JSON.stringify(entry);
+
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+export const logger = {
+  debug: (event: string, fields?: LogFields) => write("debug", event, fields),
+  info: (event: string, fields?: LogFields) => write("info", event, fields),
+  warn: (event: string, fields?: LogFields) => write("warn", event, fields),
+  error: (event: string, fields?: LogFields) => write("error", event, fields),
+};
@@ -0,0 +1,96 @@
+/**
+ * Tests for metrics.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  metricsSnapshot,
+  observeRequest,
+  recordTokenUsage,
+  renderPrometheus,
+  resetMetrics,
+  trackCall,
+  type HistogramSnapshot,
+} from "./metrics";
+import { withRequestContext } from "./logger";
+
+beforeEach(() => {
+  resetMetrics();
+});
+
+function metric(name: string) {
+  return metricsSnapshot().find((m) => m.name === name)!;
+}
+
+describe("trackCall", () => {
+  it("counts ok, failed and thrown calls and passes results through", async () => {
+    const ok = await trackCall("apps_script", "generate-doc", async () => new Response("{}", { status: 200 }), (r) => !r.ok);
+    await trackCall("apps_script", "generate-doc", async () => new Response("", { status: 502 }), (r) => !r.ok);
+    await expect(
+      trackCall("google", "docs.batchUpdate", async () => {
+        throw new Error("quota");
+      })
+    ).rejects.toThrow("quota");
+
+    expect(ok.status).toBe(200);
+    expect(metric("downstream_calls_total").series).toEqual([
+      { labels: { service: "apps_script", operation: "generate-doc", outcome: "ok" }, value: 1 },
+      { labels: { service: "apps_script", operation: "generate-doc", outcome: "error" }, value: 1 },
+      { labels: { service: "google", operation: "docs.batchUpdate", outcome: "error" }, value: 1 },
+    ]);
+    const durations = metric("downstream_call_duration_seconds") as HistogramSnapshot;
+    expect(durations.series[0]).toMatchObject({ labels: { service: "apps_script", operation: "generate-doc" }, count: 2 });
+  });
+});
+
+describe("request metrics", () => {
+  it("counts wrapped routes by status, including handlers that throw", async () => {
+    const ok = withRequestContext("/api/test", async (_req: Request) => Response.json({ ok: true }, { status: 201 }));
+    const broken = withRequestContext("/api/test", async (_req: Request): Promise<Response> => {
+      throw new Error("boom");
+    });
+
+    await ok(new Request("https://example.com", { method: "POST" }));
+    await expect(broken(new Request("https://example.com", { method: "POST" }))).rejects.toThrow("boom");
+
+    expect(metric("http_requests_total").series).toEqual([
+      { labels: { route: "/api/test", method: "POST", status: "201" }, value: 1 },
+      { labels: { route: "/api/test", method: "POST", status: "500" }, value: 1 },
+    ]);
+  });
+
+  it("fills cumulative histogram buckets", () => {
+    observeRequest("/api/generate-doc", "POST", 200, 0.2);
+    observeRequest("/api/generate-doc", "POST", 200, 12);
+
+    const [series] = (metric("http_request_duration_seconds") as HistogramSnapshot).series;
+    expect(series.count).toBe(2);
+    expect(series.mean).toBeCloseTo(6.1);
+    const bucket = (le: string) => series.buckets.find((b) => b.le === le)!.count;
+    expect([bucket("0.1"), bucket("0.25"), bucket("10"), bucket("30"), bucket("+Inf")]).toEqual([0, 1, 1, 2, 2]);
+  });
+});
+
+describe("renderPrometheus", () => {
+  it("writes HELP / TYPE lines, escaped labels, buckets, sum and count", () => {
+    observeRequest("/api/ping", "GET", 200, 0.01);
+    recordTokenUsage("gpt-4o", { prompt_tokens: 120, completion_tokens: 30 });
+    recordTokenUsage("gpt-4o", { prompt_tokens: 80 });
+    observeRequest('/api/"odd"', "GET", 404, 0.01);
+
+    const text = renderPrometheus();
+
+    expect(text).toContain("# TYPE http_requests_total counter");
+    expect(text).toContain('http_requests_total{route="/api/ping",method="GET",status="200"} 1');
+    expect(text).toContain('http_requests_total{route="/api/\\"odd\\"",method="GET",status="404"} 1');
+    expect(text).toContain("# TYPE http_request_duration_seconds histogram");
+    expect(text).toContain('http_request_duration_seconds_bucket{route="/api/ping",method="GET",le="0.05"} 1');
+    expect(text).toContain('http_request_duration_seconds_bucket{route="/api/ping",method="GET",le="+Inf"} 1');
+    expect(text).toContain('http_request_duration_seconds_count{route="/api/ping",method="GET"} 1');
+    expect(text).toContain('openai_tokens_total{model="gpt-4o",kind="prompt"} 200');
+    expect(text).toContain('openai_tokens_total{model="gpt-4o",kind="completion"} 30');
+    expect(text.endsWith("\n")).toBe(true);
+  });
+});
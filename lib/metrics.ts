@@ -0,0 +1,251 @@
+/**
+ * In-process metrics, served by GET /api/metrics as Prometheus text or JSON.
+ *
+ *   http_requests_total{route,method,status}
+ *   http_request_duration_seconds{route,method}           histogram
+ *   downstream_calls_total{service,operation,outcome}      outcome: ok | error
+ *   downstream_call_duration_seconds{service,operation}    histogram
+ *   openai_tokens_total{model,kind}                        kind: prompt | completion
+ *
+ * Requests are counted by withRequestContext() (./logger). Downstream calls
+ * are counted where they are made, through trackCall(): Airtable per HTTP
+ * attempt (operation = HTTP method, so retried 429s show up as errors),
+ * OpenAI, Apps Script (operation = the calling route, e.g. generate-doc) and
+ * the Google Docs / Drive APIs. Outcomes are per HTTP status: an Apps Script
+ * reply of 200 with { ok: false } counts as ok.
+ *
+ * Values belong to this process and start at zero when it starts, like any
+ * Prometheus client: each instance is scraped on its own.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Labels = Record<string, string>;
+
+export type DownstreamService = "airtable" | "openai" | "apps_script" | "google";
+
+/** Seconds; Apps Script calls routinely take tens of seconds */
+export const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+export interface CounterSnapshot {
+  name: string;
+  type: "counter";
+  help: string;
+  series: { labels: Labels; value: number }[];
+}
+
+export interface HistogramSnapshot {
+  name: string;
+  type: "histogram";
+  help: string;
+  series: {
+    labels: Labels;
+    count: number;
+    sum: number;
+    /** sum / count, in seconds */
+    mean: number;
+    /** Cumulative count per upper bound `le`, "+Inf" last */
+    buckets: { le: string; count: number }[];
+  }[];
+}
+
+export type MetricSnapshot = CounterSnapshot | HistogramSnapshot;
+
+// =============================================================================
+// METRIC TYPES
+// =============================================================================
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+class Counter {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels, by = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.series.set(key, entry);
+  }
+
+  snapshot(): CounterSnapshot {
+    return {
+      name: this.name,
+      type: "counter",
+      help: this.help,
+      series: [...this.series.values()].map(({ labels, value }) => ({ labels: { ...labels }, value })),
+    };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+class Histogram {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly bounds: number[] = DURATION_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  snapshot(): HistogramSnapshot {
+    return {
+      name: this.name,
+      type: "histogram",
+      help: this.help,
+      series: [...this.series.values()].map(({ labels, counts, sum, count }) => ({
+        labels: { ...labels },
+        count,
+        sum,
+        mean: count ? sum / count : 0,
+        buckets: [
+          ...this.bounds.map((bound, i) => ({ le: String(bound), count: counts[i] })),
+          { le: "+Inf", count },
+        ],
+      })),
+    };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const httpRequests = new Counter("http_requests_total", "API requests by route, method and response status");
+const httpDuration = new Histogram("http_request_duration_seconds", "API request duration by route and method");
+const downstreamCalls = new Counter(
+  "downstream_calls_total",
+  "Calls to Airtable, OpenAI, Apps Script and Google APIs by outcome"
+);
+const downstreamDuration = new Histogram(
+  "downstream_call_duration_seconds",
+  "Duration of calls to Airtable, OpenAI, Apps Script and Google APIs"
+);
+const openaiTokens = new Counter("openai_tokens_total", "OpenAI tokens used, by model and kind (prompt, completion)");
+
+const METRICS: (Counter | Histogram)[] = [httpRequests, httpDuration, downstreamCalls, downstreamDuration, openaiTokens];
+
+/**
+ * Clears every series (tests).
+ */
+export function resetMetrics(): void {
+  for (const metric of METRICS) metric.reset();
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+function secondsSince(start: number): number {
+  return (performance.now() - start) / 1000;
+}
+
+/**
+ * Counts one API request. Called by withRequestContext() (./logger).
+ */
+export function observeRequest(route: string, method: string, status: number, seconds: number): void {
+  httpRequests.inc({ route, method, status: String(status) });
+  httpDuration.observe({ route, method }, seconds);
+}
+
+/**
+ * Runs `call`, counting it and timing it under `service` and `operation`.
+ * The outcome is "error" if it throws or `failed(result)` is true (e.g. a
+ * non-2xx fetch Response). The result or error is passed through unchanged.
+ */
+export async function trackCall<T>(
+  service: DownstreamService,
+  operation: string,
+  call: () => Promise<T>,
+  failed: (result: T) => boolean = () => false
+): Promise<T> {
+  const start = performance.now();
+  let outcome = "error";
+  try {
+    const result = await call();
+    if (!failed(result)) outcome = "ok";
+    return result;
+  } finally {
+    downstreamCalls.inc({ service, operation, outcome });
+    downstreamDuration.observe({ service, operation }, secondsSince(start));
+  }
+}
+
+/**
+ * Adds the `usage` block of an OpenAI response to openai_tokens_total.
+ */
+export function recordTokenUsage(
+  model: string,
+  usage: { prompt_tokens?: number; completion_tokens?: number } | undefined
+): void {
+  if (usage?.prompt_tokens) openaiTokens.inc({ model, kind: "prompt" }, usage.prompt_tokens);
+  if (usage?.completion_tokens) openaiTokens.inc({ model, kind: "completion" }, usage.completion_tokens);
+}
+
+// =============================================================================
+// EXPOSITION
+// =============================================================================
+
+export function metricsSnapshot(): MetricSnapshot[] {
+  return METRICS.map((metric) => metric.snapshot());
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelText(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Every metric in the Prometheus text exposition format (version 0.0.4).
+ */
+export function renderPrometheus(snapshot: MetricSnapshot[] = metricsSnapshot()): string {
+  const lines: string[] = [];
+
+  for (const metric of snapshot) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+
+    if (metric.type === "counter") {
+      for (const { labels, value } of metric.series) lines.push(`${metric.name}${labelText(labels)} ${value}`);
+      continue;
+    }
+
+    for (const { labels, count, sum, buckets } of metric.series) {
+      for (const bucket of buckets) {
+        lines.push(`${metric.name}_bucket${labelText({ ...labels, le: bucket.le })} ${bucket.count}`);
+      }
+      lines.push(`${metric.name}_sum${labelText(labels)} ${sum}`, `${metric.name}_count${labelText(labels)} ${count}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
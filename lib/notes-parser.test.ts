@@ -0,0 +1,86 @@
+/**
+ * Tests for notes-parser.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseMeetingNotes, toInboxItems } from "./notes-parser";
+
+// Wednesday 2025-01-29, 10:00 in Los Angeles
+const dates = { reference: new Date("2025-01-29T18:00:00Z") };
+
+const NOTES = `# Website sync — Jan 29
+
+Attendees: Jane, Sam
+
+- Walked through the homepage wireframes
+- Action: @jane send revised wireframes by Friday
+- [ ] Update the sitemap (owner: Sam Lee)
+- [x] Book the kickoff room
+* **Decision:** Go with the blue palette
+
+## Risks
+- CMS migration may slip past launch
+- Vendor contract not signed
+
+## Notes
+- Next sync is Tuesday
+`;
+
+describe("parseMeetingNotes", () => {
+  const items = parseMeetingNotes(NOTES, dates);
+
+  it("extracts explicit markers and section bullets only", () => {
+    expect(items.map((i) => [i.item_type, i.title, i.confidence])).toEqual([
+      ["task", "Send revised wireframes", 0.9],
+      ["task", "Update the sitemap", 0.9],
+      ["decision", "Go with the blue palette", 0.9],
+      ["risk", "CMS migration may slip past launch", 0.7],
+      ["risk", "Vendor contract not signed", 0.7],
+    ]);
+  });
+
+  it("pulls owners and due date phrases out of the title", () => {
+    expect(items[0]).toMatchObject({ owner: "jane", due_date: "Friday", line: 6, method: "rule" });
+    expect(items[1]).toMatchObject({ owner: "Sam Lee" });
+    expect(items[1].due_date).toBeUndefined();
+  });
+
+  it("keeps 'by' phrases that are not dates in the title", () => {
+    const [item] = parseMeetingNotes("TODO: get sign-off by legal before Feb 14th", dates);
+    expect(item).toMatchObject({ title: "Get sign-off by legal", due_date: "Feb 14th" });
+  });
+
+  it("accepts bold and colon headings and other prefixes", () => {
+    const found = parseMeetingNotes(
+      "**Open Questions**\n- Who owns analytics?\nAction items:\n1. Draft the SOW due EOW\nQ: Budget approved?",
+      dates
+    );
+    expect(found.map((i) => [i.item_type, i.title, i.due_date])).toEqual([
+      ["question", "Who owns analytics?", undefined],
+      ["task", "Draft the SOW", "EOW"],
+      ["question", "Budget approved?", undefined],
+    ]);
+  });
+});
+
+describe("toInboxItems", () => {
+  it("applies defaults and the notes source", () => {
+    const [item] = toInboxItems(parseMeetingNotes("Action: @jane send deck by Friday", dates), {
+      project: "Website",
+      client: "Acme",
+    });
+    expect(item).toMatchObject({
+      item_type: "task",
+      title: "Send deck",
+      description: "@jane send deck by Friday",
+      owner: "jane",
+      due_date: "Friday",
+      project: "Website",
+      client: "Acme",
+      source: "notes",
+      confidence: 0.9,
+    });
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Rule-based extraction of inbox items from raw meeting notes (text or markdown)
+ * for /api/pm-intake/notes.
+ *
+ * A line becomes an item when it has an explicit marker:
+ *   "Action:", "Action item:", "AI:", "TODO:", "Task:", "Follow up:"  -> task
+ *   "[ ] ..." checkbox (checked "[x]" boxes are skipped)             -> task
+ *   "Decision:", "Decided:", "Agreed:"                                -> decision
+ *   "Risk:", "Blocker:"                                               -> risk
+ *   "Issue:"                                                          -> issue
+ *   "Question:", "Q:"                                                 -> question
+ * or when it is a bullet under a matching section heading
+ * ("## Action Items", "Decisions:", "**Risks**", ...).
+ *
+ * Explicit markers get confidence 0.9, section bullets 0.7 and items added by
+ * the optional LLM pass 0.6. Within an item, "@owner" / "Owner: Name" set the
+ * owner and "by <date>" / "due <date>" set the due date (resolved later by
+ * date-normalize.ts).
+ */
+
+import { z } from "zod";
+import { chatJson } from "./openai";
+import { normalizeDate, type DateContext } from "./date-normalize";
+
+export type ExtractedItemType = "task" | "decision" | "risk" | "issue" | "question";
+
+export interface ExtractedItem {
+  item_type: ExtractedItemType;
+  title: string;
+  owner?: string;
+  /** Due date phrase as written ("Friday", "2/14") */
+  due_date?: string;
+  confidence: number;
+  method: "rule" | "llm";
+  /** 1-based line in the notes, for rule matches */
+  line?: number;
+  /** The source line with list markup removed */
+  text?: string;
+}
+
+export interface NotesItemDefaults {
+  project?: string;
+  client?: string;
+  program?: string;
+  workstream?: string;
+  source?: string;
+}
+
+const EXPLICIT_CONFIDENCE = 0.9;
+const SECTION_CONFIDENCE = 0.7;
+const LLM_CONFIDENCE = 0.6;
+
+// Longest date phrase tried after "by" / "due" ("end of the week")
+const MAX_DATE_WORDS = 4;
+
+const PREFIXES: [RegExp, ExtractedItemType][] = [
+  [/^(?:action(?:\s+item)?|ai|todo|to-do|task|follow[- ]?up)\s*[:–—-]\s*/i, "task"],
+  [/^(?:decision|decided|agreed)\s*[:–—-]\s*/i, "decision"],
+  [/^(?:risk|blocker)\s*[:–—-]\s*/i, "risk"],
+  [/^issue\s*[:–—-]\s*/i, "issue"],
+  [/^(?:open\s+question|question|q)\s*[:–—-]\s*/i, "question"],
+];
+
+const SECTIONS: [RegExp, ExtractedItemType][] = [
+  [/^(?:action\s+items?|actions?|next\s+steps|to-?dos?|tasks?|follow[- ]?ups?)$/, "task"],
+  [/^(?:decisions?(?:\s+made)?|key\s+decisions)$/, "decision"],
+  [/^(?:risks?|blockers?|risks?\s+(?:and|&)\s+blockers?)$/, "risk"],
+  [/^issues?$/, "issue"],
+  [/^(?:open\s+)?questions?$/, "question"],
+];
+
+// =============================================================================
+// LINE HELPERS
+// =============================================================================
+
+/**
+ * Returns the section type for a heading line, null for a heading that starts
+ * an unrelated section, or undefined when the line is not a heading.
+ */
+function parseHeading(line: string): ExtractedItemType | null | undefined {
+  let heading: string | null = null;
+
+  const markdown = line.match(/^#{1,6}\s+(.+)$/);
+  const bold = line.match(/^(?:\*\*|__)(.+?)(?:\*\*|__):?$/);
+  const colon = line.match(/^([A-Za-z][A-Za-z &/-]{0,40}):$/);
+
+  if (markdown) heading = markdown[1];
+  else if (bold) heading = bold[1];
+  else if (colon) heading = colon[1];
+  if (heading === null) return undefined;
+
+  const normalized = heading
+    .replace(/[*_:]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+  for (const [pattern, type] of SECTIONS) {
+    if (pattern.test(normalized)) return type;
+  }
+  return null;
+}
+
+function extractOwner(text: string): { owner?: string; rest: string } {
+  const labeled = text.match(/\(?\b(?:owner|assignee|assigned\s+to)\s*[:–-]?\s*([^,;()]+?)\)?(?=\s*(?:[,;.]|$))/i);
+  if (labeled) {
+    return { owner: labeled[1].trim(), rest: text.replace(labeled[0], " ") };
+  }
+
+  const mention = text.match(/(?:^|\s)@([A-Za-z0-9][\w.'-]*[\w])/);
+  if (mention) {
+    return { owner: mention[1], rest: text.replace(mention[0], " ") };
+  }
+
+  return { rest: text };
+}
+
+function extractDueDate(text: string, dates: DateContext): { due_date?: string; rest: string } {
+  // Lookahead so "by legal before Feb 14" still tries "before Feb 14"
+  const pattern = /\b(?:by|due(?:\s+(?:on|by))?|before)\s+(?=([^,;()@]+))/gi;
+
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const words = match[1].trim().replace(/[.!?]+$/, "").split(/\s+/);
+
+    // Try the longest leading phrase that parses: "Friday to unblock launch" -> "Friday"
+    for (let n = Math.min(words.length, MAX_DATE_WORDS); n > 0; n--) {
+      const phrase = words.slice(0, n).join(" ");
+      if (normalizeDate(phrase, dates).ok) {
+        return { due_date: phrase, rest: text.replace(`${match[0]}${phrase}`, " ") };
+      }
+    }
+  }
+
+  return { rest: text };
+}
+
+function cleanTitle(text: string): string {
+  const cleaned = text
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.;:!?])/g, "$1")
+    .replace(/^[\s,;:–—-]+|[\s,;:–—-]+$/g, "")
+    .trim();
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+}
+
+function titleKey(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+// =============================================================================
+// RULE-BASED EXTRACTION
+// =============================================================================
+
+/**
+ * Extracts tasks, decisions, risks, issues and questions from meeting notes.
+ */
+export function parseMeetingNotes(notes: string, dates: DateContext = {}): ExtractedItem[] {
+  const items: ExtractedItem[] = [];
+  let section: ExtractedItemType | null = null;
+
+  notes.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const heading = parseHeading(line);
+    if (heading !== undefined) {
+      section = heading;
+      return;
+    }
+
+    // Strip list markup: "- ", "* ", "1. ", then emphasis around markers
+    const bullet = line.match(/^(?:[-*+•]|\d+[.)])\s+(.*)$/);
+    let text = (bullet ? bullet[1] : line).replace(/\*\*|__/g, "").trim();
+
+    let type: ExtractedItemType | null = null;
+    let confidence = SECTION_CONFIDENCE;
+
+    const checkbox = text.match(/^\[([ xX])\]\s*(.*)$/);
+    if (checkbox) {
+      if (checkbox[1] !== " ") return; // completed
+      text = checkbox[2];
+      type = "task";
+      confidence = EXPLICIT_CONFIDENCE;
+    }
+
+    for (const [pattern, prefixType] of PREFIXES) {
+      if (pattern.test(text)) {
+        text = text.replace(pattern, "");
+        type = prefixType;
+        confidence = EXPLICIT_CONFIDENCE;
+        break;
+      }
+    }
+
+    if (!type && bullet && section) {
+      type = section;
+    }
+    if (!type) return;
+
+    const source = text;
+    const { owner, rest: withoutOwner } = extractOwner(text);
+    const { due_date, rest } = extractDueDate(withoutOwner, dates);
+    const title = cleanTitle(rest);
+    if (!title) return;
+
+    items.push({
+      item_type: type,
+      title,
+      ...(owner ? { owner } : {}),
+      ...(due_date ? { due_date } : {}),
+      confidence,
+      method: "rule",
+      line: i + 1,
+      text: source,
+    });
+  });
+
+  return items;
+}
+
+// =============================================================================
+// LLM PASS (optional)
+// =============================================================================
+
+const LlmItemsSchema = z.object({
+  items: z.array(
+    z.object({
+      item_type: z.enum(["task", "decision", "risk", "issue", "question"]),
+      title: z.string().min(1),
+      owner: z.string().nullish(),
+      due_date: z.string().nullish(),
+    })
+  ),
+});
+
+/**
+ * Asks the model for items the rules missed and appends them (deduped by title).
+ * On failure the rule-based items are returned unchanged along with the error.
+ */
+export async function extractWithLlm(
+  notes: string,
+  ruleItems: ExtractedItem[]
+): Promise<{ items: ExtractedItem[]; error?: string }> {
+  const systemPrompt = `You extract action items from meeting notes.
+
+OUTPUT FORMAT (strict JSON, no code fences):
+{
+  "items": [
+    { "item_type": "task" | "decision" | "risk" | "issue" | "question", "title": "Short imperative title", "owner": "Name or null", "due_date": "Due date exactly as written, or null" }
+  ]
+}
+
+RULES:
+1. NO INVENTION: Only extract items clearly stated in the notes.
+2. Return ONLY items that are NOT already in the "already extracted" list.
+3. Keep titles under 120 characters.`;
+
+  const userPrompt = `ALREADY EXTRACTED:
+${ruleItems.map((item) => `- [${item.item_type}] ${item.title}`).join("\n") || "(none)"}
+
+MEETING NOTES:
+${notes}
+
+Return ONLY the JSON object.`;
+
+  const result = await chatJson({
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    schema: LlmItemsSchema,
+    temperature: 0.2,
+  });
+
+  if (!result.ok) {
+    return { items: ruleItems, error: result.error };
+  }
+
+  const seen = new Set(ruleItems.map((item) => titleKey(item.title)));
+  const items = [...ruleItems];
+
+  for (const llmItem of result.data.items) {
+    const title = cleanTitle(llmItem.title).slice(0, 255);
+    const key = titleKey(title);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    items.push({
+      item_type: llmItem.item_type,
+      title,
+      ...(llmItem.owner ? { owner: llmItem.owner } : {}),
+      ...(llmItem.due_date ? { due_date: llmItem.due_date } : {}),
+      confidence: LLM_CONFIDENCE,
+      method: "llm",
+    });
+  }
+
+  return { items };
+}
+
+// =============================================================================
+// INBOX ITEMS
+// =============================================================================
+
+/**
+ * Maps extracted items to raw pm-intake inbox items. Long titles move to the
+ * description so the Inbox title is generated from it.
+ */
+export function toInboxItems(
+  extracted: ExtractedItem[],
+  defaults: NotesItemDefaults = {}
+): Record<string, unknown>[] {
+  return extracted.map((item) => {
+    const long = item.title.length > 255;
+    return {
+      item_type: item.item_type,
+      title: long ? undefined : item.title,
+      description: long ? item.title : item.text && item.text !== item.title ? item.text : undefined,
+      owner: item.owner,
+      due_date: item.due_date,
+      project: defaults.project,
+      client: defaults.client,
+      program: defaults.program,
+      workstream: defaults.workstream,
+      source: defaults.source ?? "notes",
+      confidence: item.confidence,
+    };
+  });
+}
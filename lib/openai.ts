@@ -0,0 +1,120 @@
+/**
+ * Minimal OpenAI chat-completions client for strict-JSON prompts.
+ *
+ * Shared by generate-doc (GPT polish) and pm-intake notes extraction:
+ * sends the messages, strips code fences from the reply, parses it as JSON
+ * and validates it against a zod schema.
+ *
+ * Requires OPENAI_API_KEY.
+ */
+
+import type { z } from "zod";
+import { config } from "./config";
+import { logger } from "./logger";
+import { recordTokenUsage, trackCall } from "./metrics";
+
+const OPENAI_CHAT_URL = "https://api.openai.com/v1/chat/completions";
+const DEFAULT_MODEL = "gpt-4o";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export type ChatJsonResult<T> = { ok: true; data: T } | { ok: false; error: string; raw?: string };
+
+/**
+ * Returns true if OPENAI_API_KEY is set.
+ */
+export function isOpenAIConfigured(): boolean {
+  return config.openaiApiKey.length > 0;
+}
+
+/**
+ * Removes ```json / ``` fences the model sometimes wraps JSON in.
+ */
+export function stripCodeFences(content: string): string {
+  let cleaned = content.trim();
+  if (cleaned.startsWith("```json")) {
+    cleaned = cleaned.slice(7);
+  } else if (cleaned.startsWith("```")) {
+    cleaned = cleaned.slice(3);
+  }
+  if (cleaned.endsWith("```")) {
+    cleaned = cleaned.slice(0, -3);
+  }
+  return cleaned.trim();
+}
+
+/**
+ * Runs a chat completion and parses the reply as JSON matching `schema`.
+ * Never throws; failures are returned as { ok: false, error, raw? }.
+ */
+export async function chatJson<T>(options: {
+  messages: ChatMessage[];
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  model?: string;
+  temperature?: number;
+}): Promise<ChatJsonResult<T>> {
+  const apiKey = config.openaiApiKey;
+  if (!apiKey) {
+    return { ok: false, error: "OPENAI_API_KEY not configured" };
+  }
+
+  const model = options.model ?? DEFAULT_MODEL;
+
+  try {
+    const response = await trackCall(
+      "openai",
+      "chat.completions",
+      () =>
+        fetch(OPENAI_CHAT_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            messages: options.messages,
+            temperature: options.temperature ?? 0.7,
+          }),
+        }),
+      (res) => !res.ok
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error("OPENAI_ERROR", { status: response.status });
+      return { ok: false, error: `OpenAI API error: ${response.status}`, raw: errorText.slice(0, 500) };
+    }
+
+    const data = await response.json();
+    recordTokenUsage(model, data.usage);
+    const rawContent = data.choices?.[0]?.message?.content;
+
+    if (!rawContent) {
+      return { ok: false, error: "OpenAI returned empty content" };
+    }
+
+    const cleanedContent = stripCodeFences(rawContent);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanedContent);
+    } catch {
+      logger.error("OPENAI_JSON_INVALID", { length: cleanedContent.length });
+      return { ok: false, error: "GPT output is not valid JSON", raw: cleanedContent.slice(0, 500) };
+    }
+
+    const validated = options.schema.safeParse(parsed);
+    if (!validated.success) {
+      const errors = validated.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+      return { ok: false, error: `GPT output schema invalid: ${errors}`, raw: cleanedContent.slice(0, 500) };
+    }
+
+    return { ok: true, data: validated.data };
+  } catch (error: any) {
+    return { ok: false, error: `OpenAI request exception: ${error?.message}` };
+  }
+}
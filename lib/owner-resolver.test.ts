@@ -0,0 +1,80 @@
+/**
+ * Tests for owner-resolver.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  matchOwner,
+  ownerFieldValue,
+  createOwnerResolver,
+  type PersonRecord,
+} from "./owner-resolver";
+
+const PEOPLE: PersonRecord[] = [
+  { id: "recJANE", name: "Jane Smith", email: "jane@acme.com", initials: null },
+  { id: "recJDOE", name: "Jane Doe", email: "jdoe@acme.com", initials: "JD" },
+  { id: "recJOSE", name: "José Alvarez", email: null, initials: null },
+];
+
+describe("matchOwner", () => {
+  it("matches emails case-insensitively", () => {
+    expect(matchOwner("Jane@Acme.com", PEOPLE)).toMatchObject({
+      status: "matched",
+      recordId: "recJANE",
+      matchedBy: "email",
+      confidence: 1,
+    });
+  });
+
+  it("matches full names, ignoring case and accents", () => {
+    expect(matchOwner("jose alvarez", PEOPLE)).toMatchObject({ recordId: "recJOSE", matchedBy: "name" });
+  });
+
+  it("matches initials from the directory field or derived from the name", () => {
+    expect(matchOwner("JS", PEOPLE)).toMatchObject({ recordId: "recJANE", matchedBy: "initials" });
+    expect(matchOwner("j.d.", PEOPLE)).toMatchObject({ recordId: "recJDOE", matchedBy: "initials" });
+  });
+
+  it("matches a unique first or last name", () => {
+    expect(matchOwner("Jose", PEOPLE)).toMatchObject({ recordId: "recJOSE", matchedBy: "first_name" });
+    expect(matchOwner("Doe", PEOPLE)).toMatchObject({ recordId: "recJDOE", matchedBy: "last_name" });
+  });
+
+  it("reports a shared first name as ambiguous", () => {
+    expect(matchOwner("Jane", PEOPLE)).toEqual({
+      status: "unresolved",
+      reason: "ambiguous",
+      candidates: ["recJANE", "recJDOE"],
+    });
+  });
+
+  it("returns unresolved for unknown or missing owners", () => {
+    expect(matchOwner("bob@acme.com", PEOPLE)).toEqual({ status: "unresolved", reason: "no_match" });
+    expect(matchOwner(null, PEOPLE)).toEqual({ status: "unresolved", reason: "no_owner" });
+  });
+});
+
+describe("ownerFieldValue", () => {
+  it("formats the owner for each field mode", () => {
+    const match = matchOwner("jane@acme.com", PEOPLE);
+    if (match.status !== "matched") throw new Error("expected a match");
+    expect(ownerFieldValue(match, "text")).toBe("Jane Smith");
+    expect(ownerFieldValue(match, "link")).toEqual(["recJANE"]);
+    expect(ownerFieldValue(match, "collaborator")).toEqual({ email: "jane@acme.com" });
+
+    const noEmail = matchOwner("José Alvarez", PEOPLE);
+    if (noEmail.status !== "matched") throw new Error("expected a match");
+    expect(ownerFieldValue(noEmail, "collaborator")).toBe(null);
+  });
+});
+
+describe("createOwnerResolver", () => {
+  it("loads the directory once per resolver", async () => {
+    const load = vi.fn().mockResolvedValue(PEOPLE);
+    const resolve = createOwnerResolver(load);
+    await Promise.all(Array.from({ length: 50 }, () => resolve("JS")));
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
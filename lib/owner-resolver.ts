@@ -0,0 +1,221 @@
+/**
+ * Owner resolution for pm-intake.
+ *
+ * Maps the free-text owner on an incoming item ("Jane", "jane@acme.com", "JS")
+ * to a canonical record in the owner directory (People table, configurable via
+ * OWNER_DIRECTORY_* env vars), in order of confidence:
+ *   1. Email (case-insensitive)                       -> 1.0
+ *   2. Full name                                      -> 0.95
+ *   3. Initials ("Initials" field or derived)         -> 0.85
+ *   4. First name                                     -> 0.75
+ *   5. Last name                                      -> 0.6
+ *
+ * Several people at the same level (two Janes) is reported as ambiguous;
+ * the route then leaves Owner empty and flags the item for review.
+ */
+
+import { config, tables, peopleFields } from "./config";
+import { getAirtableClient } from "./airtable";
+
+// Top two candidates closer than this are treated as ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+export type OwnerFieldMode = "text" | "link" | "collaborator";
+
+export interface PersonRecord {
+  id: string;
+  name: string;
+  email: string | null;
+  initials: string | null;
+}
+
+export type OwnerMatchedBy = "email" | "name" | "initials" | "first_name" | "last_name";
+
+export type OwnerResolution =
+  | {
+      status: "matched";
+      recordId: string;
+      name: string;
+      email: string | null;
+      confidence: number;
+      matchedBy: OwnerMatchedBy;
+    }
+  | { status: "unresolved"; reason: string; candidates?: string[] };
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+function normalizeName(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function initialsOf(person: PersonRecord): string {
+  if (person.initials) return person.initials.replace(/[^A-Za-z]/g, "").toUpperCase();
+  return normalizeName(person.name)
+    .split(" ")
+    .map((part) => part.charAt(0))
+    .join("")
+    .toUpperCase();
+}
+
+function scorePerson(
+  input: string,
+  person: PersonRecord
+): { confidence: number; matchedBy: OwnerMatchedBy } | null {
+  if (input.includes("@")) {
+    return person.email && person.email.trim().toLowerCase() === input.toLowerCase()
+      ? { confidence: 1, matchedBy: "email" }
+      : null;
+  }
+
+  const normalizedInput = normalizeName(input);
+  const normalizedName = normalizeName(person.name);
+  if (!normalizedInput) return null;
+
+  if (normalizedInput === normalizedName) {
+    return { confidence: 0.95, matchedBy: "name" };
+  }
+
+  // Initials: 2-4 letters, compared case-insensitively ("JS", "js", "J.S.")
+  const letters = input.replace(/[.\s]/g, "");
+  if (/^[A-Za-z]{2,4}$/.test(letters) && letters.toUpperCase() === initialsOf(person)) {
+    return { confidence: 0.85, matchedBy: "initials" };
+  }
+
+  const parts = normalizedName.split(" ");
+  if (!normalizedInput.includes(" ")) {
+    if (parts[0] === normalizedInput) return { confidence: 0.75, matchedBy: "first_name" };
+    if (parts.length > 1 && parts[parts.length - 1] === normalizedInput) {
+      return { confidence: 0.6, matchedBy: "last_name" };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Matches a free-text owner against the directory.
+ */
+export function matchOwner(owner: string | null, people: PersonRecord[]): OwnerResolution {
+  if (!owner || !owner.trim()) {
+    return { status: "unresolved", reason: "no_owner" };
+  }
+
+  const input = owner.trim();
+  const scored = people
+    .map((person) => {
+      const score = scorePerson(input, person);
+      return score ? { person, ...score } : null;
+    })
+    .filter((s): s is NonNullable<typeof s> => s !== null)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  if (scored.length === 0) {
+    return { status: "unresolved", reason: "no_match" };
+  }
+
+  const [best, runnerUp] = scored;
+  if (runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN) {
+    return {
+      status: "unresolved",
+      reason: "ambiguous",
+      candidates: scored
+        .filter((s) => best.confidence - s.confidence < AMBIGUITY_MARGIN)
+        .map((s) => s.person.id),
+    };
+  }
+
+  return {
+    status: "matched",
+    recordId: best.person.id,
+    name: best.person.name,
+    email: best.person.email,
+    confidence: best.confidence,
+    matchedBy: best.matchedBy,
+  };
+}
+
+/**
+ * Returns the value to write to Inbox "Owner" for a matched owner,
+ * or null when the mode cannot represent it (collaborator without email).
+ */
+export function ownerFieldValue(
+  match: Extract<OwnerResolution, { status: "matched" }>,
+  mode: OwnerFieldMode
+): unknown {
+  switch (mode) {
+    case "link":
+      return [match.recordId];
+    case "collaborator":
+      return match.email ? { email: match.email } : null;
+    default:
+      return match.name;
+  }
+}
+
+/**
+ * Reads OWNER_FIELD_MODE, falling back to "text" for unknown values.
+ */
+export function getOwnerFieldMode(): OwnerFieldMode {
+  const mode = config.ownerFieldMode.trim().toLowerCase();
+  return mode === "link" || mode === "collaborator" ? mode : "text";
+}
+
+// =============================================================================
+// AIRTABLE LOADING
+// =============================================================================
+
+function asText(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (Array.isArray(value) && value.length > 0) return asText(value[0]);
+  return null;
+}
+
+/**
+ * Loads every person from the owner directory table (follows pagination).
+ */
+export async function loadPeople(): Promise<PersonRecord[]> {
+  const apiKey = config.airtableApiKey;
+  const baseId = config.ownerDirectoryBaseId;
+  if (!apiKey || !baseId) {
+    throw new Error("Owner resolution requires AIRTABLE_API_KEY and OWNER_DIRECTORY_BASE_ID or AIRTABLE_BASE_ID");
+  }
+
+  const people: PersonRecord[] = [];
+  const records = await getAirtableClient(baseId).listRecords(tables.people, {
+    fields: Object.values(peopleFields),
+  });
+
+  for (const record of records) {
+    const name = asText(record.fields[peopleFields.name]);
+    if (!name) continue;
+    people.push({
+      id: record.id,
+      name,
+      email: asText(record.fields[peopleFields.email]),
+      initials: asText(record.fields[peopleFields.initials]),
+    });
+  }
+
+  return people;
+}
+
+/**
+ * Creates a resolver that loads the directory at most once, so a whole batch
+ * of items shares a single table scan.
+ */
+export function createOwnerResolver(load: () => Promise<PersonRecord[]> = loadPeople) {
+  let peoplePromise: Promise<PersonRecord[]> | null = null;
+
+  return async function resolve(owner: string | null): Promise<OwnerResolution> {
+    peoplePromise ??= load();
+    return matchOwner(owner, await peoplePromise);
+  };
+}
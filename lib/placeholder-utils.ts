@@ -7,6 +7,8 @@
  * - fields / replacements / structuredInputs (same format as mergeFields)
  */
 
+import { logger } from "./logger";
+
 // =============================================================================
 // VALUE COERCION
 // =============================================================================
@@ -172,7 +174,7 @@ export function buildReplaceRequests(placeholders: Record<string, string>): Arra
 // =============================================================================
 
 /**
- * Logs placeholder information for debugging (safe, no secrets).
+ * Logs which placeholders a request carries: keys and lengths, no values.
  */
 export function logPlaceholderInfo(
   merge: Record<string, string>,
@@ -182,10 +184,9 @@ export function logPlaceholderInfo(
   const contentLength = merge.CONTENT?.length || 0;
   const inlineTableLength = merge.INLINE_TABLE?.length || 0;
 
-  console.log(`[generate-doc][${requestId}] Placeholder keys being replaced: ${keys.join(", ") || "(none)"}`);
-  console.log(`[generate-doc][${requestId}] CONTENT length: ${contentLength}, INLINE_TABLE length: ${inlineTableLength}`);
+  logger.debug("PLACEHOLDERS_RECEIVED", { requestId, keys, contentLength, inlineTableLength });
 
   if (!merge.CONTENT && !merge.content) {
-    console.warn(`[generate-doc][${requestId}] WARNING: No CONTENT placeholder value found in payload`);
+    logger.warn("PLACEHOLDER_CONTENT_MISSING", { requestId });
   }
 }
@@ -0,0 +1,277 @@
+/**
+ * Shared Inbox creation path for pm-intake.
+ *
+ * Takes raw inbox items (from /api/pm-intake or extracted from meeting notes by
+ * /api/pm-intake/notes) and runs validation, optional project/owner resolution,
+ * External Key dedupe and batched creation in the Inbox table.
+ *
+ * In dry-run mode the lookups still run but nothing is created; items that
+ * would be created come back with status "planned" and their exact fields.
+ */
+
+import {
+  EXTERNAL_KEY_FIELD,
+  appendNote,
+  buildExternalKeyFormulas,
+  buildInboxFields,
+  computeExternalKey,
+  type ItemResult,
+} from "./pm-intake";
+import { validateInboxItem, type FieldError, type InboxItem } from "./pm-intake-schema";
+import {
+  createProjectResolver,
+  type ClientResolution,
+  type ProjectResolution,
+} from "./project-resolver";
+import {
+  createOwnerResolver,
+  getOwnerFieldMode,
+  ownerFieldValue,
+  type OwnerResolution,
+} from "./owner-resolver";
+import type { DateContext } from "./date-normalize";
+import { getAirtableClient, type AirtableClient } from "./airtable";
+import { inboxFields, tables } from "./config";
+import { recordTraceId, TRACE_ID_FIELD } from "./schema";
+import { currentTraceId, logger } from "./logger";
+
+export interface IngestOptions {
+  /** Reject the whole batch when any item has a field error */
+  strict?: boolean;
+  /** Resolve project, client and owner against Projects / People */
+  resolve?: boolean;
+  /** Reference time and timezone for natural-language due dates */
+  dates?: DateContext;
+  /** Run everything up to the write and return the planned field payloads */
+  dryRun?: boolean;
+}
+
+export type IngestOutcome =
+  | {
+      ok: true;
+      createdCount: number;
+      skippedCount: number;
+      results: ItemResult[];
+      errors: FieldError[];
+    }
+  | { ok: false; status: number; errors: FieldError[] };
+
+/**
+ * Returns the records already in Inbox for the given external keys,
+ * as a map of External Key -> record ID.
+ */
+async function findExistingKeys(airtable: AirtableClient, keys: string[]): Promise<Map<string, string>> {
+  const existing = new Map<string, string>();
+
+  for (const formula of buildExternalKeyFormulas(keys)) {
+    const records = await airtable.listRecords(tables.inbox, {
+      filterByFormula: formula,
+      fields: [EXTERNAL_KEY_FIELD],
+    });
+    for (const record of records) {
+      const key = record.fields[EXTERNAL_KEY_FIELD];
+      if (typeof key === "string" && !existing.has(key)) {
+        existing.set(key, record.id);
+      }
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Validates, resolves, dedupes and creates raw inbox items.
+ * Per-item failures are reported in `results` / `errors`; only a strict-mode
+ * rejection or a failed duplicate lookup fails the whole call.
+ */
+export async function ingestInboxItems(
+  rawItems: unknown[],
+  options: IngestOptions = {}
+): Promise<IngestOutcome> {
+  const { strict = false, resolve = false, dates = {}, dryRun = false } = options;
+
+  const results: ItemResult[] = [];
+  const errors: FieldError[] = [];
+
+  // Validate every item; lenient mode drops invalid fields, strict mode rejects the batch
+  const validItems: { index: number; item: InboxItem }[] = [];
+  rawItems.forEach((raw, index) => {
+    const validation = validateInboxItem(raw, index, dates);
+    errors.push(...validation.errors);
+    if (validation.item) {
+      validItems.push({ index, item: validation.item });
+    } else {
+      results[index] = { index, status: "error", externalKey: "", reason: "invalid_item" };
+    }
+  });
+
+  if (strict && errors.length > 0) {
+    return { ok: false, status: 400, errors };
+  }
+
+  const prepared = validItems.map(({ index, item }) => {
+    const fields = buildInboxFields(item);
+    const externalKey = computeExternalKey(item, fields);
+    fields[EXTERNAL_KEY_FIELD] = externalKey;
+    const traceId = recordTraceId(currentTraceId());
+    if (traceId) fields[TRACE_ID_FIELD] = traceId;
+    return {
+      index,
+      fields,
+      externalKey,
+      resolution: undefined as ItemResult["resolution"],
+      needsReview: false,
+    };
+  });
+
+  // Optional resolution: link each item to a Client PM OS Projects record
+  // and map its owner to the People directory
+  if (resolve) {
+    const resolveProject = createProjectResolver();
+    const resolveOwner = createOwnerResolver();
+    const ownerMode = getOwnerFieldMode();
+
+    for (const p of prepared) {
+      const project = typeof p.fields["Project"] === "string" ? p.fields["Project"] : null;
+      const client = typeof p.fields["Client"] === "string" ? p.fields["Client"] : null;
+      const owner = typeof p.fields["Owner"] === "string" ? p.fields["Owner"] : null;
+
+      let projectResolution: ProjectResolution;
+      let clientResolution: ClientResolution;
+      let ownerResolution: OwnerResolution;
+
+      try {
+        ({ project: projectResolution, client: clientResolution } = await resolveProject(project, client));
+      } catch (err: any) {
+        const reason = `lookup_failed: ${err?.message ?? String(err)}`;
+        projectResolution = { status: "unresolved", reason };
+        clientResolution = { status: "unresolved", reason };
+      }
+
+      try {
+        ownerResolution = await resolveOwner(owner);
+      } catch (err: any) {
+        ownerResolution = { status: "unresolved", reason: `lookup_failed: ${err?.message ?? String(err)}` };
+      }
+
+      p.resolution = { project: projectResolution, client: clientResolution, owner: ownerResolution };
+
+      if (projectResolution.status === "matched") {
+        p.fields[inboxFields.linkedProject] = [projectResolution.recordId];
+      }
+
+      // An owner was given but could not be pinned to one person: leave Owner
+      // empty rather than guess, keep the original text and flag the item
+      if (owner) {
+        const value = ownerResolution.status === "matched" ? ownerFieldValue(ownerResolution, ownerMode) : null;
+        if (value !== null) {
+          p.fields[inboxFields.owner] = value;
+        } else {
+          const reason = ownerResolution.status === "matched" ? "no_email" : ownerResolution.reason;
+          delete p.fields[inboxFields.owner];
+          p.fields[inboxFields.needsReview] = true;
+          p.needsReview = true;
+          appendNote(p.fields, `Owner "${owner}" needs review (${reason})`);
+        }
+      }
+    }
+  }
+
+  // Dedupe: skip items whose key already exists in Inbox or earlier in this batch
+  let airtable: AirtableClient;
+  let existingKeys: Map<string, string>;
+  try {
+    airtable = getAirtableClient();
+    existingKeys = await findExistingKeys(airtable, prepared.map((p) => p.externalKey));
+  } catch (err: any) {
+    logger.error("PM_INTAKE_KEY_LOOKUP_ERROR", { error: err?.message ?? String(err) });
+    return {
+      ok: false,
+      status: 502,
+      errors: [{ index: -1, message: `Duplicate check failed: ${err?.message ?? String(err)}` }],
+    };
+  }
+
+  const seenInBatch = new Set<string>();
+  const toCreate: typeof prepared = [];
+
+  for (const p of prepared) {
+    const existingId = existingKeys.get(p.externalKey);
+    if (existingId) {
+      results[p.index] = {
+        index: p.index,
+        status: "skipped",
+        externalKey: p.externalKey,
+        recordId: existingId,
+        reason: "exists",
+        resolution: p.resolution,
+      };
+    } else if (seenInBatch.has(p.externalKey)) {
+      results[p.index] = {
+        index: p.index,
+        status: "skipped",
+        externalKey: p.externalKey,
+        reason: "duplicate_in_batch",
+        resolution: p.resolution,
+      };
+    } else {
+      seenInBatch.add(p.externalKey);
+      toCreate.push(p);
+    }
+  }
+
+  let createdCount = 0;
+
+  if (dryRun) {
+    for (const p of toCreate) {
+      results[p.index] = {
+        index: p.index,
+        status: "planned",
+        externalKey: p.externalKey,
+        resolution: p.resolution,
+        needsReview: p.needsReview || undefined,
+        fields: p.fields,
+      };
+    }
+    toCreate.length = 0;
+  }
+
+  for (let i = 0; i < toCreate.length; i += 10) {
+    const chunk = toCreate.slice(i, i + 10);
+    try {
+      const res = await airtable.createRecords(
+        tables.inbox,
+        chunk.map((p) => p.fields),
+        { typecast: true }
+      );
+      res.forEach((record, j) => {
+        const p = chunk[j];
+        results[p.index] = {
+          index: p.index,
+          status: "created",
+          externalKey: p.externalKey,
+          recordId: record.id,
+          resolution: p.resolution,
+          needsReview: p.needsReview || undefined,
+        };
+      });
+      createdCount += res.length;
+    } catch (err: any) {
+      const message = err?.message ?? String(err);
+      for (const p of chunk) {
+        results[p.index] = {
+          index: p.index,
+          status: "error",
+          externalKey: p.externalKey,
+          reason: message,
+          resolution: p.resolution,
+        };
+        errors.push({ index: p.index, message });
+      }
+    }
+  }
+
+  const skippedCount = results.filter((r) => r.status === "skipped").length;
+
+  return { ok: true, createdCount, skippedCount, results, errors };
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for pm-intake-schema.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateInboxItem, PmIntakeRequestSchema } from "./pm-intake-schema";
+
+describe("validateInboxItem", () => {
+  it("normalizes enums case-insensitively", () => {
+    const { item, errors } = validateInboxItem({ title: "A", item_type: "Task", priority: "high" }, 0);
+    expect(errors).toEqual([]);
+    expect(item).toMatchObject({ item_type: "task", priority: "High" });
+  });
+
+  it("drops invalid fields and reports them per index and field", () => {
+    const { item, errors } = validateInboxItem(
+      { title: "A", item_type: "epic", due_date: "2025-02-30", owner: "x".repeat(300) },
+      3
+    );
+    expect(item).toEqual({ title: "A" });
+    expect(errors.map((e) => [e.index, e.field])).toEqual([
+      [3, "owner"],
+      [3, "item_type"],
+      [3, "due_date"],
+    ]);
+  });
+
+  it("treats blanks and TBD as absent", () => {
+    const { item, errors } = validateInboxItem({ title: " ", owner: "tbd", due_date: "" }, 0);
+    expect(errors).toEqual([]);
+    expect(item).toEqual({});
+  });
+
+  it("rejects non-object items", () => {
+    const { item, errors } = validateInboxItem("just a string", 1);
+    expect(item).toBe(null);
+    expect(errors).toEqual([{ index: 1, message: "Item must be an object" }]);
+  });
+});
+
+describe("PmIntakeRequestSchema", () => {
+  it("requires a non-empty inbox_items array", () => {
+    expect(PmIntakeRequestSchema.safeParse({ inbox_items: [] }).success).toBe(false);
+    expect(PmIntakeRequestSchema.safeParse({ inbox_items: [{}], strict: true }).success).toBe(true);
+  });
+
+  it("validates reference_time and timezone", () => {
+    const ok = { inbox_items: [{}], reference_time: "2025-01-29T10:00:00-08:00", timezone: "America/New_York" };
+    expect(PmIntakeRequestSchema.safeParse(ok).success).toBe(true);
+    expect(PmIntakeRequestSchema.safeParse({ ...ok, reference_time: "yesterday" }).success).toBe(false);
+    expect(PmIntakeRequestSchema.safeParse({ ...ok, timezone: "Pacific" }).success).toBe(false);
+  });
+});
+
+describe("validateInboxItem due dates", () => {
+  const dates = { reference: new Date("2025-01-29T18:00:00Z"), timeZone: "America/Los_Angeles" };
+
+  it("resolves phrases and keeps the original", () => {
+    const { item, errors } = validateInboxItem({ title: "A", due_date: "next Friday" }, 0, dates);
+    expect(errors).toEqual([]);
+    expect(item).toEqual({ title: "A", due_date: "2025-02-07", due_date_phrase: "next Friday" });
+  });
+
+  it("reports phrases it cannot interpret", () => {
+    const { item, errors } = validateInboxItem({ title: "A", due_date: "asap-ish" }, 2, dates);
+    expect(item).toEqual({ title: "A" });
+    expect(errors).toEqual([{ index: 2, field: "due_date", message: 'Could not interpret date: "asap-ish"' }]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Zod contract for the /api/pm-intake payload.
+ *
+ * Items are validated field by field so that, in the default (lenient) mode,
+ * an invalid field is dropped and reported while the rest of the item is still
+ * written. With `strict: true` any field error rejects the whole batch.
+ *
+ * Empty strings and "TBD" are treated as absent, matching the original route.
+ *
+ * `due_date` accepts free text ("next Friday", "EOW", "2/14") and is resolved
+ * to YYYY-MM-DD by date-normalize.ts against the request's reference_time and
+ * timezone.
+ */
+
+import { z } from "zod";
+import { isValidTimeZone, normalizeDate, type DateContext } from "./date-normalize";
+
+export const ITEM_TYPES = ["task", "decision", "risk", "issue", "question", "note"] as const;
+export const PRIORITIES = ["Low", "Medium", "High", "Critical"] as const;
+
+export interface FieldError {
+  index: number;
+  field?: string;
+  message: string;
+}
+
+// =============================================================================
+// FIELD SCHEMAS
+// =============================================================================
+
+/** Treats undefined, null, "", whitespace and "TBD" as absent. */
+function blankToUndefined(value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (trimmed === "" || trimmed.toUpperCase() === "TBD") return undefined;
+    return trimmed;
+  }
+  return value;
+}
+
+function optionalText(max: number) {
+  return z.preprocess(blankToUndefined, z.string().max(max, `Must be at most ${max} characters`).optional());
+}
+
+const itemType = z.preprocess(
+  (v) => {
+    const value = blankToUndefined(v);
+    return typeof value === "string" ? value.toLowerCase() : value;
+  },
+  z.enum(ITEM_TYPES, { errorMap: () => ({ message: `Must be one of: ${ITEM_TYPES.join(", ")}` }) }).optional()
+);
+
+const priority = z.preprocess(
+  (v) => {
+    const value = blankToUndefined(v);
+    if (typeof value !== "string") return value;
+    return PRIORITIES.find((p) => p.toLowerCase() === value.toLowerCase()) ?? value;
+  },
+  z.enum(PRIORITIES, { errorMap: () => ({ message: `Must be one of: ${PRIORITIES.join(", ")}` }) }).optional()
+);
+
+const confidence = z.preprocess(
+  blankToUndefined,
+  z
+    .union([z.string().max(50, "Must be at most 50 characters"), z.number().min(0).max(1)])
+    .transform((v) => String(v))
+    .optional()
+);
+
+const externalId = z.preprocess(
+  blankToUndefined,
+  z
+    .union([z.string().max(200, "Must be at most 200 characters"), z.number()])
+    .transform((v) => String(v))
+    .optional()
+);
+
+export const InboxItemSchema = z.object({
+  external_id: externalId,
+  title: optionalText(255),
+  description: optionalText(10000),
+  project: optionalText(255),
+  client: optionalText(255),
+  program: optionalText(255),
+  workstream: optionalText(255),
+  owner: optionalText(255),
+  item_type: itemType,
+  priority,
+  due_date: optionalText(100),
+  source: optionalText(100),
+  confidence,
+});
+
+export type InboxItem = z.infer<typeof InboxItemSchema> & {
+  /** Original due date phrase, set when due_date was inferred from it */
+  due_date_phrase?: string;
+};
+
+/** Options shared by /api/pm-intake and /api/pm-intake/notes */
+const IntakeOptionsSchema = z.object({
+  strict: z.boolean().optional(),
+  resolve: z.boolean().optional(),
+  reference_time: z.string().datetime({ offset: true, message: "Must be an ISO 8601 timestamp" }).optional(),
+  timezone: z.string().refine(isValidTimeZone, "Must be an IANA timezone").optional(),
+  day_first: z.boolean().optional(),
+});
+
+export type IntakeOptions = z.infer<typeof IntakeOptionsSchema>;
+
+export const PmIntakeRequestSchema = IntakeOptionsSchema.extend({
+  inbox_items: z.array(z.unknown()).min(1, "inbox_items must be a non-empty array"),
+});
+
+export type PmIntakeRequest = z.infer<typeof PmIntakeRequestSchema>;
+
+/**
+ * Payload for /api/pm-intake/notes. The top-level project/client/program/
+ * workstream apply to every extracted item.
+ */
+export const PmIntakeNotesRequestSchema = IntakeOptionsSchema.extend({
+  notes: z
+    .string({ required_error: "notes is required" })
+    .trim()
+    .min(1, "notes must not be empty")
+    .max(100000, "notes must be at most 100000 characters"),
+  format: z.enum(["text", "markdown"]).optional(),
+  project: optionalText(255),
+  client: optionalText(255),
+  program: optionalText(255),
+  workstream: optionalText(255),
+  source: optionalText(100),
+  llm: z.boolean().optional(),
+});
+
+export type PmIntakeNotesRequest = z.infer<typeof PmIntakeNotesRequestSchema>;
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+type FieldName = keyof typeof InboxItemSchema.shape;
+
+/**
+ * Builds the date context for a request (reference_time, timezone, day_first).
+ */
+export function dateContextFor(request: IntakeOptions): DateContext {
+  return {
+    reference: request.reference_time ? new Date(request.reference_time) : undefined,
+    timeZone: request.timezone,
+    dayFirst: request.day_first,
+  };
+}
+
+/**
+ * Validates one raw item field by field.
+ * Returns the item with invalid fields removed, plus one error per invalid field.
+ * `item` is null when the value is not an object at all.
+ */
+export function validateInboxItem(
+  raw: unknown,
+  index: number,
+  dates: DateContext = {}
+): { item: InboxItem | null; errors: FieldError[] } {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return { item: null, errors: [{ index, message: "Item must be an object" }] };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const item: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  for (const field of Object.keys(InboxItemSchema.shape) as FieldName[]) {
+    const result = InboxItemSchema.shape[field].safeParse(source[field]);
+    if (result.success) {
+      if (result.data !== undefined) item[field] = result.data;
+    } else {
+      for (const issue of result.error.issues) {
+        errors.push({ index, field, message: issue.message });
+      }
+    }
+  }
+
+  if (typeof item.due_date === "string") {
+    const due = normalizeDate(item.due_date, dates);
+    if (due.ok) {
+      item.due_date = due.date;
+      if (due.inferred) item.due_date_phrase = due.phrase;
+    } else {
+      delete item.due_date;
+      errors.push({ index, field: "due_date", message: due.error });
+    }
+  }
+
+  return { item: item as InboxItem, errors };
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for pm-intake.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildInboxFields,
+  computeExternalKey,
+  buildExternalKeyFormulas,
+} from "./pm-intake";
+import { validateInboxItem, type InboxItem } from "./pm-intake-schema";
+
+/** Validates a raw item the way the route does before building fields. */
+function prepare(raw: Record<string, unknown>): { item: InboxItem; fields: Record<string, unknown> } {
+  const item = validateInboxItem(raw, 0).item!;
+  return { item, fields: buildInboxFields(item) };
+}
+
+function keyOf(raw: Record<string, unknown>): string {
+  const { item, fields } = prepare(raw);
+  return computeExternalKey(item, fields);
+}
+
+// =============================================================================
+// buildInboxFields
+// =============================================================================
+
+describe("buildInboxFields", () => {
+  it("generates a title from the description when missing", () => {
+    const { fields } = prepare({ description: "Review the wireframes. Then ship." });
+    expect(fields["Title"]).toBe("Review the wireframes.");
+    expect(fields["Description"]).toBe("Review the wireframes. Then ship.");
+  });
+
+  it("drops TBD values and unparseable due dates", () => {
+    const { fields } = prepare({ title: "A", owner: "TBD", due_date: "when we can" });
+    expect(fields["Owner"]).toBeUndefined();
+    expect(fields["Due Date"]).toBeUndefined();
+    expect(fields["Status"]).toBe("New");
+  });
+
+  it("notes the original phrase only when the due date was inferred", () => {
+    const inferred = prepare({ title: "A", due_date: "2/14/2025" }).fields;
+    expect(inferred["Due Date"]).toBe("2025-02-14");
+    expect(inferred["Notes"]).toBe('Due date inferred from "2/14/2025"');
+
+    const exact = prepare({ title: "A", due_date: "2025-02-14" }).fields;
+    expect(exact["Due Date"]).toBe("2025-02-14");
+    expect(exact["Notes"]).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// computeExternalKey
+// =============================================================================
+
+describe("computeExternalKey", () => {
+  it("prefers a client-supplied external_id", () => {
+    expect(keyOf({ external_id: " abc-123 ", title: "Anything" })).toBe("ext:abc-123");
+  });
+
+  it("hashes normalized title, project, client and item type", () => {
+    const a = { title: "Review  Wireframes", project: "Website", client: "Acme", item_type: "task" };
+    const b = { title: "review wireframes ", project: "WEBSITE", client: "acme", item_type: "Task" };
+    const keyA = keyOf(a);
+    expect(keyA).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyOf(b)).toBe(keyA);
+  });
+
+  it("produces different keys for different item types", () => {
+    const a = { title: "Logo", item_type: "task" };
+    const b = { title: "Logo", item_type: "risk" };
+    expect(keyOf(a)).not.toBe(keyOf(b));
+  });
+});
+
+// =============================================================================
+// buildExternalKeyFormulas
+// =============================================================================
+
+describe("buildExternalKeyFormulas", () => {
+  it("uses a plain comparison for a single key", () => {
+    expect(buildExternalKeyFormulas(["ext:1"]).map(String)).toEqual(['{External Key}="ext:1"']);
+  });
+
+  it("dedupes keys and escapes quotes", () => {
+    const formulas = buildExternalKeyFormulas(['ext:a"b', 'ext:a"b', "ext:c"]);
+    expect(formulas.map(String)).toEqual(['OR({External Key}="ext:a\\"b",{External Key}="ext:c")']);
+  });
+
+  it("chunks large key sets", () => {
+    const keys = Array.from({ length: 45 }, (_, i) => `ext:${i}`);
+    expect(buildExternalKeyFormulas(keys)).toHaveLength(3);
+  });
+});
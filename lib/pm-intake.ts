@@ -0,0 +1,149 @@
+/**
+ * PM intake helpers: maps incoming inbox_items to Inbox fields and computes
+ * the idempotency key used to dedupe re-submitted items.
+ *
+ * Idempotency key:
+ * - client-supplied external_id  -> "ext:<external_id>"
+ * - otherwise                    -> SHA-256 of normalized title|project|client|item_type
+ *
+ * The key is stored in the Inbox "External Key" field.
+ */
+
+import { createHash } from "crypto";
+import { eq, or, type Formula } from "./airtable-formula";
+import type { ClientResolution, ProjectResolution } from "./project-resolver";
+import type { OwnerResolution } from "./owner-resolver";
+import type { InboxItem } from "./pm-intake-schema";
+
+export const EXTERNAL_KEY_FIELD = "External Key";
+
+// Keep OR() formulas well under Airtable's URL length limit
+const LOOKUP_CHUNK_SIZE = 20;
+
+export type ItemResultStatus = "created" | "skipped" | "error" | "planned";
+
+export interface ItemResult {
+  index: number;
+  status: ItemResultStatus;
+  externalKey: string;
+  recordId?: string;
+  reason?: string;
+  resolution?: {
+    project: ProjectResolution;
+    client: ClientResolution;
+    owner: OwnerResolution;
+  };
+  /** Set when the item was written with Needs Review checked */
+  needsReview?: boolean;
+  /** Inbox fields that would be written (dry run only) */
+  fields?: Record<string, unknown>;
+}
+
+function generateTitleFromDescription(description: string): string {
+  const trimmed = description.trim();
+  const firstSentenceMatch = trimmed.match(/^[^.!?]+[.!?]?/);
+  const firstSentence = firstSentenceMatch ? firstSentenceMatch[0].trim() : trimmed;
+  if (firstSentence.length <= 80) {
+    return firstSentence;
+  }
+  return firstSentence.slice(0, 80).trim();
+}
+
+/**
+ * Appends a line to the Inbox "Notes" field.
+ */
+export function appendNote(fields: Record<string, unknown>, note: string): void {
+  const existing = typeof fields["Notes"] === "string" ? fields["Notes"] : "";
+  fields["Notes"] = existing ? `${existing}\n${note}` : note;
+}
+
+/**
+ * Builds the Airtable Inbox fields for one validated item
+ * (see validateInboxItem in pm-intake-schema.ts).
+ */
+export function buildInboxFields(item: InboxItem): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  // Title: required, auto-generate from description if missing
+  let title = item.title ?? null;
+  const description = item.description ?? null;
+  if (!title && description) {
+    title = generateTitleFromDescription(description);
+  }
+  if (!title) {
+    title = "Untitled Inbox Item";
+  }
+  fields["Title"] = title;
+
+  // Description
+  if (description) {
+    fields["Description"] = description;
+  }
+
+  // Project: preserve as plain text, do not remap
+  if (item.project) {
+    fields["Project"] = item.project;
+  }
+
+  // Optional fields
+  if (item.client) fields["Client"] = item.client;
+  if (item.program) fields["Program"] = item.program;
+  if (item.workstream) fields["Workstream"] = item.workstream;
+  if (item.owner) fields["Owner"] = item.owner;
+  if (item.item_type) fields["Item Type"] = item.item_type;
+  if (item.priority) fields["Priority"] = item.priority;
+  if (item.due_date) fields["Due Date"] = item.due_date;
+  if (item.due_date && item.due_date_phrase) {
+    appendNote(fields, `Due date inferred from "${item.due_date_phrase}"`);
+  }
+  if (item.source) fields["Source"] = item.source;
+  if (item.confidence) fields["Confidence"] = item.confidence;
+
+  fields["Status"] = "New";
+
+  return fields;
+}
+
+/**
+ * Normalizes a value for hashing: NFKC, lowercase, collapsed whitespace.
+ */
+function normalizeForKey(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Computes the idempotency key for an item.
+ * `fields` must be the output of buildInboxFields() so an auto-generated
+ * title hashes the same way on every submission.
+ */
+export function computeExternalKey(item: InboxItem, fields: Record<string, unknown>): string {
+  if (item.external_id) {
+    return `ext:${item.external_id}`;
+  }
+
+  const parts = [
+    normalizeForKey(fields["Title"]),
+    normalizeForKey(fields["Project"]),
+    normalizeForKey(fields["Client"]),
+    normalizeForKey(fields["Item Type"]),
+  ];
+
+  return createHash("sha256").update(parts.join("|")).digest("hex");
+}
+
+/**
+ * Builds OR() lookup formulas for a set of external keys, chunked to keep
+ * each formula a reasonable length.
+ */
+export function buildExternalKeyFormulas(keys: string[]): Formula[] {
+  const unique = Array.from(new Set(keys));
+  const formulas: Formula[] = [];
+
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + LOOKUP_CHUNK_SIZE);
+    formulas.push(or(...chunk.map((k) => eq(EXTERNAL_KEY_FIELD, k))));
+  }
+
+  return formulas;
+}
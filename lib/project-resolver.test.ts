@@ -0,0 +1,72 @@
+/**
+ * Tests for project-resolver.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  extractJobNumber,
+  matchProject,
+  matchClient,
+  createProjectResolver,
+  type ProjectRecord,
+} from "./project-resolver";
+
+const PROJECTS: ProjectRecord[] = [
+  { id: "recWEB", name: "2412 Website Redesign", jobNumber: "2412", clientName: "Acme Corp", aliases: ["Acme Site"] },
+  { id: "recAPP", name: "2415 Mobile App", jobNumber: null, clientName: "Acme Corp", aliases: [] },
+  { id: "recGLX", name: "2501 Website Redesign", jobNumber: "2501", clientName: "Globex", aliases: [] },
+];
+
+describe("extractJobNumber", () => {
+  it("reads leading job numbers", () => {
+    expect(extractJobNumber("2412 Website")).toBe("2412");
+    expect(extractJobNumber("#2412 - Website")).toBe("2412");
+    expect(extractJobNumber("2412-03 Launch")).toBe("2412-03");
+    expect(extractJobNumber("Website 2412")).toBe(null);
+  });
+});
+
+describe("matchProject", () => {
+  it("matches by job number prefix with full confidence", () => {
+    const result = matchProject("#2415 app", null, PROJECTS);
+    expect(result).toMatchObject({ status: "matched", recordId: "recAPP", matchedBy: "job_number", confidence: 1 });
+  });
+
+  it("matches by case-insensitive name, scoped by client", () => {
+    const result = matchProject("website redesign", "acme corp", PROJECTS);
+    expect(result).toMatchObject({ status: "matched", recordId: "recWEB", matchedBy: "name" });
+  });
+
+  it("reports ambiguity when no client disambiguates", () => {
+    const result = matchProject("Website Redesign", null, PROJECTS);
+    expect(result).toMatchObject({ status: "unresolved", reason: "ambiguous" });
+  });
+
+  it("matches aliases", () => {
+    expect(matchProject("ACME site", null, PROJECTS)).toMatchObject({ recordId: "recWEB", matchedBy: "alias" });
+  });
+
+  it("returns unresolved for unknown projects", () => {
+    expect(matchProject("Quarterly Report", null, PROJECTS)).toEqual({ status: "unresolved", reason: "no_match" });
+    expect(matchProject(null, null, PROJECTS)).toEqual({ status: "unresolved", reason: "no_project" });
+  });
+});
+
+describe("matchClient", () => {
+  it("matches known client names case-insensitively", () => {
+    expect(matchClient("ACME CORP", PROJECTS)).toMatchObject({ status: "matched", name: "Acme Corp" });
+    expect(matchClient("Initech", PROJECTS)).toMatchObject({ status: "unresolved" });
+  });
+});
+
+describe("createProjectResolver", () => {
+  it("loads projects once per resolver", async () => {
+    const load = vi.fn().mockResolvedValue(PROJECTS);
+    const resolve = createProjectResolver(load);
+    await resolve("2412", "Acme");
+    await resolve("2415", "Acme");
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Project / client resolution for pm-intake.
+ *
+ * Matches the free-text project and client strings on an incoming item against
+ * the Client PM OS Projects table, in order of confidence:
+ *   1. Job number prefix ("2412 Website", "#2412")   -> 1.0
+ *   2. Case-insensitive project name                 -> 0.95
+ *   3. Known alias (Projects "Aliases", comma list)  -> 0.9
+ *   4. Token overlap with name or alias               -> up to 0.8
+ *
+ * When a client string is supplied, projects belonging to other clients are
+ * penalized so "Website" under "Acme" does not match Globex's "Website".
+ */
+
+import { config, tables, projectFields } from "./config";
+import { getAirtableClient } from "./airtable";
+
+// Below this, a match is reported as unresolved rather than guessed
+const MIN_CONFIDENCE = 0.5;
+// Top two candidates closer than this are treated as ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+// Applied when the project's client does not match the item's client
+const CLIENT_MISMATCH_PENALTY = 0.3;
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  jobNumber: string | null;
+  clientName: string | null;
+  aliases: string[];
+}
+
+export type ProjectMatchedBy = "job_number" | "name" | "alias" | "fuzzy";
+
+export type ProjectResolution =
+  | {
+      status: "matched";
+      recordId: string;
+      name: string;
+      confidence: number;
+      matchedBy: ProjectMatchedBy;
+    }
+  | { status: "unresolved"; reason: string; candidates?: string[] };
+
+export type ClientResolution =
+  | { status: "matched"; name: string; confidence: number }
+  | { status: "unresolved"; reason: string };
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+function normalizeText(value: string): string {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Extracts a leading job number: "2412 Website", "#2412 - Website", "2412-03 Launch".
+ */
+export function extractJobNumber(value: string): string | null {
+  const match = value.trim().match(/^#?(\d{3,}(?:[-.]\d+)?)(?=\b|\s|$)/);
+  return match ? match[1] : null;
+}
+
+function tokens(value: string): Set<string> {
+  return new Set(normalizeText(value).split(" ").filter((t) => t.length > 0));
+}
+
+function tokenOverlap(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach((t) => {
+    if (tb.has(t)) shared++;
+  });
+  return shared / (ta.size + tb.size - shared);
+}
+
+function stripJobNumber(value: string): string {
+  return value.trim().replace(/^#?\d{3,}(?:[-.]\d+)?\s*[-–—:]?\s*/, "");
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+function sameClient(project: ProjectRecord, client: string | null): boolean | null {
+  if (!client || !project.clientName) return null;
+  return normalizeText(project.clientName) === normalizeText(client);
+}
+
+function scoreProject(
+  input: string,
+  project: ProjectRecord
+): { confidence: number; matchedBy: ProjectMatchedBy } | null {
+  const inputJob = extractJobNumber(input);
+  const projectJob = project.jobNumber || extractJobNumber(project.name);
+  if (inputJob && projectJob && inputJob === projectJob) {
+    return { confidence: 1, matchedBy: "job_number" };
+  }
+
+  const normalizedInput = normalizeText(stripJobNumber(input));
+  if (!normalizedInput) return null;
+
+  if (
+    normalizedInput === normalizeText(project.name) ||
+    normalizedInput === normalizeText(stripJobNumber(project.name))
+  ) {
+    return { confidence: 0.95, matchedBy: "name" };
+  }
+
+  if (project.aliases.some((alias) => normalizeText(alias) === normalizedInput)) {
+    return { confidence: 0.9, matchedBy: "alias" };
+  }
+
+  const overlap = Math.max(
+    tokenOverlap(normalizedInput, stripJobNumber(project.name)),
+    ...project.aliases.map((alias) => tokenOverlap(normalizedInput, alias))
+  );
+  if (overlap > 0) {
+    return { confidence: Math.round(overlap * 0.8 * 100) / 100, matchedBy: "fuzzy" };
+  }
+
+  return null;
+}
+
+/**
+ * Matches a free-text project (optionally scoped by client) against Projects.
+ */
+export function matchProject(
+  project: string | null,
+  client: string | null,
+  projects: ProjectRecord[]
+): ProjectResolution {
+  if (!project || !project.trim()) {
+    return { status: "unresolved", reason: "no_project" };
+  }
+
+  const scored = projects
+    .map((p) => {
+      const score = scoreProject(project, p);
+      if (!score) return null;
+      const clientMatch = sameClient(p, client);
+      const confidence =
+        clientMatch === false
+          ? Math.max(0, Math.round((score.confidence - CLIENT_MISMATCH_PENALTY) * 100) / 100)
+          : score.confidence;
+      return { project: p, confidence, matchedBy: score.matchedBy };
+    })
+    .filter((s): s is NonNullable<typeof s> => s !== null && s.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  if (scored.length === 0) {
+    return { status: "unresolved", reason: "no_match" };
+  }
+
+  const [best, runnerUp] = scored;
+  if (runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN) {
+    return {
+      status: "unresolved",
+      reason: "ambiguous",
+      candidates: scored
+        .filter((s) => best.confidence - s.confidence < AMBIGUITY_MARGIN)
+        .map((s) => s.project.id),
+    };
+  }
+
+  return {
+    status: "matched",
+    recordId: best.project.id,
+    name: best.project.name,
+    confidence: best.confidence,
+    matchedBy: best.matchedBy,
+  };
+}
+
+/**
+ * Matches a free-text client against the client names known from Projects.
+ */
+export function matchClient(client: string | null, projects: ProjectRecord[]): ClientResolution {
+  if (!client || !client.trim()) {
+    return { status: "unresolved", reason: "no_client" };
+  }
+
+  const names = Array.from(
+    new Set(projects.map((p) => p.clientName).filter((n): n is string => !!n))
+  );
+  const normalizedInput = normalizeText(client);
+
+  const exact = names.find((n) => normalizeText(n) === normalizedInput);
+  if (exact) {
+    return { status: "matched", name: exact, confidence: 0.95 };
+  }
+
+  const scored = names
+    .map((name) => ({ name, confidence: Math.round(tokenOverlap(normalizedInput, name) * 0.8 * 100) / 100 }))
+    .filter((s) => s.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  if (scored.length === 0) {
+    return { status: "unresolved", reason: "no_match" };
+  }
+  if (scored[1] && scored[0].confidence - scored[1].confidence < AMBIGUITY_MARGIN) {
+    return { status: "unresolved", reason: "ambiguous" };
+  }
+
+  return { status: "matched", name: scored[0].name, confidence: scored[0].confidence };
+}
+
+// =============================================================================
+// AIRTABLE LOADING
+// =============================================================================
+
+function asText(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number") return String(value);
+  if (Array.isArray(value) && value.length > 0) return asText(value[0]);
+  return null;
+}
+
+/**
+ * Loads every project from the Client PM OS Projects table (follows pagination).
+ */
+export async function loadProjects(): Promise<ProjectRecord[]> {
+  const apiKey = config.airtableApiKey;
+  const baseId = config.clientPmOsBaseId;
+  if (!apiKey || !baseId) {
+    throw new Error("Project resolution requires AIRTABLE_API_KEY and CLIENT_PM_OS_BASE_ID");
+  }
+
+  const projects: ProjectRecord[] = [];
+  const records = await getAirtableClient(baseId).listRecords(tables.projects, {
+    fields: Object.values(projectFields),
+  });
+
+  for (const record of records) {
+    const name = asText(record.fields[projectFields.name]);
+    if (!name) continue;
+    const aliases = asText(record.fields[projectFields.aliases]);
+    projects.push({
+      id: record.id,
+      name,
+      jobNumber: asText(record.fields[projectFields.jobNumber]),
+      clientName: asText(record.fields[projectFields.clientName]),
+      aliases: aliases ? aliases.split(/[,;\n]/).map((a) => a.trim()).filter(Boolean) : [],
+    });
+  }
+
+  return projects;
+}
+
+/**
+ * Creates a resolver that loads Projects at most once, so a whole batch of
+ * items shares a single table scan.
+ */
+export function createProjectResolver(load: () => Promise<ProjectRecord[]> = loadProjects) {
+  let projectsPromise: Promise<ProjectRecord[]> | null = null;
+
+  return async function resolve(
+    project: string | null,
+    client: string | null
+  ): Promise<{ project: ProjectResolution; client: ClientResolution }> {
+    projectsPromise ??= load();
+    const projects = await projectsPromise;
+    return {
+      project: matchProject(project, client, projects),
+      client: matchClient(client, projects),
+    };
+  };
+}
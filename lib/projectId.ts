@@ -9,6 +9,8 @@
  * Never pass hiveOsProjectRecordId into Client PM OS automations.
  */
 
+import { logger } from "./logger";
+
 /**
  * Validates that a value is a valid Airtable record ID (starts with "rec").
  */
@@ -70,7 +72,7 @@ export function resolveClientPmProjectRecordId(
 }
 
 /**
- * Debug logging — prints both IDs when present. Never logs secrets.
+ * Logs both IDs when present (PROJECT_IDS). Never logs secrets.
  */
 export function logProjectRouteDebug(params: {
   route: string;
@@ -86,14 +88,11 @@ export function logProjectRouteDebug(params: {
     baseId,
     tableName,
   } = params;
-  const parts: string[] = [
-    `route=${route}`,
-    `clientPmProjectRecordId=${clientPmProjectRecordId}`,
-  ];
-  if (hiveOsProjectRecordId) {
-    parts.push(`hiveOsProjectRecordId=${hiveOsProjectRecordId}`);
-  }
-  if (baseId) parts.push(`baseId=${baseId}`);
-  if (tableName) parts.push(`tableName=${tableName}`);
-  console.log(`[pm-intake-api] ${parts.join(", ")}`);
+  logger.info("PROJECT_IDS", {
+    route,
+    clientPmProjectRecordId,
+    hiveOsProjectRecordId: hiveOsProjectRecordId ?? undefined,
+    baseId,
+    tableName,
+  });
 }
@@ -1,54 +1,47 @@
 /**
  * Cross-base project record ID mapping.
  *
- * Two Airtable bases:
- * - Client PM OS: Projects table with "Hive OS Project Record ID" field
- * - HIVE OS: Projects table with "Client PM OS Project Record ID" field
+ * Two Airtable bases (field names from the schema registry, ./schema):
+ * - Client PM OS: Projects table with project.hiveOsProjectRecordId
+ * - HIVE OS: Projects table with project.clientPmOsProjectRecordId
  *
  * Mapping is stored on BOTH records. Input either ID, output both.
  */
 
-import { config, tables } from "./config";
-
-const AIRTABLE_API = "https://api.airtable.com/v0";
-
-// Field names for cross-base mapping (stored on both records)
-const CLIENT_PM_OS_FIELD_HIVE_OS_ID = "Hive OS Project Record ID";
-const HIVE_OS_FIELD_CLIENT_PM_ID = "Client PM OS Project Record ID";
+import { config } from "./config";
+import { AirtableApiError, getAirtableClient } from "./airtable";
+import { getSchema, loadSchema } from "./schema";
+import { logger } from "./logger";
 
 export interface ProjectIdMapping {
   clientPmProjectRecordId: string;
   hiveOsProjectRecordId: string | null;
 }
 
-async function getRecord(
+/**
+ * Fetches a Projects record from `base`, returning its fields (or null).
+ */
+async function getProjectFields(
+  base: "clientPmOs" | "hiveOs",
   baseId: string,
-  tableName: string,
   recordId: string
 ): Promise<Record<string, unknown> | null> {
   const apiKey = config.airtableApiKey;
   if (!apiKey) {
-    console.warn("[projectMapping] AIRTABLE_API_KEY not configured");
+    logger.warn("PROJECT_MAPPING_CONFIG_ERROR", { missing: ["AIRTABLE_API_KEY"] });
     return null;
   }
 
-  const url = `${AIRTABLE_API}/${baseId}/${encodeURIComponent(tableName)}/${recordId}`;
-  const res = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!res.ok) {
-    if (res.status === 404) return null;
-    const text = await res.text();
-    console.warn("[projectMapping] Airtable fetch failed:", res.status, text.slice(0, 200));
+  try {
+    const client = getAirtableClient(baseId);
+    const schema = await loadSchema(base, client);
+    const record = await client.getRecord(schema.table(base, "project"), recordId);
+    return record?.fields ?? null;
+  } catch (err: any) {
+    if (err instanceof AirtableApiError && err.isNotFound) return null;
+    logger.warn("PROJECT_MAPPING_FETCH_ERROR", { base, recordId, error: err?.message ?? String(err) });
     return null;
   }
-
-  const data = (await res.json()) as { id: string; fields: Record<string, unknown> };
-  return data?.fields ?? null;
 }
 
 /**
@@ -62,10 +55,9 @@ export async function resolveProjectIds(input: {
 }): Promise<ProjectIdMapping | null> {
   const clientPmBase = config.clientPmOsBaseId;
   const hiveOsBase = config.hiveOsBaseId;
-  const tableName = tables.projects;
 
   if (!clientPmBase || !hiveOsBase) {
-    console.warn("[projectMapping] Base IDs not configured: clientPmOsBaseId, hiveOsBaseId");
+    logger.warn("PROJECT_MAPPING_CONFIG_ERROR", { missing: ["CLIENT_PM_OS_BASE_ID", "HIVE_OS_BASE_ID"] });
     return null;
   }
 
@@ -73,10 +65,10 @@ export async function resolveProjectIds(input: {
 
   // Case 1: We have clientPmProjectRecordId — fetch from Client PM OS, get Hive OS ID
   if (inputClientPm && inputClientPm.trim().startsWith("rec")) {
-    const fields = await getRecord(clientPmBase, tableName, inputClientPm.trim());
+    const fields = await getProjectFields("clientPmOs", clientPmBase, inputClientPm.trim());
     if (!fields) return null;
 
-    const hiveOsId = fields[CLIENT_PM_OS_FIELD_HIVE_OS_ID];
+    const hiveOsId = fields[getSchema().field("clientPmOs", "project.hiveOsProjectRecordId")];
     const hiveOsProjectRecordId =
       typeof hiveOsId === "string" && hiveOsId.trim().startsWith("rec") ? hiveOsId.trim() : null;
 
@@ -88,17 +80,15 @@ export async function resolveProjectIds(input: {
 
   // Case 2: We have hiveOsProjectRecordId — fetch from HIVE OS, get Client PM OS ID
   if (inputHiveOs && inputHiveOs.trim().startsWith("rec")) {
-    const fields = await getRecord(hiveOsBase, tableName, inputHiveOs.trim());
+    const fields = await getProjectFields("hiveOs", hiveOsBase, inputHiveOs.trim());
     if (!fields) return null;
 
-    const clientPmId = fields[HIVE_OS_FIELD_CLIENT_PM_ID];
+    const clientPmId = fields[getSchema().field("hiveOs", "project.clientPmOsProjectRecordId")];
     const clientPmProjectRecordId =
       typeof clientPmId === "string" && clientPmId.trim().startsWith("rec") ? clientPmId.trim() : null;
 
     if (!clientPmProjectRecordId) {
-      console.warn(
-        "[projectMapping] HIVE OS record has no Client PM OS Project Record ID — cannot resolve"
-      );
+      logger.warn("PROJECT_MAPPING_UNLINKED", { hiveOsProjectRecordId: inputHiveOs.trim() });
       return null;
     }
 
@@ -119,10 +109,9 @@ export async function verifyClientPmProjectExists(
   clientPmProjectRecordId: string
 ): Promise<boolean> {
   const clientPmBase = config.clientPmOsBaseId;
-  const tableName = tables.projects;
 
   if (!clientPmBase) return false;
 
-  const fields = await getRecord(clientPmBase, tableName, clientPmProjectRecordId);
+  const fields = await getProjectFields("clientPmOs", clientPmBase, clientPmProjectRecordId);
   return fields !== null;
 }
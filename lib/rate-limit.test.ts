@@ -0,0 +1,82 @@
+/**
+ * Tests for rate-limit.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  MemoryRateLimitStore,
+  checkRateLimit,
+  parseDailyQuotas,
+  parseRateLimits,
+  rateLimitHeaders,
+  useQuota,
+  type RateLimitRule,
+} from "./rate-limit";
+
+const rules: RateLimitRule[] = [
+  { burst: 100, perMinute: 100 },
+  { route: "/api/generate-doc", burst: 2, perMinute: 6 },
+  { route: "/api/generate-doc", key: "trusted", burst: 50, perMinute: 50 },
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("checkRateLimit", () => {
+  it("allows a burst, then refills at the configured rate", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new MemoryRateLimitStore();
+    const at = (seconds: number) => ({ rules, store, now: new Date(Date.UTC(2026, 9, 1, 12, 0, seconds)) });
+
+    expect((await checkRateLimit("/api/generate-doc", "automation", at(0))).ok).toBe(true);
+    expect((await checkRateLimit("/api/generate-doc", "automation", at(0))).ok).toBe(true);
+
+    const limited = await checkRateLimit("/api/generate-doc", "automation", at(1));
+    expect(limited).toMatchObject({ ok: false, status: 429, retryAfterSeconds: 9 });
+    expect(rateLimitHeaders(limited)).toEqual({ "Retry-After": "9", "X-RateLimit-Limit": "2", "X-RateLimit-Remaining": "0" });
+
+    // 6/min = one token every 10s
+    expect((await checkRateLimit("/api/generate-doc", "automation", at(10))).ok).toBe(true);
+    expect((await checkRateLimit("/api/generate-doc", "automation", at(11))).ok).toBe(false);
+  });
+
+  it("keeps separate buckets per key and route and applies the most specific rule", async () => {
+    const store = new MemoryRateLimitStore();
+    const options = { rules, store, now: new Date() };
+
+    await checkRateLimit("/api/generate-doc", "a", options);
+    await checkRateLimit("/api/generate-doc", "a", options);
+
+    expect((await checkRateLimit("/api/generate-doc", "b", options)).ok).toBe(true);
+    expect(await checkRateLimit("/api/pm-intake", "a", options)).toMatchObject({ ok: true, limit: 100 });
+    expect(await checkRateLimit("/api/generate-doc", "trusted", options)).toMatchObject({ ok: true, limit: 50 });
+  });
+});
+
+describe("useQuota", () => {
+  it("counts per key per UTC day and retries after midnight", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new MemoryRateLimitStore();
+    const quotas = [{ operation: "gpt" as const, limit: 2 }];
+    const evening = { rules: quotas, store, now: new Date("2026-10-01T23:00:00Z") };
+
+    expect(await useQuota("gpt", "automation", evening)).toMatchObject({ ok: true, remaining: 1 });
+    expect(await useQuota("gpt", "automation", evening)).toMatchObject({ ok: true, remaining: 0 });
+    expect(await useQuota("gpt", "automation", evening)).toMatchObject({ ok: false, retryAfterSeconds: 3600 });
+    expect((await useQuota("doc-create", "automation", evening)).ok).toBe(true);
+
+    const nextDay = { ...evening, now: new Date("2026-10-02T00:00:01Z") };
+    expect((await useQuota("gpt", "automation", nextDay)).ok).toBe(true);
+  });
+});
+
+describe("parseRateLimits / parseDailyQuotas", () => {
+  it("rejects non-positive limits and unknown operations", () => {
+    expect(parseRateLimits('[{ "route": "/api/generate-doc", "burst": 1, "perMinute": 2 }]')).toHaveLength(1);
+    expect(() => parseRateLimits('[{ "burst": 0, "perMinute": 2 }]')).toThrow();
+    expect(() => parseDailyQuotas('[{ "operation": "drive", "limit": 5 }]')).toThrow();
+  });
+});
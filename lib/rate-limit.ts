@@ -0,0 +1,318 @@
+/**
+ * Per-key rate limits and daily quotas.
+ *
+ * Every authenticated route takes one token from a bucket per API key and
+ * route (checkRateLimit). Buckets hold up to `burst` tokens and refill at
+ * `perMinute`. Costly operations (GPT calls, Docs created from a template)
+ * also count against a per-key daily quota that resets at midnight UTC
+ * (useQuota). Either one running out means 429 with Retry-After.
+ *
+ * Limits are DEFAULT_LIMITS / DEFAULT_QUOTAS, overridden by RATE_LIMITS and
+ * DAILY_QUOTAS (JSON arrays of the same rule shape). For each request the
+ * most specific rule applies: route + key, then route, then key, then the
+ * catch-all; among equally specific rules the last one wins.
+ *
+ * State lives in a RateLimitStore. The default MemoryRateLimitStore counts
+ * per instance; setRateLimitStore() plugs in a shared one.
+ */
+
+import { z } from "zod";
+import { config } from "./config";
+import { logger } from "./logger";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BucketLimit {
+  /** Bucket size: requests allowed at once after a quiet period */
+  burst: number;
+  /** Refill rate */
+  perMinute: number;
+}
+
+export interface RateLimitRule extends BucketLimit {
+  /** e.g. "/api/generate-doc"; omitted = every route */
+  route?: string;
+  /** API key name; omitted = every key */
+  key?: string;
+}
+
+export const QUOTA_OPERATIONS = ["gpt", "doc-create"] as const;
+
+export type QuotaOperation = (typeof QUOTA_OPERATIONS)[number];
+
+export interface QuotaRule {
+  operation: QuotaOperation;
+  key?: string;
+  /** Allowed per key per UTC day */
+  limit: number;
+}
+
+export type RateLimitResult =
+  | { ok: true; limit: number; remaining: number }
+  | { ok: false; status: 429; reason: string; limit: number; retryAfterSeconds: number };
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+/**
+ * Where bucket and counter state lives. Each method must be atomic for its
+ * key, since concurrent requests for one key race on it.
+ */
+export interface RateLimitStore {
+  /**
+   * Refills the bucket at `key` for the time since it was last used, then
+   * takes one token if there is one. `retryAfterMs` is how long until the
+   * next token when none was taken.
+   */
+  take(key: string, limit: BucketLimit, now: number): Promise<{ allowed: boolean; remaining: number; retryAfterMs: number }>;
+
+  /**
+   * Adds one to the counter at `key` unless it already reached `max`. The
+   * counter may be discarded after `expiresAt` (ms).
+   */
+  increment(key: string, max: number, expiresAt: number, now: number): Promise<{ allowed: boolean; count: number }>;
+}
+
+/**
+ * Per-instance store. Idle entries are dropped once it holds `maxEntries`.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  async take(key: string, limit: BucketLimit, now: number) {
+    const perMs = limit.perMinute / 60_000;
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+    let tokens = bucket ? Math.min(limit.burst, bucket.tokens + elapsed * perMs) : limit.burst;
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    if (!bucket) this.prune(this.buckets, now, (b) => b.fullAt);
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + (limit.burst - tokens) / perMs });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / perMs),
+    };
+  }
+
+  async increment(key: string, max: number, expiresAt: number, now: number) {
+    const counter = this.counters.get(key);
+    const count = counter && counter.expiresAt > now ? counter.count : 0;
+
+    if (count >= max) return { allowed: false, count };
+
+    if (!counter) this.prune(this.counters, now, (c) => c.expiresAt);
+    this.counters.set(key, { count: count + 1, expiresAt });
+    return { allowed: true, count: count + 1 };
+  }
+
+  private prune<T>(entries: Map<string, T>, now: number, idleAt: (entry: T) => number): void {
+    if (entries.size < this.maxEntries) return;
+    for (const [key, entry] of entries) {
+      if (idleAt(entry) <= now) entries.delete(key);
+    }
+    // Still full: drop the oldest insertions
+    while (entries.size >= this.maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Replaces the store, e.g. with one backed by a shared cache so limits hold
+ * across serverless instances.
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+export const DEFAULT_LIMITS: RateLimitRule[] = [
+  { burst: 60, perMinute: 120 },
+  // GPT-4o call plus a Drive copy per request
+  { route: "/api/generate-doc", burst: 5, perMinute: 10 },
+  { route: "/api/create-project-folder", burst: 10, perMinute: 30 },
+];
+
+export const DEFAULT_QUOTAS: QuotaRule[] = [
+  { operation: "gpt", limit: 500 },
+  { operation: "doc-create", limit: 500 },
+];
+
+const positiveInt = z.number().int().positive();
+
+const RateLimitRuleListSchema = z.array(
+  z.object({
+    route: z.string().trim().min(1).optional(),
+    key: z.string().trim().min(1).optional(),
+    burst: positiveInt,
+    perMinute: positiveInt,
+  })
+);
+
+const QuotaRuleListSchema = z.array(
+  z.object({
+    operation: z.enum(QUOTA_OPERATIONS),
+    key: z.string().trim().min(1).optional(),
+    limit: z.number().int().nonnegative(),
+  })
+);
+
+/**
+ * Parses RATE_LIMITS. Throws with the zod message if invalid.
+ */
+export function parseRateLimits(raw: string): RateLimitRule[] {
+  return raw ? RateLimitRuleListSchema.parse(JSON.parse(raw)) : [];
+}
+
+/**
+ * Parses DAILY_QUOTAS. Throws with the zod message if invalid.
+ */
+export function parseDailyQuotas(raw: string): QuotaRule[] {
+  return raw ? QuotaRuleListSchema.parse(JSON.parse(raw)) : [];
+}
+
+function loadRules<T>(source: string, raw: string, parse: (raw: string) => T[], defaults: T[]): T[] {
+  try {
+    return [...defaults, ...parse(raw)];
+  } catch (err: any) {
+    logger.error("RATE_LIMIT_CONFIG_ERROR", { source, error: err?.message ?? String(err) });
+    return defaults;
+  }
+}
+
+let cachedLimits: RateLimitRule[] | null = null;
+let cachedQuotas: QuotaRule[] | null = null;
+
+function getLimits(): RateLimitRule[] {
+  if (!cachedLimits) cachedLimits = loadRules("RATE_LIMITS", config.rateLimits, parseRateLimits, DEFAULT_LIMITS);
+  return cachedLimits;
+}
+
+function getQuotas(): QuotaRule[] {
+  if (!cachedQuotas) cachedQuotas = loadRules("DAILY_QUOTAS", config.dailyQuotas, parseDailyQuotas, DEFAULT_QUOTAS);
+  return cachedQuotas;
+}
+
+/**
+ * The most specific rule for `key`; ties go to the later rule.
+ * `matchesScope` is true for a rule scoped to this route or operation, false
+ * for one scoped to another, and undefined for an unscoped rule.
+ */
+function pickRule<T extends { key?: string }>(
+  rules: T[],
+  key: string,
+  matchesScope: (rule: T) => boolean | undefined
+): T | undefined {
+  let best: T | undefined;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    const scoped = matchesScope(rule);
+    if (scoped === false || (rule.key !== undefined && rule.key !== key)) continue;
+    const score = (scoped ? 2 : 0) + (rule.key !== undefined ? 1 : 0);
+    if (score >= bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Takes a token for `keyName` on `route`. Call after authentication.
+ */
+export async function checkRateLimit(
+  route: string,
+  keyName: string,
+  options: { rules?: RateLimitRule[]; store?: RateLimitStore; now?: Date } = {}
+): Promise<RateLimitResult> {
+  // A rule with a route matches only that route; without one, every route
+  const rule = pickRule(options.rules ?? getLimits(), keyName, (r) => (r.route === undefined ? undefined : r.route === route));
+  if (!rule) return { ok: true, limit: Infinity, remaining: Infinity };
+
+  const now = (options.now ?? new Date()).getTime();
+  const taken = await (options.store ?? store).take(`${route}|${keyName}`, rule, now);
+
+  if (taken.allowed) {
+    return { ok: true, limit: rule.burst, remaining: taken.remaining };
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil(taken.retryAfterMs / 1000));
+  logger.warn("RATE_LIMITED", { key: keyName, route, burst: rule.burst, perMinute: rule.perMinute, retryAfterSeconds });
+  return {
+    ok: false,
+    status: 429,
+    reason: `Rate limit exceeded for API key "${keyName}" on ${route} (${rule.perMinute}/min)`,
+    limit: rule.burst,
+    retryAfterSeconds,
+  };
+}
+
+/**
+ * Counts one `operation` against `keyName`'s quota for today (UTC). Call
+ * just before the costly step, so requests rejected earlier don't count.
+ */
+export async function useQuota(
+  operation: QuotaOperation,
+  keyName: string,
+  options: { rules?: QuotaRule[]; store?: RateLimitStore; now?: Date } = {}
+): Promise<RateLimitResult> {
+  const rule = pickRule(options.rules ?? getQuotas(), keyName, (r) => r.operation === operation);
+  if (!rule) return { ok: true, limit: Infinity, remaining: Infinity };
+
+  const now = options.now ?? new Date();
+  const day = now.toISOString().slice(0, 10);
+  const resetAt = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  const counted = await (options.store ?? store).increment(
+    `${operation}|${keyName}|${day}`,
+    rule.limit,
+    resetAt,
+    now.getTime()
+  );
+
+  if (counted.allowed) {
+    return { ok: true, limit: rule.limit, remaining: rule.limit - counted.count };
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - now.getTime()) / 1000));
+  logger.warn("QUOTA_EXCEEDED", { key: keyName, operation, limit: rule.limit, retryAfterSeconds });
+  return {
+    ok: false,
+    status: 429,
+    reason: `Daily ${operation} quota of ${rule.limit} reached for API key "${keyName}"`,
+    limit: rule.limit,
+    retryAfterSeconds,
+  };
+}
+
+/**
+ * Headers for a 429 response.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  if (result.ok) return {};
+  return {
+    "Retry-After": String(result.retryAfterSeconds),
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": "0",
+  };
+}
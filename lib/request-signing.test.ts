@@ -0,0 +1,72 @@
+/**
+ * Tests for request-signing.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHmac } from "node:crypto";
+import { NonceCache, computeSignature, readSignedRequest, signRequest } from "./request-signing";
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+const BODY = JSON.stringify({ subject: "Héllo \"quoted\"" });
+
+const ENDPOINT = "http://localhost/api/inbox/email";
+
+function signedRequest(headers: Record<string, string>, body = BODY): Request {
+  return new Request(ENDPOINT, { method: "POST", headers, body });
+}
+
+describe("signRequest", () => {
+  it("signs timestamp.METHOD.path.body with HMAC-SHA256", () => {
+    const headers = signRequest("secret", "post", `${ENDPOINT}?dryRun=1`, BODY, NOW);
+    const timestamp = String(NOW.getTime() / 1000);
+    const expected = createHmac("sha256", "secret")
+      .update(`${timestamp}.POST./api/inbox/email?dryRun=1.${BODY}`)
+      .digest("hex");
+
+    expect(headers).toEqual({ "x-signature-timestamp": timestamp, "x-signature": `sha256=${expected}` });
+    expect(computeSignature("secret", timestamp, "POST", "/api/inbox/email?dryRun=1", BODY)).toBe(expected);
+  });
+});
+
+describe("readSignedRequest", () => {
+  it("returns null for unsigned requests and leaves the body readable", async () => {
+    expect(await readSignedRequest(signedRequest({}), 300, NOW)).toBeNull();
+
+    const req = signedRequest(signRequest("secret", "POST", ENDPOINT, BODY, NOW));
+    const check = await readSignedRequest(req, 300, NOW);
+    expect(check).toMatchObject({
+      ok: true,
+      request: { method: "POST", path: "/api/inbox/email", body: BODY, timestamp: NOW.getTime() / 1000 },
+    });
+    expect(await req.json()).toEqual(JSON.parse(BODY));
+  });
+
+  it("rejects malformed headers and timestamps outside the window", async () => {
+    const stale = signRequest("secret", "POST", ENDPOINT, BODY, new Date(NOW.getTime() - 301_000));
+
+    expect(await readSignedRequest(signedRequest(stale), 300, NOW)).toEqual({
+      ok: false,
+      reason: "Signature timestamp outside the 300s window",
+    });
+    expect(await readSignedRequest(signedRequest({ "x-signature": "abc" }), 300, NOW)).toMatchObject({ ok: false });
+    expect(
+      await readSignedRequest(signedRequest({ "x-signature": "0".repeat(64) }), 300, NOW)
+    ).toEqual({ ok: false, reason: "Missing or invalid x-signature-timestamp header" });
+  });
+});
+
+describe("NonceCache", () => {
+  it("rejects a nonce until it expires and stays bounded", () => {
+    const cache = new NonceCache(2);
+
+    expect(cache.add("a", 1_000, 0)).toBe(true);
+    expect(cache.add("a", 1_000, 500)).toBe(false);
+    expect(cache.add("a", 2_000, 1_000)).toBe(true);
+
+    cache.add("b", 5_000, 1_000);
+    cache.add("c", 5_000, 1_000);
+    expect(cache.size).toBe(2);
+  });
+});
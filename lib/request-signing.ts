@@ -0,0 +1,175 @@
+/**
+ * HMAC-SHA256 request signing for inbound webhooks.
+ *
+ * Instead of sending its API key in a header, a client can sign each request
+ * with that key:
+ *
+ *   x-signature-timestamp: <unix seconds>
+ *   x-signature: sha256=<hex HMAC-SHA256(key, "<timestamp>.<METHOD>.<path>.<raw body>")>
+ *
+ * `path` is the URL path and query string as sent, e.g. /api/inbox/email or
+ * /api/generate-doc?dryRun=1. The key itself never leaves the client. A
+ * captured request stops working once it falls outside the time window, and
+ * within the window the nonce cache rejects a second copy (per instance).
+ * Signing the method and path means a copy can't be replayed against another
+ * route that takes the same scope and body. The signature doubles as the
+ * nonce. Clients retrying a delivery must re-sign it with a fresh timestamp.
+ *
+ * lib/auth.ts (authenticateSigned) matches the signature against every
+ * configured key. apps-script/request-signing.gs is the Apps Script
+ * counterpart of signRequest().
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const SIGNATURE_HEADER = "x-signature";
+export const TIMESTAMP_HEADER = "x-signature-timestamp";
+
+// =============================================================================
+// SIGNING
+// =============================================================================
+
+/**
+ * The signed part of a URL: its path and query string.
+ */
+export function signedPath(url: string): string {
+  const { pathname, search } = new URL(url);
+  return pathname + search;
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<METHOD>.<path>.<body>".
+ */
+export function computeSignature(
+  secret: string,
+  timestamp: string | number,
+  method: string,
+  path: string,
+  body: string
+): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${method.toUpperCase()}.${path}.${body}`).digest("hex");
+}
+
+/**
+ * Headers for a `method` request to `url` with `body`; used by callbacks,
+ * tests and Node clients.
+ */
+export function signRequest(
+  secret: string,
+  method: string,
+  url: string,
+  body: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: `sha256=${computeSignature(secret, timestamp, method, signedPath(url), body)}`,
+  };
+}
+
+/**
+ * Constant-time comparison of a provided hex signature with the expected one.
+ */
+export function signatureMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided, "utf8");
+  const b = Buffer.from(expected, "utf8");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+export interface SignedRequest {
+  timestamp: number;
+  /** Hex digest without the "sha256=" prefix */
+  signature: string;
+  method: string;
+  /** signedPath() of the request URL */
+  path: string;
+  body: string;
+}
+
+export type SignatureCheck =
+  | { ok: true; request: SignedRequest }
+  | { ok: false; reason: string };
+
+/**
+ * Reads the signature headers and raw body, and checks the timestamp is
+ * within `toleranceSeconds` of now. Returns null when the request is not
+ * signed. The body is read from a clone, so the route can still call
+ * req.json().
+ */
+export async function readSignedRequest(
+  req: Request,
+  toleranceSeconds: number,
+  now: Date = new Date()
+): Promise<SignatureCheck | null> {
+  const header = (req.headers.get(SIGNATURE_HEADER) || "").trim();
+  if (!header) return null;
+
+  const signature = header.replace(/^sha256=/i, "").toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(signature)) {
+    return { ok: false, reason: `Malformed ${SIGNATURE_HEADER} header` };
+  }
+
+  const rawTimestamp = (req.headers.get(TIMESTAMP_HEADER) || "").trim();
+  if (!/^\d+$/.test(rawTimestamp)) {
+    return { ok: false, reason: `Missing or invalid ${TIMESTAMP_HEADER} header` };
+  }
+
+  const timestamp = Number(rawTimestamp);
+  const skew = Math.abs(now.getTime() / 1000 - timestamp);
+  if (skew > toleranceSeconds) {
+    return { ok: false, reason: `Signature timestamp outside the ${toleranceSeconds}s window` };
+  }
+
+  return {
+    ok: true,
+    request: { timestamp, signature, method: req.method, path: signedPath(req.url), body: await req.clone().text() },
+  };
+}
+
+// =============================================================================
+// NONCE CACHE
+// =============================================================================
+
+/**
+ * Remembers signatures until they expire. In-memory, so it protects one
+ * instance; a replay that reaches another serverless instance is still
+ * bounded by the time window.
+ */
+export class NonceCache {
+  private readonly seen = new Map<string, number>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  /**
+   * Records `nonce` until `expiresAt` (ms). Returns false if it was already
+   * recorded and has not expired.
+   */
+  add(nonce: string, expiresAt: number, now: number = Date.now()): boolean {
+    const existing = this.seen.get(nonce);
+    if (existing !== undefined && existing > now) return false;
+
+    this.prune(now);
+    this.seen.set(nonce, expiresAt);
+    return true;
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  private prune(now: number): void {
+    for (const [nonce, expiresAt] of this.seen) {
+      if (expiresAt <= now) this.seen.delete(nonce);
+    }
+    // Still full: drop the oldest insertions
+    while (this.seen.size >= this.maxEntries) {
+      const oldest = this.seen.keys().next().value as string;
+      this.seen.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for schema-check.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { AirtableClient } from "./airtable";
+import { SchemaRegistry } from "./airtable-schema";
+import { formatSchemaReport, runSchemaCheck } from "./schema-check";
+
+const schema = new SchemaRegistry({
+  crm: {
+    baseId: "appSHARED",
+    tables: { company: { name: "Companies", fields: { domain: { name: "Domain" } } } },
+  },
+  sales: {
+    baseId: "appSHARED",
+    tables: {
+      deal: {
+        name: "Deals",
+        fields: { company: { name: "Company", type: "multipleRecordLinks", linkedTable: "company" } },
+      },
+    },
+  },
+  archive: { baseId: "", tables: {} },
+});
+
+const metadata = [
+  { id: "tblCO", name: "Companies", primaryFieldId: "fldD", fields: [{ id: "fldD", name: "Domain", type: "singleLineText" }] },
+];
+
+describe("runSchemaCheck", () => {
+  it("fetches each base ID once and skips unconfigured bases", async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ tables: metadata })));
+    const clientFor = (baseId: string) => new AirtableClient({ apiKey: "key", baseId, fetch });
+
+    const report = await runSchemaCheck({ schema, clientFor });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(report.ok).toBe(false);
+    expect(report.bases.map((b) => [b.base, b.status])).toEqual([
+      ["crm", "ok"],
+      ["sales", "issues"],
+      ["archive", "skipped"],
+    ]);
+    expect(report.bases[1].issues[0]).toMatchObject({ kind: "missing_table", path: "deal" });
+  });
+
+  it("formats a readable summary", async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ tables: metadata })));
+    const report = await runSchemaCheck({
+      schema,
+      clientFor: (baseId) => new AirtableClient({ apiKey: "key", baseId, fetch }),
+    });
+
+    expect(formatSchemaReport(report)).toBe(
+      [
+        "crm (appSHARED): ok",
+        "sales (appSHARED): 1 issue(s)",
+        '  ✗ missing_table deal: Table "Deals" not found',
+        "archive: skipped — Base ID not configured",
+        "Schema check FAILED",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Compares each configured base against the schema registry (./schema) using
+ * the Airtable metadata API, so a renamed or retyped column shows up as a
+ * report line instead of a failed ingestion.
+ *
+ * Used by GET /api/admin/schema-check and `npm run schema:check`.
+ *
+ * Per base it reports:
+ * - missing_table / missing_field: nothing matches the registry's ID or name
+ * - type_mismatch: the field exists but its type differs from the registry's
+ *   (e.g. a linked-record field that is now text)
+ * - link_mismatch: a linked-record field points at a different table than its
+ *   registry `linkedTable`
+ * and lists every linked-record field with the table it actually targets.
+ */
+
+import { getAirtableClient, type AirtableClient, type AirtableTableMetadata } from "./airtable";
+import { findByIdOrName, type BaseSchema, type SchemaRegistry } from "./airtable-schema";
+import { getSchema } from "./schema";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SchemaIssueKind = "missing_table" | "missing_field" | "type_mismatch" | "link_mismatch";
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  /** Logical path: "company" or "company.normalizedDomain" */
+  path: string;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface LinkTarget {
+  /** Logical path of the linked-record field */
+  path: string;
+  /** Name of the table it links to in Airtable, or null if not found */
+  table: string | null;
+}
+
+export type BaseCheckStatus = "ok" | "issues" | "error" | "skipped";
+
+export interface BaseCheck {
+  base: string;
+  baseId: string;
+  status: BaseCheckStatus;
+  issues: SchemaIssue[];
+  links: LinkTarget[];
+  /** Why the base was skipped or could not be read */
+  error?: string;
+}
+
+export interface SchemaCheckReport {
+  ok: boolean;
+  checkedAt: string;
+  bases: BaseCheck[];
+}
+
+// =============================================================================
+// CHECK
+// =============================================================================
+
+/**
+ * Checks one base's registry definition against its metadata.
+ */
+export function checkBaseSchema(
+  base: string,
+  schema: BaseSchema,
+  metadata: AirtableTableMetadata[]
+): BaseCheck {
+  const issues: SchemaIssue[] = [];
+  const links: LinkTarget[] = [];
+  const tableNames = new Map(metadata.map((t) => [t.id, t.name]));
+
+  for (const [tableKey, table] of Object.entries(schema.tables)) {
+    const tableMeta = findByIdOrName(metadata, table);
+    if (!tableMeta) {
+      issues.push({
+        kind: "missing_table",
+        path: tableKey,
+        message: table.id || table.name ? `Table "${table.id ?? table.name}" not found` : "Table name not configured",
+        expected: table.id ?? table.name,
+      });
+      continue;
+    }
+
+    for (const [fieldKey, field] of Object.entries(table.fields)) {
+      const path = `${tableKey}.${fieldKey}`;
+      const fieldMeta = findByIdOrName(tableMeta.fields, field);
+
+      if (!fieldMeta) {
+        issues.push({
+          kind: "missing_field",
+          path,
+          message: `Field "${field.id ?? field.name}" not found in "${tableMeta.name}"`,
+          expected: field.id ?? field.name,
+        });
+        continue;
+      }
+
+      if (field.type && fieldMeta.type !== field.type) {
+        issues.push({
+          kind: "type_mismatch",
+          path,
+          message: `"${fieldMeta.name}" is ${fieldMeta.type}, expected ${field.type}`,
+          expected: field.type,
+          actual: fieldMeta.type,
+        });
+        continue;
+      }
+
+      if (fieldMeta.type !== "multipleRecordLinks") continue;
+
+      const targetId = fieldMeta.options?.linkedTableId;
+      const target = (targetId && tableNames.get(targetId)) || null;
+      links.push({ path, table: target });
+
+      const expectedTable = field.linkedTable ? schema.tables[field.linkedTable] : undefined;
+      const expectedMeta = expectedTable ? findByIdOrName(metadata, expectedTable) : undefined;
+      if (expectedMeta && expectedMeta.id !== targetId) {
+        const actual = target ?? targetId ?? "(none)";
+        issues.push({
+          kind: "link_mismatch",
+          path,
+          message: `"${fieldMeta.name}" links to "${actual}", expected "${expectedMeta.name}"`,
+          expected: expectedMeta.name,
+          actual,
+        });
+      }
+    }
+  }
+
+  return {
+    base,
+    baseId: schema.baseId,
+    status: issues.length > 0 ? "issues" : "ok",
+    issues,
+    links,
+  };
+}
+
+/**
+ * Checks every base in the registry. Bases without a base ID are skipped;
+ * bases sharing an ID fetch metadata once.
+ */
+export async function runSchemaCheck(
+  options: {
+    schema?: SchemaRegistry;
+    clientFor?: (baseId: string) => AirtableClient;
+  } = {}
+): Promise<SchemaCheckReport> {
+  const schema: SchemaRegistry = options.schema ?? getSchema();
+  const clientFor = options.clientFor ?? ((baseId: string) => getAirtableClient(baseId));
+  const metadataByBaseId = new Map<string, Promise<AirtableTableMetadata[]>>();
+  const bases: BaseCheck[] = [];
+
+  for (const base of schema.baseKeys()) {
+    const baseSchema = schema.base(base);
+    const baseId = baseSchema.baseId;
+
+    if (!baseId) {
+      bases.push({ base, baseId, status: "skipped", issues: [], links: [], error: "Base ID not configured" });
+      continue;
+    }
+
+    let metadata = metadataByBaseId.get(baseId);
+    if (!metadata) {
+      metadata = Promise.resolve().then(() => clientFor(baseId).getBaseSchema());
+      metadataByBaseId.set(baseId, metadata);
+    }
+
+    try {
+      bases.push(checkBaseSchema(base, baseSchema, await metadata));
+    } catch (err: any) {
+      bases.push({ base, baseId, status: "error", issues: [], links: [], error: err?.message ?? String(err) });
+    }
+  }
+
+  return {
+    ok: bases.every((b) => b.status === "ok" || b.status === "skipped"),
+    checkedAt: new Date().toISOString(),
+    bases,
+  };
+}
+
+/**
+ * Plain-text rendering of a report for the CLI.
+ */
+export function formatSchemaReport(report: SchemaCheckReport): string {
+  const lines: string[] = [];
+
+  for (const b of report.bases) {
+    const label = b.baseId ? `${b.base} (${b.baseId})` : b.base;
+
+    if (b.status === "skipped" || b.status === "error") {
+      lines.push(`${label}: ${b.status} — ${b.error}`);
+      continue;
+    }
+
+    lines.push(`${label}: ${b.status === "ok" ? "ok" : `${b.issues.length} issue(s)`}`);
+    for (const issue of b.issues) {
+      lines.push(`  ✗ ${issue.kind} ${issue.path}: ${issue.message}`);
+    }
+    for (const link of b.links) {
+      lines.push(`  → ${link.path} links to ${link.table ?? "(unknown table)"}`);
+    }
+  }
+
+  lines.push(report.ok ? "Schema check passed" : "Schema check FAILED");
+  return lines.join("\n");
+}
@@ -0,0 +1,234 @@
+/**
+ * Logical schema for every base this service reads or writes.
+ *
+ * Routes refer to fields as `table.field` (getSchema().field("os",
+ * "company.normalizedDomain")) instead of hard-coding Airtable names, which
+ * differ between bases. Names below are the defaults; AIRTABLE_SCHEMA_FILE can
+ * override them or pin IDs, and AIRTABLE_SCHEMA_FROM_METADATA=true reconciles
+ * each base against the metadata API on first use (see ./airtable-schema).
+ *
+ * pm-intake tables mirror the field maps in ./config, which pm-intake reads
+ * directly.
+ */
+
+import type { AirtableClient } from "./airtable";
+import {
+  SchemaRegistry,
+  loadSchemaFile,
+  type FieldPath,
+  type FieldSchema,
+  type SchemaDefinition,
+} from "./airtable-schema";
+import { config, inboxFields, peopleFields, projectFields, tables } from "./config";
+import { logger } from "./logger";
+
+function named<T extends Record<string, string>>(names: T): { [K in keyof T]: FieldSchema } {
+  return Object.fromEntries(Object.entries(names).map(([key, name]) => [key, { name }])) as {
+    [K in keyof T]: FieldSchema;
+  };
+}
+
+function link(name: string, linkedTable: string): FieldSchema {
+  return { name, type: "multipleRecordLinks", linkedTable };
+}
+
+/** Trace ID column (lib/trace.ts) on records this service creates */
+export const TRACE_ID_FIELD = "Trace ID";
+
+/**
+ * `traceId` on tables that only have the column once it has been added:
+ * defined (so written, and checked by schema:check) only with
+ * AIRTABLE_TRACE_ID_FIELDS=true. Airtable rejects a whole write that names
+ * an unknown field.
+ */
+function traceIdField(): { traceId?: FieldSchema } {
+  return config.airtableTraceIdFields ? { traceId: { name: TRACE_ID_FIELD } } : {};
+}
+
+/**
+ * `traceId` for a write to a table with traceIdField(), or undefined (left
+ * out of the write) while AIRTABLE_TRACE_ID_FIELDS is off.
+ */
+export function recordTraceId(traceId: string | undefined): string | undefined {
+  return config.airtableTraceIdFields ? traceId : undefined;
+}
+
+export const DEFAULT_SCHEMA = {
+  /** Client PM OS: pm-intake Inbox, Projects, Tasks, Decisions */
+  clientPmOs: {
+    baseId: config.clientPmOsBaseId,
+    tables: {
+      inbox: {
+        name: tables.inbox,
+        fields: {
+          ...named(inboxFields),
+          title: { name: "Title" },
+          itemType: { name: "Item Type" },
+          externalKey: { name: "External Key" },
+          linkedProject: link(inboxFields.linkedProject, "project"),
+          needsReview: { name: inboxFields.needsReview, type: "checkbox" },
+          ...traceIdField(),
+        },
+      },
+      project: {
+        name: tables.projects,
+        fields: {
+          ...named(projectFields),
+          hiveOsProjectRecordId: { name: "Hive OS Project Record ID" },
+        },
+      },
+      task: { name: tables.tasks, fields: { ...traceIdField() } },
+      decision: { name: tables.decisions, fields: { ...traceIdField() } },
+    },
+  },
+
+  /** People directory used for pm-intake owner resolution */
+  ownerDirectory: {
+    baseId: config.ownerDirectoryBaseId,
+    tables: {
+      person: { name: tables.people, fields: named(peopleFields) },
+    },
+  },
+
+  /** HIVE OS: Projects carry the Client PM OS record ID */
+  hiveOs: {
+    baseId: config.hiveOsBaseId,
+    tables: {
+      project: {
+        name: tables.projects,
+        fields: {
+          clientPmOsProjectRecordId: { name: "Client PM OS Project Record ID" },
+        },
+      },
+    },
+  },
+
+  /** OS base written by /api/inbox/email */
+  os: {
+    baseId: config.osBaseId,
+    tables: {
+      company: {
+        name: config.osCompaniesTable,
+        fields: {
+          name: { name: "Company Name" },
+          domain: { name: "Domain" },
+          normalizedDomain: { name: "Normalized Domain" },
+          sourceSystem: { name: "Source System" },
+          ...traceIdField(),
+        },
+      },
+      opportunity: {
+        name: config.osOpportunitiesTable,
+        fields: {
+          name: { name: "Opportunity Name" },
+          company: link("Company", "company"),
+          stage: { name: "Stage" },
+          sourceSystem: { name: "Source System" },
+          gmailThreadId: { name: "Gmail Thread ID" },
+          ...traceIdField(),
+        },
+      },
+      inboxItem: {
+        name: config.osInboxItemsTable,
+        fields: {
+          traceId: { name: "Trace ID" },
+          gmailMessageId: { name: "Gmail Message ID" },
+          gmailThreadId: { name: "Gmail Thread ID" },
+          gmailUrl: { name: "Gmail URL" },
+          subject: { name: "Subject" },
+          snippet: { name: "Snippet" },
+          bodyText: { name: "Body Text" },
+          fromEmail: { name: "From Email" },
+          fromName: { name: "From Name" },
+          domain: { name: "Domain" },
+          receivedAt: { name: "Received At" },
+          company: link("Company", "company"),
+          opportunity: link("Opportunity", "opportunity"),
+          disposition: { name: "Disposition" },
+          activityLog: { name: "Activity Log" },
+          rawPayload: { name: "Raw Payload" },
+        },
+      },
+    },
+  },
+
+  /** Client PM OS tables written by /api/os/inbound/gmail */
+  inbound: {
+    baseId: config.inboundBaseId,
+    tables: {
+      company: {
+        name: config.inboundCompaniesTable,
+        fields: {
+          name: { name: "Name" },
+          domain: { name: "domain" },
+          normalizedDomain: { name: "normalizedDomain_text" },
+          website: { name: "Website" },
+          industry: { name: "Industry" },
+          notes: { name: "Notes" },
+          ...traceIdField(),
+        },
+      },
+      opportunity: {
+        name: config.inboundOpportunitiesTable,
+        fields: {
+          name: { name: "Name" },
+          stage: { name: "Stage" },
+          company: link("Company", "company"),
+          contactEmail: { name: "Contact Email" },
+          contactName: { name: "Contact Name" },
+          source: { name: "Source" },
+          notes: { name: "Notes" },
+          inboundMarker: { name: "Inbound Marker" },
+          ...traceIdField(),
+        },
+      },
+    },
+  },
+} satisfies SchemaDefinition;
+
+export type AppSchema = SchemaRegistry<typeof DEFAULT_SCHEMA>;
+export type SchemaBase = keyof typeof DEFAULT_SCHEMA;
+export type SchemaFieldPath<B extends SchemaBase> = FieldPath<typeof DEFAULT_SCHEMA, B>;
+
+let registry: AppSchema | null = null;
+const refreshes = new Map<SchemaBase, Promise<void>>();
+
+/**
+ * The process-wide registry: defaults plus AIRTABLE_SCHEMA_FILE overrides.
+ */
+export function getSchema(): AppSchema {
+  if (!registry) {
+    const defaults = new SchemaRegistry(DEFAULT_SCHEMA);
+    registry = config.airtableSchemaFile
+      ? defaults.withOverrides(loadSchemaFile(config.airtableSchemaFile))
+      : defaults;
+  }
+  return registry;
+}
+
+/**
+ * getSchema(), reconciled against `base`'s metadata the first time it is used
+ * when AIRTABLE_SCHEMA_FROM_METADATA is on. A failed refresh is logged and
+ * retried on the next call; the configured names are used meanwhile.
+ */
+export async function loadSchema(base: SchemaBase, client: AirtableClient): Promise<AppSchema> {
+  const schema = getSchema();
+  if (!config.airtableSchemaFromMetadata) return schema;
+
+  let pending = refreshes.get(base);
+  if (!pending) {
+    pending = schema.refresh(base, client).then(
+      (unresolved) => {
+        if (unresolved.length > 0) logger.warn("SCHEMA_UNRESOLVED", { base, unresolved });
+      },
+      (err: any) => {
+        logger.error("SCHEMA_REFRESH_ERROR", { base, error: err?.message ?? String(err) });
+        refreshes.delete(base);
+      }
+    );
+    refreshes.set(base, pending);
+  }
+
+  await pending;
+  return schema;
+}
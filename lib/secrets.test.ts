@@ -0,0 +1,56 @@
+/**
+ * Tests for secrets.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fingerprint, isExpired, isValidSecretList, parseSecretList } from "./secrets";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("parseSecretList", () => {
+  it("splits values after list: and reads optional expiries", () => {
+    expect(parseSecretList(" list: new-secret , old-secret@2026-11-01 ,, ")).toEqual([
+      { value: "new-secret" },
+      { value: "old-secret", expiresAt: new Date("2026-11-01") },
+    ]);
+    expect(parseSecretList("list:a@b.c")).toEqual([{ value: "a@b.c" }]);
+    expect(parseSecretList("")).toEqual([]);
+  });
+
+  it("takes a setting without list: as one value", () => {
+    expect(parseSecretList(" a,b@2026-11-01 ")).toEqual([{ value: "a,b@2026-11-01" }]);
+  });
+
+  it("rejects impossible dates and missing values", () => {
+    expect(() => parseSecretList("list:old@2026-13-45")).toThrow('Invalid secret expiry "2026-13-45"');
+    expect(() => parseSecretList("list:@2026-11-01")).toThrow();
+    expect(isValidSecretList("list:new,old@2026-11-01T09:00:00Z")).toBe(true);
+    expect(isValidSecretList("old@2026-13-45")).toBe(true);
+  });
+});
+
+describe("isExpired / fingerprint", () => {
+  it("expires at the given moment and fingerprints without the value", () => {
+    const [secret] = parseSecretList("list:old@2026-11-01T00:00:00Z");
+
+    expect(isExpired(secret, new Date("2026-10-31T23:59:59Z"))).toBe(false);
+    expect(isExpired(secret, new Date("2026-11-01T00:00:00Z"))).toBe(true);
+    expect(fingerprint("old")).toMatch(/^hmac:[0-9a-f]{8}$/);
+    expect(fingerprint("old")).not.toBe(fingerprint("new"));
+  });
+
+  it("keys fingerprints with SECRET_FINGERPRINT_KEY", async () => {
+    vi.stubEnv("SECRET_FINGERPRINT_KEY", "deployment-a");
+    vi.resetModules();
+    const a = (await import("./secrets")).fingerprint("old");
+    expect((await import("./secrets")).fingerprint("old")).toBe(a);
+
+    vi.stubEnv("SECRET_FINGERPRINT_KEY", "deployment-b");
+    vi.resetModules();
+    expect((await import("./secrets")).fingerprint("old")).not.toBe(a);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Secret lists, so a shared secret can be rotated without downtime.
+ *
+ * Every inbound secret setting (the legacy per-route variables, and `key` in
+ * API_KEYS) accepts a list of currently valid values, opted into with the
+ * "list:" prefix so an existing secret containing "," or ending in "@<date>"
+ * keeps meaning itself. Values are comma-separated, and each may end in
+ * "@<ISO date>", after which it is no longer accepted:
+ *
+ *   AIRTABLE_PROXY_SECRET=list:new-secret,old-secret@2026-11-01
+ *
+ * Deploy the new value next to the old one, move clients over, then drop
+ * the old value (or let it expire). Values are identified in logs and the
+ * admin status route by fingerprint, never by value.
+ */
+
+import { createHmac, randomBytes } from "node:crypto";
+import { config } from "./config";
+
+export interface SecretValue {
+  value: string;
+  /** Not accepted from this moment on */
+  expiresAt?: Date;
+}
+
+/** Marks a setting as a list of values rather than one value */
+export const SECRET_LIST_PREFIX = "list:";
+
+/** "<value>@<YYYY-MM-DD[THH:MM[:SS][Z|±HH:MM]]>" */
+const EXPIRY_SUFFIX = /@(\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?)$/;
+
+/**
+ * Parses one list entry, "value" or "value@2026-11-01". Throws on an expiry
+ * that is not a valid date, or a value that is empty once its expiry is
+ * removed. An "@" not followed by a date is part of the value.
+ */
+export function parseSecretEntry(entry: string): SecretValue {
+  const match = EXPIRY_SUFFIX.exec(entry);
+  if (!match) return { value: entry };
+
+  const expiresAt = new Date(match[1]);
+  if (Number.isNaN(expiresAt.getTime())) {
+    throw new Error(`Invalid secret expiry "${match[1]}"`);
+  }
+  const value = entry.slice(0, match.index).trim();
+  if (!value) {
+    throw new Error(`Secret value missing before "@${match[1]}"`);
+  }
+  return { value, expiresAt };
+}
+
+/**
+ * Parses a setting: "list:a, b@2026-11-01" is a list (empty entries are
+ * ignored, see parseSecretEntry()); anything else is one value, taken as is
+ * apart from surrounding whitespace.
+ */
+export function parseSecretList(raw: string): SecretValue[] {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith(SECRET_LIST_PREFIX)) {
+    return trimmed ? [{ value: trimmed }] : [];
+  }
+  return trimmed
+    .slice(SECRET_LIST_PREFIX.length)
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(parseSecretEntry);
+}
+
+/**
+ * Whether `raw` parses; used by lib/config.ts to validate secret variables.
+ */
+export function isValidSecretList(raw: string): boolean {
+  try {
+    parseSecretList(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isExpired(secret: SecretValue, now: Date = new Date()): boolean {
+  return secret.expiresAt !== undefined && secret.expiresAt.getTime() <= now.getTime();
+}
+
+// Without SECRET_FINGERPRINT_KEY, fingerprints are only comparable within one instance
+let fingerprintKey: string | Buffer | null = null;
+
+function getFingerprintKey(): string | Buffer {
+  if (fingerprintKey === null) fingerprintKey = config.secretFingerprintKey || randomBytes(32);
+  return fingerprintKey;
+}
+
+/**
+ * Short, stable identifier for a value: the first 8 hex characters of its
+ * HMAC-SHA256 under SECRET_FINGERPRINT_KEY. Keyed, so someone who can read
+ * logs can't test guesses at a secret against it; enough to tell two values
+ * of one setting apart.
+ */
+export function fingerprint(value: string): string {
+  return `hmac:${createHmac("sha256", getFingerprintKey()).update(value).digest("hex").slice(0, 8)}`;
+}
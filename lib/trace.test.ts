@@ -0,0 +1,47 @@
+/**
+ * Tests for trace.ts
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from "vitest";
+import { newTraceId, parseTraceparent, resolveTraceId, traceHeaders, traceIdFromHeaders } from "./trace";
+
+const TRACEPARENT = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+describe("traceIdFromHeaders", () => {
+  it("prefers x-trace-id, then the traceparent trace-id", () => {
+    expect(traceIdFromHeaders(new Headers({ "x-trace-id": "addon_123456", traceparent: TRACEPARENT }))).toBe(
+      "addon_123456"
+    );
+    expect(traceIdFromHeaders(new Headers({ traceparent: TRACEPARENT }))).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(traceIdFromHeaders(new Headers())).toBeNull();
+  });
+
+  it("ignores malformed values", () => {
+    expect(traceIdFromHeaders(new Headers({ "x-trace-id": "short" }))).toBeNull();
+    expect(traceIdFromHeaders(new Headers({ "x-trace-id": "has spaces in it" }))).toBeNull();
+    expect(parseTraceparent("00-00000000000000000000000000000000-00f067aa0ba902b7-01")).toBeNull();
+    expect(parseTraceparent("ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01")).toBeNull();
+    expect(parseTraceparent("not-a-traceparent")).toBeNull();
+  });
+});
+
+describe("resolveTraceId", () => {
+  it("generates a W3C trace-id when the caller sent none", () => {
+    const id = resolveTraceId(new Request("https://example.com"));
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(newTraceId()).not.toBe(id);
+  });
+});
+
+describe("traceHeaders", () => {
+  it("adds a traceparent for W3C trace-ids only", () => {
+    expect(traceHeaders("4bf92f3577b34da6a3ce929d0e0e4736")).toEqual({
+      "x-trace-id": "4bf92f3577b34da6a3ce929d0e0e4736",
+      traceparent: expect.stringMatching(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/),
+    });
+    expect(traceHeaders("addon_123456")).toEqual({ "x-trace-id": "addon_123456" });
+    expect(traceHeaders(undefined)).toEqual({});
+  });
+});
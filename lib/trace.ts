@@ -0,0 +1,68 @@
+/**
+ * Trace IDs: one ID per request that follows it through Airtable records,
+ * Apps Script, the Google APIs and any jobs or callbacks it queues.
+ *
+ * The format is a W3C trace-id: 32 lowercase hex characters. A caller may
+ * supply its own in `x-trace-id` (any 8-128 characters of letters, digits,
+ * ".", "_", "-" or ":") or in a W3C `traceparent` header; otherwise a new one
+ * is generated. Every response carries it back in `x-trace-id`.
+ *
+ * This module has no Node-only imports, so middleware.ts (edge runtime) can
+ * use it. The per-request value lives in the log context (./logger).
+ */
+
+export const TRACE_HEADER = "x-trace-id";
+
+const TRACE_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const W3C_TRACE_ID = /^[0-9a-f]{32}$/;
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function newTraceId(): string {
+  return randomHex(16);
+}
+
+/**
+ * The trace-id of a W3C `traceparent` header, or null if it is malformed.
+ */
+export function parseTraceparent(value: string): string | null {
+  const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+  if (!match) return null;
+  const [, version, traceId, parentId] = match;
+  if (version === "ff" || /^0+$/.test(traceId) || /^0+$/.test(parentId)) return null;
+  return traceId;
+}
+
+/**
+ * The caller's trace ID (`x-trace-id`, then `traceparent`), or null if
+ * neither is present and valid.
+ */
+export function traceIdFromHeaders(headers: Headers): string | null {
+  const explicit = headers.get(TRACE_HEADER)?.trim();
+  if (explicit && TRACE_ID_PATTERN.test(explicit)) return explicit;
+
+  const traceparent = headers.get("traceparent");
+  return traceparent ? parseTraceparent(traceparent) : null;
+}
+
+/**
+ * The caller's trace ID, or a new one.
+ */
+export function resolveTraceId(req: Request): string {
+  return traceIdFromHeaders(req.headers) ?? newTraceId();
+}
+
+/**
+ * Headers that pass `traceId` on to a downstream call: `x-trace-id`, plus a
+ * `traceparent` when it is in the W3C format.
+ */
+export function traceHeaders(traceId: string | undefined): Record<string, string> {
+  if (!traceId) return {};
+  const headers: Record<string, string> = { [TRACE_HEADER]: traceId };
+  if (W3C_TRACE_ID.test(traceId)) headers.traceparent = `00-${traceId}-${randomHex(8)}-01`;
+  return headers;
+}
@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { resolveTraceId, TRACE_HEADER } from "@/lib/trace";
+
+/**
+ * Gives every API request a trace ID (lib/trace.ts) before it reaches its
+ * route: the caller's x-trace-id / traceparent, or a new one. The route sees
+ * it in x-trace-id, and the response carries it back, including routes
+ * without a log context (the 405 stubs).
+ */
+export function middleware(req: NextRequest) {
+  const traceId = resolveTraceId(req);
+
+  const headers = new Headers(req.headers);
+  headers.set(TRACE_HEADER, traceId);
+
+  const res = NextResponse.next({ request: { headers } });
+  res.headers.set(TRACE_HEADER, traceId);
+  return res;
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -16,7 +16,17 @@
 //
 // Environment:
 //   API_URL    – https://pm-intake-api.vercel.app/api/create-project-folder
-//   API_SECRET – The AIRTABLE_PROXY_SECRET value (same as in Vercel env)
+//   API_SECRET – One of the AIRTABLE_PROXY_SECRET values (same as in Vercel env).
+//                During a rotation Vercel accepts both the old and new value,
+//                so automations can be updated one at a time.
+//
+// By default the script waits for the folder and writes the result itself.
+// With USE_CALLBACK the API answers as soon as the request is validated and
+// patches the fields below itself when the folder is ready ("callbackAirtable"),
+// so the automation doesn't wait for Apps Script. Turn it on only when the API
+// runs with a durable job store (see the README "Async jobs"); otherwise it
+// answers 400 and this script records the error. In callback mode the script leaves the record alone, as
+// the job may have written its result by the time the request returns.
 
 // ─── Config ──────────────────────────────────────────────────────────
 const config = input.config();
@@ -26,6 +36,7 @@ const clientName = config.clientName || '';       // Client name for folder rout
 // ⚠️ REPLACE these with your actual values
 const API_URL = 'https://pm-intake-api.vercel.app/api/create-project-folder';
 const API_SECRET = 'YOUR_AIRTABLE_PROXY_SECRET';  // ← replace with actual secret
+const USE_CALLBACK = false;
 
 // ─── Validate clientPmProjectRecordId ─────────────────────────────────
 if (!clientPmProjectRecordId || typeof clientPmProjectRecordId !== 'string' ||
@@ -87,6 +98,7 @@ try {
             projectName,
             ...(parentFolderId ? { parentFolderId } : {}),
             ...(clientName ? { clientName } : {}),
+            ...(USE_CALLBACK ? { async: true, callbackAirtable: true } : {}),
         }),
     });
 
@@ -119,6 +131,9 @@ try {
 output.text(`Response: ${JSON.stringify(result)}`);
 
 // ─── Write results back to Airtable ─────────────────────────────────
+// 202: queued; the API writes the final status, folder ID and URL
+const queued = result.ok && responseStatus === 202;
+
 const updates = {
     'Folder Status': result.ok ? 'created' : 'error',
     'Folder Error': result.ok ? '' : (result.error || `Unknown error (status ${responseStatus})`),
@@ -135,6 +150,12 @@ if (result.ok && result.folderUrl) {
 // Debug logging: clientPmProjectRecordId, route, table
 console.log(`[airtable-create-project-folder] clientPmProjectRecordId=${clientPmProjectRecordId}, route=airtable-create-project-folder, tableName=Projects`);
 
-await table.updateRecordAsync(clientPmProjectRecordId, updates);
+if (!queued) {
+    await table.updateRecordAsync(clientPmProjectRecordId, updates);
+}
 
-output.text(result.ok ? `✅ Folder created: ${result.folderUrl}` : `❌ ${result.error}`);
+if (queued) {
+    output.text(`⏳ Queued as ${result.jobId}; the API will update this record when the folder is ready`);
+} else {
+    output.text(result.ok ? `✅ Folder created: ${result.folderUrl}` : `❌ ${result.error}`);
+}
@@ -0,0 +1,28 @@
+// Schema check — compares the configured Airtable bases against lib/schema.ts
+//
+// Usage:
+//   npm run schema:check            # readable report
+//   npm run schema:check -- --json  # same report as GET /api/admin/schema-check
+//
+// Reads the same environment as the app (AIRTABLE_API_KEY, base IDs, table
+// names, AIRTABLE_SCHEMA_FILE); export them first, e.g. `set -a; . ./.env.local`.
+// Exits 1 when any base has missing tables/fields, type or link mismatches,
+// or cannot be read — so it can gate a deploy.
+
+import { formatSchemaReport, runSchemaCheck } from "../lib/schema-check";
+
+async function main(): Promise<number> {
+  const report = await runSchemaCheck();
+
+  console.log(process.argv.includes("--json") ? JSON.stringify(report, null, 2) : formatSchemaReport(report));
+
+  return report.ok ? 0 : 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error("Schema check crashed:", err?.message ?? err);
+    process.exit(2);
+  }
+);